@@ -2,6 +2,7 @@ import React from 'react';
 import { StatusBar } from 'expo-status-bar';
 import { Platform, View, Text, StyleSheet } from 'react-native';
 import { RootNavigator } from './src/navigation/RootNavigator';
+import { ThemeProvider } from './src/design-system';
 
 export default function App() {
   // Show a helpful message on non-iOS platforms
@@ -20,10 +21,10 @@ export default function App() {
   }
 
   return (
-    <>
+    <ThemeProvider>
       <RootNavigator />
       <StatusBar style="auto" />
-    </>
+    </ThemeProvider>
   );
 }
 
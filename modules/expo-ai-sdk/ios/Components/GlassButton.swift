@@ -48,7 +48,7 @@ struct GlassButton: View {
         }
 
         var material: Material {
-            .regularMaterial
+            DesignSystem.Glass.Materials.button
         }
     }
 
@@ -97,7 +97,13 @@ struct GlassButton: View {
         }
         .buttonStyle(.plain)
         .scaleEffect(isPressed ? 0.95 : 1.0)
-        .animation(.spring(response: 0.3, dampingFraction: 0.6), value: isPressed)
+        .animation(
+            .spring(
+                response: DesignSystem.Glass.Performance.springResponse,
+                dampingFraction: DesignSystem.Glass.Performance.springDampingFraction
+            ),
+            value: isPressed
+        )
         .simultaneousGesture(
             DragGesture(minimumDistance: 0)
                 .onChanged { _ in isPressed = true }
@@ -1,3 +1,6 @@
+// Generated by `yarn tokens:build` from src/design-system/tokens.ts.
+// Do not edit by hand: change the tokens and rebuild.
+
 import SwiftUI
 
 /// Design System Colors for AI SDK UI
@@ -6,79 +9,59 @@ extension Color {
     // MARK: - Semantic Colors (Light Mode)
 
     struct Light {
-        static let background = Color(hex: "FFFFFF")
-        static let foreground = Color(hex: "252525")
-
-        static let card = Color(hex: "FFFFFF")
-        static let cardForeground = Color(hex: "252525")
-
-        static let popover = Color(hex: "FFFFFF")
-        static let popoverForeground = Color(hex: "252525")
-
-        static let primary = Color(hex: "343434")
-        static let primaryForeground = Color(hex: "FCFCFC")
-
-        static let secondary = Color(hex: "F7F7F7")
-        static let secondaryForeground = Color(hex: "343434")
-
-        static let muted = Color(hex: "F7F7F7")
-        static let mutedForeground = Color(hex: "8E8E8E")
-
-        static let accent = Color(hex: "F7F7F7")
-        static let accentForeground = Color(hex: "343434")
-
-        static let destructive = Color(hex: "DC2626")
-        static let destructiveForeground = Color(hex: "FCFCFC")
-
-        static let border = Color(hex: "EBEBEB")
-        static let input = Color(hex: "EBEBEB")
-        static let ring = Color(hex: "B5B5B5")
-
-        // Chart colors
-        static let chart1 = Color(hex: "F59E0B")
-        static let chart2 = Color(hex: "14B8A6")
-        static let chart3 = Color(hex: "3B82F6")
-        static let chart4 = Color(hex: "84CC16")
-        static let chart5 = Color(hex: "EAB308")
+        static let background = Color(hex: "FFFFFF") // oklch(1 0 0)
+        static let foreground = Color(hex: "0A0A0A") // oklch(0.145 0 0)
+        static let card = Color(hex: "FFFFFF") // oklch(1 0 0)
+        static let cardForeground = Color(hex: "0A0A0A") // oklch(0.145 0 0)
+        static let popover = Color(hex: "FFFFFF") // oklch(1 0 0)
+        static let popoverForeground = Color(hex: "0A0A0A") // oklch(0.145 0 0)
+        static let primary = Color(hex: "171717") // oklch(0.205 0 0)
+        static let primaryForeground = Color(hex: "FAFAFA") // oklch(0.985 0 0)
+        static let secondary = Color(hex: "F5F5F5") // oklch(0.97 0 0)
+        static let secondaryForeground = Color(hex: "171717") // oklch(0.205 0 0)
+        static let muted = Color(hex: "F5F5F5") // oklch(0.97 0 0)
+        static let mutedForeground = Color(hex: "737373") // oklch(0.556 0 0)
+        static let accent = Color(hex: "F5F5F5") // oklch(0.97 0 0)
+        static let accentForeground = Color(hex: "171717") // oklch(0.205 0 0)
+        static let destructive = Color(hex: "E7000B") // oklch(0.577 0.245 27.325)
+        static let destructiveForeground = Color(hex: "FAFAFA") // oklch(0.985 0 0)
+        static let border = Color(hex: "E5E5E5") // oklch(0.922 0 0)
+        static let input = Color(hex: "E5E5E5") // oklch(0.922 0 0)
+        static let ring = Color(hex: "A1A1A1") // oklch(0.708 0 0)
+        static let chart1 = Color(hex: "F54900") // oklch(0.646 0.222 41.116)
+        static let chart2 = Color(hex: "009689") // oklch(0.6 0.118 184.704)
+        static let chart3 = Color(hex: "104E64") // oklch(0.398 0.07 227.392)
+        static let chart4 = Color(hex: "FFBA00") // oklch(0.828 0.189 84.429)
+        static let chart5 = Color(hex: "FD9A00") // oklch(0.769 0.188 70.08)
     }
 
     // MARK: - Semantic Colors (Dark Mode)
 
     struct Dark {
-        static let background = Color(hex: "252525")
-        static let foreground = Color(hex: "FCFCFC")
-
-        static let card = Color(hex: "343434")
-        static let cardForeground = Color(hex: "FCFCFC")
-
-        static let popover = Color(hex: "343434")
-        static let popoverForeground = Color(hex: "FCFCFC")
-
-        static let primary = Color(hex: "EBEBEB")
-        static let primaryForeground = Color(hex: "343434")
-
-        static let secondary = Color(hex: "454545")
-        static let secondaryForeground = Color(hex: "FCFCFC")
-
-        static let muted = Color(hex: "454545")
-        static let mutedForeground = Color(hex: "B5B5B5")
-
-        static let accent = Color(hex: "454545")
-        static let accentForeground = Color(hex: "FCFCFC")
-
-        static let destructive = Color(hex: "EF4444")
-        static let destructiveForeground = Color(hex: "FCFCFC")
-
-        static let border = Color.white.opacity(0.1)
-        static let input = Color.white.opacity(0.15)
-        static let ring = Color(hex: "8E8E8E")
-
-        // Chart colors
-        static let chart1 = Color(hex: "8B5CF6")
-        static let chart2 = Color(hex: "10B981")
-        static let chart3 = Color(hex: "EAB308")
-        static let chart4 = Color(hex: "EC4899")
-        static let chart5 = Color(hex: "F97316")
+        static let background = Color(hex: "0A0A0A") // oklch(0.145 0 0)
+        static let foreground = Color(hex: "FAFAFA") // oklch(0.985 0 0)
+        static let card = Color(hex: "171717") // oklch(0.205 0 0)
+        static let cardForeground = Color(hex: "FAFAFA") // oklch(0.985 0 0)
+        static let popover = Color(hex: "171717") // oklch(0.205 0 0)
+        static let popoverForeground = Color(hex: "FAFAFA") // oklch(0.985 0 0)
+        static let primary = Color(hex: "E5E5E5") // oklch(0.922 0 0)
+        static let primaryForeground = Color(hex: "171717") // oklch(0.205 0 0)
+        static let secondary = Color(hex: "262626") // oklch(0.269 0 0)
+        static let secondaryForeground = Color(hex: "FAFAFA") // oklch(0.985 0 0)
+        static let muted = Color(hex: "262626") // oklch(0.269 0 0)
+        static let mutedForeground = Color(hex: "A1A1A1") // oklch(0.708 0 0)
+        static let accent = Color(hex: "262626") // oklch(0.269 0 0)
+        static let accentForeground = Color(hex: "FAFAFA") // oklch(0.985 0 0)
+        static let destructive = Color(hex: "FF6467") // oklch(0.704 0.191 22.216)
+        static let destructiveForeground = Color(hex: "FAFAFA") // oklch(0.985 0 0)
+        static let border = Color(hex: "FFFFFF1A") // oklch(1 0 0 / 10%)
+        static let input = Color(hex: "FFFFFF26") // oklch(1 0 0 / 15%)
+        static let ring = Color(hex: "737373") // oklch(0.556 0 0)
+        static let chart1 = Color(hex: "1447E6") // oklch(0.488 0.243 264.376)
+        static let chart2 = Color(hex: "00BC7D") // oklch(0.696 0.17 162.48)
+        static let chart3 = Color(hex: "FD9A00") // oklch(0.769 0.188 70.08)
+        static let chart4 = Color(hex: "AD46FF") // oklch(0.627 0.265 303.9)
+        static let chart5 = Color(hex: "FF2056") // oklch(0.645 0.246 16.439)
     }
 
     // MARK: - Adaptive Colors (Auto Light/Dark)
@@ -109,6 +92,14 @@ extension Color {
         adaptive(light: Light.cardForeground, dark: Dark.cardForeground, colorScheme: colorScheme)
     }
 
+    static func popover(_ colorScheme: ColorScheme) -> Color {
+        adaptive(light: Light.popover, dark: Dark.popover, colorScheme: colorScheme)
+    }
+
+    static func popoverForeground(_ colorScheme: ColorScheme) -> Color {
+        adaptive(light: Light.popoverForeground, dark: Dark.popoverForeground, colorScheme: colorScheme)
+    }
+
     static func primary(_ colorScheme: ColorScheme) -> Color {
         adaptive(light: Light.primary, dark: Dark.primary, colorScheme: colorScheme)
     }
@@ -145,6 +136,10 @@ extension Color {
         adaptive(light: Light.destructive, dark: Dark.destructive, colorScheme: colorScheme)
     }
 
+    static func destructiveForeground(_ colorScheme: ColorScheme) -> Color {
+        adaptive(light: Light.destructiveForeground, dark: Dark.destructiveForeground, colorScheme: colorScheme)
+    }
+
     static func border(_ colorScheme: ColorScheme) -> Color {
         adaptive(light: Light.border, dark: Dark.border, colorScheme: colorScheme)
     }
@@ -157,10 +152,30 @@ extension Color {
         adaptive(light: Light.ring, dark: Dark.ring, colorScheme: colorScheme)
     }
 
+    static func chart1(_ colorScheme: ColorScheme) -> Color {
+        adaptive(light: Light.chart1, dark: Dark.chart1, colorScheme: colorScheme)
+    }
+
+    static func chart2(_ colorScheme: ColorScheme) -> Color {
+        adaptive(light: Light.chart2, dark: Dark.chart2, colorScheme: colorScheme)
+    }
+
+    static func chart3(_ colorScheme: ColorScheme) -> Color {
+        adaptive(light: Light.chart3, dark: Dark.chart3, colorScheme: colorScheme)
+    }
+
+    static func chart4(_ colorScheme: ColorScheme) -> Color {
+        adaptive(light: Light.chart4, dark: Dark.chart4, colorScheme: colorScheme)
+    }
+
+    static func chart5(_ colorScheme: ColorScheme) -> Color {
+        adaptive(light: Light.chart5, dark: Dark.chart5, colorScheme: colorScheme)
+    }
+
     // MARK: - Hex Color Initializer
 
     /// Initialize a Color from a hex string
-    /// - Parameter hex: Hex string (e.g., "FFFFFF" or "#FFFFFF")
+    /// - Parameter hex: Hex string (e.g., "FFFFFF", "#FFFFFF" or "FFFFFF80" with alpha)
     init(hex: String) {
         let hex = hex.trimmingCharacters(in: CharacterSet.alphanumerics.inverted)
         var int: UInt64 = 0
@@ -172,7 +187,7 @@ extension Color {
             (r, g, b, a) = ((int >> 8) * 17, (int >> 4 & 0xF) * 17, (int & 0xF) * 17, 255)
         case 6: // RGB (24-bit)
             (r, g, b, a) = (int >> 16, int >> 8 & 0xFF, int & 0xFF, 255)
-        case 8: // ARGB (32-bit)
+        case 8: // RGBA (32-bit)
             (r, g, b, a) = (int >> 24, int >> 16 & 0xFF, int >> 8 & 0xFF, int & 0xFF)
         default:
             (r, g, b, a) = (0, 0, 0, 255)
@@ -193,11 +208,11 @@ extension Color {
 struct DesignSystem {
     /// Border radius values
     struct Radius {
-        static let base: CGFloat = 10  // 0.625rem = 10px
-        static let sm: CGFloat = 6     // base - 4px
-        static let md: CGFloat = 8     // base - 2px
-        static let lg: CGFloat = 10    // base
-        static let xl: CGFloat = 14    // base + 4px
+        static let base: CGFloat = 10
+        static let sm: CGFloat = 6
+        static let md: CGFloat = 8
+        static let lg: CGFloat = 10
+        static let xl: CGFloat = 14
     }
 
     /// Spacing values
@@ -0,0 +1,54 @@
+// Generated by `yarn tokens:build` from src/design-system/glass-tokens.ts.
+// Do not edit by hand: change the tokens and rebuild.
+
+import SwiftUI
+
+extension DesignSystem {
+    /// Glass effect values for frosted surfaces
+    struct Glass {
+        /// Blur radius, in points
+        struct Blur {
+            static let subtle: CGFloat = 10
+            static let light: CGFloat = 15
+            static let medium: CGFloat = 20
+            static let heavy: CGFloat = 30
+        }
+
+        /// Background opacity
+        struct Opacity {
+            static let subtle: Double = 0.05
+            static let light: Double = 0.08
+            static let medium: Double = 0.12
+            static let heavy: Double = 0.18
+        }
+
+        /// Material per component
+        struct Materials {
+            static let card: Material = .regularMaterial
+            static let cardSubtle: Material = .ultraThinMaterial
+            static let button: Material = .regularMaterial
+            static let input: Material = .thinMaterial
+            static let modal: Material = .thickMaterial
+            static let sheet: Material = .regularMaterial
+            static let popover: Material = .thinMaterial
+            static let toast: Material = .regularMaterial
+            static let overlay: Material = .thickMaterial
+            static let navigation: Material = .bar
+            static let toolbar: Material = .bar
+            static let listItem: Material = .ultraThinMaterial
+            static let chatMessage: Material = .thinMaterial
+            static let chatMessageUser: Material = .regularMaterial
+        }
+
+        /// Limits and animation timing
+        struct Performance {
+            static let maxBlurRadius: CGFloat = 20
+            static let maxBlurRadiusModal: CGFloat = 30
+            static let maxOverlappingLayers = 2
+            static let lazyLoadDelay: TimeInterval = 0.1
+            static let animationDuration: TimeInterval = 0.3
+            static let springResponse: Double = 0.3
+            static let springDampingFraction: Double = 0.6
+        }
+    }
+}
@@ -1,14 +1,13 @@
+// Generated by `yarn tokens:build` from src/design-system/typography.ts.
+// Do not edit by hand: change the tokens and rebuild.
+
 import SwiftUI
 
 /// Typography system matching the web app's design
 extension Font {
-    // MARK: - Display
-
     static let display = Font.system(size: 36, weight: .bold)
         .leading(.tight)
 
-    // MARK: - Headings
-
     static let h1 = Font.system(size: 30, weight: .bold)
         .leading(.tight)
 
@@ -19,22 +18,16 @@ extension Font {
 
     static let h4 = Font.system(size: 18, weight: .semibold)
 
-    // MARK: - Body
-
     static let body = Font.system(size: 16, weight: .regular)
 
     static let bodySmall = Font.system(size: 14, weight: .regular)
 
-    // MARK: - UI
-
     static let label = Font.system(size: 14, weight: .medium)
 
     static let caption = Font.system(size: 12, weight: .regular)
+        .leading(.tight)
 
     static let overline = Font.system(size: 11, weight: .medium)
-        .tracking(0.5)
-
-    // MARK: - Code
 
     static let code = Font.system(size: 14, weight: .regular, design: .monospaced)
 
@@ -44,15 +37,15 @@ extension Font {
 /// Text style modifiers
 extension Text {
     func display() -> Text {
-        self.font(.display)
+        self.font(.display).tracking(-0.5)
     }
 
     func h1() -> Text {
-        self.font(.h1)
+        self.font(.h1).tracking(-0.5)
     }
 
     func h2() -> Text {
-        self.font(.h2)
+        self.font(.h2).tracking(-0.25)
     }
 
     func h3() -> Text {
@@ -80,10 +73,32 @@ extension Text {
     }
 
     func overline() -> Text {
-        self.font(.overline)
+        self.font(.overline).tracking(0.5)
     }
 
     func code() -> Text {
         self.font(.code)
     }
+
+    func codeSmall() -> Text {
+        self.font(.codeSmall)
+    }
+}
+
+extension DesignSystem {
+    /// Line height per text style, in points
+    struct LineHeight {
+        static let display: CGFloat = 44
+        static let h1: CGFloat = 38
+        static let h2: CGFloat = 32
+        static let h3: CGFloat = 28
+        static let h4: CGFloat = 26
+        static let body: CGFloat = 24
+        static let bodySmall: CGFloat = 20
+        static let label: CGFloat = 20
+        static let caption: CGFloat = 16
+        static let overline: CGFloat = 16
+        static let code: CGFloat = 20
+        static let codeSmall: CGFloat = 18
+    }
 }
@@ -0,0 +1,15 @@
+/**
+ * Lets Node `require` the TypeScript sources directly, for the token build
+ * and the tests. Type checking is left to `tsc`.
+ */
+
+const fs = require('fs');
+const ts = require('typescript');
+
+require.extensions['.ts'] = (module, filename) => {
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf8'), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020, esModuleInterop: true },
+    fileName: filename,
+  });
+  module._compile(outputText, filename);
+};
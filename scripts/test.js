@@ -0,0 +1,28 @@
+#!/usr/bin/env node
+/**
+ * Test runner
+ * Runs every `__tests__/*.test.ts` under src with Node's built-in test
+ * runner. Pass paths to run only some of them.
+ *
+ *   yarn test
+ *   yarn test src/design-system/__tests__/color.test.ts
+ */
+
+const fs = require('fs');
+const path = require('path');
+require('./register-ts');
+
+const root = path.resolve(__dirname, '..');
+
+const findTests = (dir) =>
+  fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const file = path.join(dir, entry.name);
+    if (entry.isDirectory()) return entry.name === 'node_modules' ? [] : findTests(file);
+    return entry.name.endsWith('.test.ts') && path.basename(dir) === '__tests__' ? [file] : [];
+  });
+
+const args = process.argv.slice(2);
+const files = args.length > 0 ? args.map((file) => path.resolve(file)) : findTests(path.join(root, 'src'));
+
+// Each file registers its tests with node:test, which runs and reports them
+files.forEach((file) => require(file));
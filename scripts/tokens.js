@@ -0,0 +1,52 @@
+#!/usr/bin/env node
+/**
+ * Design token build
+ * Writes the files generated from src/design-system (Swift, W3C JSON, CSS),
+ * or with `--check` exits non-zero when a committed one is stale. With
+ * `--contrast` it prints the WCAG/APCA contrast report for both palettes.
+ *
+ *   yarn tokens:build
+ *   yarn tokens:check
+ *   yarn tokens:contrast
+ */
+
+const fs = require('fs');
+const path = require('path');
+require('./register-ts');
+
+const root = path.resolve(__dirname, '..');
+
+const { buildTokenFiles, findStaleTokenFiles, TOKEN_BUILD_COMMAND } = require('../src/design-system/export/index.ts');
+
+const files = buildTokenFiles();
+
+const read = (file) => {
+  try {
+    return fs.readFileSync(path.join(root, file), 'utf8');
+  } catch {
+    return null;
+  }
+};
+
+if (process.argv.includes('--contrast')) {
+  const { auditContrast, formatContrastReport } = require('../src/design-system/contrast.ts');
+  const { tokens } = require('../src/design-system/tokens.ts');
+  for (const colorScheme of ['light', 'dark']) {
+    console.log(formatContrastReport(auditContrast({ colors: tokens.colors[colorScheme], colorScheme })));
+    console.log('');
+  }
+} else if (process.argv.includes('--check')) {
+  const stale = findStaleTokenFiles(files, read);
+  if (stale.length > 0) {
+    console.error(`Design token files are out of date:\n${stale.map((file) => `  ${file}`).join('\n')}`);
+    console.error(`Run \`${TOKEN_BUILD_COMMAND}\` and commit the result.`);
+    process.exit(1);
+  }
+  console.log(`Design token files are up to date (${files.length} checked).`);
+} else {
+  for (const file of files) {
+    fs.mkdirSync(path.dirname(path.join(root, file.path)), { recursive: true });
+    fs.writeFileSync(path.join(root, file.path), file.contents);
+    console.log(`wrote ${file.path}`);
+  }
+}
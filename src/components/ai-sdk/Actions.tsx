@@ -19,7 +19,7 @@
 
 import React from 'react';
 import { View, Text, Pressable, ActivityIndicator } from 'react-native';
-import { theme } from '../../theme';
+import { useAppTheme, AppTheme } from '../../theme';
 
 // Action button types
 export type ActionType = 'primary' | 'secondary' | 'tertiary' | 'destructive';
@@ -54,7 +54,8 @@ const opacityToHex = (opacity: number): string => {
 const getButtonColors = (
   type: ActionType,
   pressed: boolean,
-  disabled: boolean
+  disabled: boolean,
+  theme: AppTheme
 ): {
   backgroundColor: string;
   textColor: string;
@@ -105,6 +106,7 @@ interface ActionButtonProps {
 }
 
 const ActionButton: React.FC<ActionButtonProps> = ({ action, variant, fullWidth }) => {
+  const theme = useAppTheme();
   const actionType = action.type || 'secondary';
   const isDisabled = action.disabled || action.loading;
 
@@ -113,7 +115,7 @@ const ActionButton: React.FC<ActionButtonProps> = ({ action, variant, fullWidth
       onPress={action.onPress}
       disabled={isDisabled}
       style={({ pressed }) => {
-        const colors = getButtonColors(actionType, pressed, isDisabled);
+        const colors = getButtonColors(actionType, pressed, isDisabled, theme);
 
         // Base styles
         const baseStyles: any = {
@@ -167,7 +169,7 @@ const ActionButton: React.FC<ActionButtonProps> = ({ action, variant, fullWidth
       }}
     >
       {({ pressed }) => {
-        const colors = getButtonColors(actionType, pressed, isDisabled);
+        const colors = getButtonColors(actionType, pressed, isDisabled, theme);
 
         return (
           <>
@@ -205,6 +207,7 @@ export const Actions: React.FC<ActionsProps> = ({
   fullWidth = false,
   testID = 'actions',
 }) => {
+  const theme = useAppTheme();
   if (actions.length === 0) {
     return null;
   }
@@ -326,6 +329,7 @@ export const exampleActionGroups = {
 
 // Example: Actions in a card
 export const ExampleActionsCard: React.FC = () => {
+  const theme = useAppTheme();
   return (
     <View style={{ padding: theme.spacing.lg, gap: theme.spacing.lg }}>
       <View>
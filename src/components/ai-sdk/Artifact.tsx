@@ -18,7 +18,8 @@
 
 import React, { useState } from 'react';
 import { View, Text, Pressable, ScrollView, Alert } from 'react-native';
-import { theme } from '../../theme';
+import { useAppTheme } from '../../theme';
+import { CodeBlock, CodeWrapMode, getGrammar } from './highlight';
 
 // Artifact data structure
 export interface Artifact {
@@ -41,6 +42,8 @@ export interface ArtifactProps {
   variant?: 'default' | 'compact' | 'minimal';
   showPreview?: boolean;
   previewMaxLines?: number;
+  showLineNumbers?: boolean;
+  wrapMode?: CodeWrapMode;
   onDownload?: (artifact: Artifact) => void;
   onShare?: (artifact: Artifact) => void;
   onCopy?: (artifact: Artifact) => void;
@@ -97,10 +100,20 @@ const getLanguageLabel = (language: string): string => {
     json: 'JSON',
     yaml: 'YAML',
     markdown: 'Markdown',
+    bash: 'Bash',
+    shell: 'Shell',
   };
   return labels[language.toLowerCase()] || language;
 };
 
+// Helper: Resolve the highlighting language for an artifact
+const getHighlightLanguage = (artifact: Artifact): string | undefined => {
+  const language =
+    artifact.language ??
+    (artifact.type === 'json' ? 'json' : artifact.type === 'markdown' ? 'markdown' : undefined);
+  return getGrammar(language) ? language : undefined;
+};
+
 // Helper: Truncate content for preview
 const truncateContent = (content: string, maxLines: number): { truncated: string; hasMore: boolean } => {
   const lines = content.split('\n');
@@ -137,17 +150,21 @@ export const Artifact: React.FC<ArtifactProps> = ({
   variant = 'default',
   showPreview = true,
   previewMaxLines = 10,
+  showLineNumbers = true,
+  wrapMode = 'soft',
   onDownload,
   onShare,
   onCopy,
   onViewFull,
   testID = 'artifact',
 }) => {
+  const theme = useAppTheme();
   const [isExpanded, setIsExpanded] = useState(false);
 
   const icon = getArtifactIcon(artifact.type);
   const { truncated, hasMore } = truncateContent(artifact.content, previewMaxLines);
   const displayContent = isExpanded ? artifact.content : truncated;
+  const highlightLanguage = getHighlightLanguage(artifact);
 
   // Handlers
   const handleDownload = () => {
@@ -465,16 +482,25 @@ export const Artifact: React.FC<ArtifactProps> = ({
           }}
           contentContainerStyle={{ padding: theme.spacing.md }}
         >
-          <Text
-            style={{
-              fontFamily: 'monospace',
-              fontSize: 12,
-              lineHeight: 18,
-              color: theme.colors.text.primary,
-            }}
-          >
-            {displayContent}
-          </Text>
+          {highlightLanguage ? (
+            <CodeBlock
+              code={displayContent}
+              language={highlightLanguage}
+              showLineNumbers={showLineNumbers}
+              wrap={wrapMode}
+            />
+          ) : (
+            <Text
+              style={{
+                fontFamily: 'monospace',
+                fontSize: 12,
+                lineHeight: 18,
+                color: theme.colors.text.primary,
+              }}
+            >
+              {displayContent}
+            </Text>
+          )}
         </ScrollView>
       )}
 
@@ -18,7 +18,7 @@
 
 import React, { useState } from 'react';
 import { View, Text, Pressable, ScrollView } from 'react-native';
-import { theme } from '../../theme';
+import { useAppTheme } from '../../theme';
 
 // Context item types
 export type ContextType = 'file' | 'conversation' | 'data' | 'search' | 'memory' | 'other';
@@ -128,6 +128,7 @@ const ContextItemView: React.FC<ContextItemViewProps> = ({
   onPress,
   onRemove,
 }) => {
+  const theme = useAppTheme();
   const [previewExpanded, setPreviewExpanded] = useState(false);
 
   const icon = getContextIcon(item.type);
@@ -471,6 +472,7 @@ export const Context: React.FC<ContextProps> = ({
   onItemRemove,
   testID = 'context',
 }) => {
+  const theme = useAppTheme();
   const [expanded, setExpanded] = useState(defaultExpanded);
 
   if (items.length === 0) {
@@ -1,17 +1,40 @@
-import React, { useRef, useEffect, useMemo } from 'react';
+import React, { useRef, useEffect, useMemo, useState, useCallback, useImperativeHandle, forwardRef } from 'react';
 import { Host } from '../common/SwiftUIHost';
-import { FlatList, RefreshControl, KeyboardAvoidingView, Platform, View } from 'react-native';
+import {
+  ActivityIndicator,
+  FlatList,
+  KeyboardAvoidingView,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
+  Platform,
+  RefreshControl,
+  Text as RNText,
+  TouchableOpacity,
+  View,
+} from 'react-native';
 import { Text as SwiftUIText } from '@expo/ui/swift-ui';
 import { useTheme } from '../../design-system';
 import { Message, MessageProps } from './Message';
+import { ConversationTree, getActiveMessages, selectBranch } from './conversation/tree';
+import { ConversationItem, createConversationItemBuilder } from './conversation/items';
 
 export interface ConversationProps {
-  messages: MessageProps[];
+  /** Messages to show, oldest first; derived from `tree` when omitted */
+  messages?: MessageProps[];
+  /** Branching conversation; its active path is shown with version switchers */
+  tree?: ConversationTree;
+  /** Called with the updated tree when the user switches versions */
+  onTreeChange?: (tree: ConversationTree) => void;
   layout?: 'chat' | 'timeline' | 'compact' | 'minimal';
   showTypingIndicator?: boolean;
   isLoading?: boolean;
   onRefresh?: () => void;
   refreshing?: boolean;
+  /** Load the page before the oldest message; called when scrolling near the top */
+  onLoadOlder?: () => void | Promise<void>;
+  /** Whether older messages exist beyond those passed in */
+  hasOlder?: boolean;
+  loadingOlder?: boolean;
   onSendMessage?: (text: string) => void;
   onMessageAction?: (messageId: string, action: string) => void;
   emptyStateText?: string;
@@ -19,15 +42,43 @@ export interface ConversationProps {
   groupByDate?: boolean;
   showAvatars?: boolean;
   showTimestamps?: boolean;
+  /** Follow new messages and streamed content while scrolled to the latest message */
   autoScroll?: boolean;
+  /** Show a pill with the unread count when scrolled away from the latest message */
+  showJumpToLatest?: boolean;
   testID?: string;
 }
 
+export interface ConversationHandle {
+  /**
+   * Scroll to a message and highlight it, paging older history in through
+   * `onLoadOlder` until it is found. Resolves false when it never is.
+   */
+  scrollToMessage: (messageId: string, options?: { animated?: boolean; highlight?: boolean }) => Promise<boolean>;
+  scrollToLatest: (animated?: boolean) => void;
+}
+
+// Distance from the latest message that still counts as following it
+const FOLLOW_THRESHOLD = 48;
+const HIGHLIGHT_DURATION = 1500;
+const SCROLL_RETRY_LIMIT = 3;
+
+type PendingScroll = {
+  messageId: string;
+  animated: boolean;
+  highlight: boolean;
+  resolve: (found: boolean) => void;
+  /** Message count when the last older page was requested */
+  requestedAt: number | null;
+};
+
 /**
  * AI SDK Conversation component with chat layout
  *
  * Displays a full conversation interface with messages, scrolling,
- * keyboard handling, and optional typing indicators.
+ * keyboard handling, and optional typing indicators. Messages render in
+ * an inverted, windowed list, so long threads stay smooth and older pages
+ * load above without moving what is on screen.
  *
  * @example
  * ```tsx
@@ -38,14 +89,35 @@ export interface ConversationProps {
  *   onSendMessage={(text) => console.log(text)}
  * />
  * ```
+ *
+ * @example
+ * ```tsx
+ * const stored = useStoredConversation(storage, conversationId);
+ * const conversationRef = useRef<ConversationHandle>(null);
+ *
+ * <Conversation
+ *   ref={conversationRef}
+ *   messages={stored.messages}
+ *   onLoadOlder={stored.loadOlder}
+ *   hasOlder={stored.hasOlder}
+ *   loadingOlder={stored.loadingOlder}
+ * />
+ *
+ * conversationRef.current?.scrollToMessage(bookmark.messageId);
+ * ```
  */
-export const Conversation = React.memo(function Conversation({
-  messages,
+export const Conversation = React.memo(forwardRef<ConversationHandle, ConversationProps>(function Conversation({
+  messages: messagesProp,
+  tree,
+  onTreeChange,
   layout = 'chat',
   showTypingIndicator = false,
   isLoading = false,
   onRefresh,
   refreshing = false,
+  onLoadOlder,
+  hasOlder = false,
+  loadingOlder = false,
   onSendMessage,
   onMessageAction,
   emptyStateText = 'No messages yet',
@@ -54,94 +126,191 @@ export const Conversation = React.memo(function Conversation({
   showAvatars = true,
   showTimestamps = true,
   autoScroll = true,
+  showJumpToLatest = true,
   testID,
-}: ConversationProps) {
+}, ref) {
   const theme = useTheme();
-  const flatListRef = useRef<FlatList>(null);
+  const flatListRef = useRef<FlatList<ConversationItem>>(null);
+
+  const messages = useMemo(
+    () => messagesProp ?? (tree ? getActiveMessages(tree) : []),
+    [messagesProp, tree]
+  );
 
-  // Auto-scroll to bottom when new messages arrive
+  // Newest first with date separators; rows for unchanged messages are reused
+  const buildItems = useMemo(() => createConversationItemBuilder(), []);
+  const items = useMemo(() => buildItems(messages, { groupByDate }), [buildItems, messages, groupByDate]);
+
+  const [atLatest, setAtLatest] = useState(true);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+
+  const atLatestRef = useRef(true);
+  const lastSeenIdRef = useRef<string | undefined>(undefined);
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+  const pendingScrollRef = useRef<PendingScroll | null>(null);
+  const highlightTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const scrollRetriesRef = useRef(0);
+
+  const lastMessage = messages[messages.length - 1];
+
+  const scrollToLatest = useCallback((animated = true) => {
+    flatListRef.current?.scrollToOffset({ offset: 0, animated });
+  }, []);
+
+  // Count messages that arrive while scrolled up; jump down for the user's own
   useEffect(() => {
-    if (autoScroll && messages.length > 0) {
-      setTimeout(() => {
-        flatListRef.current?.scrollToEnd({ animated: true });
-      }, 100);
+    if (!lastMessage) return;
+    if (atLatestRef.current) {
+      lastSeenIdRef.current = lastMessage.id;
+      setUnreadCount(0);
+      return;
+    }
+    if (autoScroll && lastMessage.role === 'user' && lastMessage.status === 'sending') {
+      scrollToLatest();
+      return;
     }
-  }, [messages.length, autoScroll]);
+    let seen = messages.length - 1;
+    while (seen >= 0 && messages[seen].id !== lastSeenIdRef.current) seen--;
+    setUnreadCount(seen === -1 ? 0 : messages.length - 1 - seen);
+  }, [lastMessage?.id]);
+
+  const handleScroll = useCallback(
+    (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+      // Inverted, so the offset is the distance from the latest message
+      const following = event.nativeEvent.contentOffset.y <= FOLLOW_THRESHOLD;
+      if (following === atLatestRef.current) return;
+      atLatestRef.current = following;
+      setAtLatest(following);
+      if (following) {
+        lastSeenIdRef.current = lastMessage?.id;
+        setUnreadCount(0);
+      }
+    },
+    [lastMessage?.id]
+  );
+
+  const handleEndReached = () => {
+    if (hasOlder && !loadingOlder) onLoadOlder?.();
+  };
+
+  const highlight = (messageId: string) => {
+    if (highlightTimerRef.current) clearTimeout(highlightTimerRef.current);
+    setHighlightedId(messageId);
+    highlightTimerRef.current = setTimeout(() => setHighlightedId(null), HIGHLIGHT_DURATION);
+  };
 
-  // Flatten messages with date headers for FlatList
-  const flattenedData = useMemo(() => {
-    if (!groupByDate) {
-      return messages.map(msg => ({ type: 'message' as const, data: msg }));
+  const scrollToLoadedMessage = (messageId: string, animated: boolean, shouldHighlight: boolean) => {
+    const index = itemsRef.current.findIndex((item) => item.type === 'message' && item.key === messageId);
+    if (index === -1) return false;
+    scrollRetriesRef.current = 0;
+    flatListRef.current?.scrollToIndex({ index, animated, viewPosition: 0.5 });
+    if (shouldHighlight) highlight(messageId);
+    return true;
+  };
+
+  const finishPendingScroll = (found: boolean) => {
+    pendingScrollRef.current?.resolve(found);
+    pendingScrollRef.current = null;
+  };
+
+  // Keep paging older history in until a requested message shows up
+  useEffect(() => {
+    const pending = pendingScrollRef.current;
+    if (!pending) return;
+    if (scrollToLoadedMessage(pending.messageId, pending.animated, pending.highlight)) {
+      finishPendingScroll(true);
+    } else if (pending.requestedAt === messages.length && loadingOlder) {
+      // Page still loading
+    } else if (hasOlder && onLoadOlder && pending.requestedAt !== messages.length) {
+      pending.requestedAt = messages.length;
+      onLoadOlder();
+    } else {
+      finishPendingScroll(false);
     }
+  }, [messages, hasOlder, loadingOlder]);
+
+  useEffect(
+    () => () => {
+      if (highlightTimerRef.current) clearTimeout(highlightTimerRef.current);
+      finishPendingScroll(false);
+    },
+    []
+  );
 
-    const grouped = groupMessagesByDate(messages);
-    const items: Array<{ type: 'date' | 'message'; data: any }> = [];
+  useImperativeHandle(ref, () => ({
+    scrollToMessage: (messageId, { animated = true, highlight: shouldHighlight = true } = {}) => {
+      if (scrollToLoadedMessage(messageId, animated, shouldHighlight)) return Promise.resolve(true);
+      if (!hasOlder || !onLoadOlder) return Promise.resolve(false);
 
-    Object.entries(grouped).forEach(([date, dateMessages]) => {
-      if (messages.length > 0) {
-        items.push({ type: 'date', data: date });
-      }
-      dateMessages.forEach(msg => {
-        items.push({ type: 'message', data: msg });
+      finishPendingScroll(false);
+      return new Promise<boolean>((resolve) => {
+        pendingScrollRef.current = {
+          messageId,
+          animated,
+          highlight: shouldHighlight,
+          resolve,
+          requestedAt: messages.length,
+        };
+        onLoadOlder();
       });
-    });
+    },
+    scrollToLatest,
+  }));
 
-    return items;
-  }, [messages, groupByDate]);
+  // Rows outside the rendered window have no measured position yet
+  const handleScrollToIndexFailed = ({ index, averageItemLength }: { index: number; averageItemLength: number }) => {
+    flatListRef.current?.scrollToOffset({ offset: averageItemLength * index, animated: false });
+    if (scrollRetriesRef.current >= SCROLL_RETRY_LIMIT) return;
+    scrollRetriesRef.current += 1;
+    setTimeout(() => flatListRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0.5 }), 100);
+  };
 
   // Handle message actions
   const handleMessageAction = (messageId: string, action: string) => {
     onMessageAction?.(messageId, action);
   };
 
+  const handleBranchChange = (messageId: string, index: number) => {
+    if (tree && onTreeChange) onTreeChange(selectBranch(tree, messageId, index));
+    else handleMessageAction(messageId, `branch:${index}`);
+  };
+
+  // Rows are memoised, so hand them stable callbacks that read the latest props
+  const actionsRef = useRef({ handleMessageAction, handleBranchChange });
+  actionsRef.current = { handleMessageAction, handleBranchChange };
+  const onRowAction = useCallback(
+    (messageId: string, action: string) => actionsRef.current.handleMessageAction(messageId, action),
+    []
+  );
+  const onRowBranchChange = useCallback(
+    (messageId: string, index: number) => actionsRef.current.handleBranchChange(messageId, index),
+    []
+  );
+
   const messageVariant = layout === 'chat' ? 'compact' : layout;
 
   // Render item function for FlatList
-  const renderItem = ({ item }: { item: { type: 'date' | 'message'; data: any } }) => {
-    if (item.type === 'date') {
+  const renderItem = useCallback(
+    ({ item }: { item: ConversationItem }) => {
+      if (item.type === 'date') {
+        return <DateSeparator label={item.label} />;
+      }
       return (
-        <Host
-          modifiers={[
-            {
-              type: 'background',
-              color: theme.colors.muted.rgb,
-            },
-            { type: 'cornerRadius', radius: theme.radius.sm },
-          ]}
-          style={{
-            paddingHorizontal: 12,
-            paddingVertical: 4,
-            alignSelf: 'center',
-            marginVertical: 8,
-          }}
-        >
-          <SwiftUIText style={{ fontSize: 11, fontWeight: '600', color: theme.colors.mutedForeground.rgb }}>
-            {item.data}
-          </SwiftUIText>
-        </Host>
+        <MessageRow
+          message={item.message}
+          variant={messageVariant}
+          showAvatar={showAvatars}
+          showTimestamp={showTimestamps}
+          highlighted={item.key === highlightedId}
+          onAction={onRowAction}
+          onBranchChange={onRowBranchChange}
+        />
       );
-    }
-
-    // Render message
-    const message = item.data as MessageProps;
-    return (
-      <Message
-        key={message.id}
-        {...message}
-        variant={messageVariant}
-        showAvatar={showAvatars}
-        showTimestamp={showTimestamps}
-        onCopy={() => handleMessageAction(message.id, 'copy')}
-        onEdit={(content) => handleMessageAction(message.id, `edit:${content}`)}
-        onDelete={() => handleMessageAction(message.id, 'delete')}
-        onReact={(reaction) => handleMessageAction(message.id, `react:${reaction}`)}
-        onBookmark={() => handleMessageAction(message.id, 'bookmark')}
-        onFlag={() => handleMessageAction(message.id, 'flag')}
-        onShare={() => handleMessageAction(message.id, 'share')}
-        onRetry={() => handleMessageAction(message.id, 'retry')}
-      />
-    );
-  };
+    },
+    [messageVariant, showAvatars, showTimestamps, highlightedId, onRowAction, onRowBranchChange]
+  );
 
   // Empty state
   if (messages.length === 0 && !isLoading) {
@@ -185,14 +354,15 @@ export const Conversation = React.memo(function Conversation({
       <Host testID={testID} style={{ flex: 1, backgroundColor: theme.colors.background.rgb }}>
         <FlatList
           ref={flatListRef}
-          data={flattenedData}
+          inverted
+          data={items}
           renderItem={renderItem}
-          keyExtractor={(item, index) =>
-            item.type === 'message' ? item.data.id : `date-${index}`
-          }
+          keyExtractor={(item) => item.key}
+          extraData={highlightedId}
+          // Inverted, so paddingTop is the space below the latest message
           contentContainerStyle={{
             padding: theme.spacing.md,
-            paddingBottom: theme.spacing.xl,
+            paddingTop: theme.spacing.xl,
             gap: layout === 'minimal' ? 8 : 16
           }}
           refreshControl={
@@ -200,7 +370,18 @@ export const Conversation = React.memo(function Conversation({
               <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
             ) : undefined
           }
-          ListFooterComponent={
+          onScroll={handleScroll}
+          scrollEventThrottle={16}
+          onEndReached={handleEndReached}
+          onEndReachedThreshold={0.5}
+          onScrollToIndexFailed={handleScrollToIndexFailed}
+          // Hold what is on screen steady while content changes below it
+          maintainVisibleContentPosition={{
+            minIndexForVisible: 1,
+            autoscrollToTopThreshold: autoScroll ? FOLLOW_THRESHOLD : undefined,
+          }}
+          // Shown below the latest message
+          ListHeaderComponent={
             <>
               {/* Typing Indicator */}
               {showTypingIndicator && (
@@ -228,6 +409,14 @@ export const Conversation = React.memo(function Conversation({
               )}
             </>
           }
+          // Shown above the oldest message
+          ListFooterComponent={
+            loadingOlder ? (
+              <View style={{ alignItems: 'center', padding: theme.spacing.md }}>
+                <ActivityIndicator color={theme.colors.mutedForeground.rgb} />
+              </View>
+            ) : null
+          }
           // Performance optimizations
           removeClippedSubviews={true}
           maxToRenderPerBatch={10}
@@ -235,11 +424,128 @@ export const Conversation = React.memo(function Conversation({
           initialNumToRender={20}
           windowSize={21}
         />
+
+        {showJumpToLatest && !atLatest && (
+          <JumpToLatestPill count={unreadCount} onPress={() => scrollToLatest()} />
+        )}
       </Host>
     </KeyboardAvoidingView>
   );
+}));
+
+/**
+ * One message in the list; re-renders only when its message object or
+ * display options change
+ */
+const MessageRow = React.memo(function MessageRow({
+  message,
+  variant,
+  showAvatar,
+  showTimestamp,
+  highlighted,
+  onAction,
+  onBranchChange,
+}: {
+  message: MessageProps;
+  variant: MessageProps['variant'];
+  showAvatar: boolean;
+  showTimestamp: boolean;
+  highlighted: boolean;
+  onAction: (messageId: string, action: string) => void;
+  onBranchChange: (messageId: string, index: number) => void;
+}) {
+  const theme = useTheme();
+
+  // Callbacks bound on the message itself (e.g. by useChat) take precedence
+  return (
+    <View
+      style={
+        highlighted
+          ? { backgroundColor: theme.colors.accent.rgb, borderRadius: theme.radius.md }
+          : undefined
+      }
+    >
+      <Message
+        {...message}
+        variant={variant}
+        showAvatar={showAvatar}
+        showTimestamp={showTimestamp}
+        onCopy={() => onAction(message.id, 'copy')}
+        onEdit={message.onEdit ?? ((content) => onAction(message.id, `edit:${content}`))}
+        onDelete={message.onDelete ?? (() => onAction(message.id, 'delete'))}
+        onReact={(reaction) => onAction(message.id, `react:${reaction}`)}
+        onBookmark={() => onAction(message.id, 'bookmark')}
+        onFlag={() => onAction(message.id, 'flag')}
+        onShare={() => onAction(message.id, 'share')}
+        onRetry={message.onRetry ?? (() => onAction(message.id, 'retry'))}
+        onBranchChange={message.onBranchChange ?? ((index) => onBranchChange(message.id, index))}
+      />
+    </View>
+  );
 });
 
+function DateSeparator({ label }: { label: string }) {
+  const theme = useTheme();
+
+  return (
+    <Host
+      modifiers={[
+        {
+          type: 'background',
+          color: theme.colors.muted.rgb,
+        },
+        { type: 'cornerRadius', radius: theme.radius.sm },
+      ]}
+      style={{
+        paddingHorizontal: 12,
+        paddingVertical: 4,
+        alignSelf: 'center',
+        marginVertical: 8,
+      }}
+    >
+      <SwiftUIText style={{ fontSize: 11, fontWeight: '600', color: theme.colors.mutedForeground.rgb }}>
+        {label}
+      </SwiftUIText>
+    </Host>
+  );
+}
+
+/**
+ * Floating "jump to latest" button with the number of unread messages
+ */
+function JumpToLatestPill({ count, onPress }: { count: number; onPress: () => void }) {
+  const theme = useTheme();
+
+  return (
+    <TouchableOpacity
+      onPress={onPress}
+      accessibilityRole="button"
+      accessibilityLabel={count > 0 ? `Jump to latest, ${count} new messages` : 'Jump to latest'}
+      style={{
+        position: 'absolute',
+        bottom: theme.spacing.md,
+        alignSelf: 'center',
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+        paddingHorizontal: 14,
+        paddingVertical: 8,
+        borderRadius: 999,
+        backgroundColor: theme.colors.primary.rgb,
+        shadowColor: '#000',
+        shadowOpacity: 0.15,
+        shadowRadius: 6,
+        shadowOffset: { width: 0, height: 2 },
+        elevation: 3,
+      }}
+    >
+      <RNText style={{ fontSize: 13, fontWeight: '600', color: theme.colors.primaryForeground.rgb }}>
+        {count > 0 ? `↓ ${count > 99 ? '99+' : count} new` : '↓ Latest'}
+      </RNText>
+    </TouchableOpacity>
+  );
+}
+
 /**
  * Animated typing indicator (three dots)
  */
@@ -292,41 +598,6 @@ function AnimatedDot({ delay }: { delay: number }) {
   );
 }
 
-/**
- * Group messages by date for display
- */
-function groupMessagesByDate(messages: MessageProps[]): Record<string, MessageProps[]> {
-  const grouped: Record<string, MessageProps[]> = {};
-
-  messages.forEach((message) => {
-    const date = new Date(message.timestamp);
-    const today = new Date();
-    const yesterday = new Date(today);
-    yesterday.setDate(yesterday.getDate() - 1);
-
-    let dateKey: string;
-
-    if (date.toDateString() === today.toDateString()) {
-      dateKey = 'Today';
-    } else if (date.toDateString() === yesterday.toDateString()) {
-      dateKey = 'Yesterday';
-    } else {
-      dateKey = date.toLocaleDateString([], {
-        month: 'short',
-        day: 'numeric',
-        year: date.getFullYear() !== today.getFullYear() ? 'numeric' : undefined,
-      });
-    }
-
-    if (!grouped[dateKey]) {
-      grouped[dateKey] = [];
-    }
-    grouped[dateKey].push(message);
-  });
-
-  return grouped;
-}
-
 // Example conversation for testing
 export const exampleConversation: MessageProps[] = [
   {
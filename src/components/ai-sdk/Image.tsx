@@ -29,7 +29,7 @@ import {
   ImageSourcePropType,
   Alert,
 } from 'react-native';
-import { theme } from '../../theme';
+import { useAppTheme } from '../../theme';
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 
@@ -106,6 +106,7 @@ export const Image: React.FC<AIImageProps> = ({
   onPress,
   testID = 'ai-image',
 }) => {
+  const theme = useAppTheme();
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState(false);
   const [fullscreen, setFullscreen] = useState(false);
@@ -17,7 +17,7 @@
 
 import React, { useState } from 'react';
 import { View, Text, Pressable, Modal } from 'react-native';
-import { theme } from '../../theme';
+import { useAppTheme } from '../../theme';
 import type { Source } from './Sources';
 
 // Props interface
@@ -82,6 +82,7 @@ const CitationPreview: React.FC<CitationPreviewProps> = ({
   visible,
   onClose,
 }) => {
+  const theme = useAppTheme();
   if (!sources || sources.length === 0) {
     return null;
   }
@@ -237,6 +238,7 @@ export const InlineCitation: React.FC<InlineCitationProps> = ({
   onPress,
   testID = 'inline-citation',
 }) => {
+  const theme = useAppTheme();
   const [previewVisible, setPreviewVisible] = useState(false);
 
   if (numbers.length === 0) {
@@ -366,6 +368,7 @@ export const InlineCitation: React.FC<InlineCitationProps> = ({
 
 // Example: Text with inline citations
 export const ExampleTextWithCitations: React.FC = () => {
+  const theme = useAppTheme();
   // Example sources for the citations
   const exampleSources: Source[] = [
     {
@@ -2,13 +2,17 @@ import React, { useState } from 'react';
 import { Image } from '@expo/ui/swift-ui';
 import { Host } from '../common/SwiftUIHost';
 import { TouchableOpacity, View, Text as RNText, TextInput, StyleSheet } from 'react-native';
-import { useTheme } from '../../design-system';
+import { useTheme, useTypography } from '../../design-system';
 import {
   MaterialVariant,
   getBlurForMaterial,
   getOpacityForMaterial,
   opacityToHex,
 } from '../../design-system/glass-tokens';
+import { Markdown } from './markdown';
+
+// Sizes come from useTypography, which already applies the system text size
+const Text = (props: React.ComponentProps<typeof RNText>) => <RNText allowFontScaling={false} {...props} />;
 
 export interface MessageAttachment {
   id: string;
@@ -28,6 +32,8 @@ export interface MessageProps {
   id: string;
   role: 'user' | 'assistant' | 'system';
   content: string;
+  /** Render content as plain text or Markdown (default: 'text') */
+  format?: 'text' | 'markdown';
   timestamp: string;
   status?: 'sending' | 'sent' | 'delivered' | 'read' | 'error';
   author?: {
@@ -39,6 +45,8 @@ export interface MessageProps {
   reactions?: MessageReaction[];
   isEdited?: boolean;
   editedAt?: string;
+  /** Position among alternative versions of this turn (0-based); the switcher shows when count > 1 */
+  branch?: { index: number; count: number };
   isBookmarked?: boolean;
   isFlagged?: boolean;
   priority?: 'low' | 'normal' | 'high' | 'urgent';
@@ -53,6 +61,8 @@ export interface MessageProps {
   allowBookmark?: boolean;
   allowFlag?: boolean;
   allowShare?: boolean;
+  /** Show 🔄 on every assistant reply, not only failed messages (requires onRetry) */
+  allowRegenerate?: boolean;
   onCopy?: () => void;
   onEdit?: (content: string) => void;
   onDelete?: () => void;
@@ -61,6 +71,7 @@ export interface MessageProps {
   onFlag?: () => void;
   onShare?: () => void;
   onRetry?: () => void;
+  onBranchChange?: (index: number) => void;
   testID?: string;
 }
 
@@ -85,6 +96,7 @@ export const Message = React.memo(function Message({
   id,
   role,
   content,
+  format = 'text',
   timestamp,
   status,
   author,
@@ -92,6 +104,7 @@ export const Message = React.memo(function Message({
   reactions,
   isEdited,
   editedAt,
+  branch,
   isBookmarked,
   isFlagged,
   priority = 'normal',
@@ -106,6 +119,7 @@ export const Message = React.memo(function Message({
   allowBookmark = true,
   allowFlag = true,
   allowShare = true,
+  allowRegenerate = false,
   onCopy,
   onEdit,
   onDelete,
@@ -114,9 +128,13 @@ export const Message = React.memo(function Message({
   onFlag,
   onShare,
   onRetry,
+  onBranchChange,
   testID,
 }: MessageProps) {
   const theme = useTheme();
+  const type = useTypography();
+  // At accessibility sizes side-by-side rows no longer fit; stack and wrap them
+  const stacked = type.isAccessibilitySize;
   const [isEditing, setIsEditing] = useState(false);
   const [editContent, setEditContent] = useState(content);
 
@@ -167,11 +185,52 @@ export const Message = React.memo(function Message({
     return '🤖';
   };
 
+  const renderContent = (style: { fontSize: number; lineHeight?: number }) => {
+    if (format === 'markdown') {
+      return <Markdown content={content} streaming={status === 'sending'} />;
+    }
+    return <Text style={style}>{content}</Text>;
+  };
+
+  // "‹ 2 / 3 ›" switcher between alternative versions of this turn
+  const renderBranchSwitcher = (fontSize: number) => {
+    if (!branch || branch.count < 2) return null;
+    const canGoBack = branch.index > 0;
+    const canGoForward = branch.index < branch.count - 1;
+
+    return (
+      <View
+        style={{ flexDirection: 'row', alignItems: 'center', gap: 4 }}
+        accessibilityLabel={`Version ${branch.index + 1} of ${branch.count}`}
+      >
+        <TouchableOpacity
+          onPress={() => onBranchChange?.(branch.index - 1)}
+          disabled={!canGoBack}
+          accessibilityLabel="Previous version"
+          hitSlop={8}
+        >
+          <Text style={{ fontSize, opacity: canGoBack ? 1 : 0.3 }}>‹</Text>
+        </TouchableOpacity>
+        <Text style={{ fontSize: fontSize - 2, color: theme.colors.mutedForeground.rgb }}>
+          {branch.index + 1} / {branch.count}
+        </Text>
+        <TouchableOpacity
+          onPress={() => onBranchChange?.(branch.index + 1)}
+          disabled={!canGoForward}
+          accessibilityLabel="Next version"
+          hitSlop={8}
+        >
+          <Text style={{ fontSize, opacity: canGoForward ? 1 : 0.3 }}>›</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
   const getPriorityBadge = () => {
     if (priority === 'normal') return null;
 
     return (
-      <Text style={{ fontSize: 10, color: theme.colors.mutedForeground.rgb }}>
+      <Text style={{ fontSize: type.scale(10, 'overline'), color: theme.colors.mutedForeground.rgb }}>
         {priority.toUpperCase()}
       </Text>
     );
@@ -182,20 +241,20 @@ export const Message = React.memo(function Message({
     return (
       <Host testID={testID} style={{ padding: theme.spacing.sm }}>
         <View style={{ gap: 4 }}>
-          <View style={{ flexDirection: 'row', gap: 8 }}>
-            <Text style={{ fontSize: 12, fontWeight: '600' }}>
+          <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8 }}>
+            <Text style={{ fontSize: type.scale(12, 'label'), fontWeight: '600' }}>
               {role === 'user' ? (author?.name || 'You') : (author?.name || 'AI')}
             </Text>
             {showTimestamp && (
-              <Text style={{ fontSize: 11, color: theme.colors.mutedForeground.rgb }}>
+              <Text style={{ fontSize: type.scale(11, 'caption'), color: theme.colors.mutedForeground.rgb }}>
                 {formatTimestamp(timestamp)}
               </Text>
             )}
             {showStatus && getStatusIcon() && (
-              <Text style={{ fontSize: 11 }}>{getStatusIcon()}</Text>
+              <Text style={{ fontSize: type.scale(11, 'caption') }}>{getStatusIcon()}</Text>
             )}
           </View>
-          <Text style={{ fontSize: 14 }}>{content}</Text>
+          {renderContent(type.styles.bodySmall)}
         </View>
       </Host>
     );
@@ -223,7 +282,7 @@ export const Message = React.memo(function Message({
         ]}
         style={{ padding: theme.spacing.sm, marginVertical: theme.spacing.xs }}
       >
-        <View style={{ flexDirection: 'row', gap: 12 }}>
+        <View style={{ flexDirection: stacked ? 'column' : 'row', gap: stacked ? 8 : 12 }}>
           {showAvatar && (
             <Host
               modifiers={[
@@ -231,56 +290,62 @@ export const Message = React.memo(function Message({
                   type: 'background',
                   color: theme.colors.muted.rgb,
                 },
-                { type: 'cornerRadius', radius: 16 },
+                { type: 'cornerRadius', radius: type.scale(16, 'label') },
               ]}
-              style={{ width: 32, height: 32, justifyContent: 'center', alignItems: 'center' }}
+              style={{
+                width: type.scale(32, 'label'),
+                height: type.scale(32, 'label'),
+                justifyContent: 'center',
+                alignItems: 'center',
+              }}
             >
-              <Text style={{ fontSize: 16 }}>{getAvatarInitials()}</Text>
+              <Text style={{ fontSize: type.scale(16, 'label') }}>{getAvatarInitials()}</Text>
             </Host>
           )}
 
           <View style={{ flex: 1, gap: 4 }}>
-            <View style={{ flexDirection: 'row', gap: 8, alignItems: 'center' }}>
-              <Text style={{ fontSize: 13, fontWeight: '600' }}>
+            <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8, alignItems: 'center' }}>
+              <Text style={{ fontSize: type.scale(13, 'label'), fontWeight: '600' }}>
                 {role === 'user' ? (author?.name || 'You') : (author?.name || 'AI')}
               </Text>
               {getPriorityBadge()}
               {isEdited && (
-                <Text style={{ fontSize: 10, color: theme.colors.mutedForeground.rgb }}>
+                <Text style={{ fontSize: type.scale(10, 'overline'), color: theme.colors.mutedForeground.rgb }}>
                   (edited)
                 </Text>
               )}
-              <View style={{ flex: 1 }} />
+              {renderBranchSwitcher(type.scale(13, 'label'))}
+              {!stacked && <View style={{ flex: 1 }} />}
               {showTimestamp && (
-                <Text style={{ fontSize: 11, color: theme.colors.mutedForeground.rgb }}>
+                <Text style={{ fontSize: type.scale(11, 'caption'), color: theme.colors.mutedForeground.rgb }}>
                   {formatTimestamp(timestamp)}
                 </Text>
               )}
               {showStatus && getStatusIcon() && (
-                <Text style={{ fontSize: 11 }}>{getStatusIcon()}</Text>
+                <Text style={{ fontSize: type.scale(11, 'caption') }}>{getStatusIcon()}</Text>
               )}
             </View>
 
-            <Text style={{ fontSize: 14 }}>{content}</Text>
+            {renderContent(type.styles.bodySmall)}
 
             {showActions && (
-              <View style={{ flexDirection: 'row', gap: 12, marginTop: 4 }}>
+              <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 12, marginTop: 4 }}>
                 {allowReactions && (
                   <>
                     <TouchableOpacity onPress={() => onReact?.('thumbsUp')}>
-                      <Text style={{ fontSize: 14 }}>👍</Text>
+                      <Text style={{ fontSize: type.scale(14, 'label') }}>👍</Text>
                     </TouchableOpacity>
                     <TouchableOpacity onPress={() => onReact?.('thumbsDown')}>
-                      <Text style={{ fontSize: 14 }}>👎</Text>
+                      <Text style={{ fontSize: type.scale(14, 'label') }}>👎</Text>
                     </TouchableOpacity>
                   </>
                 )}
                 <TouchableOpacity onPress={onCopy}>
-                  <Text style={{ fontSize: 14 }}>📋</Text>
+                  <Text style={{ fontSize: type.scale(14, 'label') }}>📋</Text>
                 </TouchableOpacity>
                 {allowBookmark && (
                   <TouchableOpacity onPress={onBookmark}>
-                    <Text style={{ fontSize: 14 }}>{isBookmarked ? '🔖' : '📌'}</Text>
+                    <Text style={{ fontSize: type.scale(14, 'label') }}>{isBookmarked ? '🔖' : '📌'}</Text>
                   </TouchableOpacity>
                 )}
               </View>
@@ -321,7 +386,7 @@ export const Message = React.memo(function Message({
     >
       <View style={{ gap: 12 }}>
         {/* Header */}
-        <View style={{ flexDirection: 'row', gap: 12, alignItems: 'flex-start' }}>
+        <View style={{ flexDirection: stacked ? 'column' : 'row', gap: 12, alignItems: 'flex-start' }}>
           {showAvatar && (
             <Host
               modifiers={[
@@ -329,17 +394,22 @@ export const Message = React.memo(function Message({
                   type: 'background',
                   color: theme.colors.muted.rgb,
                 },
-                { type: 'cornerRadius', radius: 20 },
+                { type: 'cornerRadius', radius: type.scale(20, 'label') },
               ]}
-              style={{ width: 40, height: 40, justifyContent: 'center', alignItems: 'center' }}
+              style={{
+                width: type.scale(40, 'label'),
+                height: type.scale(40, 'label'),
+                justifyContent: 'center',
+                alignItems: 'center',
+              }}
             >
-              <Text style={{ fontSize: 20 }}>{getAvatarInitials()}</Text>
+              <Text style={{ fontSize: type.scale(20, 'label') }}>{getAvatarInitials()}</Text>
             </Host>
           )}
 
           <View style={{ flex: 1, gap: 4 }}>
-            <View style={{ flexDirection: 'row', gap: 8, alignItems: 'center' }}>
-              <Text style={{ fontSize: 15, fontWeight: '600' }}>
+            <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8, alignItems: 'center' }}>
+              <Text style={{ fontSize: type.scale(15, 'label'), fontWeight: '600' }}>
                 {role === 'user' ? (author?.name || 'You') : (author?.name || 'AI')}
               </Text>
               {getPriorityBadge()}
@@ -347,66 +417,67 @@ export const Message = React.memo(function Message({
               {isFlagged && <Text>🚩</Text>}
             </View>
 
-            <View style={{ flexDirection: 'row', gap: 8, alignItems: 'center' }}>
+            <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8, alignItems: 'center' }}>
               {showTimestamp && (
-                <Text style={{ fontSize: 12, color: theme.colors.mutedForeground.rgb }}>
+                <Text style={{ fontSize: type.scale(12, 'caption'), color: theme.colors.mutedForeground.rgb }}>
                   {formatTimestamp(timestamp)}
                 </Text>
               )}
               {isEdited && editedAt && (
-                <Text style={{ fontSize: 11, color: theme.colors.mutedForeground.rgb }}>
+                <Text style={{ fontSize: type.scale(11, 'caption'), color: theme.colors.mutedForeground.rgb }}>
                   edited {formatTimestamp(editedAt)}
                 </Text>
               )}
+              {renderBranchSwitcher(type.scale(14, 'label'))}
               {showStatus && getStatusIcon() && (
-                <Text style={{ fontSize: 12 }}>{getStatusIcon()}</Text>
+                <Text style={{ fontSize: type.scale(12, 'caption') }}>{getStatusIcon()}</Text>
               )}
             </View>
           </View>
 
           {showActions && (
-            <View style={{ flexDirection: 'row', gap: 12 }}>
+            <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 12 }}>
               {allowReactions && (
                 <>
                   <TouchableOpacity onPress={() => onReact?.('thumbsUp')}>
-                    <Text style={{ fontSize: 16 }}>👍</Text>
+                    <Text style={{ fontSize: type.scale(16, 'label') }}>👍</Text>
                   </TouchableOpacity>
                   <TouchableOpacity onPress={() => onReact?.('thumbsDown')}>
-                    <Text style={{ fontSize: 16 }}>👎</Text>
+                    <Text style={{ fontSize: type.scale(16, 'label') }}>👎</Text>
                   </TouchableOpacity>
                 </>
               )}
               <TouchableOpacity onPress={onCopy}>
-                <Text style={{ fontSize: 16 }}>📋</Text>
+                <Text style={{ fontSize: type.scale(16, 'label') }}>📋</Text>
               </TouchableOpacity>
               {allowEditing && role === 'user' && (
                 <TouchableOpacity onPress={handleEdit}>
-                  <Text style={{ fontSize: 16 }}>✏️</Text>
+                  <Text style={{ fontSize: type.scale(16, 'label') }}>✏️</Text>
                 </TouchableOpacity>
               )}
               {allowBookmark && (
                 <TouchableOpacity onPress={onBookmark}>
-                  <Text style={{ fontSize: 16 }}>{isBookmarked ? '🔖' : '📌'}</Text>
+                  <Text style={{ fontSize: type.scale(16, 'label') }}>{isBookmarked ? '🔖' : '📌'}</Text>
                 </TouchableOpacity>
               )}
               {allowShare && (
                 <TouchableOpacity onPress={onShare}>
-                  <Text style={{ fontSize: 16 }}>↗️</Text>
+                  <Text style={{ fontSize: type.scale(16, 'label') }}>↗️</Text>
                 </TouchableOpacity>
               )}
               {allowFlag && (
                 <TouchableOpacity onPress={onFlag}>
-                  <Text style={{ fontSize: 16, opacity: isFlagged ? 1 : 0.5 }}>🚩</Text>
+                  <Text style={{ fontSize: type.scale(16, 'label'), opacity: isFlagged ? 1 : 0.5 }}>🚩</Text>
                 </TouchableOpacity>
               )}
               {allowDeletion && role === 'user' && (
                 <TouchableOpacity onPress={onDelete}>
-                  <Text style={{ fontSize: 16 }}>🗑️</Text>
+                  <Text style={{ fontSize: type.scale(16, 'label') }}>🗑️</Text>
                 </TouchableOpacity>
               )}
-              {status === 'error' && onRetry && (
-                <TouchableOpacity onPress={onRetry}>
-                  <Text style={{ fontSize: 16 }}>🔄</Text>
+              {onRetry && (status === 'error' || (allowRegenerate && role === 'assistant' && status !== 'sending')) && (
+                <TouchableOpacity onPress={onRetry} accessibilityLabel={status === 'error' ? 'Retry' : 'Regenerate'}>
+                  <Text style={{ fontSize: type.scale(16, 'label') }}>🔄</Text>
                 </TouchableOpacity>
               )}
             </View>
@@ -430,7 +501,7 @@ export const Message = React.memo(function Message({
                 },
               ]}
             />
-            <View style={{ flexDirection: 'row', gap: 8 }}>
+            <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8 }}>
               <TouchableOpacity onPress={handleEdit}>
                 <Host
                   modifiers={[
@@ -442,7 +513,7 @@ export const Message = React.memo(function Message({
                   ]}
                   style={{ paddingHorizontal: 16, paddingVertical: 8 }}
                 >
-                  <Text style={{ color: '#FFFFFF', fontSize: 13, fontWeight: '600' }}>Save</Text>
+                  <Text style={{ color: '#FFFFFF', fontSize: type.scale(13, 'label'), fontWeight: '600' }}>Save</Text>
                 </Host>
               </TouchableOpacity>
               <TouchableOpacity onPress={handleCancelEdit}>
@@ -456,14 +527,14 @@ export const Message = React.memo(function Message({
                   ]}
                   style={{ paddingHorizontal: 16, paddingVertical: 8 }}
                 >
-                  <Text style={{ fontSize: 13, fontWeight: '600' }}>Cancel</Text>
+                  <Text style={{ fontSize: type.scale(13, 'label'), fontWeight: '600' }}>Cancel</Text>
                 </Host>
               </TouchableOpacity>
             </View>
           </View>
         ) : (
           <View style={{ gap: 8 }}>
-            <Text style={{ fontSize: 14, lineHeight: 20 }}>{content}</Text>
+            {renderContent(type.styles.bodySmall)}
 
             {/* Attachments */}
             {attachments && attachments.length > 0 && (
@@ -481,12 +552,12 @@ export const Message = React.memo(function Message({
                     style={{ padding: 8 }}
                   >
                     <View style={{ flexDirection: 'row', gap: 8, alignItems: 'center' }}>
-                      <Text style={{ fontSize: 16 }}>📎</Text>
-                      <Text style={{ fontSize: 12, flex: 1 }} numberOfLines={1}>
+                      <Text style={{ fontSize: type.scale(16, 'label') }}>📎</Text>
+                      <Text style={{ fontSize: type.scale(12, 'caption'), flex: 1 }} numberOfLines={stacked ? 3 : 1}>
                         {attachment.name}
                       </Text>
                       {attachment.size && (
-                        <Text style={{ fontSize: 11, color: theme.colors.mutedForeground.rgb }}>
+                        <Text style={{ fontSize: type.scale(11, 'caption'), color: theme.colors.mutedForeground.rgb }}>
                           {(attachment.size / 1024).toFixed(1)}KB
                         </Text>
                       )}
@@ -498,7 +569,7 @@ export const Message = React.memo(function Message({
 
             {/* Reactions */}
             {reactions && reactions.length > 0 && (
-              <View style={{ flexDirection: 'row', gap: 6 }}>
+              <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 6 }}>
                 {reactions.map((reaction) => (
                   <TouchableOpacity
                     key={reaction.type}
@@ -515,13 +586,13 @@ export const Message = React.memo(function Message({
                       style={{ paddingHorizontal: 8, paddingVertical: 4 }}
                     >
                       <View style={{ flexDirection: 'row', gap: 4, alignItems: 'center' }}>
-                        <Text style={{ fontSize: 14 }}>
+                        <Text style={{ fontSize: type.scale(14, 'label') }}>
                           {reaction.type === 'thumbsUp' && '👍'}
                           {reaction.type === 'thumbsDown' && '👎'}
                           {reaction.type === 'heart' && '❤️'}
                           {reaction.type === 'star' && '⭐'}
                         </Text>
-                        <Text style={{ fontSize: 12, fontWeight: '500' }}>
+                        <Text style={{ fontSize: type.scale(12, 'caption'), fontWeight: '500' }}>
                           {reaction.count}
                         </Text>
                       </View>
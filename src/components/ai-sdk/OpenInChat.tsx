@@ -18,7 +18,7 @@
 
 import React from 'react';
 import { View, Text, Pressable } from 'react-native';
-import { theme } from '../../theme';
+import { useAppTheme } from '../../theme';
 
 // Props interface
 export interface OpenInChatProps {
@@ -65,6 +65,7 @@ export const OpenInChat: React.FC<OpenInChatProps> = ({
   onDismiss,
   testID = 'open-in-chat',
 }) => {
+  const theme = useAppTheme();
   // Button variant - simple CTA button
   if (variant === 'button') {
     return (
@@ -410,6 +411,7 @@ export const exampleOpenInChat = {
 
 // Example: Different variants
 export const ExampleOpenInChatVariants: React.FC = () => {
+  const theme = useAppTheme();
   return (
     <View style={{ padding: theme.spacing.lg, gap: theme.spacing.lg }}>
       <View>
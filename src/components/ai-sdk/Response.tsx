@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Host } from '../common/SwiftUIHost';
 import { useTheme } from '../../design-system';
 import {
@@ -7,10 +7,18 @@ import {
   getOpacityForMaterial,
   opacityToHex,
 } from '../../design-system/glass-tokens';
+import { Markdown } from './markdown';
 
 export interface ResponseProps {
   content: string;
+  /** Render content as plain text or Markdown (default: 'text') */
+  format?: 'text' | 'markdown';
   streaming?: boolean;
+  /**
+   * Render `content` as it arrives from a real token stream instead of
+   * simulating typing. Use with `useUIMessageStream` state.
+   */
+  live?: boolean;
   showLoader?: boolean;
   variant?: 'default' | 'minimal' | 'inline';
   showCursor?: boolean;
@@ -36,7 +44,9 @@ export interface ResponseProps {
  */
 export function Response({
   content,
+  format = 'text',
   streaming = false,
+  live = false,
   showLoader = false,
   variant = 'default',
   showCursor = true,
@@ -50,7 +60,7 @@ export function Response({
 
   // Streaming animation effect
   useEffect(() => {
-    if (!streaming) {
+    if (!streaming || live) {
       setDisplayedContent(content);
       return;
     }
@@ -67,7 +77,16 @@ export function Response({
     }, 20); // 20ms per character for smooth streaming
 
     return () => clearInterval(interval);
-  }, [content, streaming, onComplete]);
+  }, [content, streaming, live, onComplete]);
+
+  // Live streams complete when the producer stops streaming
+  const wasStreamingRef = useRef(streaming);
+  useEffect(() => {
+    if (live && wasStreamingRef.current && !streaming) {
+      onComplete?.();
+    }
+    wasStreamingRef.current = streaming;
+  }, [live, streaming, onComplete]);
 
   // Cursor blinking effect
   useEffect(() => {
@@ -85,6 +104,28 @@ export function Response({
   const opacity = getOpacityForMaterial(glassVariant);
   const opacityHex = opacityToHex(opacity);
 
+  const renderContent = (style: { fontSize: number; lineHeight: number; flex?: number }) => {
+    const cursor = streaming && showCursor && showBlinkingCursor && (
+      <Text style={{ color: theme.colors.primary.rgb, fontWeight: '600' }}>{cursorChar}</Text>
+    );
+
+    if (format === 'markdown') {
+      return (
+        <View style={{ flex: style.flex, gap: 2 }}>
+          <Markdown content={displayedContent} streaming={streaming} />
+          {cursor}
+        </View>
+      );
+    }
+
+    return (
+      <Text style={style}>
+        {displayedContent}
+        {cursor}
+      </Text>
+    );
+  };
+
   // Minimal variant - no glass effect
   if (variant === 'minimal') {
     return (
@@ -93,12 +134,7 @@ export function Response({
           {showLoader && (
             <Text style={{ fontSize: 14 }}>💬</Text>
           )}
-          <Text style={{ fontSize: 14, lineHeight: 20, flex: 1 }}>
-            {displayedContent}
-            {streaming && showCursor && showBlinkingCursor && (
-              <Text style={{ color: theme.colors.primary.rgb }}>{cursorChar}</Text>
-            )}
-          </Text>
+          {renderContent({ fontSize: 14, lineHeight: 20, flex: 1 })}
         </View>
       </Host>
     );
@@ -123,12 +159,7 @@ export function Response({
               <Text style={{ fontSize: 12 }}>🤖</Text>
             </Host>
           )}
-          <Text style={{ fontSize: 14, lineHeight: 20 }}>
-            {displayedContent}
-            {streaming && showCursor && showBlinkingCursor && (
-              <Text style={{ color: theme.colors.primary.rgb }}>{cursorChar}</Text>
-            )}
-          </Text>
+          {renderContent({ fontSize: 14, lineHeight: 20 })}
         </View>
       </Host>
     );
@@ -185,14 +216,7 @@ export function Response({
         )}
 
         {/* Response content */}
-        <Text style={{ fontSize: 14, lineHeight: 20 }}>
-          {displayedContent}
-          {streaming && showCursor && showBlinkingCursor && (
-            <Text style={{ color: theme.colors.primary.rgb, fontWeight: '600' }}>
-              {cursorChar}
-            </Text>
-          )}
-        </Text>
+        {renderContent({ fontSize: 14, lineHeight: 20 })}
 
         {/* Streaming indicator dots */}
         {streaming && !displayedContent && (
@@ -18,7 +18,7 @@
 
 import React, { useState } from 'react';
 import { View, Text, Pressable, ScrollView, Alert, Linking } from 'react-native';
-import { theme } from '../../theme';
+import { useAppTheme } from '../../theme';
 
 // Source data structure
 export interface Source {
@@ -118,6 +118,7 @@ const SourceItem: React.FC<SourceItemProps> = ({
   onPress,
   onCopy,
 }) => {
+  const theme = useAppTheme();
   const [excerptExpanded, setExcerptExpanded] = useState(false);
 
   const handlePress = () => {
@@ -470,6 +471,7 @@ export const Sources: React.FC<SourcesProps> = ({
   onCopyCitation,
   testID = 'sources',
 }) => {
+  const theme = useAppTheme();
   const [expanded, setExpanded] = useState(defaultExpanded);
 
   if (sources.length === 0) {
@@ -1,7 +1,7 @@
 import React from 'react';
 import { View, StyleSheet, Text as RNText, TouchableOpacity } from 'react-native';
 import { Host } from '../common/SwiftUIHost';
-import { useTheme } from '../../design-system';
+import { useTheme, useTypography } from '../../design-system';
 
 export type TaskStatus = 'todo' | 'in_progress' | 'completed' | 'blocked' | 'cancelled';
 export type TaskPriority = 'low' | 'medium' | 'high' | 'urgent';
@@ -64,6 +64,15 @@ export function Task({
   testID,
 }: TaskProps) {
   const theme = useTheme();
+  const type = useTypography();
+  // At accessibility sizes the icon, title and metadata stack instead of sharing a row
+  const stacked = type.isAccessibilitySize;
+  const text = {
+    title: { fontSize: type.scale(15, 'body'), lineHeight: type.scale(20, 'body') },
+    description: { fontSize: type.scale(13, 'bodySmall'), lineHeight: type.scale(19, 'bodySmall') },
+    meta: { fontSize: type.scale(11, 'caption') },
+    tag: { fontSize: type.scale(10, 'overline') },
+  };
   const statusInfo = statusConfig[task.status];
   const priorityInfo = task.priority ? priorityConfig[task.priority] : null;
 
@@ -96,20 +105,30 @@ export function Task({
       >
         <View style={{ gap: variant === 'compact' ? 6 : 10 }}>
           {/* Header Row */}
-          <View style={{ flexDirection: 'row', gap: 10, alignItems: 'center' }}>
+          <View
+            style={{
+              flexDirection: stacked ? 'column' : 'row',
+              gap: 10,
+              alignItems: stacked ? 'flex-start' : 'center',
+            }}
+          >
             {/* Status Icon */}
             <TouchableOpacity
               onPress={() => onStatusChange?.(task.status === 'completed' ? 'todo' : 'completed')}
               hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
             >
-              <RNText style={{ fontSize: 20 }}>{statusInfo.icon}</RNText>
+              <RNText allowFontScaling={false} style={{ fontSize: type.scale(20, 'label') }}>
+                {statusInfo.icon}
+              </RNText>
             </TouchableOpacity>
 
             {/* Title and Info */}
-            <View style={{ flex: 1 }}>
+            <View style={{ flex: stacked ? undefined : 1 }}>
               <RNText
+                allowFontScaling={false}
                 style={[
                   styles.title,
+                  text.title,
                   {
                     color: theme.colors.foreground.rgb,
                     textDecorationLine: task.status === 'completed' ? 'line-through' : 'none',
@@ -122,24 +141,34 @@ export function Task({
 
               {/* Metadata Row */}
               {variant !== 'compact' && (
-                <View style={{ flexDirection: 'row', gap: 8, marginTop: 4, alignItems: 'center', flexWrap: 'wrap' }}>
+                <View
+                  style={{
+                    flexDirection: stacked ? 'column' : 'row',
+                    gap: stacked ? 4 : 8,
+                    marginTop: 4,
+                    alignItems: stacked ? 'flex-start' : 'center',
+                    flexWrap: 'wrap',
+                  }}
+                >
                   {/* Priority */}
                   {priorityInfo && (
-                    <RNText style={[styles.metaText, { color: priorityInfo.color }]}>
+                    <RNText allowFontScaling={false} style={[styles.metaText, text.meta, { color: priorityInfo.color }]}>
                       {priorityInfo.icon} {priorityInfo.label}
                     </RNText>
                   )}
 
                   {/* Status */}
-                  <RNText style={[styles.metaText, { color: statusInfo.color }]}>
+                  <RNText allowFontScaling={false} style={[styles.metaText, text.meta, { color: statusInfo.color }]}>
                     {statusInfo.label}
                   </RNText>
 
                   {/* Due Date */}
                   {task.dueDate && (
                     <RNText
+                      allowFontScaling={false}
                       style={[
                         styles.metaText,
+                        text.meta,
                         {
                           color: isOverdue
                             ? priorityConfig.urgent.color
@@ -154,7 +183,7 @@ export function Task({
 
                   {/* Assignee */}
                   {task.assignee && (
-                    <RNText style={[styles.metaText, { color: theme.colors.mutedForeground.rgb }]}>
+                    <RNText allowFontScaling={false} style={[styles.metaText, text.meta, { color: theme.colors.mutedForeground.rgb }]}>
                       👤 {task.assignee}
                     </RNText>
                   )}
@@ -166,8 +195,9 @@ export function Task({
           {/* Description */}
           {task.description && variant === 'detailed' && (
             <RNText
+              allowFontScaling={false}
               style={[
-                styles.description,
+                text.description,
                 { color: theme.colors.mutedForeground.rgb },
               ]}
             >
@@ -194,7 +224,13 @@ export function Task({
                   ]}
                 />
               </View>
-              <RNText style={[styles.progressText, { color: theme.colors.mutedForeground.rgb }]}>
+              <RNText
+                allowFontScaling={false}
+                style={[
+                  styles.progressText,
+                  { ...text.meta, width: type.scale(35, 'caption'), color: theme.colors.mutedForeground.rgb },
+                ]}
+              >
                 {task.progress}%
               </RNText>
             </View>
@@ -218,7 +254,7 @@ export function Task({
                   ]}
                   style={{ paddingHorizontal: 8, paddingVertical: 3 }}
                 >
-                  <RNText style={[styles.tag, { color: theme.colors.primary.rgb }]}>
+                  <RNText allowFontScaling={false} style={[styles.tag, text.tag, { color: theme.colors.primary.rgb }]}>
                     {tag}
                   </RNText>
                 </Host>
@@ -232,17 +268,11 @@ export function Task({
 }
 
 const styles = StyleSheet.create({
+  // Sizes are applied per render, scaled by useTypography
   title: {
-    fontSize: 15,
     fontWeight: '600',
-    lineHeight: 20,
-  },
-  description: {
-    fontSize: 13,
-    lineHeight: 19,
   },
   metaText: {
-    fontSize: 11,
     fontWeight: '500',
   },
   progressContainer: {
@@ -261,12 +291,9 @@ const styles = StyleSheet.create({
     borderRadius: 3,
   },
   progressText: {
-    fontSize: 11,
     fontWeight: '500',
-    width: 35,
   },
   tag: {
-    fontSize: 10,
     fontWeight: '500',
   },
 });
@@ -15,11 +15,47 @@
  *   showControls
  * />
  * ```
+ *
+ * Recordings made with asciinema can be played with `fromAsciicast`:
+ *
+ * ```tsx
+ * <Terminal recording={fromAsciicast(castText, { prompt: '$ ' })} autoPlay />
+ * ```
+ *
+ * Live mode shows a running tool's output as it arrives and captures it
+ * for replay:
+ *
+ * ```tsx
+ * <Terminal mode="live" source={toolOutput} onRecording={saveRecording} />
+ * ```
  */
 
-import React, { useState, useEffect, useRef } from 'react';
-import { View, Text, Pressable, ScrollView, ActivityIndicator } from 'react-native';
-import { theme } from '../../theme';
+import React, { useState, useEffect, useRef, useMemo, useImperativeHandle, forwardRef } from 'react';
+import {
+  View,
+  Text,
+  Pressable,
+  ScrollView,
+  ActivityIndicator,
+  GestureResponderEvent,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
+} from 'react-native';
+import { useAppTheme } from '../../theme';
+import {
+  AnsiText,
+  TerminalPalette,
+  TerminalChapter,
+  getTerminalPalette,
+  hasAnsi,
+  computeTimeline,
+  getPlaybackPosition,
+  getNextChangeTime,
+  formatPlaybackTime,
+  useLiveTerminal,
+  LiveTerminalSession,
+  LiveTerminalSource,
+} from './terminal';
 
 // Frame types
 export type TerminalFrameType = 'command' | 'output' | 'error' | 'success' | 'comment' | 'blank';
@@ -29,7 +65,7 @@ export interface TerminalFrame {
   type: TerminalFrameType;
   text: string;
   delay?: number; // ms before this frame appears
-  speed?: number; // ms per character for typing effect
+  speed?: number; // ms per character for typing effect; 0 shows the whole line at once
   prompt?: string; // custom prompt for this line
 }
 
@@ -41,21 +77,51 @@ export interface TerminalRecording {
   frames: TerminalFrame[];
   theme?: 'dark' | 'light';
   prompt?: string; // default prompt (e.g., '$ ', '> ')
+  // Set by lazy loaders: returns the batch after the first `loadedCount` frames, or [] once all are loaded.
+  // Stateless, so remounts and several Terminals can share one recording
+  loadMoreFrames?: (loadedCount: number) => TerminalFrame[];
 }
 
+// Frames left ahead of playback before the next lazy batch is requested
+const PREFETCH_FRAMES = 50;
+
+// Distance from the bottom, in points, within which live output keeps following the tail
+const FOLLOW_THRESHOLD = 24;
+
+const EMPTY_RECORDING: TerminalRecording = { id: 'empty', frames: [] };
+
 // Props interface
 export interface TerminalProps {
-  recording: TerminalRecording;
+  recording?: TerminalRecording; // Required in playback mode; sets title, theme and prompt in live mode
+  mode?: 'playback' | 'live';
+  source?: LiveTerminalSession | LiveTerminalSource; // Live mode output
+  scrollback?: number; // Live mode line limit for sessions created from an async source
   variant?: 'default' | 'inline' | 'minimal';
   autoPlay?: boolean;
   loop?: boolean;
   showControls?: boolean;
   showHeader?: boolean;
   defaultSpeed?: number; // Speed multiplier (0.5, 1, 2, 4)
+  palette?: Partial<TerminalPalette>; // Colors for ANSI escape codes in frame text
   onComplete?: () => void;
+  onTimeUpdate?: (time: number, duration: number) => void; // Playback position in ms at 1x
+  onRecording?: (recording: TerminalRecording) => void; // Live session captured, called when it ends
   testID?: string;
 }
 
+// Imperative API exposed through `ref`; times are ms at 1x speed
+export interface TerminalHandle {
+  play: () => void;
+  pause: () => void;
+  seek: (ms: number) => void;
+  stepForward: () => void;
+  stepBack: () => void;
+  getCurrentTime: () => number;
+  getDuration: () => number;
+  getChapters: () => TerminalChapter[];
+  getRecording: () => TerminalRecording; // Loaded frames, or the live capture so far
+}
+
 // Helper: Get glass effect values
 const getBlurForMaterial = (variant: string): number => {
   switch (variant) {
@@ -108,14 +174,23 @@ interface RenderedLineProps {
   showCursor: boolean;
   isDark: boolean;
   defaultPrompt: string;
+  palette: TerminalPalette;
 }
 
+const lineTextStyle = {
+  fontFamily: 'monospace',
+  fontSize: 13,
+  lineHeight: 20,
+  flex: 1,
+};
+
 const RenderedLine: React.FC<RenderedLineProps> = ({
   frame,
   text,
   showCursor,
   isDark,
   defaultPrompt,
+  palette,
 }) => {
   const color = getFrameColor(frame.type, isDark);
   const prompt = getPrompt(frame, defaultPrompt);
@@ -141,54 +216,280 @@ const RenderedLine: React.FC<RenderedLineProps> = ({
         </Text>
       )}
 
-      {/* Text */}
-      <Text
+      {/* Text - frame type sets the base color, escape codes override it */}
+      {hasAnsi(text) ? (
+        <AnsiText text={text} palette={palette} color={color} style={lineTextStyle}>
+          {showCursor && <Text style={{ color, opacity: 0.8 }}>▋</Text>}
+        </AnsiText>
+      ) : (
+        <Text style={[lineTextStyle, { color }]}>
+          {text}
+          {/* Cursor */}
+          {showCursor && (
+            <Text style={{ color, opacity: 0.8 }}>▋</Text>
+          )}
+        </Text>
+      )}
+    </View>
+  );
+};
+
+// Timeline scrubber with chapter ticks
+interface ScrubberProps {
+  time: number;
+  duration: number;
+  chapters: TerminalChapter[];
+  isDark: boolean;
+  onSeek: (ms: number) => void;
+}
+
+const Scrubber: React.FC<ScrubberProps> = ({ time, duration, chapters, isDark, onSeek }) => {
+  const theme = useAppTheme();
+  const [width, setWidth] = useState(0);
+  const progress = duration > 0 ? Math.min(1, time / duration) : 0;
+
+  const seekTo = (evt: GestureResponderEvent) => {
+    if (width === 0) return;
+    const ratio = Math.max(0, Math.min(1, evt.nativeEvent.locationX / width));
+    onSeek(ratio * duration);
+  };
+
+  return (
+    <View
+      onLayout={(evt) => setWidth(evt.nativeEvent.layout.width)}
+      onStartShouldSetResponder={() => true}
+      onMoveShouldSetResponder={() => true}
+      onResponderGrant={seekTo}
+      onResponderMove={seekTo}
+      accessibilityRole="adjustable"
+      accessibilityLabel="Playback position"
+      accessibilityValue={{ min: 0, max: Math.round(duration), now: Math.round(time) }}
+      style={{ height: 16, justifyContent: 'center' }}
+    >
+      <View
+        pointerEvents="none"
         style={{
-          fontFamily: 'monospace',
-          fontSize: 13,
-          lineHeight: 20,
-          color,
-          flex: 1,
+          height: 4,
+          borderRadius: 2,
+          backgroundColor: isDark ? '#3A3A3A' : '#E0E0E0',
+          overflow: 'hidden',
         }}
       >
-        {text}
-        {/* Cursor */}
-        {showCursor && (
-          <Text style={{ color, opacity: 0.8 }}>▋</Text>
-        )}
+        <View
+          style={{
+            height: '100%',
+            width: `${progress * 100}%`,
+            backgroundColor: theme.colors.primary,
+          }}
+        />
+      </View>
+
+      {/* Chapter ticks */}
+      {duration > 0 && chapters.map((chapter) => (
+        <View
+          key={chapter.frameIndex}
+          pointerEvents="none"
+          style={{
+            position: 'absolute',
+            left: `${(chapter.time / duration) * 100}%`,
+            width: 2,
+            height: 10,
+            marginLeft: -1,
+            borderRadius: 1,
+            backgroundColor: isDark ? '#CCCCCC' : '#666666',
+          }}
+        />
+      ))}
+
+      {/* Thumb */}
+      <View
+        pointerEvents="none"
+        style={{
+          position: 'absolute',
+          left: `${progress * 100}%`,
+          width: 12,
+          height: 12,
+          marginLeft: -6,
+          borderRadius: 6,
+          backgroundColor: theme.colors.primary,
+        }}
+      />
+    </View>
+  );
+};
+
+// Live mode status and follow control
+interface LiveStatusBarProps {
+  ended: boolean;
+  exitCode?: number;
+  lineCount: number;
+  droppedLines: number;
+  following: boolean;
+  isDark: boolean;
+  onJumpToLatest: () => void;
+}
+
+const LiveStatusBar: React.FC<LiveStatusBarProps> = ({
+  ended,
+  exitCode,
+  lineCount,
+  droppedLines,
+  following,
+  isDark,
+  onJumpToLatest,
+}) => {
+  const theme = useAppTheme();
+  const statusColor = !ended ? '#FF5F56' : exitCode === undefined || exitCode === 0 ? '#27C93F' : '#FF4444';
+  const status = !ended ? 'Live' : exitCode === undefined ? 'Ended' : `Exited ${exitCode}`;
+
+  return (
+    <View
+      style={{
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        padding: theme.spacing.md,
+        paddingTop: theme.spacing.sm,
+        borderTopWidth: 1,
+        borderTopColor: isDark ? '#333333' : `${theme.colors.border.default}${opacityToHex(0.2)}`,
+        backgroundColor: isDark
+          ? '#1E1E1E'
+          : `${theme.colors.surface.default}${opacityToHex(0.5)}`,
+      }}
+    >
+      {/* Status */}
+      <View
+        style={{ flexDirection: 'row', alignItems: 'center', gap: 6 }}
+        accessibilityLiveRegion="polite"
+      >
+        <View style={{ width: 8, height: 8, borderRadius: 4, backgroundColor: statusColor }} />
+        <Text style={{ fontSize: 11, fontWeight: '600', color: isDark ? '#CCCCCC' : '#666666' }}>
+          {status}
+        </Text>
+      </View>
+
+      {/* Line count */}
+      <Text style={{ fontSize: 10, color: isDark ? '#888888' : '#999999' }} numberOfLines={1}>
+        {lineCount} lines{droppedLines > 0 ? ` · ${droppedLines} trimmed` : ''}
       </Text>
+
+      {/* Follow tail */}
+      <Pressable
+        onPress={onJumpToLatest}
+        disabled={following}
+        accessibilityLabel="Jump to latest output"
+        style={({ pressed }) => ({
+          paddingHorizontal: theme.spacing.sm,
+          paddingVertical: 6,
+          borderRadius: theme.borderRadius.sm,
+          backgroundColor: following
+            ? 'transparent'
+            : pressed
+              ? `${theme.colors.primary}${opacityToHex(0.9)}`
+              : theme.colors.primary,
+          minWidth: 70,
+          alignItems: 'center',
+        })}
+      >
+        <Text style={{ fontSize: 11, fontWeight: '600', color: following ? (isDark ? '#888888' : '#999999') : '#FFFFFF' }}>
+          {following ? 'Following' : '↓ Latest'}
+        </Text>
+      </Pressable>
     </View>
   );
 };
 
 // Main Terminal Component
-export const Terminal: React.FC<TerminalProps> = ({
-  recording,
+export const Terminal = forwardRef<TerminalHandle, TerminalProps>(function Terminal({
+  recording: recordingProp,
+  mode = 'playback',
+  source,
+  scrollback,
   variant = 'default',
   autoPlay = false,
   loop = false,
   showControls = true,
   showHeader = true,
   defaultSpeed = 1,
+  palette: paletteOverrides,
   onComplete,
+  onTimeUpdate,
+  onRecording,
   testID = 'terminal',
-}) => {
-  const [playing, setPlaying] = useState(autoPlay);
-  const [currentFrameIndex, setCurrentFrameIndex] = useState(0);
-  const [currentCharIndex, setCurrentCharIndex] = useState(0);
-  const [renderedFrames, setRenderedFrames] = useState<Array<{ frame: TerminalFrame; text: string }>>([]);
+}, ref) {
+  const theme = useAppTheme();
+  const recording = recordingProp ?? EMPTY_RECORDING;
+  const isLive = mode === 'live';
+  const [playing, setPlaying] = useState(autoPlay && !isLive);
+  // Playback position in ms at 1x; the screen is derived from it
+  const [time, setTime] = useState(0);
   const [speed, setSpeed] = useState(defaultSpeed);
   const [cursorVisible, setCursorVisible] = useState(true);
   const scrollViewRef = useRef<ScrollView>(null);
+  const onCompleteRef = useRef(onComplete);
+  onCompleteRef.current = onComplete;
+
+  // Frames loaded so far; lazy recordings grow as playback approaches the end
+  const [frames, setFrames] = useState<TerminalFrame[]>(recording.frames);
+  const [hasMoreFrames, setHasMoreFrames] = useState(!!recording.loadMoreFrames);
+
+  const timeline = useMemo(() => computeTimeline(frames), [frames]);
+  const { frameIndex: currentFrameIndex, charIndex: currentCharIndex } = getPlaybackPosition(timeline, frames, time);
+
+  // Live output, following the tail until the user scrolls up
+  const live = useLiveTerminal(isLive ? source : undefined, {
+    title: recording.title,
+    prompt: recording.prompt,
+    theme: recording.theme,
+    scrollback,
+  });
+  const [following, setFollowing] = useState(true);
+
+  // Live sessions without a recording describe themselves
+  const info = isLive && !recordingProp ? live.session.options : recording;
+  const isDark = info.theme === 'dark' || info.theme === undefined;
+  const defaultPrompt = info.prompt || '$ ';
+  const palette = getTerminalPalette(isDark, paletteOverrides);
+  const currentFrame = frames[currentFrameIndex];
+  const isComplete = !isLive && time >= timeline.duration && !hasMoreFrames;
+  const currentChapter = [...timeline.chapters].reverse().find((chapter) => chapter.time <= time);
+
+  // Lines on screen; keys stay stable as live scrollback drops old lines
+  const renderedFrames = isLive
+    ? live.snapshot.frames.map((frame, index) => ({ key: live.snapshot.droppedLines + index, frame, text: frame.text }))
+    : frames.slice(0, currentFrameIndex).map((frame, index) => ({ key: index, frame, text: frame.text }));
+  const activeLine = isLive
+    ? live.snapshot.partial && { frame: live.snapshot.partial, text: live.snapshot.partial.text }
+    : currentFrame && currentCharIndex > 0
+      ? { frame: currentFrame, text: currentFrame.text.substring(0, currentCharIndex) }
+      : null;
+  const isActive = isLive ? !live.snapshot.ended : playing && !isComplete;
 
-  const isDark = recording.theme === 'dark' || recording.theme === undefined;
-  const defaultPrompt = recording.prompt || '$ ';
-  const currentFrame = recording.frames[currentFrameIndex];
-  const isComplete = currentFrameIndex >= recording.frames.length;
+  // New recording - start over
+  useEffect(() => {
+    setFrames(recording.frames);
+    setHasMoreFrames(!!recording.loadMoreFrames);
+    handleRestart();
+  }, [recording]);
+
+  // Lazy loading
+  useEffect(() => {
+    if (!hasMoreFrames || !recording.loadMoreFrames) return;
+    if (currentFrameIndex < frames.length - PREFETCH_FRAMES) return;
+
+    const loaded = frames.length;
+    const more = recording.loadMoreFrames(loaded);
+    if (more.length === 0) {
+      setHasMoreFrames(false);
+    } else {
+      // A repeated effect run (StrictMode) asks for the same batch; append it once
+      setFrames((prev) => (prev.length === loaded ? [...prev, ...more] : prev));
+    }
+  }, [currentFrameIndex, frames, hasMoreFrames, recording]);
 
   // Cursor blinking
   useEffect(() => {
-    if (!playing || isComplete) {
+    if (!isActive) {
       setCursorVisible(true);
       return;
     }
@@ -198,69 +499,73 @@ export const Terminal: React.FC<TerminalProps> = ({
     }, 500);
 
     return () => clearInterval(interval);
-  }, [playing, isComplete]);
+  }, [isActive]);
 
-  // Playback engine
+  // Hand over the captured session once it ends
   useEffect(() => {
-    if (!playing || isComplete) return;
+    if (isLive && live.snapshot.ended) onRecording?.(live.session.toRecording());
+  }, [isLive, live.session, live.snapshot.ended]);
 
-    const frame = recording.frames[currentFrameIndex];
-    if (!frame) return;
+  // Playback engine - sleep until the next screen change on the timeline
+  useEffect(() => {
+    if (!playing || isLive) return;
 
-    const isTypingFrame = frame.type === 'command';
-    const baseSpeed = frame.speed || (isTypingFrame ? 30 : 10);
-    const adjustedSpeed = baseSpeed / speed;
+    const next = getNextChangeTime(timeline, frames, time);
+    if (next === null) {
+      // Waiting on the next lazy batch
+      if (hasMoreFrames) return;
 
-    // Handle initial delay
-    if (currentCharIndex === 0 && frame.delay) {
-      const delayTimeout = setTimeout(() => {
-        setCurrentCharIndex(1);
-      }, frame.delay / speed);
-      return () => clearTimeout(delayTimeout);
-    }
+      // Loop if enabled
+      if (loop) {
+        const loopTimeout = setTimeout(() => {
+          onCompleteRef.current?.();
+          handleRestart();
+        }, 1000);
+        return () => clearTimeout(loopTimeout);
+      }
 
-    // Typing animation
-    if (currentCharIndex < frame.text.length) {
-      const typingTimeout = setTimeout(() => {
-        setCurrentCharIndex(currentCharIndex + 1);
-      }, adjustedSpeed);
-      return () => clearTimeout(typingTimeout);
+      // Recording complete
+      setPlaying(false);
+      onCompleteRef.current?.();
+      return;
     }
 
-    // Frame complete - move to next
-    if (currentCharIndex >= frame.text.length) {
-      const completeTimeout = setTimeout(() => {
-        // Add completed frame to rendered list
-        setRenderedFrames((prev) => [...prev, { frame, text: frame.text }]);
-
-        // Move to next frame
-        if (currentFrameIndex < recording.frames.length - 1) {
-          setCurrentFrameIndex(currentFrameIndex + 1);
-          setCurrentCharIndex(0);
-        } else {
-          // Recording complete
-          setPlaying(false);
-          if (onComplete) onComplete();
-
-          // Loop if enabled
-          if (loop) {
-            setTimeout(() => {
-              handleRestart();
-              setPlaying(true);
-            }, 1000);
-          }
-        }
-      }, isTypingFrame ? 300 / speed : 50 / speed);
-      return () => clearTimeout(completeTimeout);
-    }
-  }, [playing, currentFrameIndex, currentCharIndex, speed, recording, loop, isComplete, onComplete]);
+    const timeout = setTimeout(() => setTime(next), (next - time) / speed);
+    return () => clearTimeout(timeout);
+  }, [playing, isLive, time, speed, timeline, frames, hasMoreFrames, loop]);
+
+  useEffect(() => {
+    onTimeUpdate?.(time, timeline.duration);
+  }, [time, timeline.duration]);
 
   // Auto-scroll to bottom
   useEffect(() => {
     if (scrollViewRef.current && playing) {
       scrollViewRef.current.scrollToEnd({ animated: true });
     }
-  }, [renderedFrames, currentFrameIndex, playing]);
+  }, [currentFrameIndex, playing]);
+
+  // Live follow-tail: dragging stops following, settling at the bottom resumes it
+  const handleScrollSettled = (evt: NativeSyntheticEvent<NativeScrollEvent>) => {
+    const { contentOffset, contentSize, layoutMeasurement } = evt.nativeEvent;
+    setFollowing(contentSize.height - layoutMeasurement.height - contentOffset.y <= FOLLOW_THRESHOLD);
+  };
+
+  const jumpToLatest = () => {
+    setFollowing(true);
+    scrollViewRef.current?.scrollToEnd({ animated: true });
+  };
+
+  const liveScrollProps = isLive
+    ? {
+        onScrollBeginDrag: () => setFollowing(false),
+        onScrollEndDrag: handleScrollSettled,
+        onMomentumScrollEnd: handleScrollSettled,
+        onContentSizeChange: () => {
+          if (following) scrollViewRef.current?.scrollToEnd({ animated: false });
+        },
+      }
+    : {};
 
   // Handlers
   const handlePlayPause = () => {
@@ -273,12 +578,30 @@ export const Terminal: React.FC<TerminalProps> = ({
   };
 
   const handleRestart = () => {
-    setCurrentFrameIndex(0);
-    setCurrentCharIndex(0);
-    setRenderedFrames([]);
+    setTime(0);
     setCursorVisible(true);
   };
 
+  const seek = (ms: number) => {
+    setTime(Math.max(0, Math.min(timeline.duration, ms)));
+  };
+
+  // Step to the start of the next frame
+  const stepForward = () => {
+    setPlaying(false);
+    const entry = timeline.entries[currentFrameIndex];
+    if (entry) seek(entry.end);
+  };
+
+  // Step to the start of the current frame, or the previous one if already there
+  const stepBack = () => {
+    setPlaying(false);
+    const entry = timeline.entries[currentFrameIndex];
+    const previous = timeline.entries[currentFrameIndex - 1];
+    if (entry && time > entry.start) seek(entry.start);
+    else if (previous) seek(previous.start);
+  };
+
   const handleSpeedChange = () => {
     const speeds = [0.5, 1, 2, 4];
     const currentIndex = speeds.indexOf(speed);
@@ -286,10 +609,17 @@ export const Terminal: React.FC<TerminalProps> = ({
     setSpeed(speeds[nextIndex]);
   };
 
-  // Get current typing text
-  const currentTypingText = currentFrame && currentCharIndex > 0
-    ? currentFrame.text.substring(0, currentCharIndex)
-    : '';
+  useImperativeHandle(ref, () => ({
+    play: () => (isComplete ? handlePlayPause() : setPlaying(true)),
+    pause: () => setPlaying(false),
+    seek,
+    stepForward,
+    stepBack,
+    getCurrentTime: () => time,
+    getDuration: () => timeline.duration,
+    getChapters: () => timeline.chapters,
+    getRecording: () => (isLive ? live.session.toRecording() : { ...recording, frames }),
+  }));
 
   // Minimal variant - just the output
   if (variant === 'minimal') {
@@ -297,26 +627,29 @@ export const Terminal: React.FC<TerminalProps> = ({
       <View testID={testID} style={{ padding: theme.spacing.md }}>
         <ScrollView
           ref={scrollViewRef}
+          {...liveScrollProps}
           style={{ maxHeight: 300 }}
           showsVerticalScrollIndicator={false}
         >
-          {renderedFrames.map((item, index) => (
+          {renderedFrames.map((item) => (
             <RenderedLine
-              key={index}
+              key={item.key}
               frame={item.frame}
               text={item.text}
               showCursor={false}
               isDark={isDark}
               defaultPrompt={defaultPrompt}
+              palette={palette}
             />
           ))}
-          {currentFrame && currentCharIndex > 0 && (
+          {activeLine && (
             <RenderedLine
-              frame={currentFrame}
-              text={currentTypingText}
-              showCursor={playing && cursorVisible}
+              frame={activeLine.frame}
+              text={activeLine.text}
+              showCursor={isActive && cursorVisible}
               isDark={isDark}
               defaultPrompt={defaultPrompt}
+              palette={palette}
             />
           )}
         </ScrollView>
@@ -339,26 +672,29 @@ export const Terminal: React.FC<TerminalProps> = ({
       >
         <ScrollView
           ref={scrollViewRef}
+          {...liveScrollProps}
           style={{ maxHeight: 200 }}
           showsVerticalScrollIndicator={false}
         >
-          {renderedFrames.map((item, index) => (
+          {renderedFrames.map((item) => (
             <RenderedLine
-              key={index}
+              key={item.key}
               frame={item.frame}
               text={item.text}
               showCursor={false}
               isDark={isDark}
               defaultPrompt={defaultPrompt}
+              palette={palette}
             />
           ))}
-          {currentFrame && currentCharIndex > 0 && (
+          {activeLine && (
             <RenderedLine
-              frame={currentFrame}
-              text={currentTypingText}
-              showCursor={playing && cursorVisible}
+              frame={activeLine.frame}
+              text={activeLine.text}
+              showCursor={isActive && cursorVisible}
               isDark={isDark}
               defaultPrompt={defaultPrompt}
+              palette={palette}
             />
           )}
         </ScrollView>
@@ -411,7 +747,7 @@ export const Terminal: React.FC<TerminalProps> = ({
           </View>
 
           {/* Title */}
-          {recording.title && (
+          {info.title && (
             <Text
               style={{
                 fontSize: 12,
@@ -421,7 +757,7 @@ export const Terminal: React.FC<TerminalProps> = ({
                 textAlign: 'center',
               }}
             >
-              {recording.title}
+              {info.title}
             </Text>
           )}
 
@@ -433,6 +769,7 @@ export const Terminal: React.FC<TerminalProps> = ({
       {/* Terminal content */}
       <ScrollView
         ref={scrollViewRef}
+        {...liveScrollProps}
         style={{
           maxHeight: 400,
           minHeight: 200,
@@ -443,25 +780,27 @@ export const Terminal: React.FC<TerminalProps> = ({
         showsVerticalScrollIndicator={false}
       >
         {/* Rendered frames */}
-        {renderedFrames.map((item, index) => (
+        {renderedFrames.map((item) => (
           <RenderedLine
-            key={index}
+            key={item.key}
             frame={item.frame}
             text={item.text}
             showCursor={false}
             isDark={isDark}
             defaultPrompt={defaultPrompt}
+            palette={palette}
           />
         ))}
 
-        {/* Current typing frame */}
-        {currentFrame && currentCharIndex > 0 && (
+        {/* Current typing frame, or the live line still being written */}
+        {activeLine && (
           <RenderedLine
-            frame={currentFrame}
-            text={currentTypingText}
-            showCursor={playing && cursorVisible}
+            frame={activeLine.frame}
+            text={activeLine.text}
+            showCursor={isActive && cursorVisible}
             isDark={isDark}
             defaultPrompt={defaultPrompt}
+            palette={palette}
           />
         )}
 
@@ -481,8 +820,21 @@ export const Terminal: React.FC<TerminalProps> = ({
         )}
       </ScrollView>
 
+      {/* Live status */}
+      {showControls && isLive && (
+        <LiveStatusBar
+          ended={live.snapshot.ended}
+          exitCode={live.snapshot.exitCode}
+          lineCount={live.snapshot.droppedLines + live.snapshot.frames.length}
+          droppedLines={live.snapshot.droppedLines}
+          following={following}
+          isDark={isDark}
+          onJumpToLatest={jumpToLatest}
+        />
+      )}
+
       {/* Controls */}
-      {showControls && (
+      {showControls && !isLive && (
         <View
           style={{
             flexDirection: 'row',
@@ -532,26 +884,41 @@ export const Terminal: React.FC<TerminalProps> = ({
             >
               <Text style={{ fontSize: 14 }}>⟲</Text>
             </Pressable>
+
+            {/* Frame stepping */}
+            {[
+              { label: '⏮', onPress: stepBack, accessibilityLabel: 'Previous frame' },
+              { label: '⏭', onPress: stepForward, accessibilityLabel: 'Next frame' },
+            ].map((button) => (
+              <Pressable
+                key={button.accessibilityLabel}
+                onPress={button.onPress}
+                accessibilityLabel={button.accessibilityLabel}
+                style={({ pressed }) => ({
+                  width: 36,
+                  height: 36,
+                  borderRadius: 18,
+                  backgroundColor: pressed
+                    ? isDark ? '#3A3A3A' : '#E0E0E0'
+                    : isDark ? '#2A2A2A' : '#F0F0F0',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                })}
+              >
+                <Text style={{ fontSize: 14 }}>{button.label}</Text>
+              </Pressable>
+            ))}
           </View>
 
-          {/* Progress */}
+          {/* Timeline */}
           <View style={{ flex: 1, marginHorizontal: theme.spacing.md }}>
-            <View
-              style={{
-                height: 4,
-                borderRadius: 2,
-                backgroundColor: isDark ? '#3A3A3A' : '#E0E0E0',
-                overflow: 'hidden',
-              }}
-            >
-              <View
-                style={{
-                  height: '100%',
-                  width: `${((currentFrameIndex + 1) / recording.frames.length) * 100}%`,
-                  backgroundColor: theme.colors.primary,
-                }}
-              />
-            </View>
+            <Scrubber
+              time={time}
+              duration={timeline.duration}
+              chapters={timeline.chapters}
+              isDark={isDark}
+              onSeek={seek}
+            />
             <Text
               style={{
                 fontSize: 10,
@@ -559,8 +926,10 @@ export const Terminal: React.FC<TerminalProps> = ({
                 marginTop: 4,
                 textAlign: 'center',
               }}
+              numberOfLines={1}
             >
-              {currentFrameIndex + 1} / {recording.frames.length}
+              {formatPlaybackTime(time)} / {formatPlaybackTime(timeline.duration)}{hasMoreFrames ? '+' : ''}
+              {currentChapter ? ` · ${currentChapter.label}` : ''}
             </Text>
           </View>
 
@@ -592,7 +961,7 @@ export const Terminal: React.FC<TerminalProps> = ({
       )}
     </View>
   );
-};
+});
 
 // Example recordings for testing
 export const exampleRecordings: Record<string, TerminalRecording> = {
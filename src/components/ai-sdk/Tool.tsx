@@ -15,14 +15,38 @@
  *   variant="default"
  * />
  * ```
+ *
+ * Streaming calls and approvals are easiest to drive from a ToolCallStore:
+ *
+ * ```tsx
+ * const { tools, store } = useToolCalls();
+ *
+ * <Tool tool={tools[0]} onApprove={t => store.approve(t.id)} onDeny={t => store.deny(t.id)} />
+ * ```
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { View, Text, Pressable, ActivityIndicator } from 'react-native';
-import { theme } from '../../theme';
+import { useAppTheme, AppTheme } from '../../theme';
+import { SchemaView } from './tool/SchemaView';
+import { JsonSchema, validateSchema } from './tool/schema';
 
 // Tool status
-export type ToolStatus = 'idle' | 'running' | 'success' | 'error';
+export type ToolStatus =
+  | 'idle'
+  | 'streaming' // arguments still arriving
+  | 'awaiting-approval'
+  | 'running'
+  | 'success'
+  | 'error'
+  | 'cancelled';
+
+// Human-in-the-loop confirmation
+export interface ToolApproval {
+  message?: string; // Shown above the approve and deny buttons
+  decision?: 'approved' | 'denied';
+  reason?: string; // Why the call was denied
+}
 
 // Tool data structure
 export interface ToolData {
@@ -32,6 +56,10 @@ export interface ToolData {
   icon?: string;
   status: ToolStatus;
   parameters?: Record<string, any>;
+  inputText?: string; // Raw argument JSON while streaming
+  inputSchema?: JsonSchema; // Renders parameters as typed fields and validates them
+  outputSchema?: JsonSchema; // Renders the result as typed fields
+  approval?: ToolApproval;
   result?: any;
   error?: string;
   startTime?: Date;
@@ -49,22 +77,36 @@ export interface ToolProps {
   parameters?: Record<string, any>; // Fallback parameters
   result?: any; // Fallback result
   error?: string; // Fallback error
+  inputSchema?: JsonSchema; // Fallback input schema
+  outputSchema?: JsonSchema; // Fallback output schema
   variant?: 'default' | 'compact' | 'minimal';
   showParameters?: boolean;
   showResult?: boolean;
   onPress?: (tool: ToolData) => void;
+  onApprove?: (tool: ToolData) => void; // Shown while awaiting approval
+  onDeny?: (tool: ToolData) => void;
+  onCancel?: (tool: ToolData) => void; // Shown while streaming or running
   testID?: string;
 }
 
+// Statuses that are still in progress
+const ACTIVE_STATUSES: ToolStatus[] = ['streaming', 'awaiting-approval', 'running'];
+
 // Helper: Get status icon and color
-const getStatusConfig = (status: ToolStatus): { icon: string; color: string; label: string } => {
+const getStatusConfig = (status: ToolStatus, theme: AppTheme): { icon: string; color: string; label: string } => {
   switch (status) {
+    case 'streaming':
+      return { icon: '⋯', color: theme.colors.primary, label: 'Preparing' };
+    case 'awaiting-approval':
+      return { icon: '⚠', color: theme.colors.warning, label: 'Needs approval' };
     case 'running':
       return { icon: '⏳', color: theme.colors.primary, label: 'Running' };
     case 'success':
       return { icon: '✓', color: theme.colors.success, label: 'Success' };
     case 'error':
       return { icon: '✗', color: theme.colors.destructive, label: 'Error' };
+    case 'cancelled':
+      return { icon: '⊘', color: theme.colors.text.tertiary, label: 'Cancelled' };
     case 'idle':
     default:
       return { icon: '○', color: theme.colors.text.tertiary, label: 'Idle' };
@@ -124,6 +166,73 @@ const opacityToHex = (opacity: number): string => {
   return hex.toUpperCase();
 };
 
+// Approve / deny buttons for a call awaiting approval
+interface ApprovalActionsProps {
+  onApprove?: () => void;
+  onDeny?: () => void;
+  compact?: boolean;
+}
+
+const ApprovalActions: React.FC<ApprovalActionsProps> = ({ onApprove, onDeny, compact = false }) => {
+  const theme = useAppTheme();
+  const buttonStyle = {
+    paddingHorizontal: compact ? theme.spacing.sm : theme.spacing.md,
+    paddingVertical: compact ? 4 : 6,
+    borderRadius: theme.borderRadius.sm,
+  };
+
+  return (
+    <View style={{ flexDirection: 'row', gap: theme.spacing.xs }}>
+      {onDeny && (
+        <Pressable
+          onPress={onDeny}
+          accessibilityRole="button"
+          accessibilityLabel="Deny tool call"
+          style={({ pressed }) => ({
+            ...buttonStyle,
+            borderWidth: 1,
+            borderColor: `${theme.colors.destructive}${opacityToHex(0.5)}`,
+            backgroundColor: pressed ? `${theme.colors.destructive}${opacityToHex(0.15)}` : 'transparent',
+          })}
+        >
+          <Text
+            style={{
+              fontSize: theme.typography.caption.fontSize,
+              color: theme.colors.destructive,
+              fontWeight: '600',
+            }}
+          >
+            Deny
+          </Text>
+        </Pressable>
+      )}
+      {onApprove && (
+        <Pressable
+          onPress={onApprove}
+          accessibilityRole="button"
+          accessibilityLabel="Approve tool call"
+          style={({ pressed }) => ({
+            ...buttonStyle,
+            borderWidth: 1,
+            borderColor: theme.colors.primary,
+            backgroundColor: pressed ? `${theme.colors.primary}${opacityToHex(0.85)}` : theme.colors.primary,
+          })}
+        >
+          <Text
+            style={{
+              fontSize: theme.typography.caption.fontSize,
+              color: '#FFFFFF',
+              fontWeight: '600',
+            }}
+          >
+            Approve
+          </Text>
+        </Pressable>
+      )}
+    </View>
+  );
+};
+
 export const Tool: React.FC<ToolProps> = ({
   tool,
   name,
@@ -133,12 +242,18 @@ export const Tool: React.FC<ToolProps> = ({
   parameters,
   result,
   error,
+  inputSchema,
+  outputSchema,
   variant = 'default',
   showParameters = true,
   showResult = true,
   onPress,
+  onApprove,
+  onDeny,
+  onCancel,
   testID = 'tool',
 }) => {
+  const theme = useAppTheme();
   const [resultExpanded, setResultExpanded] = useState(false);
   const [elapsedTime, setElapsedTime] = useState(0);
 
@@ -151,21 +266,41 @@ export const Tool: React.FC<ToolProps> = ({
   const finalResult = result || tool?.result;
   const finalError = error || tool?.error;
   const duration = tool?.duration;
+  const approval = tool?.approval;
+  const finalInputSchema = inputSchema || tool?.inputSchema;
+  const finalOutputSchema = outputSchema || tool?.outputSchema;
+  const startedAt = tool?.startTime?.getTime();
 
-  const statusConfig = getStatusConfig(finalStatus);
+  const statusConfig = getStatusConfig(finalStatus, theme);
   const paramCount = Object.keys(finalParameters).length;
+  const isActive = ACTIVE_STATUSES.includes(finalStatus);
+  const isStreaming = finalStatus === 'streaming';
+  const isBusy = isStreaming || finalStatus === 'running';
+  const awaitingApproval = finalStatus === 'awaiting-approval' && (onApprove || onDeny);
 
-  // Simulate elapsed time for running status
+  // Partial arguments are not validated; missing fields are still on the way
+  const parameterIssues = useMemo(
+    () => (finalInputSchema && !isStreaming ? validateSchema(finalParameters, finalInputSchema) : []),
+    [finalInputSchema, finalParameters, isStreaming]
+  );
+  const resultIssues = useMemo(
+    () => (finalOutputSchema && finalResult !== undefined ? validateSchema(finalResult, finalOutputSchema) : []),
+    [finalOutputSchema, finalResult]
+  );
+
+  // Elapsed time since the call started, or since it was first shown active
   useEffect(() => {
-    if (finalStatus === 'running') {
+    if (isActive) {
+      const since = startedAt ?? Date.now();
+      setElapsedTime(Date.now() - since);
       const interval = setInterval(() => {
-        setElapsedTime((prev) => prev + 100);
+        setElapsedTime(Date.now() - since);
       }, 100);
       return () => clearInterval(interval);
     } else {
       setElapsedTime(0);
     }
-  }, [finalStatus]);
+  }, [isActive, startedAt]);
 
   const handlePress = () => {
     if (onPress && tool) {
@@ -173,6 +308,35 @@ export const Tool: React.FC<ToolProps> = ({
     }
   };
 
+  // Lifecycle callbacks get the tool as rendered, fallback props included
+  const currentTool: ToolData = {
+    ...tool,
+    id: tool?.id ?? finalName,
+    name: finalName,
+    status: finalStatus,
+    parameters: finalParameters,
+    result: finalResult,
+    error: finalError,
+  };
+  const handleApprove = onApprove && (() => onApprove(currentTool));
+  const handleDeny = onDeny && (() => onDeny(currentTool));
+
+  const footerText = (() => {
+    switch (finalStatus) {
+      case 'streaming':
+        return `Receiving arguments… ${formatDuration(elapsedTime)}`;
+      case 'awaiting-approval':
+        return `Waiting for approval · ${formatDuration(elapsedTime)}`;
+      case 'running':
+        return `Running for ${formatDuration(elapsedTime)}`;
+      case 'cancelled':
+        if (approval?.decision === 'denied') return `Denied${approval.reason ? `: ${approval.reason}` : ''}`;
+        return duration ? `Cancelled after ${formatDuration(duration)}` : 'Cancelled';
+      default:
+        return duration ? `Completed in ${formatDuration(duration)}` : '';
+    }
+  })();
+
   // Minimal variant - inline status badge
   if (variant === 'minimal') {
     return (
@@ -278,7 +442,9 @@ export const Tool: React.FC<ToolProps> = ({
         </View>
 
         {/* Status */}
-        {finalStatus === 'running' ? (
+        {awaitingApproval ? (
+          <ApprovalActions onApprove={handleApprove} onDeny={handleDeny} compact />
+        ) : isBusy ? (
           <ActivityIndicator size="small" color={statusConfig.color} />
         ) : (
           <View
@@ -381,7 +547,7 @@ export const Tool: React.FC<ToolProps> = ({
             gap: 4,
           }}
         >
-          {finalStatus === 'running' ? (
+          {isBusy ? (
             <ActivityIndicator size="small" color={statusConfig.color} />
           ) : (
             <Text style={{ fontSize: 12, color: statusConfig.color }}>
@@ -401,7 +567,7 @@ export const Tool: React.FC<ToolProps> = ({
       </View>
 
       {/* Parameters */}
-      {showParameters && paramCount > 0 && (
+      {showParameters && (paramCount > 0 || isStreaming) && (
         <View
           style={{
             padding: theme.spacing.md,
@@ -419,38 +585,99 @@ export const Tool: React.FC<ToolProps> = ({
             }}
           >
             PARAMETERS
+            {parameterIssues.length > 0 && (
+              <Text style={{ color: theme.colors.destructive }}>
+                {' · '}{parameterIssues.length} {parameterIssues.length === 1 ? 'issue' : 'issues'}
+              </Text>
+            )}
           </Text>
-          <View style={{ gap: theme.spacing.xs }}>
-            {Object.entries(finalParameters).map(([key, value]) => (
-              <View
-                key={key}
-                style={{
-                  flexDirection: 'row',
-                  gap: theme.spacing.xs,
-                }}
-              >
+          {finalInputSchema ? (
+            <SchemaView value={finalParameters} schema={finalInputSchema} issues={parameterIssues} />
+          ) : (
+            <View style={{ gap: theme.spacing.xs }}>
+              {isStreaming && paramCount === 0 && (
                 <Text
                   style={{
                     fontSize: theme.typography.body.fontSize,
-                    color: theme.colors.text.secondary,
+                    color: theme.colors.text.tertiary,
                     fontFamily: 'monospace',
                   }}
                 >
-                  {key}:
+                  ▋
                 </Text>
-                <Text
+              )}
+              {Object.entries(finalParameters).map(([key, value], index) => (
+                <View
+                  key={key}
                   style={{
-                    flex: 1,
-                    fontSize: theme.typography.body.fontSize,
-                    color: theme.colors.text.primary,
-                    fontFamily: 'monospace',
+                    flexDirection: 'row',
+                    gap: theme.spacing.xs,
                   }}
-                  numberOfLines={1}
                 >
-                  {formatParamValue(value)}
-                </Text>
-              </View>
-            ))}
+                  <Text
+                    style={{
+                      fontSize: theme.typography.body.fontSize,
+                      color: theme.colors.text.secondary,
+                      fontFamily: 'monospace',
+                    }}
+                  >
+                    {key}:
+                  </Text>
+                  <Text
+                    style={{
+                      flex: 1,
+                      fontSize: theme.typography.body.fontSize,
+                      color: theme.colors.text.primary,
+                      fontFamily: 'monospace',
+                    }}
+                    numberOfLines={1}
+                  >
+                    {formatParamValue(value)}
+                    {/* Arguments still streaming in */}
+                    {isStreaming && index === paramCount - 1 && (
+                      <Text style={{ color: theme.colors.text.tertiary }}> ▋</Text>
+                    )}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          )}
+        </View>
+      )}
+
+      {/* Approval */}
+      {awaitingApproval && (
+        <View
+          style={{
+            padding: theme.spacing.md,
+            gap: theme.spacing.sm,
+            backgroundColor: `${theme.colors.warning}${opacityToHex(0.1)}`,
+            borderBottomWidth: 1,
+            borderBottomColor: `${theme.colors.border.default}${opacityToHex(0.2)}`,
+          }}
+        >
+          <Text
+            style={{
+              fontSize: theme.typography.caption.fontSize,
+              color: theme.colors.warning,
+              fontWeight: '600',
+            }}
+          >
+            APPROVAL REQUIRED
+          </Text>
+          {approval?.message && (
+            <Text
+              style={{
+                fontSize: theme.typography.body.fontSize,
+                color: theme.colors.text.primary,
+                lineHeight: 18,
+              }}
+            >
+              {approval.message}
+            </Text>
+          )}
+          <View style={{ alignItems: 'flex-end' }}>
+            <ApprovalActions onApprove={handleApprove} onDeny={handleDeny} />
           </View>
         </View>
       )}
@@ -488,18 +715,22 @@ export const Tool: React.FC<ToolProps> = ({
                 backgroundColor: `${theme.colors.surface.default}${opacityToHex(0.4)}`,
               }}
             >
-              <Text
-                style={{
-                  fontSize: theme.typography.body.fontSize,
-                  color: theme.colors.text.primary,
-                  fontFamily: 'monospace',
-                  lineHeight: 18,
-                }}
-              >
-                {typeof finalResult === 'string'
-                  ? finalResult
-                  : JSON.stringify(finalResult, null, 2)}
-              </Text>
+              {finalOutputSchema ? (
+                <SchemaView value={finalResult} schema={finalOutputSchema} issues={resultIssues} />
+              ) : (
+                <Text
+                  style={{
+                    fontSize: theme.typography.body.fontSize,
+                    color: theme.colors.text.primary,
+                    fontFamily: 'monospace',
+                    lineHeight: 18,
+                  }}
+                >
+                  {typeof finalResult === 'string'
+                    ? finalResult
+                    : JSON.stringify(finalResult, null, 2)}
+                </Text>
+              )}
             </View>
           )}
         </View>
@@ -551,12 +782,28 @@ export const Tool: React.FC<ToolProps> = ({
             color: theme.colors.text.tertiary,
           }}
         >
-          {finalStatus === 'running'
-            ? `Running for ${formatDuration(elapsedTime)}`
-            : duration
-            ? `Completed in ${formatDuration(duration)}`
-            : ''}
+          {footerText}
         </Text>
+
+        {/* Cancel */}
+        {onCancel && isBusy && (
+          <Pressable
+            onPress={() => onCancel(currentTool)}
+            accessibilityRole="button"
+            accessibilityLabel="Cancel tool call"
+            hitSlop={8}
+          >
+            <Text
+              style={{
+                fontSize: theme.typography.caption.fontSize,
+                color: theme.colors.destructive,
+                fontWeight: '600',
+              }}
+            >
+              Cancel
+            </Text>
+          </Pressable>
+        )}
       </View>
     </View>
   );
@@ -577,6 +824,53 @@ export const exampleTools: ToolData[] = [
     result: 'Found 10 results about React Native best practices',
     duration: 1250,
   },
+  {
+    id: '7',
+    name: 'query_database',
+    description: 'Run a read-only SQL query',
+    icon: '📊',
+    status: 'success',
+    parameters: {
+      sql: 'SELECT name, plan, seats FROM accounts LIMIT 3',
+      database: 'analytics',
+      timeoutMs: 120000,
+    },
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sql: { type: 'string', title: 'SQL', description: 'A single SELECT statement' },
+        database: { type: 'string', enum: ['primary', 'replica'] },
+        timeoutMs: { type: 'integer', title: 'Timeout (ms)', maximum: 60000 },
+      },
+      required: ['sql', 'database'],
+    },
+    result: {
+      rowCount: 3,
+      rows: [
+        { name: 'Acme', plan: 'enterprise', seats: 250 },
+        { name: 'Globex', plan: 'team', seats: 40 },
+        { name: 'Initech', plan: 'starter', seats: 5 },
+      ],
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        rowCount: { type: 'integer', title: 'Rows' },
+        rows: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string' },
+              plan: { type: 'string', enum: ['starter', 'team', 'enterprise'] },
+              seats: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    duration: 340,
+  },
   {
     id: '2',
     name: 'read_file',
@@ -611,4 +905,31 @@ export const exampleTools: ToolData[] = [
       size: '1024x1024',
     },
   },
+  {
+    id: '5',
+    name: 'delete_file',
+    description: 'Delete a file from the workspace',
+    icon: '🗑️',
+    status: 'awaiting-approval',
+    parameters: {
+      path: 'src/legacy/api.ts',
+    },
+    approval: {
+      message: 'This permanently deletes src/legacy/api.ts.',
+    },
+    startTime: new Date(),
+  },
+  {
+    id: '6',
+    name: 'write_file',
+    description: 'Write contents to a file',
+    icon: '📄',
+    status: 'streaming',
+    parameters: {
+      path: 'src/utils/format.ts',
+      contents: 'export const formatDate = (date: Date) =>',
+    },
+    inputText: '{"path": "src/utils/format.ts", "contents": "export const formatDate = (date: Date) =>',
+    startTime: new Date(),
+  },
 ];
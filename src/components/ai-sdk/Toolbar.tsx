@@ -19,7 +19,8 @@
 
 import React from 'react';
 import { View, Text, Pressable } from 'react-native';
-import { theme } from '../../theme';
+import { useAppTheme } from '../../theme';
+import { useTypography } from '../../design-system';
 
 // Toolbar item structure
 export interface ToolbarItem {
@@ -69,16 +70,24 @@ interface ToolbarButtonProps {
 }
 
 const ToolbarButton: React.FC<ToolbarButtonProps> = ({ item, variant, showLabel }) => {
+  const theme = useAppTheme();
+  const type = useTypography();
   const isDisabled = item.disabled;
   const isActive = item.active;
 
-  const iconSize = variant === 'compact' ? 20 : 24;
-  const buttonSize = variant === 'compact' ? 40 : 48;
+  const iconSize = type.scale(variant === 'compact' ? 20 : 24, 'label');
+  const buttonSize = type.scale(variant === 'compact' ? 40 : 48, 'label');
+  const badgeSize = type.scale(16, 'overline');
+  // Labels under icons no longer fit at accessibility sizes; they stay as the accessibility label
+  const labelVisible = showLabel && !type.isAccessibilitySize;
 
   return (
     <Pressable
       onPress={item.onPress}
       disabled={isDisabled}
+      accessibilityRole="button"
+      accessibilityLabel={item.label}
+      accessibilityState={{ disabled: isDisabled, selected: isActive }}
       style={({ pressed }) => ({
         alignItems: 'center',
         justifyContent: 'center',
@@ -98,7 +107,9 @@ const ToolbarButton: React.FC<ToolbarButtonProps> = ({ item, variant, showLabel
     >
       {/* Icon */}
       <View style={{ position: 'relative' }}>
-        <Text style={{ fontSize: iconSize }}>{item.icon}</Text>
+        <Text allowFontScaling={false} style={{ fontSize: iconSize }}>
+          {item.icon}
+        </Text>
         {/* Badge */}
         {item.badge !== undefined && (
           <View
@@ -106,9 +117,9 @@ const ToolbarButton: React.FC<ToolbarButtonProps> = ({ item, variant, showLabel
               position: 'absolute',
               top: -4,
               right: -8,
-              minWidth: 16,
-              height: 16,
-              borderRadius: 8,
+              minWidth: badgeSize,
+              height: badgeSize,
+              borderRadius: badgeSize / 2,
               backgroundColor: theme.colors.destructive,
               alignItems: 'center',
               justifyContent: 'center',
@@ -116,8 +127,9 @@ const ToolbarButton: React.FC<ToolbarButtonProps> = ({ item, variant, showLabel
             }}
           >
             <Text
+              allowFontScaling={false}
               style={{
-                fontSize: 10,
+                fontSize: type.scale(10, 'overline'),
                 fontWeight: '700',
                 color: '#FFFFFF',
               }}
@@ -129,11 +141,12 @@ const ToolbarButton: React.FC<ToolbarButtonProps> = ({ item, variant, showLabel
       </View>
 
       {/* Label */}
-      {showLabel && item.label && (
+      {labelVisible && item.label && (
         <Text
           numberOfLines={1}
+          allowFontScaling={false}
           style={{
-            fontSize: variant === 'compact' ? 10 : 11,
+            fontSize: type.scale(variant === 'compact' ? 10 : 11, 'caption'),
             fontWeight: isActive ? '600' : '500',
             color: isActive ? theme.colors.primary : theme.colors.text.secondary,
           }}
@@ -154,6 +167,8 @@ export const Toolbar: React.FC<ToolbarProps> = ({
   dividerAfter = [],
   testID = 'toolbar',
 }) => {
+  const theme = useAppTheme();
+  const type = useTypography();
   if (items.length === 0) {
     return null;
   }
@@ -190,6 +205,8 @@ export const Toolbar: React.FC<ToolbarProps> = ({
           flexDirection: 'row',
           alignItems: 'center',
           justifyContent: 'space-around',
+          // Enlarged buttons wrap onto a second row rather than squeezing
+          flexWrap: type.isAccessibilitySize ? 'wrap' : 'nowrap',
           gap: theme.spacing.xs,
         }}
       >
@@ -201,7 +218,7 @@ export const Toolbar: React.FC<ToolbarProps> = ({
               <View
                 style={{
                   width: 1,
-                  height: variant === 'compact' ? 24 : 32,
+                  height: type.scale(variant === 'compact' ? 24 : 32, 'label'),
                   backgroundColor: `${theme.colors.border.default}${opacityToHex(0.3)}`,
                   marginHorizontal: theme.spacing.xs,
                 }}
@@ -375,6 +392,7 @@ export const exampleToolbars = {
 
 // Example: Multiple Toolbars
 export const ExampleToolbarsDemo: React.FC = () => {
+  const theme = useAppTheme();
   return (
     <View style={{ flex: 1, backgroundColor: theme.colors.background.default }}>
       {/* Content area */}
@@ -20,7 +20,7 @@
 
 import React, { useState } from 'react';
 import { View, Text, Pressable, Image, ActivityIndicator, Alert, Linking } from 'react-native';
-import { theme } from '../../theme';
+import { useAppTheme } from '../../theme';
 
 // WebPreview data structure
 export interface WebPreviewData {
@@ -92,6 +92,7 @@ export const WebPreview: React.FC<WebPreviewProps> = ({
   onPress,
   testID = 'web-preview',
 }) => {
+  const theme = useAppTheme();
   const [imageLoaded, setImageLoaded] = useState(false);
   const [imageError, setImageError] = useState(false);
 
@@ -0,0 +1,29 @@
+/**
+ * Conversation Tree - Branching message history for edits and regenerations,
+ * and the rows Conversation renders
+ */
+
+export {
+  ROOT_KEY,
+  ConversationTreeError,
+  toStoredMessage,
+  emptyConversationTree,
+  getChildIds,
+  getSelectedChildId,
+  getActivePath,
+  getActiveLeafId,
+  getMessageHistory,
+  getSiblingIds,
+  getActiveMessages,
+  createConversationTree,
+  appendMessage,
+  addBranch,
+  selectBranch,
+  updateMessage,
+  removeMessage,
+  serializeConversationTree,
+  parseConversationTree,
+} from './tree';
+export type { StoredMessage, ConversationNode, ConversationTree } from './tree';
+export { createConversationItemBuilder, formatDayLabel } from './items';
+export type { ConversationItem, ConversationItemOptions } from './items';
@@ -0,0 +1,102 @@
+/**
+ * Conversation Items
+ * Turns messages into the rows of Conversation's inverted list: newest
+ * first, with a date separator above each day's first message
+ */
+
+import type { MessageProps } from '../Message';
+
+export type ConversationItem =
+  | { type: 'message'; key: string; message: MessageProps }
+  | { type: 'date'; key: string; label: string };
+
+export interface ConversationItemOptions {
+  groupByDate?: boolean;
+  /** Reference for "Today" and "Yesterday" (default: now) */
+  now?: Date;
+}
+
+const toDayKey = (date: Date) => `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+
+/**
+ * "Today", "Yesterday" or a short date, with the year only when it differs
+ */
+export const formatDayLabel = (date: Date, now: Date = new Date()): string => {
+  const yesterday = new Date(now);
+  yesterday.setDate(yesterday.getDate() - 1);
+
+  if (toDayKey(date) === toDayKey(now)) return 'Today';
+  if (toDayKey(date) === toDayKey(yesterday)) return 'Yesterday';
+  return date.toLocaleDateString([], {
+    month: 'short',
+    day: 'numeric',
+    year: date.getFullYear() !== now.getFullYear() ? 'numeric' : undefined,
+  });
+};
+
+/**
+ * Create a builder that remembers each timestamp's day and reuses the row
+ * of every message object and day it has seen, so rebuilding after a
+ * streamed chunk costs one pass over the ids and unchanged rows keep their
+ * identity
+ *
+ * @example
+ * ```ts
+ * const build = createConversationItemBuilder();
+ * const items = build(messages, { groupByDate: true });
+ * // [{ type: 'message', key: 'm3' }, { type: 'message', key: 'm2' }, { type: 'date', label: 'Today' }, ...]
+ * ```
+ */
+export const createConversationItemBuilder = () => {
+  const dayKeys = new Map<string, string>();
+  const rows = new WeakMap<MessageProps, ConversationItem>();
+  // Separators per day, valid while "today" stays the same day
+  let separators = new Map<string, ConversationItem>();
+  let today = '';
+
+  const dayKeyOf = (timestamp: string) => {
+    let key = dayKeys.get(timestamp);
+    if (key === undefined) {
+      key = toDayKey(new Date(timestamp));
+      dayKeys.set(timestamp, key);
+    }
+    return key;
+  };
+
+  const rowOf = (message: MessageProps) => {
+    let row = rows.get(message);
+    if (!row) {
+      row = { type: 'message', key: message.id, message };
+      rows.set(message, row);
+    }
+    return row;
+  };
+
+  const separatorOf = (day: string, timestamp: string, now: Date) => {
+    let separator = separators.get(day);
+    if (!separator) {
+      separator = { type: 'date', key: `date-${day}`, label: formatDayLabel(new Date(timestamp), now) };
+      separators.set(day, separator);
+    }
+    return separator;
+  };
+
+  return (messages: MessageProps[], { groupByDate = true, now = new Date() }: ConversationItemOptions = {}) => {
+    if (toDayKey(now) !== today) {
+      today = toDayKey(now);
+      separators = new Map();
+    }
+
+    const items: ConversationItem[] = [];
+    for (let i = messages.length - 1; i >= 0; i--) {
+      const message = messages[i];
+      items.push(rowOf(message));
+      if (!groupByDate) continue;
+
+      const day = dayKeyOf(message.timestamp);
+      const olderDay = i > 0 ? dayKeyOf(messages[i - 1].timestamp) : null;
+      if (day !== olderDay) items.push(separatorOf(day, message.timestamp, now));
+    }
+    return items;
+  };
+};
@@ -0,0 +1,303 @@
+/**
+ * Conversation Tree
+ * Messages stored as a tree so edits and regenerations become sibling
+ * branches instead of overwriting earlier turns. The active path through
+ * the tree is what Conversation renders. Trees are plain JSON and survive
+ * a serialise/parse round trip unchanged.
+ */
+
+import type { MessageProps } from '../Message';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type DataKeys<T> = {
+  [K in keyof T]-?: NonNullable<T[K]> extends (...args: any[]) => any ? never : K;
+}[keyof T];
+
+/** Message data without bound callbacks or derived branch info */
+export type StoredMessage = Omit<Pick<MessageProps, DataKeys<MessageProps>>, 'branch'>;
+
+export interface ConversationNode {
+  /** The node id is `message.id` */
+  message: StoredMessage;
+  parentId: string | null;
+  /** Oldest first; each child is an alternative continuation */
+  childIds: string[];
+}
+
+export interface ConversationTree {
+  version: 1;
+  nodes: Record<string, ConversationNode>;
+  rootIds: string[];
+  /** Chosen child per parent id (ROOT_KEY for the top level); the newest child when unset */
+  selected: Record<string, string>;
+}
+
+export class ConversationTreeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConversationTreeError';
+  }
+}
+
+export const ROOT_KEY = '$root';
+
+const parentKey = (parentId: string | null) => parentId ?? ROOT_KEY;
+
+/**
+ * Drop function-valued props so only serialisable data is stored
+ */
+export const toStoredMessage = (message: MessageProps): StoredMessage => {
+  const { branch, ...rest } = message;
+  return Object.fromEntries(
+    Object.entries(rest).filter(([, value]) => typeof value !== 'function')
+  ) as StoredMessage;
+};
+
+// ============================================================================
+// Reading
+// ============================================================================
+
+export const emptyConversationTree = (): ConversationTree => ({
+  version: 1,
+  nodes: {},
+  rootIds: [],
+  selected: {},
+});
+
+export const getChildIds = (tree: ConversationTree, parentId: string | null): string[] =>
+  parentId === null ? tree.rootIds : tree.nodes[parentId]?.childIds ?? [];
+
+export const getSelectedChildId = (tree: ConversationTree, parentId: string | null): string | null => {
+  const children = getChildIds(tree, parentId);
+  const selected = tree.selected[parentKey(parentId)];
+  if (selected && children.includes(selected)) return selected;
+  return children[children.length - 1] ?? null;
+};
+
+/**
+ * Nodes from the root to the end of the selected branch
+ */
+export const getActivePath = (tree: ConversationTree): ConversationNode[] => {
+  const path: ConversationNode[] = [];
+  let id = getSelectedChildId(tree, null);
+  while (id !== null && tree.nodes[id]) {
+    path.push(tree.nodes[id]);
+    id = getSelectedChildId(tree, id);
+  }
+  return path;
+};
+
+/**
+ * Id of the last message on the active path, where new turns are appended
+ */
+export const getActiveLeafId = (tree: ConversationTree): string | null => {
+  const path = getActivePath(tree);
+  return path.length > 0 ? path[path.length - 1].message.id : null;
+};
+
+/**
+ * Messages from the root down to and including `messageId`
+ */
+export const getMessageHistory = (tree: ConversationTree, messageId: string): StoredMessage[] => {
+  const history: StoredMessage[] = [];
+  let node: ConversationNode | undefined = tree.nodes[messageId];
+  while (node) {
+    history.unshift(node.message);
+    node = node.parentId !== null ? tree.nodes[node.parentId] : undefined;
+  }
+  return history;
+};
+
+export const getSiblingIds = (tree: ConversationTree, messageId: string): string[] => {
+  const node = tree.nodes[messageId];
+  return node ? getChildIds(tree, node.parentId) : [];
+};
+
+/**
+ * The active path as Message props, with `branch` set on messages that
+ * have alternatives
+ *
+ * @example
+ * ```tsx
+ * <Conversation messages={getActiveMessages(tree)} />
+ * ```
+ */
+export const getActiveMessages = (tree: ConversationTree): MessageProps[] =>
+  getActivePath(tree).map(node => {
+    const siblings = getChildIds(tree, node.parentId);
+    return siblings.length > 1
+      ? { ...node.message, branch: { index: siblings.indexOf(node.message.id), count: siblings.length } }
+      : node.message;
+  });
+
+// ============================================================================
+// Editing
+// ============================================================================
+
+const select = (tree: ConversationTree, parentId: string | null, childId: string): ConversationTree => ({
+  ...tree,
+  selected: { ...tree.selected, [parentKey(parentId)]: childId },
+});
+
+const addNode = (tree: ConversationTree, message: MessageProps, parentId: string | null): ConversationTree => {
+  if (tree.nodes[message.id]) {
+    throw new ConversationTreeError(`Message ${message.id} is already in the conversation`);
+  }
+  if (parentId !== null && !tree.nodes[parentId]) {
+    throw new ConversationTreeError(`Parent message ${parentId} not found`);
+  }
+
+  const nodes = { ...tree.nodes, [message.id]: { message: toStoredMessage(message), parentId, childIds: [] } };
+  if (parentId !== null) {
+    nodes[parentId] = { ...nodes[parentId], childIds: [...nodes[parentId].childIds, message.id] };
+  }
+  const rootIds = parentId === null ? [...tree.rootIds, message.id] : tree.rootIds;
+  return select({ ...tree, nodes, rootIds }, parentId, message.id);
+};
+
+/**
+ * A linear tree holding `messages` in order
+ */
+export const createConversationTree = (messages: MessageProps[] = []): ConversationTree =>
+  messages.reduce<ConversationTree>(
+    (tree, message, index) => addNode(tree, message, index === 0 ? null : messages[index - 1].id),
+    emptyConversationTree()
+  );
+
+/**
+ * Add a message after `parentId`, by default the end of the active path,
+ * and make it active
+ */
+export const appendMessage = (
+  tree: ConversationTree,
+  message: MessageProps,
+  parentId: string | null = getActiveLeafId(tree)
+): ConversationTree => addNode(tree, message, parentId);
+
+/**
+ * Add an alternative to `siblingId` (an edited user turn or a regenerated
+ * reply) and make it active; the original stays one branch away
+ */
+export const addBranch = (tree: ConversationTree, siblingId: string, message: MessageProps): ConversationTree => {
+  const sibling = tree.nodes[siblingId];
+  if (!sibling) throw new ConversationTreeError(`Message ${siblingId} not found`);
+  return addNode(tree, message, sibling.parentId);
+};
+
+/**
+ * Show the sibling at `index` among `messageId` and its alternatives
+ */
+export const selectBranch = (tree: ConversationTree, messageId: string, index: number): ConversationTree => {
+  const node = tree.nodes[messageId];
+  if (!node) return tree;
+  const siblings = getChildIds(tree, node.parentId);
+  const target = siblings[Math.max(0, Math.min(siblings.length - 1, index))];
+  return target ? select(tree, node.parentId, target) : tree;
+};
+
+export const updateMessage = (
+  tree: ConversationTree,
+  messageId: string,
+  patch: Partial<StoredMessage>
+): ConversationTree => {
+  const node = tree.nodes[messageId];
+  if (!node) return tree;
+  return {
+    ...tree,
+    nodes: { ...tree.nodes, [messageId]: { ...node, message: { ...node.message, ...patch, id: messageId } } },
+  };
+};
+
+/**
+ * Remove one message; its replies move up to take its place
+ */
+export const removeMessage = (tree: ConversationTree, messageId: string): ConversationTree => {
+  const node = tree.nodes[messageId];
+  if (!node) return tree;
+
+  const { [messageId]: _removed, ...nodes } = tree.nodes;
+  const replace = (ids: string[]) => ids.flatMap(id => (id === messageId ? node.childIds : [id]));
+
+  node.childIds.forEach(childId => {
+    nodes[childId] = { ...nodes[childId], parentId: node.parentId };
+  });
+  if (node.parentId !== null) {
+    const parent = nodes[node.parentId];
+    nodes[node.parentId] = { ...parent, childIds: replace(parent.childIds) };
+  }
+
+  const { [messageId]: removedSelection, ...selected } = tree.selected;
+  const key = parentKey(node.parentId);
+  // Whatever was showing below the removed message now shows in its place
+  if (selected[key] === messageId) {
+    const replacement = removedSelection ?? node.childIds[node.childIds.length - 1];
+    if (replacement) selected[key] = replacement;
+    else delete selected[key];
+  }
+
+  return {
+    ...tree,
+    nodes,
+    rootIds: node.parentId === null ? replace(tree.rootIds) : tree.rootIds,
+    selected,
+  };
+};
+
+// ============================================================================
+// Serialisation
+// ============================================================================
+
+export const serializeConversationTree = (tree: ConversationTree): string => JSON.stringify(tree);
+
+/**
+ * Parse and check a serialised tree
+ *
+ * @example
+ * ```ts
+ * await storage.setItem('chat', serializeConversationTree(tree));
+ * const restored = parseConversationTree(await storage.getItem('chat'));
+ * ```
+ */
+export const parseConversationTree = (source: string | unknown): ConversationTree => {
+  let data: any = source;
+  if (typeof source === 'string') {
+    try {
+      data = JSON.parse(source);
+    } catch {
+      throw new ConversationTreeError('Conversation is not valid JSON');
+    }
+  }
+
+  if (typeof data !== 'object' || data === null || data.version !== 1) {
+    throw new ConversationTreeError('Unsupported conversation format');
+  }
+  if (typeof data.nodes !== 'object' || data.nodes === null || !Array.isArray(data.rootIds)) {
+    throw new ConversationTreeError('Conversation needs nodes and rootIds');
+  }
+
+  const nodes = data.nodes as Record<string, ConversationNode>;
+  Object.entries(nodes).forEach(([id, node]) => {
+    if (!node || typeof node.message !== 'object' || node.message?.id !== id) {
+      throw new ConversationTreeError(`Node ${id} has no matching message`);
+    }
+    if (node.parentId !== null && !nodes[node.parentId]) {
+      throw new ConversationTreeError(`Node ${id} points at missing parent ${node.parentId}`);
+    }
+    if (!Array.isArray(node.childIds) || node.childIds.some(childId => nodes[childId]?.parentId !== id)) {
+      throw new ConversationTreeError(`Node ${id} has inconsistent children`);
+    }
+  });
+  if (data.rootIds.some((id: string) => nodes[id]?.parentId !== null)) {
+    throw new ConversationTreeError('Root ids must point at top-level nodes');
+  }
+
+  return {
+    version: 1,
+    nodes,
+    rootIds: data.rootIds,
+    selected: typeof data.selected === 'object' && data.selected !== null ? data.selected : {},
+  };
+};
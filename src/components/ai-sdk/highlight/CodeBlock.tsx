@@ -0,0 +1,162 @@
+import React, { useMemo, useRef } from 'react';
+import { View, Text, ScrollView, StyleSheet } from 'react-native';
+import { useTheme, typography } from '../../../design-system';
+import { HighlightedLine, Token, createHighlighter, Highlighter } from './tokenizer';
+import { getSyntaxPalette } from './palette';
+
+export type CodeWrapMode = 'soft' | 'hard' | 'none';
+
+export interface CodeBlockProps {
+  code: string;
+  language?: string;
+  showLineNumbers?: boolean;
+  /**
+   * soft: wrap long lines at the view edge
+   * hard: break lines at `wrapColumn` characters
+   * none: keep lines intact and scroll horizontally
+   */
+  wrap?: CodeWrapMode;
+  wrapColumn?: number;
+  startLine?: number;
+  testID?: string;
+}
+
+/**
+ * Highlight code incrementally, reusing tokens for unchanged lines
+ */
+export function useHighlightedCode(code: string, language?: string): HighlightedLine[] {
+  const highlighterRef = useRef<{ language?: string; instance: Highlighter } | null>(null);
+
+  if (!highlighterRef.current || highlighterRef.current.language !== language) {
+    highlighterRef.current = { language, instance: createHighlighter(language) };
+  }
+
+  const highlighter = highlighterRef.current.instance;
+  return useMemo(() => highlighter.highlight(code), [highlighter, code]);
+}
+
+type DisplayRow = {
+  lineNumber?: number;
+  tokens: Token[];
+};
+
+/**
+ * Split a line's tokens into rows of at most `column` characters
+ */
+const hardWrap = (tokens: Token[], column: number): Token[][] => {
+  const rows: Token[][] = [[]];
+  let width = 0;
+
+  for (const token of tokens) {
+    let text = token.text;
+    while (text.length > 0) {
+      const room = column - width;
+      if (room <= 0) {
+        rows.push([]);
+        width = 0;
+        continue;
+      }
+      const piece = text.slice(0, room);
+      rows[rows.length - 1].push({ type: token.type, text: piece });
+      width += piece.length;
+      text = text.slice(piece.length);
+    }
+  }
+
+  return rows;
+};
+
+/**
+ * Syntax-highlighted code view with line numbers and wrap modes
+ *
+ * @example
+ * ```tsx
+ * <CodeBlock code={source} language="typescript" showLineNumbers wrap="none" />
+ * ```
+ */
+export const CodeBlock = React.memo(function CodeBlock({
+  code,
+  language,
+  showLineNumbers = true,
+  wrap = 'soft',
+  wrapColumn = 80,
+  startLine = 1,
+  testID,
+}: CodeBlockProps) {
+  const theme = useTheme();
+  const palette = useMemo(() => getSyntaxPalette(theme.isDark, theme.colors), [theme]);
+  const lines = useHighlightedCode(code, language);
+
+  const rows = useMemo<DisplayRow[]>(() => {
+    if (wrap !== 'hard') {
+      return lines.map((line, index) => ({ lineNumber: startLine + index, tokens: line.tokens }));
+    }
+    return lines.flatMap((line, index) =>
+      hardWrap(line.tokens, wrapColumn).map((tokens, segment) => ({
+        lineNumber: segment === 0 ? startLine + index : undefined,
+        tokens,
+      }))
+    );
+  }, [lines, wrap, wrapColumn, startLine]);
+
+  const gutterWidth = String(startLine + lines.length - 1).length * 8 + 8;
+  const codeStyle = [typography.codeSmall, { color: palette.plain.color }];
+
+  const content = (
+    <View>
+      {rows.map((row, index) => (
+        <View key={index} style={styles.row}>
+          {showLineNumbers && (
+            <Text
+              style={[
+                typography.codeSmall,
+                styles.lineNumber,
+                { width: gutterWidth, color: theme.colors.mutedForeground.rgb },
+              ]}
+            >
+              {row.lineNumber ?? '↪'}
+            </Text>
+          )}
+          <Text style={[codeStyle, wrap === 'soft' && styles.softWrap]}>
+            {row.tokens.length === 0
+              ? ' '
+              : row.tokens.map((token, tokenIndex) =>
+                  token.type === 'plain' ? (
+                    token.text
+                  ) : (
+                    <Text key={tokenIndex} style={palette[token.type]}>
+                      {token.text}
+                    </Text>
+                  )
+                )}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+
+  if (wrap === 'none') {
+    return (
+      <ScrollView testID={testID} horizontal showsHorizontalScrollIndicator={false}>
+        {content}
+      </ScrollView>
+    );
+  }
+
+  return <View testID={testID}>{content}</View>;
+});
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+  },
+  lineNumber: {
+    textAlign: 'right',
+    marginRight: 12,
+    opacity: 0.7,
+  },
+  softWrap: {
+    flex: 1,
+    flexShrink: 1,
+  },
+});
@@ -0,0 +1,412 @@
+/**
+ * Syntax Grammars
+ * Line-oriented lexer rules per language. Each grammar is a set of named
+ * states; rules may push or pop states so constructs that span lines
+ * (block comments, template literals, triple-quoted strings) carry over.
+ */
+
+export type TokenType =
+  | 'plain'
+  | 'comment'
+  | 'keyword'
+  | 'string'
+  | 'number'
+  | 'builtin'
+  | 'type'
+  | 'function'
+  | 'property'
+  | 'attribute'
+  | 'tag'
+  | 'variable'
+  | 'operator'
+  | 'punctuation'
+  | 'heading'
+  | 'emphasis'
+  | 'strong'
+  | 'link';
+
+export type TokenClassifier = (match: string, line: string, index: number) => TokenType;
+
+export type GrammarRule = {
+  pattern: RegExp;
+  token: TokenType | TokenClassifier;
+  /** State to push, or '@pop' to return to the enclosing state */
+  next?: string;
+};
+
+export type Grammar = {
+  name: string;
+  states: Record<string, GrammarRule[]>;
+};
+
+// ============================================================================
+// Shared Rules
+// ============================================================================
+
+const words = (list: string) => new Set(list.split(/\s+/).filter(Boolean));
+
+const previousNonSpace = (line: string, index: number): string => {
+  for (let i = index - 1; i >= 0; i--) {
+    if (line[i] !== ' ' && line[i] !== '\t') return line[i];
+  }
+  return '';
+};
+
+/**
+ * Classify an identifier against keyword and builtin sets
+ */
+const identifier = (keywords: Set<string>, builtins: Set<string>, caseInsensitive = false): TokenClassifier =>
+  (match, line, index) => {
+    const word = caseInsensitive ? match.toLowerCase() : match;
+    if (keywords.has(word)) return 'keyword';
+    if (builtins.has(word)) return 'builtin';
+    if (previousNonSpace(line, index) === '.') return 'property';
+    if (/^\s*\(/.test(line.slice(index + match.length))) return 'function';
+    if (/^[A-Z]/.test(match)) return 'type';
+    return 'plain';
+  };
+
+const NUMBER = /(?:0[xX][\da-fA-F_]+|0[bB][01_]+|0[oO][0-7_]+|\d[\d_]*(?:\.\d[\d_]*)?(?:[eE][+-]?\d+)?n?)\b/y;
+const WHITESPACE: GrammarRule = { pattern: /\s+/y, token: 'plain' };
+const OPERATOR: GrammarRule = { pattern: /[+\-*/%=&|^!<>?:~]+/y, token: 'operator' };
+const PUNCTUATION: GrammarRule = { pattern: /[{}()[\];,.]/y, token: 'punctuation' };
+
+const blockComment = (close: RegExp): Record<string, GrammarRule[]> => ({
+  blockComment: [
+    { pattern: close, token: 'comment', next: '@pop' },
+    { pattern: /.+/y, token: 'comment' },
+  ],
+});
+
+// ============================================================================
+// Languages
+// ============================================================================
+
+const jsKeywords = words(`
+  abstract as async await break case catch class const continue debugger declare default delete do
+  else enum export extends finally for from function get if implements import in infer instanceof
+  interface is keyof let namespace new of private protected public readonly return satisfies set
+  static super switch throw try type typeof var void while with yield
+`);
+const jsBuiltins = words(`
+  true false null undefined this NaN Infinity console window globalThis Promise Array Object String
+  Number Boolean Map Set Date Math JSON Error RegExp Symbol any unknown never string number boolean
+`);
+
+const javascript: Grammar = {
+  name: 'javascript',
+  states: {
+    root: [
+      WHITESPACE,
+      { pattern: /\/\/.*/y, token: 'comment' },
+      { pattern: /\/\*.*?\*\//y, token: 'comment' },
+      { pattern: /\/\*.*/y, token: 'comment', next: 'blockComment' },
+      { pattern: /`/y, token: 'string', next: 'template' },
+      { pattern: /"(?:[^"\\]|\\.)*"?/y, token: 'string' },
+      { pattern: /'(?:[^'\\]|\\.)*'?/y, token: 'string' },
+      { pattern: NUMBER, token: 'number' },
+      { pattern: /@[A-Za-z_$][\w$]*/y, token: 'attribute' },
+      { pattern: /<\/?[A-Z][\w.]*|<\/?[a-z][\w-]*(?=[\s/>])/y, token: 'tag' },
+      { pattern: /[A-Za-z_$][\w$]*/y, token: identifier(jsKeywords, jsBuiltins) },
+      { pattern: /}/y, token: 'punctuation', next: '@pop' },
+      { pattern: /{/y, token: 'punctuation', next: 'root' },
+      OPERATOR,
+      PUNCTUATION,
+    ],
+    template: [
+      { pattern: /(?:[^`\\$]|\\.|\$(?!\{))+/y, token: 'string' },
+      { pattern: /\$\{/y, token: 'punctuation', next: 'root' },
+      { pattern: /`/y, token: 'string', next: '@pop' },
+    ],
+    ...blockComment(/.*?\*\//y),
+  },
+};
+
+const pythonKeywords = words(`
+  and as assert async await break class continue def del elif else except finally for from global
+  if import in is lambda match case nonlocal not or pass raise return try while with yield
+`);
+const pythonBuiltins = words(`
+  True False None self cls print len range str int float bool list dict set tuple type isinstance
+  enumerate zip map filter sorted open super object Exception
+`);
+
+const python: Grammar = {
+  name: 'python',
+  states: {
+    root: [
+      WHITESPACE,
+      { pattern: /#.*/y, token: 'comment' },
+      { pattern: /[rbfuRBFU]{0,2}"""(?:[^\\]|\\.)*?"""/y, token: 'string' },
+      { pattern: /[rbfuRBFU]{0,2}'''(?:[^\\]|\\.)*?'''/y, token: 'string' },
+      { pattern: /[rbfuRBFU]{0,2}""".*/y, token: 'string', next: 'tripleDouble' },
+      { pattern: /[rbfuRBFU]{0,2}'''.*/y, token: 'string', next: 'tripleSingle' },
+      { pattern: /[rbfuRBFU]{0,2}"(?:[^"\\]|\\.)*"?/y, token: 'string' },
+      { pattern: /[rbfuRBFU]{0,2}'(?:[^'\\]|\\.)*'?/y, token: 'string' },
+      { pattern: NUMBER, token: 'number' },
+      { pattern: /@[A-Za-z_][\w.]*/y, token: 'attribute' },
+      { pattern: /[A-Za-z_]\w*/y, token: identifier(pythonKeywords, pythonBuiltins) },
+      OPERATOR,
+      PUNCTUATION,
+    ],
+    tripleDouble: [
+      { pattern: /.*?"""/y, token: 'string', next: '@pop' },
+      { pattern: /.+/y, token: 'string' },
+    ],
+    tripleSingle: [
+      { pattern: /.*?'''/y, token: 'string', next: '@pop' },
+      { pattern: /.+/y, token: 'string' },
+    ],
+  },
+};
+
+const swiftKeywords = words(`
+  actor associatedtype async await break case catch class continue default defer deinit do else enum
+  extension fallthrough fileprivate final for func guard if import in init inout internal is lazy let
+  mutating nonisolated open operator override private protocol public repeat required rethrows return
+  some any static struct subscript super switch throw throws try typealias var weak where while
+`);
+const swiftBuiltins = words(`true false nil self Self print`);
+
+const swift: Grammar = {
+  name: 'swift',
+  states: {
+    root: [
+      WHITESPACE,
+      { pattern: /\/\/.*/y, token: 'comment' },
+      { pattern: /\/\*.*?\*\//y, token: 'comment' },
+      { pattern: /\/\*.*/y, token: 'comment', next: 'blockComment' },
+      { pattern: /""".*/y, token: 'string', next: 'multilineString' },
+      { pattern: /"(?:[^"\\]|\\.)*"?/y, token: 'string' },
+      { pattern: NUMBER, token: 'number' },
+      { pattern: /@[A-Za-z_]\w*/y, token: 'attribute' },
+      { pattern: /#[A-Za-z_]\w*/y, token: 'keyword' },
+      { pattern: /[A-Za-z_]\w*/y, token: identifier(swiftKeywords, swiftBuiltins) },
+      OPERATOR,
+      PUNCTUATION,
+    ],
+    multilineString: [
+      { pattern: /.*?"""/y, token: 'string', next: '@pop' },
+      { pattern: /.+/y, token: 'string' },
+    ],
+    ...blockComment(/.*?\*\//y),
+  },
+};
+
+const json: Grammar = {
+  name: 'json',
+  states: {
+    root: [
+      WHITESPACE,
+      { pattern: /"(?:[^"\\]|\\.)*"(?=\s*:)/y, token: 'property' },
+      { pattern: /"(?:[^"\\]|\\.)*"?/y, token: 'string' },
+      { pattern: /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/y, token: 'number' },
+      { pattern: /\b(?:true|false|null)\b/y, token: 'builtin' },
+      { pattern: /[{}[\],:]/y, token: 'punctuation' },
+    ],
+  },
+};
+
+const bashKeywords = words(`
+  if then else elif fi for in do done while until case esac function return select time export
+  local readonly declare unset
+`);
+const bashBuiltins = words(`
+  echo printf cd pwd ls cat grep sed awk find xargs mkdir rm cp mv touch chmod chown source exit set
+  test read eval exec trap shift git npm yarn npx curl
+`);
+
+const bash: Grammar = {
+  name: 'bash',
+  states: {
+    root: [
+      WHITESPACE,
+      { pattern: /#!.*/y, token: 'comment' },
+      { pattern: /#.*/y, token: (_match, line, index) => (index === 0 || /\s/.test(line[index - 1]) ? 'comment' : 'plain') },
+      { pattern: /"/y, token: 'string', next: 'doubleString' },
+      { pattern: /'[^']*'?/y, token: 'string' },
+      { pattern: /\$\{[^}]*\}?|\$[A-Za-z_]\w*|\$[0-9@#?*$!-]/y, token: 'variable' },
+      { pattern: /--?[A-Za-z][\w-]*/y, token: 'attribute' },
+      { pattern: /\d+\b/y, token: 'number' },
+      { pattern: /[A-Za-z_][\w.-]*/y, token: identifier(bashKeywords, bashBuiltins) },
+      { pattern: /[|&;<>()[\]{}=]+/y, token: 'operator' },
+    ],
+    doubleString: [
+      { pattern: /(?:[^"\\$]|\\.)+/y, token: 'string' },
+      { pattern: /\$\{[^}]*\}?|\$[A-Za-z_]\w*|\$[0-9@#?*$!-]/y, token: 'variable' },
+      { pattern: /\$/y, token: 'string' },
+      { pattern: /"/y, token: 'string', next: '@pop' },
+    ],
+  },
+};
+
+const sqlKeywords = words(`
+  select from where and or not insert into values update set delete create table drop alter add
+  column index view primary key foreign references join inner left right outer full cross on as
+  group by order having limit offset distinct union all case when then else end is null like in
+  between exists default constraint unique check returning with asc desc begin commit rollback
+`);
+const sqlBuiltins = words(`
+  count sum avg min max coalesce now true false int integer bigint varchar text boolean date
+  timestamp serial uuid json jsonb numeric decimal real
+`);
+
+const sql: Grammar = {
+  name: 'sql',
+  states: {
+    root: [
+      WHITESPACE,
+      { pattern: /--.*/y, token: 'comment' },
+      { pattern: /\/\*.*?\*\//y, token: 'comment' },
+      { pattern: /\/\*.*/y, token: 'comment', next: 'blockComment' },
+      { pattern: /'(?:[^']|'')*'?/y, token: 'string' },
+      { pattern: /"(?:[^"]|"")*"?/y, token: 'property' },
+      { pattern: NUMBER, token: 'number' },
+      { pattern: /[A-Za-z_]\w*/y, token: identifier(sqlKeywords, sqlBuiltins, true) },
+      OPERATOR,
+      PUNCTUATION,
+    ],
+    ...blockComment(/.*?\*\//y),
+  },
+};
+
+const html: Grammar = {
+  name: 'html',
+  states: {
+    root: [
+      { pattern: /<!--.*?-->/y, token: 'comment' },
+      { pattern: /<!--.*/y, token: 'comment', next: 'comment' },
+      { pattern: /<!DOCTYPE[^>]*>/iy, token: 'keyword' },
+      { pattern: /<\/?[A-Za-z][\w:-]*/y, token: 'tag', next: 'tag' },
+      { pattern: /&[#\w]+;/y, token: 'builtin' },
+      { pattern: /[^<&]+/y, token: 'plain' },
+    ],
+    tag: [
+      WHITESPACE,
+      { pattern: /\/?>/y, token: 'tag', next: '@pop' },
+      { pattern: /[A-Za-z_:@][\w:.-]*/y, token: 'attribute' },
+      { pattern: /=/y, token: 'operator' },
+      { pattern: /"[^"]*"?|'[^']*'?/y, token: 'string' },
+    ],
+    comment: [
+      { pattern: /.*?-->/y, token: 'comment', next: '@pop' },
+      { pattern: /.+/y, token: 'comment' },
+    ],
+  },
+};
+
+const cssValueRules: GrammarRule[] = [
+  WHITESPACE,
+  { pattern: /\/\*.*?\*\//y, token: 'comment' },
+  { pattern: /\/\*.*/y, token: 'comment', next: 'blockComment' },
+  { pattern: /"[^"]*"?|'[^']*'?/y, token: 'string' },
+  { pattern: /#[\da-fA-F]{3,8}\b/y, token: 'number' },
+  { pattern: /-?(?:\d+\.?\d*|\.\d+)(?:px|em|rem|%|vh|vw|vmin|vmax|s|ms|deg|fr|ch)?/y, token: 'number' },
+  { pattern: /!important/y, token: 'keyword' },
+  { pattern: /--[\w-]+/y, token: 'variable' },
+];
+
+const css: Grammar = {
+  name: 'css',
+  states: {
+    root: [
+      ...cssValueRules,
+      { pattern: /@[\w-]+/y, token: 'keyword' },
+      { pattern: /[.#][\w-]+/y, token: 'type' },
+      { pattern: /::?[\w-]+/y, token: 'builtin' },
+      { pattern: /[\w-]+/y, token: 'tag' },
+      { pattern: /\{/y, token: 'punctuation', next: 'block' },
+      { pattern: /}/y, token: 'punctuation', next: '@pop' },
+      { pattern: /[>+~*,()[\]=]/y, token: 'operator' },
+    ],
+    block: [
+      ...cssValueRules,
+      { pattern: /[\w-]+(?=\s*:(?!:))/y, token: 'property' },
+      { pattern: /[\w-]+(?=\()/y, token: 'function' },
+      // Nested rules (e.g. inside @media) open another selector context
+      { pattern: /[.#&][\w-]*(?=[^;{}]*\{)|[\w-]+(?=[^;{}:]*\{)/y, token: 'type' },
+      { pattern: /\{/y, token: 'punctuation', next: 'block' },
+      { pattern: /}/y, token: 'punctuation', next: '@pop' },
+      { pattern: /[\w-]+/y, token: 'plain' },
+      { pattern: /[:;,()/]/y, token: 'punctuation' },
+    ],
+    ...blockComment(/.*?\*\//y),
+  },
+};
+
+const markdown: Grammar = {
+  name: 'markdown',
+  states: {
+    root: [
+      { pattern: /^ {0,3}(?:```|~~~).*/y, token: 'punctuation', next: 'fence' },
+      { pattern: /^ {0,3}#{1,6}\s.*/y, token: 'heading' },
+      { pattern: /^ {0,3}>.*/y, token: 'comment' },
+      { pattern: /^ {0,3}(?:[-*_]\s*){3,}$/y, token: 'punctuation' },
+      { pattern: /^\s*(?:[-*+]|\d+[.)])(?=\s)/y, token: 'operator' },
+      { pattern: /`[^`]+`/y, token: 'string' },
+      { pattern: /\*\*[^*]+\*\*|__[^_]+__/y, token: 'strong' },
+      { pattern: /\*[^*\s][^*]*\*|_[^_\s][^_]*_/y, token: 'emphasis' },
+      { pattern: /!?\[[^\]]*\]\([^)]*\)/y, token: 'link' },
+      { pattern: /<https?:\/\/[^>]+>/y, token: 'link' },
+      { pattern: /[^`*_![<]+/y, token: 'plain' },
+    ],
+    fence: [
+      { pattern: /^ {0,3}(?:```|~~~)\s*$/y, token: 'punctuation', next: '@pop' },
+      { pattern: /.+/y, token: 'string' },
+    ],
+  },
+};
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+const typescript: Grammar = { ...javascript, name: 'typescript' };
+
+const grammars: Record<string, Grammar> = {
+  javascript,
+  typescript,
+  python,
+  swift,
+  json,
+  bash,
+  sql,
+  html,
+  css,
+  markdown,
+};
+
+const aliases: Record<string, string> = {
+  js: 'javascript',
+  jsx: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  ts: 'typescript',
+  tsx: 'typescript',
+  py: 'python',
+  sh: 'bash',
+  shell: 'bash',
+  zsh: 'bash',
+  console: 'bash',
+  xml: 'html',
+  svg: 'html',
+  htm: 'html',
+  scss: 'css',
+  md: 'markdown',
+  jsonc: 'json',
+  postgres: 'sql',
+  postgresql: 'sql',
+  sqlite: 'sql',
+  mysql: 'sql',
+};
+
+/**
+ * Look up a grammar by language name or common alias
+ */
+export const getGrammar = (language?: string): Grammar | undefined => {
+  if (!language) return undefined;
+  const key = language.toLowerCase();
+  return grammars[aliases[key] ?? key];
+};
+
+export const supportedLanguages = Object.keys(grammars);
@@ -0,0 +1,16 @@
+/**
+ * Syntax Highlighting - Tokenizer-based code highlighting
+ * Used by Artifact previews and Markdown code fences
+ */
+
+export { CodeBlock, useHighlightedCode } from './CodeBlock';
+export type { CodeBlockProps, CodeWrapMode } from './CodeBlock';
+
+export { createHighlighter, highlightCode, tokenizeLine } from './tokenizer';
+export type { Token, HighlightedLine, Highlighter } from './tokenizer';
+
+export { getGrammar, supportedLanguages } from './grammars';
+export type { Grammar, GrammarRule, TokenType } from './grammars';
+
+export { createSyntaxPalette, getSyntaxPalette, lightSyntaxPalette, darkSyntaxPalette } from './palette';
+export type { SyntaxPalette } from './palette';
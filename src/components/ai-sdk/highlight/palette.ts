@@ -0,0 +1,80 @@
+/**
+ * Syntax Palettes
+ * Token colors derived from the design token color palettes
+ */
+
+import type { TextStyle } from 'react-native';
+import { lightColors, darkColors } from '../../../design-system/tokens';
+import type { TokenType } from './grammars';
+
+export type SyntaxPalette = Record<TokenType, Pick<TextStyle, 'color' | 'fontStyle' | 'fontWeight'>>;
+
+type PaletteColors = typeof lightColors;
+
+/**
+ * Build a syntax palette from a theme color set.
+ * Accent roles come from the chart colors, neutrals from the foregrounds.
+ */
+export const createSyntaxPalette = (
+  colors: PaletteColors,
+  accents: { keyword: string; string: string; number: string; type: string; function: string }
+): SyntaxPalette => ({
+  plain: { color: colors.foreground.rgb },
+  comment: { color: colors.mutedForeground.rgb, fontStyle: 'italic' },
+  keyword: { color: accents.keyword, fontWeight: '600' },
+  string: { color: accents.string },
+  number: { color: accents.number },
+  builtin: { color: accents.number },
+  type: { color: accents.type },
+  function: { color: accents.function },
+  property: { color: accents.function },
+  attribute: { color: accents.type },
+  tag: { color: accents.keyword },
+  variable: { color: accents.type },
+  operator: { color: colors.mutedForeground.rgb },
+  punctuation: { color: colors.mutedForeground.rgb },
+  heading: { color: accents.keyword, fontWeight: '700' },
+  emphasis: { color: colors.foreground.rgb, fontStyle: 'italic' },
+  strong: { color: colors.foreground.rgb, fontWeight: '700' },
+  link: { color: accents.string },
+});
+
+/**
+ * Accent roles for a color set. Light chart4/chart5 are too pale on white
+ * for text, so they are skipped.
+ */
+const syntaxAccents = (colors: PaletteColors, isDark: boolean) =>
+  isDark
+    ? {
+        keyword: colors.chart1.rgb,
+        string: colors.chart2.rgb,
+        number: colors.chart3.rgb,
+        type: colors.chart5.rgb,
+        function: colors.chart4.rgb,
+      }
+    : {
+        keyword: colors.chart3.rgb,
+        string: colors.chart2.rgb,
+        number: colors.chart1.rgb,
+        type: colors.destructive.rgb,
+        function: colors.primary.rgb,
+      };
+
+export const lightSyntaxPalette = createSyntaxPalette(lightColors, syntaxAccents(lightColors, false));
+
+export const darkSyntaxPalette = createSyntaxPalette(darkColors, syntaxAccents(darkColors, true));
+
+/**
+ * Syntax palette for a theme; pass the theme's colors so brand overrides
+ * from ThemeProvider reach code blocks
+ *
+ * @example
+ * ```ts
+ * const theme = useTheme();
+ * const palette = useMemo(() => getSyntaxPalette(theme.isDark, theme.colors), [theme]);
+ * ```
+ */
+export const getSyntaxPalette = (isDark: boolean, colors?: PaletteColors): SyntaxPalette => {
+  if (!colors) return isDark ? darkSyntaxPalette : lightSyntaxPalette;
+  return createSyntaxPalette(colors, syntaxAccents(colors, isDark));
+};
@@ -0,0 +1,154 @@
+/**
+ * Syntax Tokenizer
+ * Runs grammar rules line by line and caches results so streaming code
+ * only re-tokenizes the lines that changed.
+ */
+
+import { Grammar, TokenType, getGrammar } from './grammars';
+
+export type Token = {
+  type: TokenType;
+  text: string;
+};
+
+export type HighlightedLine = {
+  tokens: Token[];
+  /** Lexer state stack at the end of the line */
+  endState: string[];
+};
+
+const ROOT_STATE = ['root'];
+
+const pushToken = (tokens: Token[], type: TokenType, text: string) => {
+  if (!text) return;
+  const last = tokens[tokens.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    tokens.push({ type, text });
+  }
+};
+
+/**
+ * Tokenize one line starting from the given lexer state
+ */
+export const tokenizeLine = (
+  line: string,
+  grammar: Grammar,
+  startState: string[] = ROOT_STATE
+): HighlightedLine => {
+  const tokens: Token[] = [];
+  let stack = startState;
+  let index = 0;
+
+  while (index < line.length) {
+    const rules = grammar.states[stack[stack.length - 1]] ?? grammar.states.root;
+    let matched = false;
+
+    for (const rule of rules) {
+      rule.pattern.lastIndex = index;
+      const match = rule.pattern.exec(line);
+      if (!match || match[0].length === 0) continue;
+
+      const type = typeof rule.token === 'function' ? rule.token(match[0], line, index) : rule.token;
+      pushToken(tokens, type, match[0]);
+      index += match[0].length;
+
+      if (rule.next === '@pop') {
+        // The outermost state is never popped so stray closers stay harmless
+        if (stack.length > 1) stack = stack.slice(0, -1);
+      } else if (rule.next) {
+        stack = [...stack, rule.next];
+      }
+      matched = true;
+      break;
+    }
+
+    if (!matched) {
+      pushToken(tokens, 'plain', line[index]);
+      index++;
+    }
+  }
+
+  return { tokens, endState: stack };
+};
+
+const sameState = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((state, i) => state === b[i]);
+
+/**
+ * Incremental highlighter for one code buffer
+ *
+ * Keeps the previous lines and their lexer states; on each call only lines
+ * after the first changed one are re-tokenized, and tokenizing stops early
+ * once a re-tokenized line ends in the same state as before.
+ *
+ * @example
+ * ```ts
+ * const highlighter = createHighlighter('typescript');
+ * highlighter.highlight('const a = 1;');
+ * highlighter.highlight('const a = 1;\nconst b = 2;'); // only line 2 is tokenized
+ * ```
+ */
+export function createHighlighter(language?: string) {
+  const grammar = getGrammar(language);
+  let lines: string[] = [];
+  let results: HighlightedLine[] = [];
+
+  const highlight = (code: string): HighlightedLine[] => {
+    const nextLines = code.split('\n');
+
+    if (!grammar) {
+      results = nextLines.map(line => ({ tokens: line ? [{ type: 'plain', text: line }] : [], endState: ROOT_STATE }));
+      lines = nextLines;
+      return results;
+    }
+
+    let firstChanged = 0;
+    const shared = Math.min(lines.length, nextLines.length);
+    while (firstChanged < shared && lines[firstChanged] === nextLines[firstChanged]) {
+      firstChanged++;
+    }
+
+    const nextResults = results.slice(0, firstChanged);
+    let state = firstChanged > 0 ? nextResults[firstChanged - 1].endState : ROOT_STATE;
+
+    for (let i = firstChanged; i < nextLines.length; i++) {
+      // Past the edit, an unchanged line entered in the same state can be reused
+      const previous = results[i];
+      const previousStart = i === 0 ? ROOT_STATE : results[i - 1]?.endState;
+      if (
+        i > firstChanged &&
+        previous &&
+        lines[i] === nextLines[i] &&
+        previousStart &&
+        sameState(previousStart, state)
+      ) {
+        nextResults.push(previous);
+        state = previous.endState;
+        continue;
+      }
+
+      const result = tokenizeLine(nextLines[i], grammar, state);
+      nextResults.push(result);
+      state = result.endState;
+    }
+
+    lines = nextLines;
+    results = nextResults;
+    return results;
+  };
+
+  return {
+    language: grammar?.name,
+    highlight,
+  };
+}
+
+export type Highlighter = ReturnType<typeof createHighlighter>;
+
+/**
+ * One-shot highlighting without caching
+ */
+export const highlightCode = (code: string, language?: string): HighlightedLine[] =>
+  createHighlighter(language).highlight(code);
@@ -9,15 +9,70 @@ export { Suggestion, exampleSuggestions, quickActionSuggestions } from './Sugges
 export type { SuggestionProps, SuggestionOption } from './Suggestion';
 
 export { Conversation, exampleConversation } from './Conversation';
-export type { ConversationProps } from './Conversation';
+export type { ConversationProps, ConversationHandle } from './Conversation';
+
+export { Markdown, parseMarkdown } from './markdown';
+export type { MarkdownProps, BlockNode, InlineNode } from './markdown';
 
 export { PromptInput, examplePromptSuggestions } from './PromptInput';
 export type { PromptInputProps, PromptAttachment } from './PromptInput';
 
+export { useChat, createEchoTransport } from './useChat';
+export type { UseChatOptions, UseChatResult, ChatTransport, ChatRequest, ChatStatus } from './useChat';
+export {
+  createConversationTree,
+  getActiveMessages,
+  appendMessage,
+  addBranch,
+  selectBranch,
+  serializeConversationTree,
+  parseConversationTree,
+  ConversationTreeError,
+} from './conversation';
+export type { ConversationTree, ConversationNode, StoredMessage } from './conversation';
+export {
+  createMemoryConversationStorage,
+  createSQLiteConversationStorage,
+  createOutbox,
+  useStoredConversation,
+  ConversationStorageError,
+} from './storage';
+export type {
+  ConversationStorage,
+  StoredConversation,
+  MessagePage,
+  StorageChange,
+  Outbox,
+  OutboxOptions,
+  SQLiteDatabaseLike,
+} from './storage';
+
+// Stream Protocol (AI SDK UI message stream)
+export {
+  readUIMessageStream,
+  parseStreamLine,
+  applyStreamPart,
+  consumeUIMessageStream,
+  createUIMessageStreamTransport,
+  useUIMessageStream,
+  createStreamState,
+  isDataPart,
+} from './stream';
+export type {
+  UIMessageStreamPart,
+  UIMessageStreamState,
+  UIMessageStreamStatus,
+  UseUIMessageStreamResult,
+  StreamSource,
+} from './stream';
+
 // Content Display Components (Phase 3 - Batch 2)
 export { Artifact, exampleArtifacts } from './Artifact';
 export type { ArtifactProps, Artifact as ArtifactData } from './Artifact';
 
+export { CodeBlock, createHighlighter, highlightCode, getSyntaxPalette } from './highlight';
+export type { CodeBlockProps, CodeWrapMode, Token, HighlightedLine, TokenType, SyntaxPalette } from './highlight';
+
 export { Image as AIImage, exampleImages } from './Image';
 export type { AIImageProps, AIImageSource } from './Image';
 
@@ -32,7 +87,9 @@ export type { WebPreviewProps, WebPreviewData } from './WebPreview';
 
 // Tool & Context Components (Phase 3 - Batch 3)
 export { Tool, exampleTools } from './Tool';
-export type { ToolProps, ToolData, ToolStatus } from './Tool';
+export type { ToolProps, ToolData, ToolStatus, ToolApproval } from './Tool';
+export { createToolCallStore, useToolCalls, parsePartialJson, SchemaView, validateSchema } from './tool';
+export type { ToolCallStore, ToolApprovalDecision, RunToolOptions, JsonSchema, SchemaIssue, SchemaViewProps } from './tool';
 
 export { Context, exampleContextItems } from './Context';
 export type { ContextProps, ContextItem, ContextType } from './Context';
@@ -49,7 +106,13 @@ export type { OpenInChatProps } from './OpenInChat';
 
 // Terminal/VCR Component (Phase 3 - Bonus)
 export { Terminal, exampleRecordings } from './Terminal';
-export type { TerminalProps, TerminalRecording, TerminalFrame, TerminalFrameType } from './Terminal';
+export type { TerminalProps, TerminalHandle, TerminalRecording, TerminalFrame, TerminalFrameType } from './Terminal';
+export { fromAsciicast, toAsciicast, createAsciicastReader, AsciicastError, stripAnsi } from './terminal';
+export { AnsiText, parseAnsi, getTerminalPalette, computeTimeline } from './terminal';
+export { createLiveTerminal, pipeToLiveTerminal, useLiveTerminal } from './terminal';
+export type { AnsiTextProps, AnsiStyle, AnsiSpan, TerminalPalette, TerminalTimeline, TerminalChapter } from './terminal';
+export type { AsciicastHeader, AsciicastEvent, AsciicastImportOptions, AsciicastExportOptions } from './terminal';
+export type { LiveTerminalEvent, LiveTerminalSource, LiveTerminalOptions, LiveTerminalSession } from './terminal';
 
 // Planning & Reasoning Components (Phase 4)
 export { Plan, examplePlans } from './Plan';
@@ -76,4 +139,56 @@ export type {
   Position,
   Handle,
   Connection,
+  NodeGroup,
 } from './workflow';
+
+export { runWorkflow, useWorkflowRunner, getExecutionOrder, applyRunStates, WorkflowRunError } from './workflow';
+export type {
+  WorkflowHandlers,
+  NodeHandler,
+  NodeHandlerContext,
+  NodeHandlerResult,
+  NodeRunState,
+  RunLogEntry,
+  WorkflowRunResult,
+  WorkflowRunStatus,
+  RunWorkflowOptions,
+  UseWorkflowRunnerResult,
+} from './workflow';
+
+export { computeLayout, layoutWorkflow } from './workflow';
+export type { LayoutDirection, LayoutOptions } from './workflow';
+
+export { useWorkflowHistory } from './workflow';
+export type {
+  WorkflowPlannerProps,
+  WorkflowPlannerHandle,
+  WorkflowCommand,
+  WorkflowCommandType,
+  WorkflowChange,
+} from './workflow';
+
+export {
+  importWorkflow,
+  exportWorkflow,
+  detectWorkflowFormat,
+  serializeWorkflow,
+  parseWorkflowJSON,
+  validateWorkflow,
+  toMermaid,
+  fromMermaid,
+  toDot,
+  fromDot,
+  WorkflowFormatError,
+  WORKFLOW_SCHEMA_VERSION,
+} from './workflow';
+export type { WorkflowFormat, WorkflowFormatIssue, WorkflowDocument } from './workflow';
+
+export { WorkflowMinimap, zoomAtPoint, fitNodes } from './workflow';
+export type { WorkflowMinimapProps, Viewport, ZoomLimits } from './workflow';
+
+export { selectInRect, copySelection, pasteClipboard, removeSelection } from './workflow';
+export type { WorkflowSelection, WorkflowClipboard } from './workflow';
+
+export { WorkflowGroup, createGroup, collapseGroups, fitGroups } from './workflow';
+export type { WorkflowGroupProps } from './workflow';
@@ -0,0 +1,291 @@
+import React, { useMemo } from 'react';
+import { View, Text as RNText, ScrollView, Linking, StyleSheet, TextStyle } from 'react-native';
+import { useTheme, useTypography, ScaledTypography, TypographyVariant } from '../../../design-system';
+import { BlockNode, InlineNode, parseMarkdown, inlineToPlainText } from './parser';
+import { CodeBlock } from '../highlight';
+
+// Sizes come from useTypography, which already applies the system text size
+const Text = (props: React.ComponentProps<typeof RNText>) => <RNText allowFontScaling={false} {...props} />;
+
+export interface MarkdownProps {
+  content: string;
+  /** Content is still arriving; tolerate incomplete syntax */
+  streaming?: boolean;
+  /** Typography token used for body text */
+  textVariant?: TypographyVariant;
+  onLinkPress?: (href: string) => void;
+  testID?: string;
+}
+
+type Theme = ReturnType<typeof useTheme>;
+
+const headingVariants: Record<number, TypographyVariant> = {
+  1: 'h2',
+  2: 'h3',
+  3: 'h4',
+  4: 'label',
+  5: 'label',
+  6: 'label',
+};
+
+/**
+ * Native Markdown renderer
+ *
+ * Renders headings, lists, emphasis, links, block quotes, tables and fenced
+ * code with the current theme colors and typography tokens.
+ *
+ * @example
+ * ```tsx
+ * <Markdown content={'# Title\n\nSome **bold** text'} streaming={isStreaming} />
+ * ```
+ */
+export const Markdown = React.memo(function Markdown({
+  content,
+  streaming = false,
+  textVariant = 'bodySmall',
+  onLinkPress,
+  testID,
+}: MarkdownProps) {
+  const theme = useTheme();
+  const type = useTypography();
+  const blocks = useMemo(() => parseMarkdown(content, { streaming }), [content, streaming]);
+
+  const context: RenderContext = {
+    theme,
+    type,
+    bodyStyle: {
+      ...type.styles[textVariant],
+      color: theme.colors.foreground.rgb,
+    },
+    onLinkPress: onLinkPress ?? ((href) => Linking.openURL(href).catch(() => {})),
+  };
+
+  return (
+    <View testID={testID} style={styles.container}>
+      {blocks.map((block, index) => (
+        <MarkdownBlock key={index} block={block} context={context} />
+      ))}
+    </View>
+  );
+});
+
+type RenderContext = {
+  theme: Theme;
+  type: ScaledTypography;
+  bodyStyle: TextStyle;
+  onLinkPress: (href: string) => void;
+};
+
+function MarkdownBlock({ block, context }: { block: BlockNode; context: RenderContext }) {
+  const { theme, type, bodyStyle } = context;
+
+  switch (block.type) {
+    case 'heading': {
+      const variant = type.styles[headingVariants[block.level]];
+      return (
+        <Text
+          accessibilityRole="header"
+          style={[variant, { color: theme.colors.foreground.rgb, marginTop: 4 }]}
+        >
+          {renderInline(block.children, context)}
+        </Text>
+      );
+    }
+
+    case 'paragraph':
+      return <Text style={bodyStyle}>{renderInline(block.children, context)}</Text>;
+
+    case 'code':
+      return (
+        <View
+          style={[
+            styles.codeBlock,
+            { backgroundColor: theme.colors.muted.rgb, borderColor: theme.colors.border.rgb },
+          ]}
+        >
+          {block.language && (
+            <Text style={[type.styles.overline, { color: theme.colors.mutedForeground.rgb }]}>
+              {block.language.toUpperCase()}
+            </Text>
+          )}
+          <CodeBlock code={block.code} language={block.language} showLineNumbers={false} wrap="none" />
+        </View>
+      );
+
+    case 'blockquote':
+      return (
+        <View style={[styles.blockquote, { borderLeftColor: theme.colors.border.rgb }]}>
+          {block.children.map((child, index) => (
+            <MarkdownBlock
+              key={index}
+              block={child}
+              context={{
+                ...context,
+                bodyStyle: { ...bodyStyle, color: theme.colors.mutedForeground.rgb },
+              }}
+            />
+          ))}
+        </View>
+      );
+
+    case 'list':
+      return (
+        <View style={styles.list}>
+          {block.items.map((item, index) => {
+            const marker =
+              item.checked !== undefined ? (item.checked ? '☑' : '☐') :
+              block.ordered ? `${block.start + index}.` : '•';
+
+            return (
+              <View key={index} style={styles.listItem}>
+                <Text style={[bodyStyle, styles.listMarker]}>{marker}</Text>
+                <View style={styles.listContent}>
+                  {item.children.map((child, childIndex) => (
+                    <MarkdownBlock key={childIndex} block={child} context={context} />
+                  ))}
+                </View>
+              </View>
+            );
+          })}
+        </View>
+      );
+
+    case 'table':
+      return (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          <View style={[styles.table, { borderColor: theme.colors.border.rgb }]}>
+            {[block.header, ...block.rows].map((row, rowIndex) => (
+              <View
+                key={rowIndex}
+                style={[
+                  styles.tableRow,
+                  rowIndex === 0 && { backgroundColor: theme.colors.muted.rgb },
+                  rowIndex > 0 && { borderTopColor: theme.colors.border.rgb, borderTopWidth: StyleSheet.hairlineWidth },
+                ]}
+              >
+                {row.map((cell, cellIndex) => (
+                  <Text
+                    key={cellIndex}
+                    style={[
+                      bodyStyle,
+                      styles.tableCell,
+                      rowIndex === 0 && { fontWeight: '600' },
+                      { textAlign: block.align[cellIndex] ?? 'left' },
+                    ]}
+                  >
+                    {renderInline(cell, context)}
+                  </Text>
+                ))}
+              </View>
+            ))}
+          </View>
+        </ScrollView>
+      );
+
+    case 'thematicBreak':
+      return <View style={[styles.rule, { backgroundColor: theme.colors.border.rgb }]} />;
+  }
+}
+
+function renderInline(nodes: InlineNode[], context: RenderContext): React.ReactNode[] {
+  const { theme, type } = context;
+
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'break':
+        return '\n';
+      case 'strong':
+        return (
+          <Text key={index} style={{ fontWeight: '700' }}>
+            {renderInline(node.children, context)}
+          </Text>
+        );
+      case 'emphasis':
+        return (
+          <Text key={index} style={{ fontStyle: 'italic' }}>
+            {renderInline(node.children, context)}
+          </Text>
+        );
+      case 'strikethrough':
+        return (
+          <Text key={index} style={{ textDecorationLine: 'line-through' }}>
+            {renderInline(node.children, context)}
+          </Text>
+        );
+      case 'code':
+        return (
+          <Text
+            key={index}
+            style={{
+              fontFamily: type.styles.code.fontFamily,
+              backgroundColor: theme.colors.muted.rgb,
+            }}
+          >
+            {node.text}
+          </Text>
+        );
+      case 'link':
+        return (
+          <Text
+            key={index}
+            accessibilityRole="link"
+            accessibilityLabel={inlineToPlainText(node.children)}
+            onPress={() => context.onLinkPress(node.href)}
+            style={{ color: theme.colors.primary.rgb, textDecorationLine: 'underline' }}
+          >
+            {renderInline(node.children, context)}
+          </Text>
+        );
+    }
+  });
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  codeBlock: {
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: StyleSheet.hairlineWidth,
+    gap: 6,
+  },
+  blockquote: {
+    borderLeftWidth: 3,
+    paddingLeft: 12,
+    gap: 8,
+  },
+  list: {
+    gap: 4,
+  },
+  listItem: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  listMarker: {
+    minWidth: 16,
+  },
+  listContent: {
+    flex: 1,
+    gap: 4,
+  },
+  table: {
+    borderWidth: StyleSheet.hairlineWidth,
+    borderRadius: 6,
+    overflow: 'hidden',
+  },
+  tableRow: {
+    flexDirection: 'row',
+  },
+  tableCell: {
+    minWidth: 80,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  rule: {
+    height: StyleSheet.hairlineWidth,
+    marginVertical: 4,
+  },
+});
@@ -0,0 +1,48 @@
+/**
+ * Markdown inline parser tests
+ * Emphasis delimiter runs, including nested runs of different lengths
+ */
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { InlineNode, parseInline } from '../parser';
+
+const text = (value: string): InlineNode => ({ type: 'text', text: value });
+const em = (...children: InlineNode[]): InlineNode => ({ type: 'emphasis', children });
+const strong = (...children: InlineNode[]): InlineNode => ({ type: 'strong', children });
+
+describe('parseInline emphasis', () => {
+  test('parses strong and emphasis', () => {
+    assert.deepEqual(parseInline('**bold** and *em*'), [strong(text('bold')), text(' and '), em(text('em'))]);
+    assert.deepEqual(parseInline('__a _b_ c__'), [strong(text('a '), em(text('b')), text(' c'))]);
+  });
+
+  test('parses a triple run as strong emphasis', () => {
+    assert.deepEqual(parseInline('***x***'), [strong(em(text('x')))]);
+    assert.deepEqual(parseInline('___x___'), [strong(em(text('x')))]);
+  });
+
+  test('skips nested runs of another length', () => {
+    assert.deepEqual(parseInline('*a **b** c*'), [em(text('a '), strong(text('b')), text(' c'))]);
+    assert.deepEqual(parseInline('**a *b* c**'), [strong(text('a '), em(text('b')), text(' c'))]);
+  });
+
+  test('splits a closing triple run between nested runs', () => {
+    assert.deepEqual(parseInline('*a **b***'), [em(text('a '), strong(text('b')))]);
+    assert.deepEqual(parseInline('**a *b***'), [strong(text('a '), em(text('b')))]);
+  });
+
+  test('leaves unmatched and spaced delimiters literal', () => {
+    assert.deepEqual(parseInline('2 * 3 * 4'), [text('2 * 3 * 4')]);
+    assert.deepEqual(parseInline('snake_case_name'), [text('snake_case_name')]);
+    assert.deepEqual(parseInline('**open'), [text('**open')]);
+  });
+
+  test('ignores delimiters inside code spans', () => {
+    assert.deepEqual(parseInline('`*x*` *y*'), [{ type: 'code', text: '*x*' }, text(' '), em(text('y'))]);
+  });
+
+  test('closes open runs at the end while streaming', () => {
+    assert.deepEqual(parseInline('**open', { streaming: true }), [strong(text('open'))]);
+  });
+});
@@ -0,0 +1,10 @@
+/**
+ * Markdown - Native renderer for LLM Markdown output
+ * Used by Response and Message when `format="markdown"`
+ */
+
+export { Markdown } from './Markdown';
+export type { MarkdownProps } from './Markdown';
+
+export { parseMarkdown, parseInline, inlineToPlainText } from './parser';
+export type { BlockNode, InlineNode, ListItem, TableAlign, ParseOptions } from './parser';
@@ -0,0 +1,540 @@
+/**
+ * Markdown Parser
+ * Converts LLM Markdown output into a small block/inline tree.
+ *
+ * In streaming mode the parser tolerates incomplete input: unclosed fences
+ * render as open code blocks, unclosed emphasis is closed at the end of the
+ * text and a table header without its delimiter row is held back, so the
+ * rendered output only ever grows while tokens arrive.
+ */
+
+// ============================================================================
+// AST Types
+// ============================================================================
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: InlineNode[] }
+  | { type: 'emphasis'; children: InlineNode[] }
+  | { type: 'strikethrough'; children: InlineNode[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: InlineNode[] }
+  | { type: 'break' };
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export type ListItem = {
+  checked?: boolean;
+  children: BlockNode[];
+};
+
+export type BlockNode =
+  | { type: 'heading'; level: 1 | 2 | 3 | 4 | 5 | 6; children: InlineNode[] }
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'code'; language?: string; code: string; closed: boolean }
+  | { type: 'blockquote'; children: BlockNode[] }
+  | { type: 'list'; ordered: boolean; start: number; items: ListItem[] }
+  | { type: 'table'; align: TableAlign[]; header: InlineNode[][]; rows: InlineNode[][][] }
+  | { type: 'thematicBreak' };
+
+export interface ParseOptions {
+  /** Input may end mid-token; close open constructs instead of showing raw syntax */
+  streaming?: boolean;
+}
+
+// ============================================================================
+// Block Parsing
+// ============================================================================
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^`\s]*)?.*$/;
+const HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const THEMATIC_BREAK = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const BLOCKQUOTE = /^ {0,3}>\s?(.*)$/;
+const LIST_ITEM = /^( *)([-*+]|\d{1,9}[.)])(?:\s+(.*)|$)/;
+const TASK = /^\[([ xX])\]\s+(.*)$/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+// A delimiter row still being typed, e.g. `| --- | -`
+const PARTIAL_TABLE_DELIMITER = /^\s*\|?[\s:|-]*-[\s:|-]*$/;
+
+const isBlank = (line: string) => line.trim().length === 0;
+
+const isTableRow = (line: string) => line.includes('|') && !isBlank(line);
+
+const startsBlock = (line: string): boolean =>
+  FENCE.test(line) ||
+  HEADING.test(line) ||
+  THEMATIC_BREAK.test(line) ||
+  BLOCKQUOTE.test(line) ||
+  LIST_ITEM.test(line);
+
+const splitTableRow = (line: string): string[] => {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+
+  const cells: string[] = [];
+  let current = '';
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] === '\\' && row[i + 1] === '|') {
+      current += '|';
+      i++;
+    } else if (row[i] === '|') {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += row[i];
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+};
+
+const parseAlign = (cell: string): TableAlign => {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  if (left && right) return 'center';
+  if (right) return 'right';
+  if (left) return 'left';
+  return null;
+};
+
+const stripIndent = (line: string, indent: number): string => {
+  let i = 0;
+  while (i < indent && line[i] === ' ') i++;
+  return line.slice(i);
+};
+
+const parseBlocks = (lines: string[], options: ParseOptions): BlockNode[] => {
+  const blocks: BlockNode[] = [];
+  const inline = (text: string) => parseInline(text, options);
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    // A fence marker still being typed would otherwise flash as inline code
+    if (options.streaming && i === lines.length - 1 && /^ {0,3}(`{1,2}|~{1,2})$/.test(line)) {
+      i++;
+      continue;
+    }
+
+    // Fenced code
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const marker = fence[1];
+      const code: string[] = [];
+      let closed = false;
+      i++;
+      while (i < lines.length) {
+        const trimmed = lines[i].trim();
+        if (trimmed.startsWith(marker[0].repeat(marker.length)) && /^[`~]+$/.test(trimmed)) {
+          closed = true;
+          i++;
+          break;
+        }
+        code.push(lines[i]);
+        i++;
+      }
+      blocks.push({ type: 'code', language: fence[2] || undefined, code: code.join('\n'), closed });
+      continue;
+    }
+
+    // Heading
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({
+        type: 'heading',
+        level: heading[1].length as 1 | 2 | 3 | 4 | 5 | 6,
+        children: inline(heading[2] ?? ''),
+      });
+      i++;
+      continue;
+    }
+
+    // Thematic break (checked before lists so `---` and `* * *` are not items)
+    if (THEMATIC_BREAK.test(line)) {
+      blocks.push({ type: 'thematicBreak' });
+      i++;
+      continue;
+    }
+
+    // Block quote
+    if (BLOCKQUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && !isBlank(lines[i])) {
+        const match = BLOCKQUOTE.exec(lines[i]);
+        // Lazy continuation lines belong to the quote
+        quoted.push(match ? match[1] : lines[i]);
+        i++;
+      }
+      blocks.push({ type: 'blockquote', children: parseBlocks(quoted, options) });
+      continue;
+    }
+
+    // List
+    const listMatch = LIST_ITEM.exec(line);
+    if (listMatch) {
+      const ordered = /\d/.test(listMatch[2]);
+      const baseIndent = listMatch[1].length;
+      const items: ListItem[] = [];
+
+      while (i < lines.length) {
+        const item = LIST_ITEM.exec(lines[i]);
+        if (!item || item[1].length !== baseIndent || /\d/.test(item[2]) !== ordered) break;
+
+        const contentIndent = baseIndent + item[2].length + 1;
+        const itemLines = [item[3] ?? ''];
+        i++;
+
+        while (i < lines.length) {
+          const next = lines[i];
+          if (isBlank(next)) {
+            // A blank line only continues the item if indented content follows
+            const following = lines[i + 1];
+            if (following !== undefined && following.startsWith(' '.repeat(contentIndent))) {
+              itemLines.push('');
+              i++;
+              continue;
+            }
+            break;
+          }
+          const indent = next.length - next.trimStart().length;
+          if (indent >= contentIndent || (indent > baseIndent && LIST_ITEM.test(next))) {
+            itemLines.push(stripIndent(next, Math.min(indent, contentIndent)));
+            i++;
+          } else if (!startsBlock(next) && !LIST_ITEM.test(next)) {
+            // Lazy paragraph continuation
+            itemLines.push(next.trim());
+            i++;
+          } else {
+            break;
+          }
+        }
+
+        const task = TASK.exec(itemLines[0]);
+        if (task) {
+          itemLines[0] = task[2];
+        }
+        items.push({
+          checked: task ? task[1] !== ' ' : undefined,
+          children: parseBlocks(itemLines, options),
+        });
+
+        // Skip blank lines between items of the same list
+        while (i < lines.length && isBlank(lines[i]) && lines[i + 1] !== undefined) {
+          const following = LIST_ITEM.exec(lines[i + 1]);
+          if (!following || following[1].length !== baseIndent) break;
+          i++;
+        }
+      }
+
+      blocks.push({
+        type: 'list',
+        ordered,
+        start: ordered ? parseInt(listMatch[2], 10) : 1,
+        items,
+      });
+      continue;
+    }
+
+    // Table
+    if (isTableRow(line)) {
+      const delimiter = lines[i + 1];
+      const delimiterPattern = options.streaming ? PARTIAL_TABLE_DELIMITER : TABLE_DELIMITER;
+      const isLastLine = i === lines.length - 1;
+
+      if (delimiter !== undefined && delimiterPattern.test(delimiter) && delimiter.includes('-')) {
+        const header = splitTableRow(line);
+        const align = splitTableRow(delimiter).map(parseAlign);
+        while (align.length < header.length) align.push(null);
+
+        const rows: InlineNode[][][] = [];
+        i += 2;
+        while (i < lines.length && isTableRow(lines[i])) {
+          const cells = splitTableRow(lines[i]);
+          rows.push(header.map((_, col) => inline(cells[col] ?? '')));
+          i++;
+        }
+
+        blocks.push({ type: 'table', align, header: header.map(inline), rows });
+        continue;
+      }
+
+      // Header row still waiting for its delimiter: hold it back
+      if (options.streaming && isLastLine && line.trim().startsWith('|')) {
+        i++;
+        continue;
+      }
+    }
+
+    // Paragraph
+    const paragraph: string[] = [line];
+    i++;
+    while (i < lines.length && !isBlank(lines[i]) && !startsBlock(lines[i])) {
+      // A following delimiter row turns the last line into a table header
+      if (lines[i + 1] !== undefined && isTableRow(lines[i]) && TABLE_DELIMITER.test(lines[i + 1])) break;
+      // While streaming, a trailing pipe row may be a table header in progress
+      if (options.streaming && i === lines.length - 1 && lines[i].trim().startsWith('|')) break;
+      paragraph.push(lines[i]);
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: inline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+};
+
+// ============================================================================
+// Inline Parsing
+// ============================================================================
+
+const AUTOLINK = /^<(https?:\/\/[^\s>]+)>/;
+const BARE_URL = /^https?:\/\/[^\s<]*[^\s<.,:;"')\]]/;
+
+const pushText = (nodes: InlineNode[], text: string) => {
+  if (!text) return;
+  const last = nodes[nodes.length - 1];
+  if (last && last.type === 'text') {
+    last.text += text;
+  } else {
+    nodes.push({ type: 'text', text });
+  }
+};
+
+const isWordChar = (ch: string | undefined) => !!ch && /[\p{L}\p{N}]/u.test(ch);
+
+/**
+ * Find the closing delimiter for an emphasis run, skipping code spans
+ *
+ * Delimiters are matched as whole runs, so nested runs of another length
+ * (the `**b**` in `*a **b** c*`) are paired off first. A longer run closes
+ * the nested run with its first characters and this one with the rest
+ * (`*a **b***`).
+ */
+const findClosing = (text: string, from: number, delimiter: string): number => {
+  // Lengths of nested runs still waiting for their closer
+  const open: number[] = [];
+  let i = from;
+  while (i < text.length) {
+    if (text[i] === '\\') {
+      i += 2;
+      continue;
+    }
+    if (text[i] === '`') {
+      const run = /^`+/.exec(text.slice(i))![0];
+      const end = text.indexOf(run, i + run.length);
+      if (end === -1) return -1;
+      i = end + run.length;
+      continue;
+    }
+    if (text[i] === delimiter[0]) {
+      let length = 1;
+      while (text[i + length] === delimiter[0]) length++;
+      const canClose = i > from && text[i - 1] !== ' ';
+      const canOpen = i + length < text.length && text[i + length] !== ' ';
+      if (canClose) {
+        let remaining = length;
+        while (open.length > 0 && remaining >= open[open.length - 1]) {
+          remaining -= open.pop()!;
+        }
+        if (open.length === 0 && remaining >= delimiter.length) {
+          return i + length - delimiter.length;
+        }
+        if (remaining < length) {
+          i += length;
+          continue;
+        }
+      }
+      if (canOpen) open.push(length);
+      i += length;
+      continue;
+    }
+    i++;
+  }
+  return -1;
+};
+
+export const parseInline = (text: string, options: ParseOptions = {}): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const ch = text[i];
+    const rest = text.slice(i);
+
+    // Escapes and hard breaks
+    if (ch === '\\') {
+      if (text[i + 1] === '\n') {
+        nodes.push({ type: 'break' });
+        i += 2;
+      } else if (i + 1 < text.length && /[!-/:-@[-`{-~]/.test(text[i + 1])) {
+        pushText(nodes, text[i + 1]);
+        i += 2;
+      } else {
+        pushText(nodes, ch);
+        i++;
+      }
+      continue;
+    }
+
+    if (ch === '\n') {
+      // Two trailing spaces mark a hard break; otherwise a soft break
+      const last = nodes[nodes.length - 1];
+      if (last && last.type === 'text' && / {2,}$/.test(last.text)) {
+        last.text = last.text.replace(/ +$/, '');
+        nodes.push({ type: 'break' });
+      } else {
+        pushText(nodes, ' ');
+      }
+      i++;
+      continue;
+    }
+
+    // Code span
+    if (ch === '`') {
+      const run = /^`+/.exec(rest)![0];
+      const end = text.indexOf(run, i + run.length);
+      if (end !== -1) {
+        nodes.push({ type: 'code', text: text.slice(i + run.length, end).replace(/^ (.*) $/, '$1') });
+        i = end + run.length;
+      } else if (options.streaming) {
+        nodes.push({ type: 'code', text: text.slice(i + run.length) });
+        i = text.length;
+      } else {
+        pushText(nodes, run);
+        i += run.length;
+      }
+      continue;
+    }
+
+    // Strong, emphasis and strikethrough
+    const delimiter =
+      rest.startsWith('***') ? '***' :
+      rest.startsWith('___') ? '___' :
+      rest.startsWith('**') ? '**' :
+      rest.startsWith('__') ? '__' :
+      rest.startsWith('~~') ? '~~' :
+      ch === '*' || ch === '_' ? ch : null;
+
+    if (delimiter) {
+      const opensWord = text[i + delimiter.length] !== undefined && text[i + delimiter.length] !== ' ';
+      // Underscores inside words (snake_case) are literal
+      const intraword = delimiter[0] === '_' && isWordChar(text[i - 1]);
+
+      if (opensWord && !intraword) {
+        const close = findClosing(text, i + delimiter.length, delimiter);
+        // `***x***` is strong emphasis
+        const wrap = (children: InlineNode[]): InlineNode =>
+          delimiter === '~~' ? { type: 'strikethrough', children } :
+          delimiter.length === 3 ? { type: 'strong', children: [{ type: 'emphasis', children }] } :
+          delimiter.length === 2 ? { type: 'strong', children } : { type: 'emphasis', children };
+
+        if (close !== -1 && !(delimiter[0] === '_' && isWordChar(text[close + delimiter.length]))) {
+          nodes.push(wrap(parseInline(text.slice(i + delimiter.length, close), options)));
+          i = close + delimiter.length;
+          continue;
+        }
+
+        if (options.streaming && close === -1) {
+          // Close the run at the end of the text instead of flashing raw markers
+          nodes.push(wrap(parseInline(text.slice(i + delimiter.length), options)));
+          i = text.length;
+          continue;
+        }
+      }
+
+      pushText(nodes, delimiter);
+      i += delimiter.length;
+      continue;
+    }
+
+    // Links
+    if (ch === '[') {
+      const labelEnd = text.indexOf(']', i + 1);
+      if (labelEnd !== -1 && text[labelEnd + 1] === '(') {
+        const hrefEnd = text.indexOf(')', labelEnd + 2);
+        if (hrefEnd !== -1) {
+          const href = text.slice(labelEnd + 2, hrefEnd).trim().split(/\s+/)[0];
+          nodes.push({
+            type: 'link',
+            href: href.replace(/^<|>$/g, ''),
+            children: parseInline(text.slice(i + 1, labelEnd), options),
+          });
+          i = hrefEnd + 1;
+          continue;
+        }
+        if (options.streaming) {
+          // URL still streaming: show the label without a target
+          nodes.push(...parseInline(text.slice(i + 1, labelEnd), options));
+          i = text.length;
+          continue;
+        }
+      } else if (options.streaming && labelEnd === -1) {
+        nodes.push(...parseInline(text.slice(i + 1), options));
+        i = text.length;
+        continue;
+      }
+      pushText(nodes, ch);
+      i++;
+      continue;
+    }
+
+    // Autolinks
+    const autolink = AUTOLINK.exec(rest);
+    if (autolink) {
+      nodes.push({ type: 'link', href: autolink[1], children: [{ type: 'text', text: autolink[1] }] });
+      i += autolink[0].length;
+      continue;
+    }
+
+    if (ch === 'h' && !isWordChar(text[i - 1])) {
+      const url = BARE_URL.exec(rest);
+      if (url) {
+        nodes.push({ type: 'link', href: url[0], children: [{ type: 'text', text: url[0] }] });
+        i += url[0].length;
+        continue;
+      }
+    }
+
+    pushText(nodes, ch);
+    i++;
+  }
+
+  return nodes;
+};
+
+/**
+ * Parse Markdown source into block nodes
+ *
+ * @example
+ * ```ts
+ * const blocks = parseMarkdown('# Title\n\nSome **bold** text', { streaming: true });
+ * ```
+ */
+export const parseMarkdown = (source: string, options: ParseOptions = {}): BlockNode[] => {
+  const lines = source.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n');
+  return parseBlocks(lines, options);
+};
+
+/**
+ * Flatten inline nodes back to plain text (for accessibility labels and copy)
+ */
+export const inlineToPlainText = (nodes: InlineNode[]): string =>
+  nodes
+    .map(node => {
+      switch (node.type) {
+        case 'text':
+        case 'code':
+          return node.text;
+        case 'break':
+          return '\n';
+        default:
+          return inlineToPlainText(node.children);
+      }
+    })
+    .join('');
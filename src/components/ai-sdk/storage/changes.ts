@@ -0,0 +1,18 @@
+import type { StorageChange } from './types';
+
+/**
+ * Listener set shared by the storage implementations
+ */
+export const createChangeEmitter = () => {
+  const listeners = new Set<(change: StorageChange) => void>();
+
+  return {
+    emit: (change: StorageChange) => listeners.forEach(listener => listener(change)),
+    subscribe: (listener: (change: StorageChange) => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
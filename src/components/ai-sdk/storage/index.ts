@@ -0,0 +1,13 @@
+/**
+ * Conversation Storage - Offline persistence, paging and an outbox for Conversation
+ */
+
+export { createMemoryConversationStorage } from './memory';
+export { createSQLiteConversationStorage } from './sqlite';
+export type { SQLiteDatabaseLike } from './sqlite';
+export { createOutbox } from './outbox';
+export type { Outbox, OutboxOptions } from './outbox';
+export { useStoredConversation } from './useStoredConversation';
+export type { UseStoredConversationOptions, UseStoredConversationResult } from './useStoredConversation';
+
+export * from './types';
@@ -0,0 +1,158 @@
+/**
+ * In-memory Conversation Storage
+ * Same behaviour as the SQLite store without a database, for tests,
+ * previews and web builds
+ */
+
+import type { StoredMessage } from '../conversation/tree';
+import { createChangeEmitter } from './changes';
+import {
+  ConversationStorage,
+  StoredConversation,
+  PendingMessage,
+  DEFAULT_PAGE_SIZE,
+  PENDING_STATUSES,
+} from './types';
+
+type MessageEntry = {
+  conversationId: string;
+  seq: number;
+  message: StoredMessage;
+};
+
+// Callers get copies, so mutating a result never changes what is stored
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+/**
+ * Create an in-memory store, optionally seeded with messages per
+ * conversation id
+ *
+ * @example
+ * ```ts
+ * const storage = createMemoryConversationStorage({ demo: exampleConversation });
+ * const { messages, before } = await storage.getMessages('demo', { limit: 20 });
+ * ```
+ */
+export const createMemoryConversationStorage = (
+  seed: Record<string, StoredMessage[]> = {}
+): ConversationStorage => {
+  const conversations = new Map<string, StoredConversation>();
+  const messages = new Map<string, MessageEntry>();
+  const changes = createChangeEmitter();
+  let nextSeq = 1;
+
+  const now = () => new Date().toISOString();
+
+  const touch = (id: string): StoredConversation => {
+    const existing = conversations.get(id);
+    const timestamp = now();
+    const conversation = existing
+      ? { ...existing, updatedAt: timestamp }
+      : { id, createdAt: timestamp, updatedAt: timestamp };
+    conversations.set(id, conversation);
+    return conversation;
+  };
+
+  const entriesFor = (conversationId: string) =>
+    [...messages.values()]
+      .filter(entry => entry.conversationId === conversationId)
+      .sort((a, b) => a.seq - b.seq);
+
+  const put = (conversationId: string, list: StoredMessage[]) => {
+    touch(conversationId);
+    list.forEach(message => {
+      const existing = messages.get(message.id);
+      messages.set(message.id, {
+        conversationId,
+        seq: existing?.seq ?? nextSeq++,
+        message: clone(message),
+      });
+    });
+  };
+
+  Object.entries(seed).forEach(([conversationId, list]) => put(conversationId, list));
+
+  return {
+    listConversations: async () =>
+      clone([...conversations.values()].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))),
+
+    getConversation: async id => {
+      const conversation = conversations.get(id);
+      return conversation ? clone(conversation) : null;
+    },
+
+    saveConversation: async conversation => {
+      const saved = { ...touch(conversation.id), ...clone(conversation) };
+      saved.updatedAt = now();
+      conversations.set(saved.id, saved);
+      changes.emit({ type: 'conversation', conversationId: saved.id });
+      return clone(saved);
+    },
+
+    deleteConversation: async id => {
+      conversations.delete(id);
+      entriesFor(id).forEach(entry => messages.delete(entry.message.id));
+      changes.emit({ type: 'conversation', conversationId: id, deleted: true });
+    },
+
+    getMessages: async (conversationId, { before, limit = DEFAULT_PAGE_SIZE } = {}) => {
+      const all = entriesFor(conversationId);
+      const end = before === undefined ? all.length : all.filter(entry => entry.seq < Number(before)).length;
+      const page = all.slice(Math.max(0, end - limit), end);
+      return {
+        messages: clone(page.map(entry => entry.message)),
+        before: page.length > 0 && end > page.length ? String(page[0].seq) : null,
+      };
+    },
+
+    getMessage: async messageId => {
+      const entry = messages.get(messageId);
+      return entry ? clone(entry.message) : null;
+    },
+
+    saveMessages: async (conversationId, list) => {
+      if (list.length === 0) return;
+      put(conversationId, list);
+      changes.emit({ type: 'messages', conversationId, savedIds: list.map(m => m.id), removedIds: [] });
+    },
+
+    updateMessage: async (messageId, patch) => {
+      const entry = messages.get(messageId);
+      if (!entry) return null;
+      const message = { ...entry.message, ...clone(patch), id: messageId };
+      messages.set(messageId, { ...entry, message });
+      touch(entry.conversationId);
+      changes.emit({
+        type: 'messages',
+        conversationId: entry.conversationId,
+        savedIds: [messageId],
+        removedIds: [],
+      });
+      return clone(message);
+    },
+
+    deleteMessage: async messageId => {
+      const entry = messages.get(messageId);
+      if (!entry) return;
+      messages.delete(messageId);
+      touch(entry.conversationId);
+      changes.emit({
+        type: 'messages',
+        conversationId: entry.conversationId,
+        savedIds: [],
+        removedIds: [messageId],
+      });
+    },
+
+    getPendingMessages: async conversationId => {
+      const pending: PendingMessage[] = [...messages.values()]
+        .filter(entry => conversationId === undefined || entry.conversationId === conversationId)
+        .filter(entry => entry.message.status !== undefined && PENDING_STATUSES.includes(entry.message.status))
+        .sort((a, b) => a.seq - b.seq)
+        .map(entry => ({ conversationId: entry.conversationId, message: entry.message }));
+      return clone(pending);
+    },
+
+    subscribe: changes.subscribe,
+  };
+};
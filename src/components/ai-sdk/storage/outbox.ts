@@ -0,0 +1,208 @@
+/**
+ * Outbox
+ * Delivers stored messages left in `sending` or `error` — queued offline,
+ * interrupted by an app restart, or rejected by the server — retrying with
+ * backoff until they go through.
+ */
+
+import type { StoredMessage } from '../conversation/tree';
+import type { ConversationStorage, PendingMessage } from './types';
+
+export interface OutboxOptions {
+  storage: ConversationStorage;
+  /**
+   * Deliver one message; resolve with fields to store on success (e.g. a
+   * server timestamp) and reject to retry later
+   */
+  send: (conversationId: string, message: StoredMessage, signal: AbortSignal) => Promise<Partial<StoredMessage> | void>;
+  /** Which pending messages to deliver (default: user messages) */
+  shouldSend?: (message: StoredMessage) => boolean;
+  /** Delay before retry number `attempt` (default: 1s doubling up to 1 min) */
+  retryDelay?: (attempt: number) => number;
+  /** Failed attempts before a message waits for an explicit `retry` (default 5) */
+  maxAttempts?: number;
+  onError?: (error: Error, pending: PendingMessage) => void;
+}
+
+export interface Outbox {
+  /** Save a message as `sending` and deliver it after the conversation's earlier pending messages */
+  enqueue: (conversationId: string, message: StoredMessage) => Promise<void>;
+  /** Deliver everything pending; call after reconnecting or returning to the foreground */
+  flush: (conversationId?: string) => Promise<void>;
+  /** Reset the attempt count of one message and deliver its conversation's queue now */
+  retry: (messageId: string) => Promise<void>;
+  /** Stop retry timers and abort sends in flight */
+  stop: () => void;
+}
+
+const defaultShouldSend = (message: StoredMessage) => message.role === 'user';
+
+const defaultRetryDelay = (attempt: number) => Math.min(60_000, 1000 * 2 ** (attempt - 1));
+
+/**
+ * Create an outbox over a storage
+ *
+ * @example
+ * ```ts
+ * const outbox = createOutbox({
+ *   storage,
+ *   send: (conversationId, message, signal) =>
+ *     fetch(`/api/conversations/${conversationId}/messages`, {
+ *       method: 'POST',
+ *       body: JSON.stringify(message),
+ *       signal,
+ *     }).then(res => {
+ *       if (!res.ok) throw new Error(`HTTP ${res.status}`);
+ *     }),
+ * });
+ *
+ * await outbox.flush(); // on launch, for messages left over from last time
+ * await outbox.enqueue('chat-1', { id: 'm1', role: 'user', content: 'Hi', timestamp });
+ * ```
+ */
+export const createOutbox = ({
+  storage,
+  send,
+  shouldSend = defaultShouldSend,
+  retryDelay = defaultRetryDelay,
+  maxAttempts = 5,
+  onError,
+}: OutboxOptions): Outbox => {
+  const attempts = new Map<string, number>();
+  const timers = new Map<string, ReturnType<typeof setTimeout>>();
+  const inFlight = new Map<string, AbortController>();
+  // Sent, but the `sent` status could not be stored yet; never sent again
+  const delivered = new Map<string, Partial<StoredMessage>>();
+  const queues = new Map<string, Promise<void>>();
+  let stopped = false;
+
+  const report = (error: unknown, pending: PendingMessage) =>
+    onError?.(error instanceof Error ? error : new Error(String(error)), pending);
+
+  const scheduleRetry = (pending: PendingMessage, delay: number) => {
+    const { conversationId, message } = pending;
+    if (stopped || timers.has(message.id)) return;
+    timers.set(
+      message.id,
+      setTimeout(() => {
+        timers.delete(message.id);
+        drain(conversationId).catch(error => report(error, pending));
+      }, delay)
+    );
+  };
+
+  /** Record a delivered message as `sent`; false if storage failed */
+  const markSent = async (pending: PendingMessage, patch: Partial<StoredMessage>) => {
+    try {
+      await storage.updateMessage(pending.message.id, { ...patch, status: 'sent' });
+      delivered.delete(pending.message.id);
+      return true;
+    } catch (error) {
+      delivered.set(pending.message.id, patch);
+      report(error, pending);
+      scheduleRetry(pending, retryDelay(1));
+      return false;
+    }
+  };
+
+  /**
+   * Try one message; resolves false while it is still undelivered (failed,
+   * waiting for a retry or out of attempts)
+   */
+  const deliver = async (pending: PendingMessage): Promise<boolean> => {
+    const { conversationId, message } = pending;
+    if (stopped || inFlight.has(message.id) || timers.has(message.id)) return false;
+
+    const sentPatch = delivered.get(message.id);
+    if (sentPatch) {
+      // Already on the server: only the local status is missing
+      await markSent(pending, sentPatch);
+      return true;
+    }
+    if ((attempts.get(message.id) ?? 0) >= maxAttempts) return false;
+
+    if (message.status !== 'sending') {
+      try {
+        await storage.updateMessage(message.id, { status: 'sending' });
+      } catch (error) {
+        // A storage failure is not a failed send; try again without using up an attempt
+        report(error, pending);
+        scheduleRetry(pending, retryDelay(1));
+        return false;
+      }
+    }
+
+    const controller = new AbortController();
+    inFlight.set(message.id, controller);
+    let patch: Partial<StoredMessage> | void;
+    try {
+      patch = await send(conversationId, message, controller.signal);
+    } catch (error) {
+      if (controller.signal.aborted) return false;
+      const attempt = (attempts.get(message.id) ?? 0) + 1;
+      attempts.set(message.id, attempt);
+      report(error, pending);
+      await storage.updateMessage(message.id, { status: 'error' }).catch(storageError => report(storageError, pending));
+      if (attempt < maxAttempts) scheduleRetry(pending, retryDelay(attempt));
+      return false;
+    } finally {
+      if (inFlight.get(message.id) === controller) inFlight.delete(message.id);
+    }
+
+    attempts.delete(message.id);
+    await markSent(pending, patch ?? {});
+    return true;
+  };
+
+  /**
+   * Deliver a conversation's pending messages in order, stopping at the
+   * first one that does not go through so later ones never overtake it.
+   * Runs one at a time per conversation.
+   */
+  const drain = (conversationId: string): Promise<void> => {
+    const run = (queues.get(conversationId) ?? Promise.resolve()).then(async () => {
+      const pending = await storage.getPendingMessages(conversationId);
+      for (const item of pending) {
+        if (!shouldSend(item.message)) continue;
+        if (!(await deliver(item))) return;
+      }
+    });
+    const settled = run.catch(() => undefined);
+    queues.set(conversationId, settled);
+    settled.then(() => {
+      if (queues.get(conversationId) === settled) queues.delete(conversationId);
+    });
+    return run;
+  };
+
+  const flush = async (conversationId?: string) => {
+    stopped = false;
+    const pending = await storage.getPendingMessages(conversationId);
+    const conversationIds = [...new Set(pending.map(item => item.conversationId))];
+    for (const id of conversationIds) await drain(id);
+  };
+
+  return {
+    enqueue: async (conversationId, message) => {
+      const queued = { ...message, status: 'sending' as const };
+      await storage.saveMessages(conversationId, [queued]);
+      if (shouldSend(queued)) await drain(conversationId);
+    },
+    flush,
+    retry: async messageId => {
+      attempts.delete(messageId);
+      clearTimeout(timers.get(messageId));
+      timers.delete(messageId);
+      stopped = false;
+      const pending = (await storage.getPendingMessages()).find(item => item.message.id === messageId);
+      if (pending) await drain(pending.conversationId);
+    },
+    stop: () => {
+      stopped = true;
+      timers.forEach(timer => clearTimeout(timer));
+      timers.clear();
+      inFlight.forEach(controller => controller.abort());
+      inFlight.clear();
+    },
+  };
+};
@@ -0,0 +1,405 @@
+/**
+ * SQLite Conversation Storage
+ * Persists conversations on device. Takes the database handle rather than
+ * opening one, so apps choose the file name and share the connection.
+ */
+
+import type { MessageAttachment, MessageReaction } from '../Message';
+import type { StoredMessage } from '../conversation/tree';
+import { createChangeEmitter } from './changes';
+import {
+  ConversationStorage,
+  ConversationStorageError,
+  StoredConversation,
+  DEFAULT_PAGE_SIZE,
+  PENDING_STATUSES,
+} from './types';
+
+// ============================================================================
+// Database
+// ============================================================================
+
+type SQLiteValue = string | number | null;
+
+/**
+ * The part of expo-sqlite's `SQLiteDatabase` this store uses
+ */
+export interface SQLiteDatabaseLike {
+  execAsync: (source: string) => Promise<void>;
+  runAsync: (source: string, params: SQLiteValue[]) => Promise<unknown>;
+  getAllAsync: <T>(source: string, params: SQLiteValue[]) => Promise<T[]>;
+  getFirstAsync: <T>(source: string, params: SQLiteValue[]) => Promise<T | null>;
+  withTransactionAsync: (task: () => Promise<void>) => Promise<void>;
+}
+
+const SCHEMA_VERSION = 1;
+
+const SCHEMA = `
+PRAGMA foreign_keys = ON;
+CREATE TABLE IF NOT EXISTS conversations (
+  id TEXT PRIMARY KEY NOT NULL,
+  title TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  metadata TEXT
+);
+CREATE TABLE IF NOT EXISTS messages (
+  id TEXT PRIMARY KEY NOT NULL,
+  conversation_id TEXT NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  seq INTEGER NOT NULL,
+  role TEXT NOT NULL,
+  content TEXT NOT NULL,
+  timestamp TEXT NOT NULL,
+  status TEXT,
+  author TEXT,
+  is_edited INTEGER NOT NULL DEFAULT 0,
+  edited_at TEXT,
+  is_bookmarked INTEGER NOT NULL DEFAULT 0,
+  is_flagged INTEGER NOT NULL DEFAULT 0,
+  extra TEXT
+);
+CREATE INDEX IF NOT EXISTS messages_by_conversation ON messages (conversation_id, seq);
+CREATE INDEX IF NOT EXISTS messages_by_status ON messages (status);
+CREATE TABLE IF NOT EXISTS attachments (
+  message_id TEXT NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  id TEXT NOT NULL,
+  position INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  type TEXT NOT NULL,
+  url TEXT NOT NULL,
+  size INTEGER,
+  PRIMARY KEY (message_id, id)
+);
+CREATE TABLE IF NOT EXISTS reactions (
+  message_id TEXT NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  count INTEGER NOT NULL,
+  users TEXT,
+  PRIMARY KEY (message_id, type)
+);
+PRAGMA user_version = ${SCHEMA_VERSION};
+`;
+
+// ============================================================================
+// Rows
+// ============================================================================
+
+type ConversationRow = {
+  id: string;
+  title: string | null;
+  created_at: string;
+  updated_at: string;
+  metadata: string | null;
+};
+
+type MessageRow = {
+  id: string;
+  conversation_id: string;
+  seq: number;
+  role: StoredMessage['role'];
+  content: string;
+  timestamp: string;
+  status: StoredMessage['status'] | null;
+  author: string | null;
+  is_edited: number;
+  edited_at: string | null;
+  is_bookmarked: number;
+  is_flagged: number;
+  extra: string | null;
+};
+
+type AttachmentRow = {
+  message_id: string;
+  id: string;
+  name: string;
+  type: string;
+  url: string;
+  size: number | null;
+};
+
+type ReactionRow = {
+  message_id: string;
+  type: MessageReaction['type'];
+  count: number;
+  users: string | null;
+};
+
+const parseJson = <T>(text: string | null): T | undefined => (text === null ? undefined : JSON.parse(text));
+
+const toConversation = (row: ConversationRow): StoredConversation => ({
+  id: row.id,
+  title: row.title ?? undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+  metadata: parseJson(row.metadata),
+});
+
+// Fields with their own columns or tables; everything else goes in `extra`
+const splitMessage = (message: StoredMessage) => {
+  const {
+    id,
+    role,
+    content,
+    timestamp,
+    status,
+    author,
+    isEdited,
+    editedAt,
+    isBookmarked,
+    isFlagged,
+    attachments,
+    reactions,
+    ...extra
+  } = message;
+  return {
+    columns: [
+      id,
+      role,
+      content,
+      timestamp,
+      status ?? null,
+      author ? JSON.stringify(author) : null,
+      isEdited ? 1 : 0,
+      editedAt ?? null,
+      isBookmarked ? 1 : 0,
+      isFlagged ? 1 : 0,
+      Object.keys(extra).length > 0 ? JSON.stringify(extra) : null,
+    ],
+    attachments: attachments ?? [],
+    reactions: reactions ?? [],
+  };
+};
+
+const toMessage = (row: MessageRow, attachments: MessageAttachment[], reactions: MessageReaction[]) => {
+  const message: StoredMessage = {
+    ...parseJson<Partial<StoredMessage>>(row.extra),
+    id: row.id,
+    role: row.role,
+    content: row.content,
+    timestamp: row.timestamp,
+  };
+  // Only set what was stored, so a round trip returns the same object
+  if (row.status !== null) message.status = row.status;
+  if (row.author !== null) message.author = JSON.parse(row.author);
+  if (row.is_edited) message.isEdited = true;
+  if (row.edited_at !== null) message.editedAt = row.edited_at;
+  if (row.is_bookmarked) message.isBookmarked = true;
+  if (row.is_flagged) message.isFlagged = true;
+  if (attachments.length > 0) message.attachments = attachments;
+  if (reactions.length > 0) message.reactions = reactions;
+  return message;
+};
+
+const placeholders = (count: number) => Array.from({ length: count }, () => '?').join(', ');
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+/**
+ * Create SQLite-backed storage, creating tables on first use
+ *
+ * @example
+ * ```ts
+ * import { openDatabaseAsync } from 'expo-sqlite';
+ *
+ * const db = await openDatabaseAsync('conversations.db');
+ * const storage = await createSQLiteConversationStorage(db);
+ * ```
+ */
+export const createSQLiteConversationStorage = async (db: SQLiteDatabaseLike): Promise<ConversationStorage> => {
+  const version = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version', []);
+  if ((version?.user_version ?? 0) > SCHEMA_VERSION) {
+    throw new ConversationStorageError(
+      `Database schema version ${version?.user_version} is newer than supported version ${SCHEMA_VERSION}`
+    );
+  }
+  await db.execAsync(SCHEMA);
+
+  const changes = createChangeEmitter();
+  const now = () => new Date().toISOString();
+
+  const touch = (id: string) => {
+    const timestamp = now();
+    return db.runAsync(
+      `INSERT INTO conversations (id, created_at, updated_at) VALUES (?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET updated_at = excluded.updated_at`,
+      [id, timestamp, timestamp]
+    );
+  };
+
+  const loadMessages = async (rows: MessageRow[]) => {
+    if (rows.length === 0) return [];
+    const ids = rows.map(row => row.id);
+    const [attachmentRows, reactionRows] = await Promise.all([
+      db.getAllAsync<AttachmentRow>(
+        `SELECT * FROM attachments WHERE message_id IN (${placeholders(ids.length)}) ORDER BY position`,
+        ids
+      ),
+      db.getAllAsync<ReactionRow>(
+        `SELECT * FROM reactions WHERE message_id IN (${placeholders(ids.length)}) ORDER BY type`,
+        ids
+      ),
+    ]);
+
+    return rows.map(row =>
+      toMessage(
+        row,
+        attachmentRows
+          .filter(a => a.message_id === row.id)
+          .map(({ id, name, type, url, size }) => (size === null ? { id, name, type, url } : { id, name, type, url, size })),
+        reactionRows
+          .filter(r => r.message_id === row.id)
+          .map(({ type, count, users }) => (users === null ? { type, count } : { type, count, users: JSON.parse(users) }))
+      )
+    );
+  };
+
+  const writeMessage = async (conversationId: string, message: StoredMessage) => {
+    const { columns, attachments, reactions } = splitMessage(message);
+    await db.runAsync(
+      `INSERT INTO messages
+         (id, role, content, timestamp, status, author, is_edited, edited_at, is_bookmarked, is_flagged, extra,
+          conversation_id, seq)
+       VALUES (${placeholders(columns.length)}, ?,
+         (SELECT COALESCE(MAX(seq), 0) + 1 FROM messages))
+       ON CONFLICT(id) DO UPDATE SET
+         role = excluded.role, content = excluded.content, timestamp = excluded.timestamp,
+         status = excluded.status, author = excluded.author, is_edited = excluded.is_edited,
+         edited_at = excluded.edited_at, is_bookmarked = excluded.is_bookmarked,
+         is_flagged = excluded.is_flagged, extra = excluded.extra`,
+      [...columns, conversationId]
+    );
+
+    await db.runAsync('DELETE FROM attachments WHERE message_id = ?', [message.id]);
+    for (const [position, a] of attachments.entries()) {
+      await db.runAsync(
+        'INSERT INTO attachments (message_id, id, position, name, type, url, size) VALUES (?, ?, ?, ?, ?, ?, ?)',
+        [message.id, a.id, position, a.name, a.type, a.url, a.size ?? null]
+      );
+    }
+
+    await db.runAsync('DELETE FROM reactions WHERE message_id = ?', [message.id]);
+    for (const r of reactions) {
+      await db.runAsync('INSERT INTO reactions (message_id, type, count, users) VALUES (?, ?, ?, ?)', [
+        message.id,
+        r.type,
+        r.count,
+        r.users ? JSON.stringify(r.users) : null,
+      ]);
+    }
+  };
+
+  const getMessageRow = (messageId: string) =>
+    db.getFirstAsync<MessageRow>('SELECT * FROM messages WHERE id = ?', [messageId]);
+
+  const getMessage = async (messageId: string) => {
+    const row = await getMessageRow(messageId);
+    return row ? (await loadMessages([row]))[0] : null;
+  };
+
+  return {
+    listConversations: async () => {
+      const rows = await db.getAllAsync<ConversationRow>('SELECT * FROM conversations ORDER BY updated_at DESC', []);
+      return rows.map(toConversation);
+    },
+
+    getConversation: async id => {
+      const row = await db.getFirstAsync<ConversationRow>('SELECT * FROM conversations WHERE id = ?', [id]);
+      return row ? toConversation(row) : null;
+    },
+
+    saveConversation: async conversation => {
+      const timestamp = now();
+      await db.runAsync(
+        `INSERT INTO conversations (id, title, created_at, updated_at, metadata) VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT(id) DO UPDATE SET
+           title = COALESCE(excluded.title, title),
+           updated_at = excluded.updated_at,
+           metadata = COALESCE(excluded.metadata, metadata)`,
+        [
+          conversation.id,
+          conversation.title ?? null,
+          conversation.createdAt ?? timestamp,
+          timestamp,
+          conversation.metadata ? JSON.stringify(conversation.metadata) : null,
+        ]
+      );
+      changes.emit({ type: 'conversation', conversationId: conversation.id });
+      const row = await db.getFirstAsync<ConversationRow>('SELECT * FROM conversations WHERE id = ?', [
+        conversation.id,
+      ]);
+      return toConversation(row!);
+    },
+
+    deleteConversation: async id => {
+      await db.runAsync('DELETE FROM conversations WHERE id = ?', [id]);
+      changes.emit({ type: 'conversation', conversationId: id, deleted: true });
+    },
+
+    getMessages: async (conversationId, { before, limit = DEFAULT_PAGE_SIZE } = {}) => {
+      // One extra row tells whether older messages exist
+      const rows = await db.getAllAsync<MessageRow>(
+        `SELECT * FROM messages WHERE conversation_id = ? ${before === undefined ? '' : 'AND seq < ?'}
+         ORDER BY seq DESC LIMIT ?`,
+        before === undefined ? [conversationId, limit + 1] : [conversationId, Number(before), limit + 1]
+      );
+      const page = rows.slice(0, limit).reverse();
+      return {
+        messages: await loadMessages(page),
+        before: rows.length > limit && page.length > 0 ? String(page[0].seq) : null,
+      };
+    },
+
+    getMessage,
+
+    saveMessages: async (conversationId, messages) => {
+      if (messages.length === 0) return;
+      await db.withTransactionAsync(async () => {
+        await touch(conversationId);
+        for (const message of messages) {
+          await writeMessage(conversationId, message);
+        }
+      });
+      changes.emit({ type: 'messages', conversationId, savedIds: messages.map(m => m.id), removedIds: [] });
+    },
+
+    updateMessage: async (messageId, patch) => {
+      // Assigned inside the transaction callback
+      let updated = null as StoredMessage | null;
+      let conversationId = '';
+      await db.withTransactionAsync(async () => {
+        const row = await getMessageRow(messageId);
+        if (!row) return;
+        const [current] = await loadMessages([row]);
+        updated = { ...current, ...patch, id: messageId };
+        conversationId = row.conversation_id;
+        await writeMessage(conversationId, updated);
+        await touch(conversationId);
+      });
+      if (updated) changes.emit({ type: 'messages', conversationId, savedIds: [messageId], removedIds: [] });
+      return updated;
+    },
+
+    deleteMessage: async messageId => {
+      const row = await getMessageRow(messageId);
+      if (!row) return;
+      await db.runAsync('DELETE FROM messages WHERE id = ?', [messageId]);
+      await touch(row.conversation_id);
+      changes.emit({ type: 'messages', conversationId: row.conversation_id, savedIds: [], removedIds: [messageId] });
+    },
+
+    getPendingMessages: async conversationId => {
+      const statuses = [...PENDING_STATUSES];
+      const rows = await db.getAllAsync<MessageRow>(
+        `SELECT * FROM messages WHERE status IN (${placeholders(statuses.length)})
+         ${conversationId === undefined ? '' : 'AND conversation_id = ?'} ORDER BY seq`,
+        conversationId === undefined ? statuses : [...statuses, conversationId]
+      );
+      const messages = await loadMessages(rows);
+      return rows.map((row, index) => ({ conversationId: row.conversation_id, message: messages[index] }));
+    },
+
+    subscribe: changes.subscribe,
+  };
+};
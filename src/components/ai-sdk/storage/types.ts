@@ -0,0 +1,89 @@
+/**
+ * Conversation Storage Types
+ * The contract shared by the SQLite and in-memory stores, the outbox and
+ * useStoredConversation
+ */
+
+import type { StoredMessage } from '../conversation/tree';
+
+// ============================================================================
+// Records
+// ============================================================================
+
+export interface StoredConversation {
+  id: string;
+  title?: string;
+  createdAt: string;
+  /** Bumped whenever the conversation or one of its messages is saved */
+  updatedAt: string;
+  metadata?: Record<string, unknown>;
+}
+
+export type PendingMessage = {
+  conversationId: string;
+  message: StoredMessage;
+};
+
+/**
+ * Messages oldest first, plus the cursor for the page before them
+ */
+export type MessagePage = {
+  messages: StoredMessage[];
+  /** Pass as `before` to load older messages; null at the start of the conversation */
+  before: string | null;
+};
+
+export interface MessagePageOptions {
+  /** Cursor from an earlier page; omitted for the newest messages */
+  before?: string;
+  /** Default 50 */
+  limit?: number;
+}
+
+/**
+ * What changed, so subscribers can reload only the conversation involved
+ */
+export type StorageChange =
+  | { type: 'conversation'; conversationId: string; deleted?: boolean }
+  | { type: 'messages'; conversationId: string; savedIds: string[]; removedIds: string[] };
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+export interface ConversationStorage {
+  /** Most recently updated first */
+  listConversations: () => Promise<StoredConversation[]>;
+  getConversation: (id: string) => Promise<StoredConversation | null>;
+  saveConversation: (
+    conversation: Pick<StoredConversation, 'id'> & Partial<StoredConversation>
+  ) => Promise<StoredConversation>;
+  /** Removes the conversation with its messages, attachments and reactions */
+  deleteConversation: (id: string) => Promise<void>;
+
+  getMessages: (conversationId: string, options?: MessagePageOptions) => Promise<MessagePage>;
+  getMessage: (messageId: string) => Promise<StoredMessage | null>;
+  /**
+   * Insert or replace messages, creating the conversation when needed.
+   * New messages go after existing ones; saving again keeps their position.
+   */
+  saveMessages: (conversationId: string, messages: StoredMessage[]) => Promise<void>;
+  /** Merge a patch into a stored message; resolves null when it does not exist */
+  updateMessage: (messageId: string, patch: Partial<StoredMessage>) => Promise<StoredMessage | null>;
+  deleteMessage: (messageId: string) => Promise<void>;
+  /** Messages with status `sending` or `error`, oldest first */
+  getPendingMessages: (conversationId?: string) => Promise<PendingMessage[]>;
+
+  subscribe: (listener: (change: StorageChange) => void) => () => void;
+}
+
+export class ConversationStorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConversationStorageError';
+  }
+}
+
+export const DEFAULT_PAGE_SIZE = 50;
+
+export const PENDING_STATUSES: readonly NonNullable<StoredMessage['status']>[] = ['sending', 'error'];
@@ -0,0 +1,129 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { StoredMessage } from '../conversation/tree';
+import type { ConversationStorage } from './types';
+
+export interface UseStoredConversationOptions {
+  /** Messages loaded initially and per `loadOlder` (default 30) */
+  pageSize?: number;
+}
+
+export interface UseStoredConversationResult {
+  /** Oldest first, ready for Conversation's `messages` */
+  messages: StoredMessage[];
+  loading: boolean;
+  error: Error | null;
+  hasOlder: boolean;
+  loadingOlder: boolean;
+  /** Prepend the previous page; matches Conversation's onLoadOlder */
+  loadOlder: () => Promise<void>;
+  /** Reload the messages already shown */
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Hook that shows the newest page of a stored conversation, pages older
+ * messages in on demand and follows changes made through the storage,
+ * including status updates from the outbox
+ *
+ * @example
+ * ```tsx
+ * const stored = useStoredConversation(storage, conversationId);
+ *
+ * <Conversation
+ *   messages={stored.messages}
+ *   onLoadOlder={stored.loadOlder}
+ *   hasOlder={stored.hasOlder}
+ *   loadingOlder={stored.loadingOlder}
+ * />
+ * ```
+ */
+export function useStoredConversation(
+  storage: ConversationStorage,
+  conversationId: string,
+  { pageSize = 30 }: UseStoredConversationOptions = {}
+): UseStoredConversationResult {
+  const [messages, setMessages] = useState<StoredMessage[]>([]);
+  const [before, setBefore] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const messagesRef = useRef<StoredMessage[]>([]);
+  // Bumped per conversation so late results for an earlier one are dropped
+  const generationRef = useRef(0);
+
+  const show = useCallback((next: StoredMessage[], nextBefore: string | null) => {
+    messagesRef.current = next;
+    setMessages(next);
+    setBefore(nextBefore);
+  }, []);
+
+  const fail = useCallback((err: unknown) => {
+    setError(err instanceof Error ? err : new Error(String(err)));
+  }, []);
+
+  // The newest `limit` messages replace what is shown
+  const reload = useCallback(
+    async (limit: number) => {
+      const generation = generationRef.current;
+      try {
+        const page = await storage.getMessages(conversationId, { limit });
+        if (generation !== generationRef.current) return;
+        show(page.messages, page.before);
+        setError(null);
+      } catch (err) {
+        if (generation === generationRef.current) fail(err);
+      }
+    },
+    [storage, conversationId, show, fail]
+  );
+
+  useEffect(() => {
+    generationRef.current += 1;
+    show([], null);
+    setLoading(true);
+    reload(pageSize).finally(() => setLoading(false));
+
+    return storage.subscribe((change) => {
+      if (change.conversationId !== conversationId) return;
+      if (change.type === 'conversation') {
+        if (change.deleted) show([], null);
+        return;
+      }
+      // Keep the loaded window and grow it by any messages that are new
+      const shown = new Set(messagesRef.current.map((m) => m.id));
+      const added = change.savedIds.filter((id) => !shown.has(id)).length;
+      reload(Math.max(pageSize, messagesRef.current.length + added));
+    });
+  }, [storage, conversationId, pageSize]);
+
+  const loadOlder = useCallback(async () => {
+    if (before === null || loadingOlder) return;
+    const generation = generationRef.current;
+    setLoadingOlder(true);
+    try {
+      const page = await storage.getMessages(conversationId, { before, limit: pageSize });
+      if (generation !== generationRef.current) return;
+      show([...page.messages, ...messagesRef.current], page.before);
+    } catch (err) {
+      if (generation === generationRef.current) fail(err);
+    } finally {
+      setLoadingOlder(false);
+    }
+  }, [storage, conversationId, before, loadingOlder, pageSize, show, fail]);
+
+  const refresh = useCallback(
+    () => reload(Math.max(pageSize, messagesRef.current.length)),
+    [reload, pageSize]
+  );
+
+  return {
+    messages,
+    loading,
+    error,
+    hasOlder: before !== null,
+    loadingOlder,
+    loadOlder,
+    refresh,
+  };
+}
@@ -0,0 +1,16 @@
+/**
+ * Stream Protocol - AI SDK UI message stream support
+ * Parses real token streams into props for Response, Reasoning, Tool and Sources
+ */
+
+export {
+  readUIMessageStream,
+  parseStreamLine,
+  applyStreamPart,
+  consumeUIMessageStream,
+  createUIMessageStreamTransport,
+} from './parser';
+export { useUIMessageStream } from './useUIMessageStream';
+export type { UseUIMessageStreamResult } from './useUIMessageStream';
+
+export * from './types';
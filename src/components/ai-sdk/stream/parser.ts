@@ -0,0 +1,398 @@
+/**
+ * UI Message Stream Parser
+ * Decodes the AI SDK SSE wire format into stream parts and folds them
+ * into renderable state
+ */
+
+import type { ToolData } from '../Tool';
+import type { Source } from '../Sources';
+import type { ChatTransport, ChatRequest } from '../useChat';
+import {
+  startToolCall,
+  appendToolInput,
+  setToolInput,
+  completeToolCall,
+  failToolCall,
+  cancelToolCall,
+} from '../tool/lifecycle';
+import {
+  StreamSource,
+  UIMessageStreamPart,
+  UIMessageStreamState,
+  createStreamState,
+  isDataPart,
+} from './types';
+
+// ============================================================================
+// Wire Decoding
+// ============================================================================
+
+/**
+ * Iterate decoded text chunks from a ReadableStream or async iterable
+ */
+async function* readChunks(source: StreamSource): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  const decode = (chunk: Uint8Array | string) =>
+    typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+
+  if (typeof (source as ReadableStream).getReader === 'function') {
+    // React Native fetch bodies do not implement Symbol.asyncIterator
+    const reader = (source as ReadableStream<Uint8Array | string>).getReader();
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        yield decode(value);
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  } else {
+    for await (const chunk of source as AsyncIterable<Uint8Array | string>) {
+      yield decode(chunk);
+    }
+  }
+
+  const rest = decoder.decode();
+  if (rest) yield rest;
+}
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const malformed = (reason: string): UIMessageStreamPart => ({
+  type: 'error',
+  errorText: `Malformed stream line: ${reason}`,
+});
+
+// Legacy codes whose value is an object
+const LEGACY_OBJECT_CODES = new Set(['b', 'c', '9', 'a', 'h', 'f', 'd']);
+
+/**
+ * Map a legacy data stream protocol line (`0:"text"`, `9:{...}`) to a part
+ */
+const parseLegacyLine = (code: string, value: any): UIMessageStreamPart | null => {
+  if (LEGACY_OBJECT_CODES.has(code) && !isRecord(value)) {
+    return malformed(`expected an object for code ${code}`);
+  }
+  switch (code) {
+    case '0':
+      return { type: 'text-delta', id: 'text', delta: typeof value === 'string' ? value : '' };
+    case 'g':
+      return { type: 'reasoning-delta', id: 'reasoning', delta: typeof value === 'string' ? value : '' };
+    case 'b':
+      return { type: 'tool-input-start', toolCallId: value.toolCallId, toolName: value.toolName };
+    case 'c':
+      return { type: 'tool-input-delta', toolCallId: value.toolCallId, inputTextDelta: value.argsTextDelta };
+    case '9':
+      return {
+        type: 'tool-input-available',
+        toolCallId: value.toolCallId,
+        toolName: value.toolName,
+        input: value.args,
+      };
+    case 'a':
+      return { type: 'tool-output-available', toolCallId: value.toolCallId, output: value.result };
+    case 'h':
+      return { type: 'source-url', sourceId: value.id, url: value.url, title: value.title };
+    case 'f':
+      return { type: 'start', messageId: value.messageId };
+    case 'e':
+      return { type: 'finish-step' };
+    case 'd':
+      return { type: 'finish', finishReason: value.finishReason };
+    case '3':
+      return { type: 'error', errorText: String(value) };
+    case '2':
+      return { type: 'data-legacy', data: value };
+    default:
+      return null;
+  }
+};
+
+/**
+ * Parse JSON from the wire; a malformed or truncated payload becomes an
+ * `error` part instead of throwing out of the stream
+ */
+const parsePayload = <T>(payload: string, toPart: (value: any) => T): T | UIMessageStreamPart => {
+  let value: unknown;
+  try {
+    value = JSON.parse(payload);
+  } catch (error) {
+    return malformed(error instanceof Error ? error.message : String(error));
+  }
+  return toPart(value);
+};
+
+/**
+ * Accept an SSE payload only if it is an object with a string `type`
+ */
+const toStreamPart = (value: unknown): UIMessageStreamPart =>
+  isRecord(value) && typeof value.type === 'string'
+    ? (value as UIMessageStreamPart)
+    : malformed('expected an object with a "type"');
+
+/**
+ * Parse a single line of the stream into a part, if it carries one
+ *
+ * A line that is not valid JSON (a bad server frame, or a connection cut
+ * mid-line) or not a part object yields an `error` part so the turn ends
+ * in the error state.
+ */
+export const parseStreamLine = (line: string): UIMessageStreamPart | 'done' | null => {
+  const trimmed = line.trim();
+  if (!trimmed || trimmed.startsWith(':')) return null;
+
+  if (trimmed.startsWith('data:')) {
+    const payload = trimmed.slice('data:'.length).trim();
+    if (payload === '[DONE]') return 'done';
+    return parsePayload(payload, toStreamPart);
+  }
+
+  // Legacy data stream protocol: `<code>:<json>`
+  const match = /^([0-9a-z]):(.*)$/.exec(trimmed);
+  if (match) {
+    return parsePayload(match[2], value => parseLegacyLine(match[1], value));
+  }
+
+  // Other SSE fields (event:, id:, retry:) carry nothing we render
+  return null;
+};
+
+/**
+ * Iterate stream parts from an AI SDK response body
+ *
+ * @example
+ * ```ts
+ * const res = await fetch('/api/chat', { method: 'POST', body });
+ * for await (const part of readUIMessageStream(res.body!)) {
+ *   console.log(part.type);
+ * }
+ * ```
+ */
+export async function* readUIMessageStream(
+  source: StreamSource
+): AsyncGenerator<UIMessageStreamPart> {
+  let buffer = '';
+
+  for await (const chunk of readChunks(source)) {
+    buffer += chunk;
+    const lines = buffer.split(/\r?\n/);
+    // Keep the trailing partial line for the next chunk
+    buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      const part = parseStreamLine(line);
+      if (part === 'done') return;
+      if (part) yield part;
+    }
+  }
+
+  const part = parseStreamLine(buffer);
+  if (part && part !== 'done') yield part;
+}
+
+// ============================================================================
+// State Reducer
+// ============================================================================
+
+const updateTool = (
+  tools: ToolData[],
+  id: string,
+  update: (tool: ToolData) => ToolData
+): ToolData[] => tools.map(tool => (tool.id === id ? update(tool) : tool));
+
+const sourceFromPart = (part: Extract<UIMessageStreamPart, { type: 'source-url' | 'source-document' }>): Source => {
+  if (part.type === 'source-url') {
+    return {
+      id: part.sourceId,
+      type: 'web',
+      title: part.title || part.url,
+      url: part.url,
+    };
+  }
+  return {
+    id: part.sourceId,
+    type: 'documentation',
+    title: part.title,
+    excerpt: part.filename,
+  };
+};
+
+/**
+ * Fold one stream part into the accumulated state (pure)
+ */
+export const applyStreamPart = (
+  state: UIMessageStreamState,
+  part: UIMessageStreamPart
+): UIMessageStreamState => {
+  const streaming = state.status === 'idle' ? 'streaming' : state.status;
+
+  switch (part.type) {
+    case 'start':
+      return { ...state, status: 'streaming', messageId: part.messageId ?? state.messageId };
+
+    case 'text-start':
+    case 'text-end':
+    case 'start-step':
+    case 'finish-step':
+      return { ...state, status: streaming };
+
+    case 'text-delta':
+      // Parts are not validated field by field; a missing delta adds nothing
+      return { ...state, status: streaming, text: state.text + (part.delta ?? '') };
+
+    case 'reasoning-start':
+    case 'reasoning-delta': {
+      const delta = part.type === 'reasoning-delta' ? part.delta ?? '' : '';
+      const exists = state.reasoning.some(r => r.id === part.id);
+      return {
+        ...state,
+        status: streaming,
+        reasoning: exists
+          ? state.reasoning.map(r => (r.id === part.id ? { ...r, thought: r.thought + delta } : r))
+          : [...state.reasoning, { id: part.id, thought: delta, type: 'analysis', timestamp: new Date() }],
+      };
+    }
+
+    case 'reasoning-end':
+      return { ...state, status: streaming };
+
+    case 'tool-input-start':
+      return {
+        ...state,
+        status: streaming,
+        tools: [...state.tools, startToolCall(part.toolCallId, part.toolName)],
+        toolInputText: { ...state.toolInputText, [part.toolCallId]: '' },
+      };
+
+    case 'tool-input-delta': {
+      const inputTextDelta = part.inputTextDelta ?? '';
+      const inputText = (state.toolInputText[part.toolCallId] ?? '') + inputTextDelta;
+      return {
+        ...state,
+        status: streaming,
+        toolInputText: { ...state.toolInputText, [part.toolCallId]: inputText },
+        // Parameters fill in as the partial JSON parses
+        tools: updateTool(state.tools, part.toolCallId, tool => appendToolInput(tool, inputTextDelta)),
+      };
+    }
+
+    case 'tool-input-available':
+    case 'tool-input-error': {
+      const parameters = (part.input ?? {}) as Record<string, any>;
+      const failed = part.type === 'tool-input-error';
+      const known = state.tools.some(t => t.id === part.toolCallId);
+      const tools = known ? state.tools : [...state.tools, startToolCall(part.toolCallId, part.toolName)];
+
+      return {
+        ...state,
+        status: streaming,
+        tools: updateTool(tools, part.toolCallId, tool => {
+          const withInput = setToolInput({ ...tool, name: part.toolName }, parameters);
+          return failed ? failToolCall(withInput, part.errorText) : withInput;
+        }),
+      };
+    }
+
+    case 'tool-output-available':
+      return {
+        ...state,
+        status: streaming,
+        tools: updateTool(state.tools, part.toolCallId, tool => completeToolCall(tool, part.output)),
+      };
+
+    case 'tool-output-error':
+      return {
+        ...state,
+        status: streaming,
+        tools: updateTool(state.tools, part.toolCallId, tool => failToolCall(tool, part.errorText)),
+      };
+
+    case 'source-url':
+    case 'source-document':
+      if (state.sources.some(s => s.id === part.sourceId)) return state;
+      return { ...state, status: streaming, sources: [...state.sources, sourceFromPart(part)] };
+
+    case 'finish':
+      return { ...state, status: 'finished', finishReason: part.finishReason };
+
+    case 'error':
+      return { ...state, status: 'error', error: part.errorText };
+
+    case 'abort':
+      // Calls still in flight will never finish
+      return { ...state, status: 'aborted', tools: state.tools.map(tool => cancelToolCall(tool)) };
+
+    default:
+      if (isDataPart(part)) {
+        return { ...state, status: streaming, data: [...state.data, part] };
+      }
+      // Unknown parts are ignored so newer servers keep working
+      return state;
+  }
+};
+
+/**
+ * Read a whole stream, reporting state after every part
+ *
+ * Resolves with the final state. A stream that ends without a `finish`
+ * part is treated as finished unless it reported an error.
+ */
+export async function consumeUIMessageStream(
+  source: StreamSource,
+  onUpdate?: (state: UIMessageStreamState, part: UIMessageStreamPart) => void,
+  initialState: UIMessageStreamState = createStreamState()
+): Promise<UIMessageStreamState> {
+  let state = initialState;
+
+  for await (const part of readUIMessageStream(source)) {
+    state = applyStreamPart(state, part);
+    onUpdate?.(state, part);
+  }
+
+  if (state.status === 'streaming' || state.status === 'idle') {
+    state = { ...state, status: 'finished' };
+  }
+  return state;
+}
+
+// ============================================================================
+// Chat Transport Adapter
+// ============================================================================
+
+/**
+ * Build a useChat transport from a function that opens a UI message stream
+ *
+ * Text deltas are forwarded as chunks; an `error` part rejects the turn.
+ *
+ * @example
+ * ```ts
+ * const transport = createUIMessageStreamTransport(async ({ messages, signal }) => {
+ *   const res = await fetch(url, { method: 'POST', body: JSON.stringify({ messages }), signal });
+ *   return res.body!;
+ * });
+ * ```
+ */
+export function createUIMessageStreamTransport(
+  open: (request: ChatRequest) => Promise<StreamSource>,
+  onPart?: (state: UIMessageStreamState, part: UIMessageStreamPart) => void
+): ChatTransport {
+  return {
+    async *send(request) {
+      const source = await open(request);
+      let state = createStreamState();
+
+      for await (const part of readUIMessageStream(source)) {
+        state = applyStreamPart(state, part);
+        onPart?.(state, part);
+
+        if (part.type === 'text-delta') {
+          yield part.delta;
+        } else if (part.type === 'error') {
+          throw new Error(part.errorText);
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,109 @@
+/**
+ * AI SDK UI Message Stream Types
+ * Part shapes emitted by the Vercel AI SDK UI message stream protocol
+ * and the accumulated state rendered by Response, Reasoning, Tool and Sources
+ */
+
+import type { ReasoningData } from '../Reasoning';
+import type { ToolData } from '../Tool';
+import type { Source } from '../Sources';
+
+// ============================================================================
+// Stream Parts
+// ============================================================================
+
+export type TextStreamPart =
+  | { type: 'text-start'; id: string }
+  | { type: 'text-delta'; id: string; delta: string }
+  | { type: 'text-end'; id: string };
+
+export type ReasoningStreamPart =
+  | { type: 'reasoning-start'; id: string }
+  | { type: 'reasoning-delta'; id: string; delta: string }
+  | { type: 'reasoning-end'; id: string };
+
+export type ToolStreamPart =
+  | { type: 'tool-input-start'; toolCallId: string; toolName: string }
+  | { type: 'tool-input-delta'; toolCallId: string; inputTextDelta: string }
+  | { type: 'tool-input-available'; toolCallId: string; toolName: string; input: unknown }
+  | { type: 'tool-input-error'; toolCallId: string; toolName: string; input?: unknown; errorText: string }
+  | { type: 'tool-output-available'; toolCallId: string; output: unknown }
+  | { type: 'tool-output-error'; toolCallId: string; errorText: string };
+
+export type SourceStreamPart =
+  | { type: 'source-url'; sourceId: string; url: string; title?: string }
+  | { type: 'source-document'; sourceId: string; mediaType: string; title: string; filename?: string };
+
+export type LifecycleStreamPart =
+  | { type: 'start'; messageId?: string }
+  | { type: 'start-step' }
+  | { type: 'finish-step' }
+  | { type: 'finish'; finishReason?: string }
+  | { type: 'error'; errorText: string }
+  | { type: 'abort' };
+
+export type DataStreamPart = {
+  type: `data-${string}`;
+  id?: string;
+  data: unknown;
+};
+
+export type UIMessageStreamPart =
+  | TextStreamPart
+  | ReasoningStreamPart
+  | ToolStreamPart
+  | SourceStreamPart
+  | LifecycleStreamPart
+  | DataStreamPart;
+
+/**
+ * Whether a part is a custom `data-*` part
+ */
+export const isDataPart = (part: UIMessageStreamPart): part is DataStreamPart =>
+  // Parts come straight off the wire, so `type` may be missing
+  typeof part.type === 'string' && part.type.startsWith('data-');
+
+// ============================================================================
+// Accumulated State
+// ============================================================================
+
+export type UIMessageStreamStatus = 'idle' | 'streaming' | 'finished' | 'error' | 'aborted';
+
+export type UIMessageStreamState = {
+  messageId?: string;
+  status: UIMessageStreamStatus;
+  /** Concatenated text deltas, ready for Response */
+  text: string;
+  /** One entry per reasoning block, ready for Reasoning */
+  reasoning: ReasoningData[];
+  /** One entry per tool call, ready for Tool */
+  tools: ToolData[];
+  /** Cited sources, ready for Sources */
+  sources: Source[];
+  /** Custom `data-*` parts in arrival order */
+  data: DataStreamPart[];
+  /** Raw argument text per tool call while input is still streaming */
+  toolInputText: Record<string, string>;
+  finishReason?: string;
+  error?: string;
+};
+
+/**
+ * Anything the parser can read from: a fetch body or any async iterable
+ */
+export type StreamSource =
+  | ReadableStream<Uint8Array | string>
+  | AsyncIterable<Uint8Array | string>;
+
+/**
+ * Empty state for a new assistant message
+ */
+export const createStreamState = (): UIMessageStreamState => ({
+  status: 'idle',
+  text: '',
+  reasoning: [],
+  tools: [],
+  sources: [],
+  data: [],
+  toolInputText: {},
+});
@@ -0,0 +1,62 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { consumeUIMessageStream } from './parser';
+import { StreamSource, UIMessageStreamState, createStreamState } from './types';
+
+export interface UseUIMessageStreamResult {
+  state: UIMessageStreamState;
+  /** Start reading a stream; resolves with the final state */
+  consume: (source: StreamSource) => Promise<UIMessageStreamState>;
+  reset: () => void;
+}
+
+/**
+ * Hook that feeds an AI SDK UI message stream into component props
+ *
+ * @example
+ * ```tsx
+ * const { state, consume } = useUIMessageStream();
+ *
+ * useEffect(() => { consume(response.body!); }, [response]);
+ *
+ * <Reasoning reasoning={state.reasoning} />
+ * {state.tools.map(tool => <Tool key={tool.id} tool={tool} />)}
+ * <Response content={state.text} streaming={state.status === 'streaming'} live />
+ * <Sources sources={state.sources} />
+ * ```
+ */
+export function useUIMessageStream(): UseUIMessageStreamResult {
+  const [state, setState] = useState<UIMessageStreamState>(createStreamState);
+  // Incremented per consume() so stale streams stop updating state
+  const generationRef = useRef(0);
+
+  useEffect(() => () => {
+    generationRef.current++;
+  }, []);
+
+  const consume = useCallback(async (source: StreamSource) => {
+    const generation = ++generationRef.current;
+    const isCurrent = () => generationRef.current === generation;
+    let latest = createStreamState();
+    setState(latest);
+
+    try {
+      latest = await consumeUIMessageStream(source, (next) => {
+        latest = next;
+        if (isCurrent()) setState(next);
+      }, latest);
+    } catch (e) {
+      // Keep what already streamed and surface the transport failure
+      latest = { ...latest, status: 'error', error: e instanceof Error ? e.message : String(e) };
+    }
+
+    if (isCurrent()) setState(latest);
+    return latest;
+  }, []);
+
+  const reset = useCallback(() => {
+    generationRef.current++;
+    setState(createStreamState());
+  }, []);
+
+  return { state, consume, reset };
+}
@@ -0,0 +1,77 @@
+import React, { useMemo } from 'react';
+import { Text, TextStyle, StyleProp } from 'react-native';
+import { AnsiColor, AnsiStyle, parseAnsi } from './ansi';
+import { TerminalPalette, darkTerminalPalette, getIndexedColor } from './palette';
+
+export interface AnsiTextProps {
+  /** One line of terminal output, escape sequences included */
+  text: string;
+  palette?: TerminalPalette;
+  /** Color of text without an SGR foreground; defaults to the palette foreground */
+  color?: string;
+  style?: StyleProp<TextStyle>;
+  children?: React.ReactNode;
+  testID?: string;
+}
+
+const resolveColor = (color: AnsiColor, palette: TerminalPalette): string =>
+  typeof color === 'number' ? getIndexedColor(color, palette) : color;
+
+// Dim is drawn as reduced alpha; nested Text ignores opacity
+const dimmed = (color: string) => (/^#[0-9A-F]{6}$/i.test(color) ? `${color}99` : color);
+
+/**
+ * Text style for an ANSI style against a palette
+ */
+export const resolveAnsiStyle = (style: AnsiStyle, palette: TerminalPalette, defaultColor: string): TextStyle => {
+  let color = style.fg !== undefined ? resolveColor(style.fg, palette) : defaultColor;
+  let backgroundColor = style.bg !== undefined ? resolveColor(style.bg, palette) : undefined;
+  if (style.inverse) {
+    [color, backgroundColor] = [backgroundColor ?? palette.background, color];
+  }
+
+  const decorations = [style.underline && 'underline', style.strikethrough && 'line-through'].filter(Boolean);
+  return {
+    color: style.dim ? dimmed(color) : color,
+    ...(backgroundColor ? { backgroundColor } : {}),
+    ...(style.bold ? { fontWeight: '700' as const } : {}),
+    ...(style.italic ? { fontStyle: 'italic' as const } : {}),
+    ...(decorations.length > 0
+      ? { textDecorationLine: decorations.join(' ') as TextStyle['textDecorationLine'] }
+      : {}),
+  };
+};
+
+/**
+ * AnsiText - Renders a line of terminal output with its SGR colors and styles
+ *
+ * @example
+ * ```tsx
+ * <AnsiText
+ *   text={'\x1b[32m✓\x1b[0m 12 tests passed'}
+ *   palette={getTerminalPalette(true)}
+ *   style={{ fontFamily: 'monospace' }}
+ * />
+ * ```
+ */
+export function AnsiText({
+  text,
+  palette = darkTerminalPalette,
+  color = palette.foreground,
+  style,
+  children,
+  testID,
+}: AnsiTextProps) {
+  const { spans } = useMemo(() => parseAnsi(text), [text]);
+
+  return (
+    <Text style={[{ color }, style]} testID={testID}>
+      {spans.map((span, index) => (
+        <Text key={index} style={resolveAnsiStyle(span.style, palette, color)}>
+          {span.text}
+        </Text>
+      ))}
+      {children}
+    </Text>
+  );
+}
@@ -0,0 +1,221 @@
+/**
+ * ANSI Escape Sequences
+ * Helpers for terminal output captured from real sessions
+ */
+
+// CSI (`ESC [ ... final`), OSC (`ESC ] ... BEL|ST`), charset and two-byte escapes
+const CSI_PATTERN = /\x1b\[[0-?]*[ -/]*[@-~]/g;
+const OSC_PATTERN = /\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)/g;
+const ESC_PATTERN = /\x1b(?:[()*+][0-9A-Za-z]|[@-Z\\-_])/g;
+// C0 controls other than ESC and tab
+const CONTROL_PATTERN = /[\x00-\x08\x0b-\x1a\x1c-\x1f\x7f]/g;
+
+/**
+ * Remove every escape sequence and control character
+ *
+ * @example
+ * ```ts
+ * stripAnsi('\x1b[32m✓\x1b[0m done'); // '✓ done'
+ * ```
+ */
+export const stripAnsi = (text: string): string =>
+  text.replace(OSC_PATTERN, '').replace(CSI_PATTERN, '').replace(ESC_PATTERN, '').replace(CONTROL_PATTERN, '');
+
+/**
+ * Remove escape sequences that move the cursor or change terminal state,
+ * keeping SGR (`ESC [ ... m`) colour and style sequences
+ */
+export const stripControlSequences = (text: string): string =>
+  text
+    .replace(OSC_PATTERN, '')
+    .replace(CSI_PATTERN, sequence => (sequence.endsWith('m') ? sequence : ''))
+    .replace(ESC_PATTERN, '')
+    .replace(CONTROL_PATTERN, '');
+
+// ============================================================================
+// SGR Parsing
+// ============================================================================
+
+/** Palette index 0-255, or a `#RRGGBB` truecolor value */
+export type AnsiColor = number | string;
+
+export type AnsiStyle = {
+  fg?: AnsiColor;
+  bg?: AnsiColor;
+  bold?: boolean;
+  dim?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  inverse?: boolean;
+  strikethrough?: boolean;
+};
+
+export type AnsiSpan = {
+  text: string;
+  style: AnsiStyle;
+};
+
+export type AnsiLine = {
+  spans: AnsiSpan[];
+  /** Style in effect at the end of the line, to carry into the next one */
+  style: AnsiStyle;
+};
+
+const toHex = (value: number) => Math.max(0, Math.min(255, value)).toString(16).padStart(2, '0').toUpperCase();
+
+/**
+ * Reads a 38/48 extended color starting at `params[index]`; returns the
+ * color and the number of parameters consumed
+ */
+const readExtendedColor = (params: number[], index: number): [AnsiColor | undefined, number] => {
+  if (params[index] === 5 && params[index + 1] !== undefined) return [params[index + 1], 2];
+  if (params[index] === 2 && params[index + 3] !== undefined) {
+    return [`#${toHex(params[index + 1])}${toHex(params[index + 2])}${toHex(params[index + 3])}`, 4];
+  }
+  return [undefined, 1];
+};
+
+/**
+ * Apply the parameters of one SGR sequence to a style
+ */
+export const applySgr = (style: AnsiStyle, params: number[]): AnsiStyle => {
+  let next = { ...style };
+  if (params.length === 0) return {};
+
+  for (let i = 0; i < params.length; i++) {
+    const code = params[i];
+    if (code === 0) next = {};
+    else if (code === 1) next.bold = true;
+    else if (code === 2) next.dim = true;
+    else if (code === 3) next.italic = true;
+    else if (code === 4) next.underline = true;
+    else if (code === 7) next.inverse = true;
+    else if (code === 9) next.strikethrough = true;
+    else if (code === 21 || code === 22) next.bold = next.dim = undefined;
+    else if (code === 23) next.italic = undefined;
+    else if (code === 24) next.underline = undefined;
+    else if (code === 27) next.inverse = undefined;
+    else if (code === 29) next.strikethrough = undefined;
+    else if (code >= 30 && code <= 37) next.fg = code - 30;
+    else if (code === 39) next.fg = undefined;
+    else if (code >= 40 && code <= 47) next.bg = code - 40;
+    else if (code === 49) next.bg = undefined;
+    else if (code >= 90 && code <= 97) next.fg = code - 90 + 8;
+    else if (code >= 100 && code <= 107) next.bg = code - 100 + 8;
+    else if (code === 38 || code === 48) {
+      const [color, consumed] = readExtendedColor(params, i + 1);
+      if (code === 38) next.fg = color;
+      else next.bg = color;
+      i += consumed;
+    }
+  }
+  return next;
+};
+
+const sameStyle = (a: AnsiStyle, b: AnsiStyle) =>
+  a.fg === b.fg &&
+  a.bg === b.bg &&
+  !!a.bold === !!b.bold &&
+  !!a.dim === !!b.dim &&
+  !!a.italic === !!b.italic &&
+  !!a.underline === !!b.underline &&
+  !!a.inverse === !!b.inverse &&
+  !!a.strikethrough === !!b.strikethrough;
+
+const SEQUENCE_PATTERN = /\x1b(?:\[([0-?]*)[ -/]*([@-~])|\][^\x07\x1b]*(?:\x07|\x1b\\)|[()*+][0-9A-Za-z]|[@-Z\\-_])/y;
+
+/**
+ * Parse one line of terminal output into styled spans
+ *
+ * Handles SGR colors (16, 256 and truecolor) and styles, carriage return
+ * and backspace overwriting, cursor column moves (`C`, `D`, `G`) and erase
+ * in line (`K`). Other sequences and incomplete trailing ones are dropped.
+ *
+ * @example
+ * ```ts
+ * parseAnsi('\x1b[1;32mPASS\x1b[0m src/app.test.ts').spans;
+ * // [{ text: 'PASS', style: { bold: true, fg: 2 } }, { text: ' src/app.test.ts', style: {} }]
+ *
+ * parseAnsi('Loading 10%\rLoading 100%').spans; // [{ text: 'Loading 100%', style: {} }]
+ * ```
+ */
+export const parseAnsi = (text: string, initialStyle: AnsiStyle = {}): AnsiLine => {
+  const cells: { char: string; style: AnsiStyle }[] = [];
+  const blank = { char: ' ', style: {} };
+  let style = initialStyle;
+  let cursor = 0;
+
+  const put = (char: string) => {
+    while (cells.length < cursor) cells.push(blank);
+    cells[cursor] = { char, style };
+    cursor++;
+  };
+
+  const chars = Array.from(text);
+  let index = 0;
+  // Offsets into `text` for each char, so the sticky regex can resume there
+  const offsets: number[] = [];
+  chars.reduce((offset, char) => {
+    offsets.push(offset);
+    return offset + char.length;
+  }, 0);
+
+  while (index < chars.length) {
+    const char = chars[index];
+
+    if (char === '\x1b') {
+      SEQUENCE_PATTERN.lastIndex = offsets[index];
+      const match = SEQUENCE_PATTERN.exec(text);
+      if (!match) break;
+
+      const [sequence, params, final] = match;
+      if (final !== undefined) {
+        // `38:2::r:g:b` style sub-parameters are flattened into the list
+        const numbers = params
+          .split(';')
+          .flatMap(param => (param.includes(':') ? param.split(':').filter(Boolean) : [param]))
+          .map(param => (param === '' ? 0 : parseInt(param, 10)))
+          .filter(param => !Number.isNaN(param));
+        const count = numbers[0] || 1;
+
+        if (final === 'm') style = applySgr(style, params === '' ? [] : numbers);
+        else if (final === 'C') cursor += count;
+        else if (final === 'D') cursor = Math.max(0, cursor - count);
+        else if (final === 'G') cursor = count - 1;
+        else if (final === 'K') {
+          const mode = numbers[0] ?? 0;
+          if (mode === 0) cells.length = Math.min(cells.length, cursor);
+          else if (mode === 1) for (let i = 0; i <= cursor && i < cells.length; i++) cells[i] = blank;
+          else if (mode === 2) cells.length = 0;
+        }
+      }
+
+      // Skip every char the sequence covered
+      const end = offsets[index] + sequence.length;
+      while (index < chars.length && offsets[index] < end) index++;
+      continue;
+    }
+
+    if (char === '\r') cursor = 0;
+    else if (char === '\b') cursor = Math.max(0, cursor - 1);
+    else if (char === '\t') {
+      const stop = (Math.floor(cursor / 8) + 1) * 8;
+      while (cursor < stop) put(' ');
+    } else if (char >= ' ' && char !== '\x7f') put(char);
+    index++;
+  }
+
+  const spans: AnsiSpan[] = [];
+  cells.forEach(cell => {
+    const last = spans[spans.length - 1];
+    if (last && sameStyle(last.style, cell.style)) last.text += cell.char;
+    else spans.push({ text: cell.char, style: cell.style });
+  });
+
+  return { spans, style };
+};
+
+/**
+ * True when text contains escape sequences or overwriting control characters
+ */
+export const hasAnsi = (text: string): boolean => /[\x1b\r\b]/.test(text);
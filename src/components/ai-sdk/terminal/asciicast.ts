@@ -0,0 +1,331 @@
+/**
+ * Asciicast v2
+ * Converts between asciinema `.cast` files and TerminalRecording. A cast is a
+ * JSON header line followed by one `[time, code, data]` event per line;
+ * output events are a raw byte stream that is split into line frames here.
+ */
+
+import type { TerminalFrame, TerminalRecording } from '../Terminal';
+import { stripAnsi, stripControlSequences } from './ansi';
+import { createLineBuffer } from './lineBuffer';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type AsciicastHeader = {
+  version: 2;
+  width: number;
+  height: number;
+  timestamp?: number;
+  duration?: number;
+  /** Longest pause kept on playback, in seconds */
+  idle_time_limit?: number;
+  command?: string;
+  title?: string;
+  env?: Record<string, string>;
+  theme?: { fg: string; bg: string; palette: string };
+};
+
+/** `o` output, `i` input, `m` marker, `r` resize */
+export type AsciicastEventCode = 'o' | 'i' | 'm' | 'r';
+
+export type AsciicastEvent = [time: number, code: AsciicastEventCode, data: string];
+
+export interface AsciicastImportOptions {
+  id?: string;
+  /** Lines starting with this prompt become `command` frames */
+  prompt?: string;
+  /** Longest pause in seconds; defaults to the header's `idle_time_limit` */
+  idleTimeLimit?: number;
+  /**
+   * Load frames in pages as playback reaches them instead of all at once.
+   * Defaults to true for sources over LAZY_CAST_THRESHOLD characters.
+   */
+  lazy?: boolean;
+  /** Frames per page when loading lazily */
+  pageSize?: number;
+}
+
+export interface AsciicastExportOptions {
+  width?: number;
+  height?: number;
+  /** Unix time in seconds written to the header */
+  timestamp?: number;
+  /** Per-character delay in ms for typed commands without their own `speed` */
+  typingSpeed?: number;
+}
+
+export class AsciicastError extends Error {
+  constructor(message: string, public line?: number) {
+    super(line !== undefined ? `${message} (line ${line})` : message);
+    this.name = 'AsciicastError';
+  }
+}
+
+/** Sources longer than this load lazily unless `lazy` is set */
+export const LAZY_CAST_THRESHOLD = 1_000_000;
+
+const DEFAULT_PAGE_SIZE = 500;
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+export const parseAsciicastHeader = (line: string): AsciicastHeader => {
+  let header: any;
+  try {
+    header = JSON.parse(line);
+  } catch {
+    throw new AsciicastError('Header is not valid JSON', 1);
+  }
+  if (typeof header !== 'object' || header === null || Array.isArray(header)) {
+    throw new AsciicastError('Header must be an object', 1);
+  }
+  if (header.version !== 2) {
+    throw new AsciicastError(`Unsupported asciicast version ${header.version}`, 1);
+  }
+  if (typeof header.width !== 'number' || typeof header.height !== 'number') {
+    throw new AsciicastError('Header needs numeric width and height', 1);
+  }
+  return header as AsciicastHeader;
+};
+
+export const parseAsciicastEvent = (line: string, lineNumber?: number): AsciicastEvent => {
+  let event: unknown;
+  try {
+    event = JSON.parse(line);
+  } catch {
+    throw new AsciicastError('Event is not valid JSON', lineNumber);
+  }
+  if (
+    !Array.isArray(event) ||
+    event.length < 3 ||
+    typeof event[0] !== 'number' ||
+    typeof event[1] !== 'string' ||
+    typeof event[2] !== 'string'
+  ) {
+    throw new AsciicastError('Event must be [time, code, data]', lineNumber);
+  }
+  return event as AsciicastEvent;
+};
+
+// ============================================================================
+// Import
+// ============================================================================
+
+export interface AsciicastReader {
+  header: AsciicastHeader;
+  /** Decode up to `count` more frames; returns [] once the cast is exhausted */
+  next: (count?: number) => TerminalFrame[];
+  readonly done: boolean;
+}
+
+/**
+ * Incremental cast decoder. Lines are scanned on demand, so only the
+ * frames asked for are ever materialised.
+ *
+ * Output is split on newlines; each finished line becomes a frame whose
+ * `delay` is the time since the previous frame. A carriage return not
+ * followed by a newline starts the line over, as progress bars expect.
+ * Markers become `comment` frames.
+ *
+ * @example
+ * ```ts
+ * const reader = createAsciicastReader(cast);
+ * const firstPage = reader.next(100);
+ * ```
+ */
+export const createAsciicastReader = (
+  source: string,
+  options: Pick<AsciicastImportOptions, 'prompt' | 'idleTimeLimit'> = {}
+): AsciicastReader => {
+  let position = 0;
+  let lineNumber = 0;
+
+  const readLine = (): string | null => {
+    while (position < source.length) {
+      const end = source.indexOf('\n', position);
+      const line = source.slice(position, end === -1 ? source.length : end).trim();
+      position = end === -1 ? source.length : end + 1;
+      lineNumber++;
+      if (line.length > 0) return line;
+    }
+    return null;
+  };
+
+  const headerLine = readLine();
+  if (headerLine === null) throw new AsciicastError('Empty asciicast');
+  const header = parseAsciicastHeader(headerLine);
+  const idleLimit = options.idleTimeLimit ?? header.idle_time_limit;
+
+  // Playback clock with idle gaps compressed, in seconds
+  let clock = 0;
+  let lastEventTime = 0;
+  let lastFrameClock = 0;
+  const lines = createLineBuffer();
+  // Exported comments are written as a marker and a matching output line
+  let lastMarker: string | null = null;
+  let finished = false;
+
+  const pending: TerminalFrame[] = [];
+
+  const takeDelay = () => {
+    const delay = Math.round((clock - lastFrameClock) * 1000);
+    lastFrameClock = clock;
+    return delay;
+  };
+
+  const emitLine = (line: string) => {
+    const text = stripControlSequences(line);
+    const plain = stripAnsi(text);
+
+    if (lastMarker !== null && plain === lastMarker) {
+      lastMarker = null;
+      return;
+    }
+    lastMarker = null;
+
+    if (options.prompt && plain.startsWith(options.prompt)) {
+      pending.push({ type: 'command', text: plain.slice(options.prompt.length), delay: takeDelay(), speed: 0 });
+    } else {
+      pending.push({ type: 'output', text, delay: takeDelay(), speed: 0 });
+    }
+  };
+
+  const readEvent = (): boolean => {
+    const line = readLine();
+    if (line === null) {
+      const rest = lines.flush();
+      if (rest.length > 0) emitLine(rest);
+      return false;
+    }
+
+    const [time, code, data] = parseAsciicastEvent(line, lineNumber);
+    const gap = Math.max(0, time - lastEventTime);
+    clock += idleLimit !== undefined ? Math.min(gap, idleLimit) : gap;
+    lastEventTime = time;
+
+    if (code === 'o') {
+      lines.write(data, emitLine);
+    } else if (code === 'm') {
+      const label = data || 'Marker';
+      pending.push({ type: 'comment', text: label, delay: takeDelay(), speed: 0 });
+      lastMarker = label;
+    }
+    return true;
+  };
+
+  return {
+    header,
+    next: (count = Infinity) => {
+      while (pending.length < count && !finished) {
+        finished = !readEvent();
+      }
+      return pending.splice(0, count);
+    },
+    get done() {
+      return finished && pending.length === 0;
+    },
+  };
+};
+
+/**
+ * Convert an asciicast v2 file into a TerminalRecording
+ *
+ * Large casts are loaded lazily: the recording starts with one page of
+ * frames and `loadMoreFrames(loadedCount)` returns the page after the
+ * frames a caller already has, decoding it on first request.
+ *
+ * @example
+ * ```tsx
+ * const recording = fromAsciicast(castText, { prompt: '$ ' });
+ * <Terminal recording={recording} autoPlay />
+ * ```
+ */
+export const fromAsciicast = (source: string, options: AsciicastImportOptions = {}): TerminalRecording => {
+  const reader = createAsciicastReader(source, options);
+  const lazy = options.lazy ?? source.length > LAZY_CAST_THRESHOLD;
+  const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+  const frames = reader.next(lazy ? pageSize : Infinity);
+  // Every frame decoded so far, so any caller can ask for any page
+  const decoded = [...frames];
+
+  const loadMoreFrames = (loadedCount: number) => {
+    const end = loadedCount + pageSize;
+    if (decoded.length < end && !reader.done) decoded.push(...reader.next(end - decoded.length));
+    return decoded.slice(loadedCount, end);
+  };
+
+  return {
+    id: options.id ?? `cast-${reader.header.timestamp ?? Date.now()}`,
+    title: reader.header.title ?? reader.header.command,
+    theme: 'dark',
+    prompt: options.prompt,
+    frames,
+    ...(lazy && !reader.done ? { loadMoreFrames } : {}),
+  };
+};
+
+// ============================================================================
+// Export
+// ============================================================================
+
+const frameColors: Partial<Record<TerminalFrame['type'], string>> = {
+  error: '\x1b[31m',
+  success: '\x1b[32m',
+  comment: '\x1b[90m',
+};
+
+/**
+ * Convert a TerminalRecording into asciicast v2 text
+ *
+ * Commands are typed one character per event at their `speed`; other
+ * frames are written as whole lines, coloured by type. Comments also get
+ * a marker so players can jump to them. Only frames already loaded are
+ * exported.
+ *
+ * @example
+ * ```ts
+ * const cast = toAsciicast(exampleRecordings.gitWorkflow, { width: 100 });
+ * ```
+ */
+export const toAsciicast = (recording: TerminalRecording, options: AsciicastExportOptions = {}): string => {
+  const events: AsciicastEvent[] = [];
+  const prompt = recording.prompt ?? '$ ';
+  let time = 0;
+
+  const seconds = () => Number((time / 1000).toFixed(6));
+  const output = (data: string) => events.push([seconds(), 'o', data]);
+
+  recording.frames.forEach(frame => {
+    time += frame.delay ?? 0;
+
+    if (frame.type === 'command') {
+      output(frame.prompt ?? prompt);
+      const speed = frame.speed || options.typingSpeed || 30;
+      for (const char of frame.text) {
+        time += speed;
+        output(char);
+      }
+      output('\r\n');
+      return;
+    }
+
+    if (frame.type === 'comment') events.push([seconds(), 'm', frame.text]);
+    const color = frameColors[frame.type];
+    output(color && frame.text ? `${color}${frame.text}\x1b[0m\r\n` : `${frame.text}\r\n`);
+  });
+
+  const header: AsciicastHeader = {
+    version: 2,
+    width: options.width ?? 80,
+    height: options.height ?? 24,
+    ...(options.timestamp !== undefined ? { timestamp: options.timestamp } : {}),
+    duration: seconds(),
+    ...(recording.title ? { title: recording.title } : {}),
+    env: { TERM: 'xterm-256color', SHELL: '/bin/sh' },
+  };
+
+  return [JSON.stringify(header), ...events.map(event => JSON.stringify(event))].join('\n') + '\n';
+};
@@ -0,0 +1,61 @@
+/**
+ * Terminal Support - Recording formats and output helpers for Terminal
+ */
+
+export {
+  createAsciicastReader,
+  fromAsciicast,
+  toAsciicast,
+  parseAsciicastHeader,
+  parseAsciicastEvent,
+  AsciicastError,
+  LAZY_CAST_THRESHOLD,
+} from './asciicast';
+export type {
+  AsciicastHeader,
+  AsciicastEvent,
+  AsciicastEventCode,
+  AsciicastReader,
+  AsciicastImportOptions,
+  AsciicastExportOptions,
+} from './asciicast';
+export { stripAnsi, stripControlSequences } from './ansi';
+export { parseAnsi, applySgr, hasAnsi } from './ansi';
+export type { AnsiColor, AnsiStyle, AnsiSpan, AnsiLine } from './ansi';
+export { AnsiText, resolveAnsiStyle } from './AnsiText';
+export type { AnsiTextProps } from './AnsiText';
+export {
+  getTerminalPalette,
+  getIndexedColor,
+  darkTerminalPalette,
+  lightTerminalPalette,
+} from './palette';
+export type { TerminalPalette } from './palette';
+export {
+  computeTimeline,
+  getFrameTiming,
+  getPlaybackPosition,
+  getPositionTime,
+  getNextChangeTime,
+  formatPlaybackTime,
+} from './timeline';
+export type { TerminalTimeline, TimelineEntry, TerminalChapter, PlaybackPosition, FrameTiming } from './timeline';
+export {
+  createLiveTerminal,
+  pipeToLiveTerminal,
+  isLiveTerminalSession,
+  DEFAULT_SCROLLBACK,
+  DEFAULT_CAPTURE_LIMIT,
+} from './live';
+export type {
+  TerminalStream,
+  LiveTerminalEvent,
+  LiveTerminalSource,
+  LiveTerminalOptions,
+  LiveTerminalSnapshot,
+  LiveTerminalSession,
+} from './live';
+export { useLiveTerminal } from './useLiveTerminal';
+export type { UseLiveTerminalResult } from './useLiveTerminal';
+export { createLineBuffer } from './lineBuffer';
+export type { LineBuffer } from './lineBuffer';
@@ -0,0 +1,59 @@
+/**
+ * Line Buffer
+ * Splits a raw terminal byte stream into lines the way a terminal shows
+ * them: a carriage return not followed by a newline starts the line over,
+ * as progress bars expect, and backspace removes the last character.
+ */
+
+export interface LineBuffer {
+  /** Feed raw output; `onLine` is called with every line it completes */
+  write: (data: string, onLine: (line: string) => void) => void;
+  /** Take the unfinished line, leaving the buffer empty */
+  flush: () => string;
+  /** The unfinished line so far */
+  readonly current: string;
+}
+
+/**
+ * @example
+ * ```ts
+ * const buffer = createLineBuffer();
+ * buffer.write('Loading 10%\rLoading 100%\ndone', line => lines.push(line));
+ * // lines: ['Loading 100%'], buffer.current: 'done'
+ * ```
+ */
+export const createLineBuffer = (): LineBuffer => {
+  let buffer = '';
+  let pendingReturn = false;
+
+  return {
+    write: (data, onLine) => {
+      for (const char of data) {
+        if (pendingReturn) {
+          pendingReturn = false;
+          if (char !== '\n') buffer = '';
+        }
+        if (char === '\n') {
+          const line = buffer;
+          buffer = '';
+          onLine(line);
+        } else if (char === '\r') {
+          pendingReturn = true;
+        } else if (char === '\b') {
+          buffer = buffer.slice(0, -1);
+        } else {
+          buffer += char;
+        }
+      }
+    },
+    flush: () => {
+      const line = buffer;
+      buffer = '';
+      pendingReturn = false;
+      return line;
+    },
+    get current() {
+      return buffer;
+    },
+  };
+};
@@ -0,0 +1,249 @@
+/**
+ * Live Terminal Sessions
+ * Collects output from a running process into frames as it arrives. The
+ * visible frames are capped at a scrollback limit, and the whole session is
+ * captured as a TerminalRecording for later replay.
+ */
+
+import type { TerminalFrame, TerminalRecording } from '../Terminal';
+import { stripControlSequences } from './ansi';
+import { createLineBuffer } from './lineBuffer';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type TerminalStream = 'stdout' | 'stderr';
+
+/** One event from a running tool; plain strings are stdout */
+export type LiveTerminalEvent =
+  | { type: TerminalStream; data: string }
+  | { type: 'command'; text: string; prompt?: string }
+  | { type: 'comment'; text: string }
+  | { type: 'exit'; code?: number };
+
+export type LiveTerminalSource = AsyncIterable<LiveTerminalEvent | string>;
+
+export interface LiveTerminalOptions {
+  id?: string;
+  title?: string;
+  prompt?: string;
+  theme?: 'dark' | 'light';
+  /** Most lines kept on screen; older lines are dropped. Defaults to 1000 */
+  scrollback?: number;
+  /** Capture frames for toRecording; defaults to true */
+  capture?: boolean;
+  /** Most frames captured, oldest dropped first. Defaults to 10000 */
+  captureLimit?: number;
+}
+
+export interface LiveTerminalSnapshot {
+  /** Completed lines, at most `scrollback` of them */
+  frames: TerminalFrame[];
+  /** The line still being written, if any */
+  partial: TerminalFrame | null;
+  /** Lines dropped off the top of the scrollback */
+  droppedLines: number;
+  ended: boolean;
+  exitCode?: number;
+}
+
+/**
+ * Push API for a live terminal. Snapshots are immutable and replaced on
+ * every change, so the session works with `useSyncExternalStore`.
+ */
+export interface LiveTerminalSession {
+  readonly options: LiveTerminalOptions;
+  write: (data: string, stream?: TerminalStream) => void;
+  command: (text: string, prompt?: string) => void;
+  comment: (text: string) => void;
+  /** Finish the session; a non-zero exit code adds an error line */
+  end: (exitCode?: number) => void;
+  subscribe: (listener: () => void) => () => void;
+  getSnapshot: () => LiveTerminalSnapshot;
+  /** Everything captured so far as a replayable recording */
+  toRecording: () => TerminalRecording;
+}
+
+export const DEFAULT_SCROLLBACK = 1000;
+export const DEFAULT_CAPTURE_LIMIT = 10_000;
+
+const frameTypes: Record<TerminalStream, TerminalFrame['type']> = {
+  stdout: 'output',
+  stderr: 'error',
+};
+
+// ============================================================================
+// Session
+// ============================================================================
+
+/**
+ * Create a live terminal session
+ *
+ * stdout becomes `output` frames and stderr `error` frames. A line is only
+ * complete at a newline; until then it is the snapshot's `partial` line,
+ * and a write to the other stream completes it early.
+ *
+ * @example
+ * ```ts
+ * const session = createLiveTerminal({ title: 'npm test', scrollback: 500 });
+ * child.stdout.on('data', chunk => session.write(chunk));
+ * child.stderr.on('data', chunk => session.write(chunk, 'stderr'));
+ * child.on('exit', code => session.end(code));
+ *
+ * <Terminal mode="live" source={session} />
+ * ```
+ */
+export const createLiveTerminal = (options: LiveTerminalOptions = {}): LiveTerminalSession => {
+  const scrollback = Math.max(1, options.scrollback ?? DEFAULT_SCROLLBACK);
+  const captureLimit = options.capture === false ? 0 : options.captureLimit ?? DEFAULT_CAPTURE_LIMIT;
+  const startedAt = Date.now();
+
+  const lines = createLineBuffer();
+  const listeners = new Set<() => void>();
+  const captured: TerminalFrame[] = [];
+  let lineStream: TerminalStream = 'stdout';
+  let lastFrameAt = startedAt;
+  let snapshot: LiveTerminalSnapshot = { frames: [], partial: null, droppedLines: 0, ended: false };
+
+  const notify = () => listeners.forEach(listener => listener());
+
+  const partialFrame = (): TerminalFrame | null =>
+    lines.current.length > 0
+      ? { type: frameTypes[lineStream], text: stripControlSequences(lines.current), speed: 0 }
+      : null;
+
+  // Append completed frames, trimming the scrollback and the capture
+  const commit = (added: TerminalFrame[]) => {
+    const now = Date.now();
+    const withDelays = added.map((frame, index) => ({ ...frame, delay: index === 0 ? now - lastFrameAt : 0 }));
+    if (added.length > 0) lastFrameAt = now;
+
+    if (captureLimit > 0) {
+      captured.push(...withDelays);
+      if (captured.length > captureLimit) captured.splice(0, captured.length - captureLimit);
+    }
+
+    const frames = [...snapshot.frames, ...withDelays];
+    const overflow = Math.max(0, frames.length - scrollback);
+    snapshot = {
+      ...snapshot,
+      frames: overflow > 0 ? frames.slice(overflow) : frames,
+      partial: partialFrame(),
+      droppedLines: snapshot.droppedLines + overflow,
+    };
+    notify();
+  };
+
+  const completeLine = (line: string): TerminalFrame => ({
+    type: frameTypes[lineStream],
+    text: stripControlSequences(line),
+    speed: 0,
+  });
+
+  // Complete the unfinished line before anything else is written
+  const flushPartial = (): TerminalFrame[] => {
+    const rest = lines.flush();
+    return rest.length > 0 ? [completeLine(rest)] : [];
+  };
+
+  const write = (data: string, stream: TerminalStream = 'stdout') => {
+    if (snapshot.ended) return;
+    const added = stream !== lineStream ? flushPartial() : [];
+    lineStream = stream;
+    lines.write(data, line => added.push(completeLine(line)));
+    commit(added);
+  };
+
+  return {
+    options,
+    write,
+    command: (text, prompt) => {
+      if (snapshot.ended) return;
+      commit([...flushPartial(), { type: 'command', text, ...(prompt !== undefined ? { prompt } : {}) }]);
+    },
+    comment: text => {
+      if (snapshot.ended) return;
+      commit([...flushPartial(), { type: 'comment', text, speed: 0 }]);
+    },
+    end: exitCode => {
+      if (snapshot.ended) return;
+      const added = flushPartial();
+      if (exitCode !== undefined && exitCode !== 0) {
+        added.push({ type: 'error', text: `Process exited with code ${exitCode}`, speed: 0 });
+      }
+      snapshot = { ...snapshot, ended: true, ...(exitCode !== undefined ? { exitCode } : {}) };
+      commit(added);
+    },
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    getSnapshot: () => snapshot,
+    toRecording: () => ({
+      id: options.id ?? `live-${startedAt}`,
+      title: options.title,
+      theme: options.theme ?? 'dark',
+      prompt: options.prompt,
+      frames: [...captured, ...(snapshot.partial ? [snapshot.partial] : [])],
+    }),
+  };
+};
+
+export const isLiveTerminalSession = (value: unknown): value is LiveTerminalSession =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as LiveTerminalSession).write === 'function' &&
+  typeof (value as LiveTerminalSession).getSnapshot === 'function';
+
+// ============================================================================
+// Async Sources
+// ============================================================================
+
+/**
+ * Feed an async iterable of events into a session, ending it when the
+ * source finishes. A source that throws writes its message to stderr and
+ * ends the session with code 1. Stops reading once `signal` aborts.
+ *
+ * @example
+ * ```ts
+ * async function* runTool() {
+ *   yield { type: 'command', text: 'npm test' };
+ *   for await (const chunk of tool.stdout) yield chunk;
+ *   yield { type: 'exit', code: await tool.exitCode };
+ * }
+ *
+ * await pipeToLiveTerminal(runTool(), session);
+ * ```
+ */
+export const pipeToLiveTerminal = async (
+  source: LiveTerminalSource,
+  session: LiveTerminalSession,
+  signal?: AbortSignal
+): Promise<void> => {
+  let exitCode: number | undefined;
+  try {
+    for await (const event of source) {
+      if (signal?.aborted) return;
+      if (typeof event === 'string') {
+        session.write(event);
+      } else if (event.type === 'stdout' || event.type === 'stderr') {
+        session.write(event.data, event.type);
+      } else if (event.type === 'command') {
+        session.command(event.text, event.prompt);
+      } else if (event.type === 'comment') {
+        session.comment(event.text);
+      } else if (event.type === 'exit') {
+        exitCode = event.code;
+        break;
+      }
+    }
+  } catch (error) {
+    if (signal?.aborted) return;
+    session.write(`${error instanceof Error ? error.message : String(error)}\n`, 'stderr');
+    exitCode = 1;
+  }
+  if (!signal?.aborted) session.end(exitCode);
+};
@@ -0,0 +1,64 @@
+/**
+ * Terminal Palettes
+ * The 16 ANSI colors plus default foreground and background, and the
+ * mapping of 256-color indexes onto them
+ */
+
+export type TerminalPalette = {
+  foreground: string;
+  background: string;
+  /** black, red, green, yellow, blue, magenta, cyan, white, then their bright variants */
+  ansi: string[];
+};
+
+export const darkTerminalPalette: TerminalPalette = {
+  foreground: '#E5E5E5',
+  background: '#1A1A1A',
+  ansi: [
+    '#3B3B3B', '#FF5F56', '#27C93F', '#FFBD2E', '#4E9BFF', '#D16FFF', '#2CD3E1', '#D0D0D0',
+    '#6E6E6E', '#FF7B72', '#56E06B', '#FFD866', '#79B8FF', '#E39BFF', '#6AE4EE', '#FFFFFF',
+  ],
+};
+
+export const lightTerminalPalette: TerminalPalette = {
+  foreground: '#1F1F1F',
+  background: '#F5F5F5',
+  ansi: [
+    '#000000', '#C91B00', '#00A600', '#A67C00', '#0042C7', '#A12EC4', '#00878F', '#BFBFBF',
+    '#686868', '#E6382C', '#00C200', '#C79A00', '#2F67E6', '#C24FDF', '#00A8B3', '#FFFFFF',
+  ],
+};
+
+/**
+ * Palette for a theme with any entries overridden
+ *
+ * @example
+ * ```ts
+ * const palette = getTerminalPalette(true, { ansi: solarizedAnsi });
+ * ```
+ */
+export const getTerminalPalette = (isDark: boolean, overrides: Partial<TerminalPalette> = {}): TerminalPalette => {
+  const base = isDark ? darkTerminalPalette : lightTerminalPalette;
+  return {
+    foreground: overrides.foreground ?? base.foreground,
+    background: overrides.background ?? base.background,
+    ansi: base.ansi.map((color, index) => overrides.ansi?.[index] ?? color),
+  };
+};
+
+const hex = (value: number) => value.toString(16).padStart(2, '0').toUpperCase();
+
+/**
+ * Hex color for a 256-color index: 0-15 from the palette, 16-231 from the
+ * 6x6x6 cube, 232-255 from the grayscale ramp
+ */
+export const getIndexedColor = (index: number, palette: TerminalPalette): string => {
+  if (index < 16) return palette.ansi[index];
+  if (index < 232) {
+    const levels = [0, 95, 135, 175, 215, 255];
+    const cube = index - 16;
+    return `#${hex(levels[Math.floor(cube / 36)])}${hex(levels[Math.floor(cube / 6) % 6])}${hex(levels[cube % 6])}`;
+  }
+  const gray = 8 + (Math.min(index, 255) - 232) * 10;
+  return `#${hex(gray)}${hex(gray)}${hex(gray)}`;
+};
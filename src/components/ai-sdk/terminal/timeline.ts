@@ -0,0 +1,163 @@
+/**
+ * Terminal Timeline
+ * Timing of a recording at 1x speed, computed with the same rules the
+ * player uses, so any point in time maps straight to a screen state.
+ */
+
+import type { TerminalFrame } from '../Terminal';
+
+// ============================================================================
+// Frame Timing
+// ============================================================================
+
+export type FrameTiming = {
+  /** Wait before the first character */
+  delay: number;
+  /** Time per typed character; 0 shows the line at once */
+  charDelay: number;
+  /** Pause after the line is complete */
+  settle: number;
+};
+
+/**
+ * Playback timing of a frame in ms at 1x speed
+ */
+export const getFrameTiming = (frame: TerminalFrame): FrameTiming => {
+  if (frame.speed === 0) return { delay: frame.delay ?? 0, charDelay: 0, settle: 0 };
+  const isTypingFrame = frame.type === 'command';
+  return {
+    delay: frame.delay ?? 0,
+    charDelay: frame.speed || (isTypingFrame ? 30 : 10),
+    settle: isTypingFrame ? 300 : 50,
+  };
+};
+
+// ============================================================================
+// Timeline
+// ============================================================================
+
+export type TimelineEntry = {
+  /** When the frame's delay starts */
+  start: number;
+  /** When typing starts; character `i` (1-based) shows at `typingStart + i * charDelay` */
+  typingStart: number;
+  /** When the next frame's delay starts */
+  end: number;
+};
+
+export type TerminalChapter = {
+  frameIndex: number;
+  time: number;
+  label: string;
+};
+
+export type TerminalTimeline = {
+  entries: TimelineEntry[];
+  duration: number;
+  /** One chapter per `comment` frame */
+  chapters: TerminalChapter[];
+};
+
+/** A frame index and how many of its characters are visible */
+export type PlaybackPosition = {
+  frameIndex: number;
+  charIndex: number;
+};
+
+/**
+ * Compute start and end times for every frame
+ *
+ * @example
+ * ```ts
+ * const timeline = computeTimeline(recording.frames);
+ * timeline.duration; // total ms at 1x
+ * timeline.chapters.map(c => c.label); // comment frames
+ * ```
+ */
+export const computeTimeline = (frames: TerminalFrame[]): TerminalTimeline => {
+  let time = 0;
+  const chapters: TerminalChapter[] = [];
+
+  const entries = frames.map((frame, index) => {
+    const timing = getFrameTiming(frame);
+    const start = time;
+    const typingStart = start + timing.delay;
+    time = typingStart + frame.text.length * timing.charDelay + timing.settle;
+
+    if (frame.type === 'comment') {
+      chapters.push({ frameIndex: index, time: start, label: frame.text.replace(/^#\s*/, '') });
+    }
+    return { start, typingStart, end: time };
+  });
+
+  return { entries, duration: time, chapters };
+};
+
+/**
+ * Screen state at `time` ms: frames before `frameIndex` are complete and
+ * `charIndex` characters of the current frame are visible. At or past the
+ * end, `frameIndex` equals the frame count.
+ */
+export const getPlaybackPosition = (
+  timeline: TerminalTimeline,
+  frames: TerminalFrame[],
+  time: number
+): PlaybackPosition => {
+  const { entries } = timeline;
+  if (entries.length === 0 || time >= timeline.duration) return { frameIndex: entries.length, charIndex: 0 };
+  if (time <= 0) return { frameIndex: 0, charIndex: 0 };
+
+  // Last frame starting at or before `time`
+  let low = 0;
+  let high = entries.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (entries[mid].start <= time) low = mid;
+    else high = mid - 1;
+  }
+
+  const entry = entries[low];
+  const frame = frames[low];
+  if (time < entry.typingStart) return { frameIndex: low, charIndex: 0 };
+
+  const { charDelay } = getFrameTiming(frame);
+  const typed = charDelay === 0 ? frame.text.length : Math.floor((time - entry.typingStart) / charDelay);
+  return { frameIndex: low, charIndex: Math.min(frame.text.length, typed) };
+};
+
+/**
+ * Next time after `time` at which the screen changes, or null at the end
+ */
+export const getNextChangeTime = (
+  timeline: TerminalTimeline,
+  frames: TerminalFrame[],
+  time: number
+): number | null => {
+  const position = getPlaybackPosition(timeline, frames, time);
+  const entry = timeline.entries[position.frameIndex];
+  if (!entry) return null;
+  if (time < entry.typingStart) return entry.typingStart;
+
+  const frame = frames[position.frameIndex];
+  const { charDelay } = getFrameTiming(frame);
+  if (position.charIndex < frame.text.length) return entry.typingStart + (position.charIndex + 1) * charDelay;
+  return entry.end;
+};
+
+/**
+ * Time of a playback position, the inverse of getPlaybackPosition
+ */
+export const getPositionTime = (timeline: TerminalTimeline, frames: TerminalFrame[], position: PlaybackPosition): number => {
+  const entry = timeline.entries[position.frameIndex];
+  if (!entry) return timeline.duration;
+  if (position.charIndex === 0) return entry.start;
+  return entry.typingStart + position.charIndex * getFrameTiming(frames[position.frameIndex]).charDelay;
+};
+
+/**
+ * Format ms as `m:ss`
+ */
+export const formatPlaybackTime = (ms: number): string => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
@@ -0,0 +1,48 @@
+import { useEffect, useMemo, useSyncExternalStore } from 'react';
+import {
+  LiveTerminalOptions,
+  LiveTerminalSession,
+  LiveTerminalSnapshot,
+  LiveTerminalSource,
+  createLiveTerminal,
+  isLiveTerminalSession,
+  pipeToLiveTerminal,
+} from './live';
+
+export interface UseLiveTerminalResult {
+  session: LiveTerminalSession;
+  snapshot: LiveTerminalSnapshot;
+}
+
+/**
+ * Hook that renders a live terminal session. Pass a session to share one
+ * you push to yourself, or an async iterable to have one created and fed
+ * from it; options only apply to sessions created here.
+ *
+ * @example
+ * ```tsx
+ * const { snapshot, session } = useLiveTerminal(toolOutput, { scrollback: 200 });
+ *
+ * <Text>{snapshot.frames.length} lines</Text>
+ * <Button onPress={() => save(session.toRecording())} title="Save" />
+ * ```
+ */
+export function useLiveTerminal(
+  source: LiveTerminalSession | LiveTerminalSource | undefined,
+  options: LiveTerminalOptions = {}
+): UseLiveTerminalResult {
+  const session = useMemo(
+    () => (isLiveTerminalSession(source) ? source : createLiveTerminal(options)),
+    [source]
+  );
+
+  useEffect(() => {
+    if (!source || isLiveTerminalSession(source)) return;
+    const controller = new AbortController();
+    pipeToLiveTerminal(source, session, controller.signal);
+    return () => controller.abort();
+  }, [source, session]);
+
+  const snapshot = useSyncExternalStore(session.subscribe, session.getSnapshot, session.getSnapshot);
+  return { session, snapshot };
+}
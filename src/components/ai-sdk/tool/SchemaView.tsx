@@ -0,0 +1,415 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, Pressable, ScrollView } from 'react-native';
+import { useAppTheme, AppTheme } from '../../../theme';
+import {
+  JsonSchema,
+  SchemaIssue,
+  SchemaPath,
+  formatSchemaPath,
+  getChildSchema,
+  getFieldLabel,
+  getValueType,
+  isRecordArray,
+} from './schema';
+
+export interface SchemaViewProps {
+  value: unknown;
+  schema?: JsonSchema;
+  /** Highlighted on the fields they point at */
+  issues?: SchemaIssue[];
+  /** Nesting levels expanded at first; branches with issues always start expanded */
+  expandDepth?: number;
+  testID?: string;
+}
+
+// Issues keyed by formatted path
+type IssueIndex = Map<string, string[]>;
+
+interface NodeProps {
+  value: unknown;
+  schema?: JsonSchema;
+  path: SchemaPath;
+  depth: number;
+  issues: IssueIndex;
+  expandDepth: number;
+}
+
+const TABLE_CELL_WIDTH = 120;
+
+const opacityToHex = (opacity: number): string => {
+  const hex = Math.round(opacity * 255).toString(16).padStart(2, '0');
+  return hex.toUpperCase();
+};
+
+const monoText = (theme: AppTheme) => ({
+  fontSize: theme.typography.body.fontSize,
+  fontFamily: 'monospace',
+  color: theme.colors.text.primary,
+});
+
+const captionText = (theme: AppTheme) => ({
+  fontSize: theme.typography.caption.fontSize,
+  color: theme.colors.text.tertiary,
+});
+
+const hasIssuesWithin = (issues: IssueIndex, path: SchemaPath): boolean => {
+  const prefix = formatSchemaPath(path);
+  if (prefix === '') return issues.size > 0;
+  for (const key of issues.keys()) {
+    if (key === prefix || key.startsWith(`${prefix}.`) || key.startsWith(`${prefix}[`)) return true;
+  }
+  return false;
+};
+
+// Single-line summary of a value for table cells
+const formatCell = (value: unknown): string => {
+  if (value === null || value === undefined) return '—';
+  if (Array.isArray(value)) return `[${value.length}]`;
+  if (typeof value === 'object') return '{…}';
+  return String(value);
+};
+
+const IssueMessages: React.FC<{ messages?: string[] }> = ({ messages }) => {
+  const theme = useAppTheme();
+  return messages && messages.length > 0 ? (
+    <View style={{ gap: 2 }}>
+      {messages.map((message) => (
+        <Text key={message} style={{ ...captionText(theme), color: theme.colors.destructive }}>
+          ⚠ {message}
+        </Text>
+      ))}
+    </View>
+  ) : null;
+};
+
+const EnumBadge: React.FC<{ value: unknown }> = ({ value }) => {
+  const theme = useAppTheme();
+  return (
+    <View
+      style={{
+        alignSelf: 'flex-start',
+        paddingHorizontal: 6,
+        paddingVertical: 2,
+        borderRadius: theme.borderRadius.sm,
+        backgroundColor: `${theme.colors.primary}${opacityToHex(0.15)}`,
+      }}
+    >
+      <Text style={{ fontSize: theme.typography.caption.fontSize, color: theme.colors.primary, fontWeight: '600' }}>
+        {String(value)}
+      </Text>
+    </View>
+  );
+};
+
+// Expand/collapse header for objects, arrays and tables
+const Collapsible: React.FC<{
+  summary: string;
+  defaultExpanded: boolean;
+  children: React.ReactNode;
+}> = ({ summary, defaultExpanded, children }) => {
+  const theme = useAppTheme();
+  const [expanded, setExpanded] = useState(defaultExpanded);
+
+  return (
+    <View>
+      <Pressable
+        onPress={() => setExpanded(!expanded)}
+        accessibilityRole="button"
+        accessibilityState={{ expanded }}
+        hitSlop={4}
+        style={{ flexDirection: 'row', alignItems: 'center', gap: 4 }}
+      >
+        <Text style={captionText(theme)}>{expanded ? '▼' : '▶'}</Text>
+        <Text style={captionText(theme)}>{summary}</Text>
+      </Pressable>
+      {expanded && (
+        <View
+          style={{
+            marginTop: theme.spacing.xs,
+            paddingLeft: theme.spacing.sm,
+            borderLeftWidth: 1,
+            borderLeftColor: `${theme.colors.border.default}${opacityToHex(0.4)}`,
+          }}
+        >
+          {children}
+        </View>
+      )}
+    </View>
+  );
+};
+
+// Arrays of records as a horizontally scrolling table
+const RecordTable: React.FC<NodeProps & { value: Record<string, unknown>[] }> = ({ value, schema, path, issues }) => {
+  const theme = useAppTheme();
+  const itemSchema = schema?.items;
+  const columns = useMemo(() => {
+    const keys = Object.keys(itemSchema?.properties ?? {});
+    value.forEach((row) => Object.keys(row).forEach((key) => !keys.includes(key) && keys.push(key)));
+    return keys;
+  }, [value, itemSchema]);
+
+  const cellStyle = {
+    width: TABLE_CELL_WIDTH,
+    paddingHorizontal: theme.spacing.xs,
+    paddingVertical: 4,
+  };
+
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+      <View
+        style={{
+          borderRadius: theme.borderRadius.sm,
+          borderWidth: 1,
+          borderColor: `${theme.colors.border.default}${opacityToHex(0.3)}`,
+          overflow: 'hidden',
+        }}
+      >
+        {/* Header */}
+        <View
+          style={{
+            flexDirection: 'row',
+            backgroundColor: `${theme.colors.surface.default}${opacityToHex(0.6)}`,
+          }}
+        >
+          {columns.map((key) => (
+            <View key={key} style={cellStyle}>
+              <Text style={{ ...captionText(theme), fontWeight: '600' }} numberOfLines={1}>
+                {getFieldLabel(key, itemSchema?.properties?.[key])}
+              </Text>
+            </View>
+          ))}
+        </View>
+
+        {/* Rows */}
+        {value.map((row, rowIndex) => (
+          <View
+            key={rowIndex}
+            style={{
+              flexDirection: 'row',
+              borderTopWidth: 1,
+              borderTopColor: `${theme.colors.border.default}${opacityToHex(0.2)}`,
+            }}
+          >
+            {columns.map((key) => {
+              const cellIssues = issues.get(formatSchemaPath([...path, rowIndex, key]));
+              return (
+                <View
+                  key={key}
+                  accessibilityHint={cellIssues?.join('. ')}
+                  style={{
+                    ...cellStyle,
+                    ...(cellIssues ? { backgroundColor: `${theme.colors.destructive}${opacityToHex(0.12)}` } : {}),
+                  }}
+                >
+                  <Text
+                    style={{ ...monoText(theme), ...(cellIssues ? { color: theme.colors.destructive } : {}) }}
+                    numberOfLines={2}
+                  >
+                    {formatCell(row[key])}
+                  </Text>
+                </View>
+              );
+            })}
+          </View>
+        ))}
+      </View>
+    </ScrollView>
+  );
+};
+
+// Labelled rows for the fields of an object
+const FieldList: React.FC<NodeProps & { value: Record<string, unknown> }> = ({
+  value,
+  schema,
+  path,
+  depth,
+  issues,
+  expandDepth,
+}) => {
+  const theme = useAppTheme();
+  // Schema order first, then anything the schema does not list; missing
+  // fields are kept when an issue points at them
+  const keys = [
+    ...Object.keys(schema?.properties ?? {}).filter(
+      (key) => value[key] !== undefined || issues.has(formatSchemaPath([...path, key]))
+    ),
+    ...Object.keys(value).filter((key) => !schema?.properties?.[key]),
+  ];
+
+  return (
+    <View style={{ gap: theme.spacing.sm }}>
+      {keys.map((key) => {
+        const childPath = [...path, key];
+        const childSchema = getChildSchema(schema, key);
+        const child = value[key];
+        const childIssues = issues.get(formatSchemaPath(childPath));
+        const required = schema?.required?.includes(key);
+
+        return (
+          <View
+            key={key}
+            style={{
+              gap: 2,
+              ...(childIssues
+                ? {
+                    paddingLeft: theme.spacing.xs,
+                    borderLeftWidth: 2,
+                    borderLeftColor: theme.colors.destructive,
+                  }
+                : {}),
+            }}
+          >
+            <View style={{ flexDirection: 'row', alignItems: 'flex-start', gap: theme.spacing.xs }}>
+              <Text
+                style={{
+                  fontSize: theme.typography.body.fontSize,
+                  color: childIssues ? theme.colors.destructive : theme.colors.text.secondary,
+                  fontWeight: '500',
+                }}
+              >
+                {getFieldLabel(key, childSchema)}
+                {required ? ' *' : ''}:
+              </Text>
+              {!isComposite(child) && (
+                <View style={{ flex: 1 }}>
+                  <SchemaNode
+                    value={child}
+                    schema={childSchema}
+                    path={childPath}
+                    depth={depth + 1}
+                    issues={issues}
+                    expandDepth={expandDepth}
+                  />
+                </View>
+              )}
+            </View>
+            {childSchema?.description && <Text style={captionText(theme)}>{childSchema.description}</Text>}
+            {isComposite(child) && (
+              <SchemaNode
+                value={child}
+                schema={childSchema}
+                path={childPath}
+                depth={depth + 1}
+                issues={issues}
+                expandDepth={expandDepth}
+              />
+            )}
+            <IssueMessages messages={childIssues} />
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const isComposite = (value: unknown) => typeof value === 'object' && value !== null;
+
+// Any value, dispatched on its runtime type
+const SchemaNode: React.FC<NodeProps> = (props) => {
+  const theme = useAppTheme();
+  const { value, schema, path, depth, issues, expandDepth } = props;
+  const defaultExpanded = depth < expandDepth || hasIssuesWithin(issues, path);
+
+  if (value === undefined) {
+    return <Text style={{ ...monoText(theme), color: theme.colors.destructive, fontStyle: 'italic' }}>missing</Text>;
+  }
+  if (value === null) {
+    return <Text style={{ ...monoText(theme), color: theme.colors.text.tertiary, fontStyle: 'italic' }}>null</Text>;
+  }
+
+  if (Array.isArray(value)) {
+    const summary = `${value.length} ${value.length === 1 ? 'item' : 'items'}`;
+    if (isRecordArray(value)) {
+      return (
+        <Collapsible summary={summary} defaultExpanded={defaultExpanded}>
+          <RecordTable {...props} value={value} />
+        </Collapsible>
+      );
+    }
+    return (
+      <Collapsible summary={summary} defaultExpanded={defaultExpanded}>
+        <View style={{ gap: theme.spacing.xs }}>
+          {value.map((item, index) => (
+            <View key={index} style={{ flexDirection: 'row', gap: theme.spacing.xs }}>
+              <Text style={captionText(theme)}>{index}</Text>
+              <View style={{ flex: 1 }}>
+                <SchemaNode
+                  value={item}
+                  schema={getChildSchema(schema, index)}
+                  path={[...path, index]}
+                  depth={depth + 1}
+                  issues={issues}
+                  expandDepth={expandDepth}
+                />
+                <IssueMessages messages={issues.get(formatSchemaPath([...path, index]))} />
+              </View>
+            </View>
+          ))}
+        </View>
+      </Collapsible>
+    );
+  }
+
+  if (typeof value === 'object') {
+    const count = Object.keys(value).length;
+    return (
+      <Collapsible summary={`${count} ${count === 1 ? 'field' : 'fields'}`} defaultExpanded={defaultExpanded}>
+        <FieldList {...props} value={value as Record<string, unknown>} />
+      </Collapsible>
+    );
+  }
+
+  if (schema?.enum) return <EnumBadge value={value} />;
+
+  if (typeof value === 'boolean') {
+    return (
+      <Text style={{ ...monoText(theme), color: value ? theme.colors.success : theme.colors.text.secondary }}>
+        {value ? '✓ true' : '✗ false'}
+      </Text>
+    );
+  }
+
+  const isLink = getValueType(value) === 'string' && (schema?.format === 'uri' || schema?.format === 'url');
+  return <Text style={{ ...monoText(theme), ...(isLink ? { color: theme.colors.primary } : {}) }}>{String(value)}</Text>;
+};
+
+/**
+ * SchemaView - Renders a value as labelled fields, badges, tables and
+ * collapsible trees, guided by an optional JSON Schema
+ *
+ * @example
+ * ```tsx
+ * <SchemaView
+ *   value={tool.parameters}
+ *   schema={tool.inputSchema}
+ *   issues={validateSchema(tool.parameters, tool.inputSchema)}
+ * />
+ * ```
+ */
+export function SchemaView({ value, schema, issues = [], expandDepth = 1, testID }: SchemaViewProps) {
+  const theme = useAppTheme();
+  const issueIndex = useMemo(() => {
+    const index: IssueIndex = new Map();
+    issues.forEach((issue) => {
+      const key = formatSchemaPath(issue.path);
+      index.set(key, [...(index.get(key) ?? []), issue.message]);
+    });
+    return index;
+  }, [issues]);
+
+  const node = { schema, path: [], depth: 0, issues: issueIndex, expandDepth };
+
+  return (
+    <View testID={testID} style={{ gap: theme.spacing.xs }}>
+      {/* The root object is shown as fields, without a collapsible header */}
+      {isComposite(value) && !Array.isArray(value) ? (
+        <FieldList {...node} value={value as Record<string, unknown>} />
+      ) : isRecordArray(value) ? (
+        <RecordTable {...node} value={value} />
+      ) : (
+        <SchemaNode {...node} value={value} />
+      )}
+      <IssueMessages messages={issueIndex.get('')} />
+    </View>
+  );
+}
@@ -0,0 +1,33 @@
+/**
+ * Tool Support - Streaming arguments, approvals and lifecycle state for Tool
+ */
+
+export { parsePartialJson, completePartialJson } from './partialJson';
+export {
+  startToolCall,
+  appendToolInput,
+  setToolInput,
+  requestToolApproval,
+  approveToolCall,
+  denyToolCall,
+  completeToolCall,
+  failToolCall,
+  cancelToolCall,
+  isToolFinished,
+  FINISHED_TOOL_STATUSES,
+} from './lifecycle';
+export { createToolCallStore } from './store';
+export type { ToolCallStore, ToolApprovalDecision, RunToolOptions } from './store';
+export { useToolCalls } from './useToolCalls';
+export type { UseToolCallsResult } from './useToolCalls';
+export {
+  validateSchema,
+  getFieldLabel,
+  getChildSchema,
+  getValueType,
+  formatSchemaPath,
+  isRecordArray,
+} from './schema';
+export type { JsonSchema, JsonSchemaType, SchemaIssue, SchemaPath } from './schema';
+export { SchemaView } from './SchemaView';
+export type { SchemaViewProps } from './SchemaView';
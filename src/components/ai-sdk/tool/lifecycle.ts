@@ -0,0 +1,97 @@
+/**
+ * Tool Call Lifecycle
+ * Pure transitions between tool states with automatic timing:
+ * streaming → (awaiting-approval) → running → success | error | cancelled
+ */
+
+import type { ToolData, ToolStatus } from '../Tool';
+import { parsePartialJson } from './partialJson';
+
+export const FINISHED_TOOL_STATUSES: ToolStatus[] = ['success', 'error', 'cancelled'];
+
+export const isToolFinished = (tool: ToolData): boolean => FINISHED_TOOL_STATUSES.includes(tool.status);
+
+const finish = (tool: ToolData, now: Date): Pick<ToolData, 'endTime' | 'duration'> => ({
+  endTime: now,
+  duration: tool.startTime ? now.getTime() - tool.startTime.getTime() : undefined,
+});
+
+/**
+ * A tool call whose arguments are about to stream in
+ */
+export const startToolCall = (
+  id: string,
+  name: string,
+  extra: Partial<Omit<ToolData, 'id' | 'name'>> = {},
+  now = new Date()
+): ToolData => ({
+  status: 'streaming',
+  parameters: {},
+  inputText: '',
+  startTime: now,
+  ...extra,
+  id,
+  name,
+});
+
+/**
+ * Append streamed argument text; parameters update as soon as the text
+ * parses, so they fill in progressively
+ */
+export const appendToolInput = (tool: ToolData, delta: string): ToolData => {
+  const inputText = (tool.inputText ?? '') + delta;
+  const parsed = parsePartialJson(inputText);
+  const parameters = parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+    ? (parsed as Record<string, any>)
+    : tool.parameters;
+  return { ...tool, inputText, parameters };
+};
+
+/**
+ * Arguments are complete; the tool is running unless it finished already
+ */
+export const setToolInput = (tool: ToolData, parameters: Record<string, any>): ToolData => ({
+  ...tool,
+  parameters,
+  inputText: undefined,
+  status: isToolFinished(tool) ? tool.status : 'running',
+});
+
+export const requestToolApproval = (tool: ToolData, message?: string): ToolData => ({
+  ...tool,
+  status: 'awaiting-approval',
+  approval: { message },
+});
+
+export const approveToolCall = (tool: ToolData): ToolData => ({
+  ...tool,
+  status: 'running',
+  approval: { ...tool.approval, decision: 'approved' },
+});
+
+export const denyToolCall = (tool: ToolData, reason?: string, now = new Date()): ToolData => ({
+  ...tool,
+  status: 'cancelled',
+  approval: { ...tool.approval, decision: 'denied', reason },
+  ...finish(tool, now),
+});
+
+export const completeToolCall = (tool: ToolData, result: unknown, now = new Date()): ToolData => ({
+  ...tool,
+  status: 'success',
+  result,
+  ...finish(tool, now),
+});
+
+export const failToolCall = (tool: ToolData, error: string, now = new Date()): ToolData => ({
+  ...tool,
+  status: 'error',
+  error,
+  ...finish(tool, now),
+});
+
+/**
+ * Cancel a call that has not finished; finished calls are returned as-is
+ */
+export const cancelToolCall = (tool: ToolData, now = new Date()): ToolData =>
+  isToolFinished(tool) ? tool : { ...tool, status: 'cancelled', inputText: undefined, ...finish(tool, now) };
@@ -0,0 +1,97 @@
+/**
+ * Partial JSON
+ * Parses tool-call arguments while they are still streaming by closing
+ * whatever the text left open and dropping the token it was cut off in
+ */
+
+const PARTIAL_LITERAL = /([[:,]\s*)(?:t|tr|tru|f|fa|fal|fals|n|nu|nul)$/;
+// A number cut off after its sign, decimal point or exponent marker
+const PARTIAL_NUMBER = /(\d)(?:\.|[eE][-+]?)$|([[:,]\s*)-$/;
+const DANGLING_KEY = /([{,])\s*"(?:[^"\\]|\\.)*"\s*:?$/;
+// A trailing backslash or an unfinished `\uXXXX` escape
+const PARTIAL_ESCAPE = /\\(?:u[0-9a-fA-F]{0,3})?$/;
+
+/**
+ * Complete a JSON prefix into parseable JSON, or return it unchanged when
+ * it is already complete
+ */
+export const completePartialJson = (text: string): string => {
+  const stack: ('{' | '[')[] = [];
+  let inString = false;
+  let escaped = false;
+  let stringStart = -1;
+  // Keys are strings opened where an object expects a key
+  let expectingKey = false;
+  let stringIsKey = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+      stringStart = i;
+      stringIsKey = expectingKey;
+      expectingKey = false;
+    } else if (char === '{') {
+      stack.push('{');
+      expectingKey = true;
+    } else if (char === '[') {
+      stack.push('[');
+    } else if (char === '}' || char === ']') {
+      stack.pop();
+    } else if (char === ',') {
+      expectingKey = stack[stack.length - 1] === '{';
+    }
+  }
+
+  let out = text;
+  if (inString) {
+    out = stringIsKey ? text.slice(0, stringStart) : `${text.replace(PARTIAL_ESCAPE, '')}"`;
+  }
+
+  // Drop trailing tokens that cannot be completed, until nothing changes
+  let previous: string;
+  do {
+    previous = out;
+    out = out.trimEnd();
+    if (out.endsWith(',')) out = out.slice(0, -1);
+    out = out.replace(PARTIAL_LITERAL, '$1').replace(PARTIAL_NUMBER, '$1$2');
+    if (out.endsWith(':') || stack[stack.length - 1] === '{') {
+      out = out.replace(DANGLING_KEY, (_, opener: string) => (opener === '{' ? '{' : ''));
+    }
+  } while (out !== previous);
+
+  return out + stack.reverse().map(open => (open === '{' ? '}' : ']')).join('');
+};
+
+/**
+ * Parse a possibly incomplete JSON document; undefined when nothing
+ * usable has arrived yet
+ *
+ * @example
+ * ```ts
+ * parsePartialJson('{"path": "src/App.ts", "lines": [1, 2');
+ * // { path: 'src/App.ts', lines: [1, 2] }
+ *
+ * parsePartialJson('{"query": "react nat'); // { query: 'react nat' }
+ * ```
+ */
+export const parsePartialJson = (text: string): unknown => {
+  if (text.trim() === '') return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    // Still streaming
+  }
+  try {
+    return JSON.parse(completePartialJson(text));
+  } catch {
+    return undefined;
+  }
+};
@@ -0,0 +1,211 @@
+/**
+ * Tool Schemas
+ * The JSON Schema subset tools describe their arguments and results with,
+ * and a validator that reports where a value does not match
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  title?: string;
+  description?: string;
+  enum?: unknown[];
+  const?: unknown;
+  default?: unknown;
+  /** Display hint for strings, e.g. `date-time`, `uri`, `email` */
+  format?: string;
+  // Objects
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  // Arrays
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  // Strings
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  // Numbers
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  // Combinators
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+}
+
+export type SchemaPath = (string | number)[];
+
+export type SchemaIssue = {
+  path: SchemaPath;
+  message: string;
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * `a.b[0].c` style path, or an empty string for the root
+ */
+export const formatSchemaPath = (path: SchemaPath): string =>
+  path.reduce<string>(
+    (text, segment) => (typeof segment === 'number' ? `${text}[${segment}]` : text ? `${text}.${segment}` : segment),
+    ''
+  );
+
+/**
+ * Schema title, or the key with camelCase and snake_case split into words
+ *
+ * @example
+ * ```ts
+ * getFieldLabel('maxResults'); // 'Max results'
+ * getFieldLabel('file_path', { title: 'File' }); // 'File'
+ * ```
+ */
+export const getFieldLabel = (key: string, schema?: JsonSchema): string => {
+  if (schema?.title) return schema.title;
+  const words = key
+    .replace(/[_-]+/g, ' ')
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .trim()
+    .toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+export const getValueType = (value: unknown): JsonSchemaType => {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonSchemaType;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * True for a non-empty array whose items are all plain objects, which
+ * read best as a table
+ */
+export const isRecordArray = (value: unknown): value is Record<string, unknown>[] =>
+  Array.isArray(value) && value.length > 0 && value.every(isRecord);
+
+const matchesType = (value: unknown, type: JsonSchemaType): boolean => {
+  const actual = getValueType(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+};
+
+const describe = (value: unknown) => JSON.stringify(value) ?? String(value);
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Check a value against a schema, returning one issue per mismatch
+ *
+ * @example
+ * ```ts
+ * validateSchema({ limit: 500 }, {
+ *   type: 'object',
+ *   properties: { query: { type: 'string' }, limit: { type: 'integer', maximum: 100 } },
+ *   required: ['query'],
+ * });
+ * // [{ path: ['query'], message: 'Required' }, { path: ['limit'], message: 'Must be at most 100' }]
+ * ```
+ */
+export const validateSchema = (value: unknown, schema: JsonSchema, path: SchemaPath = []): SchemaIssue[] => {
+  const issues: SchemaIssue[] = [];
+  const issue = (message: string, at: SchemaPath = path) => issues.push({ path: at, message });
+
+  if (schema.anyOf || schema.oneOf) {
+    const options = (schema.anyOf ?? schema.oneOf)!;
+    const matching = options.filter(option => validateSchema(value, option, path).length === 0).length;
+    if (matching === 0) issue('Does not match any allowed shape');
+    else if (schema.oneOf && matching > 1) issue('Matches more than one allowed shape');
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      issue(`Expected ${types.join(' or ')}, got ${getValueType(value)}`);
+      return issues;
+    }
+  }
+
+  if (schema.const !== undefined && describe(value) !== describe(schema.const)) {
+    issue(`Must be ${describe(schema.const)}`);
+  }
+  if (schema.enum && !schema.enum.some(option => describe(option) === describe(value))) {
+    issue(`Must be one of ${schema.enum.map(describe).join(', ')}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      issue(`Must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      issue(`Must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern !== undefined) {
+      try {
+        if (!new RegExp(schema.pattern, 'u').test(value)) issue(`Must match ${schema.pattern}`);
+      } catch {
+        // Patterns this engine cannot compile are not enforced
+      }
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) issue(`Must be at least ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) issue(`Must be at most ${schema.maximum}`);
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      issue(`Must be greater than ${schema.exclusiveMinimum}`);
+    }
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+      issue(`Must be less than ${schema.exclusiveMaximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) issue(`Needs at least ${schema.minItems} items`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) issue(`Allows at most ${schema.maxItems} items`);
+    if (schema.items) {
+      value.forEach((item, index) => issues.push(...validateSchema(item, schema.items!, [...path, index])));
+    }
+  }
+
+  if (isRecord(value)) {
+    schema.required?.forEach(key => {
+      if (value[key] === undefined) issue('Required', [...path, key]);
+    });
+    Object.entries(value).forEach(([key, child]) => {
+      const childSchema = schema.properties?.[key];
+      if (childSchema) {
+        issues.push(...validateSchema(child, childSchema, [...path, key]));
+      } else if (schema.additionalProperties === false) {
+        issue('Unexpected field', [...path, key]);
+      } else if (typeof schema.additionalProperties === 'object') {
+        issues.push(...validateSchema(child, schema.additionalProperties, [...path, key]));
+      }
+    });
+  }
+
+  return issues;
+};
+
+/**
+ * Schema for a child of an object or array schema
+ */
+export const getChildSchema = (schema: JsonSchema | undefined, key: string | number): JsonSchema | undefined => {
+  if (!schema) return undefined;
+  if (typeof key === 'number') return schema.items;
+  return schema.properties?.[key] ?? (typeof schema.additionalProperties === 'object' ? schema.additionalProperties : undefined);
+};
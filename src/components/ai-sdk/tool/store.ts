@@ -0,0 +1,209 @@
+/**
+ * Tool Call Store
+ * Holds the tool calls of a conversation turn and the pending approval
+ * promises, so the agent loop can await a human decision that the Tool
+ * component's buttons deliver.
+ */
+
+import type { ToolData } from '../Tool';
+import {
+  startToolCall,
+  appendToolInput,
+  setToolInput,
+  requestToolApproval,
+  approveToolCall,
+  denyToolCall,
+  completeToolCall,
+  failToolCall,
+  cancelToolCall,
+  isToolFinished,
+} from './lifecycle';
+
+export type ToolApprovalDecision = {
+  approved: boolean;
+  reason?: string;
+};
+
+export interface RunToolOptions {
+  /** Ask for approval before running */
+  requireApproval?: boolean;
+  /** Shown with the approve and deny buttons */
+  approvalMessage?: string;
+}
+
+/**
+ * Tool calls as an external store; snapshots are replaced on every
+ * change, so the store works with `useSyncExternalStore`
+ */
+export interface ToolCallStore {
+  start: (id: string, name: string, extra?: Partial<Omit<ToolData, 'id' | 'name'>>) => void;
+  appendInput: (id: string, delta: string) => void;
+  setInput: (id: string, parameters: Record<string, any>) => void;
+  /** Resolves once the call is approved, denied or cancelled */
+  requestApproval: (id: string, message?: string) => Promise<ToolApprovalDecision>;
+  approve: (id: string) => void;
+  deny: (id: string, reason?: string) => void;
+  complete: (id: string, result: unknown) => void;
+  fail: (id: string, error: string) => void;
+  /** Cancel an unfinished call, denying a pending approval and aborting a run */
+  cancel: (id: string) => void;
+  /**
+   * Run `execute` for a call, after approval when required, recording its
+   * result or error. Resolves with the call's final state; a call that is
+   * already finished, or finishes while awaiting approval, never executes.
+   * When a later approval request supersedes this one, resolves once the
+   * call finishes under that request.
+   */
+  run: (id: string, execute: (signal: AbortSignal) => Promise<unknown>, options?: RunToolOptions) => Promise<ToolData>;
+  get: (id: string) => ToolData | undefined;
+  /** Cancel everything unfinished and forget all calls */
+  clear: () => void;
+  subscribe: (listener: () => void) => () => void;
+  getSnapshot: () => ToolData[];
+}
+
+/**
+ * Create a tool call store
+ *
+ * @example
+ * ```ts
+ * const store = createToolCallStore();
+ * store.start('call-1', 'delete_file');
+ * store.appendInput('call-1', '{"path": "src/old.ts"}');
+ * store.setInput('call-1', { path: 'src/old.ts' });
+ *
+ * const call = await store.run('call-1', () => fs.unlink('src/old.ts'), {
+ *   requireApproval: true,
+ *   approvalMessage: 'Delete src/old.ts?',
+ * });
+ * call.status; // 'success', or 'cancelled' when denied
+ * ```
+ */
+export const createToolCallStore = (initial: ToolData[] = []): ToolCallStore => {
+  let tools = initial;
+  const listeners = new Set<() => void>();
+  const approvals = new Map<string, (decision: ToolApprovalDecision) => void>();
+  const runs = new Map<string, AbortController>();
+
+  const notify = () => listeners.forEach(listener => listener());
+
+  const get = (id: string) => tools.find(tool => tool.id === id);
+
+  const update = (id: string, change: (tool: ToolData) => ToolData) => {
+    const tool = get(id);
+    if (!tool) return;
+    const next = change(tool);
+    if (next === tool) return;
+    tools = tools.map(t => (t.id === id ? next : t));
+    notify();
+  };
+
+  // Only unfinished calls change state
+  const updateActive = (id: string, change: (tool: ToolData) => ToolData) =>
+    update(id, tool => (isToolFinished(tool) ? tool : change(tool)));
+
+  const settleApproval = (id: string, decision: ToolApprovalDecision) => {
+    const resolve = approvals.get(id);
+    approvals.delete(id);
+    resolve?.(decision);
+  };
+
+  const requestApproval = (id: string, message?: string) => {
+    const tool = get(id);
+    if (!tool || isToolFinished(tool)) return Promise.resolve({ approved: false, reason: 'cancelled' });
+
+    // A repeated request replaces the earlier one, which counts as denied
+    settleApproval(id, { approved: false, reason: 'superseded' });
+    const decision = new Promise<ToolApprovalDecision>(resolve => approvals.set(id, resolve));
+    update(id, t => requestToolApproval(t, message));
+    return decision;
+  };
+
+  // Resolves with the call once it reaches a final state (or is removed)
+  const whenFinished = (id: string) =>
+    new Promise<ToolData>(resolve => {
+      let last = get(id)!;
+      const check = () => {
+        const tool = get(id);
+        if (tool && !isToolFinished(tool)) {
+          last = tool;
+          return;
+        }
+        listeners.delete(check);
+        resolve(tool ?? last);
+      };
+      listeners.add(check);
+      check();
+    });
+
+  const cancel = (id: string) => {
+    settleApproval(id, { approved: false, reason: 'cancelled' });
+    runs.get(id)?.abort();
+    runs.delete(id);
+    update(id, tool => cancelToolCall(tool));
+  };
+
+  return {
+    start: (id, name, extra) => {
+      if (get(id)) return;
+      tools = [...tools, startToolCall(id, name, extra)];
+      notify();
+    },
+    appendInput: (id, delta) => updateActive(id, tool => appendToolInput(tool, delta)),
+    setInput: (id, parameters) => updateActive(id, tool => setToolInput(tool, parameters)),
+    requestApproval,
+    approve: id => {
+      if (get(id)?.status !== 'awaiting-approval') return;
+      update(id, approveToolCall);
+      settleApproval(id, { approved: true });
+    },
+    deny: (id, reason) => {
+      if (get(id)?.status !== 'awaiting-approval') return;
+      update(id, tool => denyToolCall(tool, reason));
+      settleApproval(id, { approved: false, reason });
+    },
+    complete: (id, result) => updateActive(id, tool => completeToolCall(tool, result)),
+    fail: (id, error) => updateActive(id, tool => failToolCall(tool, error)),
+    cancel,
+    run: async (id, execute, options = {}) => {
+      const tool = get(id);
+      if (!tool) throw new Error(`Unknown tool call: ${id}`);
+      // Cancelled, denied or done calls must not run their side effect
+      if (isToolFinished(tool)) return tool;
+      if (options.requireApproval) {
+        const decision = await requestApproval(id, options.approvalMessage);
+        if (!decision.approved) {
+          return decision.reason === 'superseded' ? whenFinished(id) : get(id)!;
+        }
+        const approved = get(id);
+        if (!approved || isToolFinished(approved)) return approved!;
+      }
+
+      const controller = new AbortController();
+      runs.set(id, controller);
+      updateActive(id, tool => (tool.status === 'running' ? tool : { ...tool, status: 'running' }));
+      try {
+        const result = await execute(controller.signal);
+        updateActive(id, tool => completeToolCall(tool, result));
+      } catch (error) {
+        updateActive(id, tool => failToolCall(tool, error instanceof Error ? error.message : String(error)));
+      } finally {
+        if (runs.get(id) === controller) runs.delete(id);
+      }
+      return get(id)!;
+    },
+    get,
+    clear: () => {
+      tools.forEach(tool => cancel(tool.id));
+      tools = [];
+      notify();
+    },
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    getSnapshot: () => tools,
+  };
+};
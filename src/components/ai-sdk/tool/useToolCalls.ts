@@ -0,0 +1,33 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import type { ToolData } from '../Tool';
+import { ToolCallStore, createToolCallStore } from './store';
+
+export interface UseToolCallsResult {
+  tools: ToolData[];
+  store: ToolCallStore;
+}
+
+/**
+ * Hook that renders the tool calls in a store, creating one when none is
+ * passed
+ *
+ * @example
+ * ```tsx
+ * const { tools, store } = useToolCalls();
+ *
+ * {tools.map(tool => (
+ *   <Tool
+ *     key={tool.id}
+ *     tool={tool}
+ *     onApprove={() => store.approve(tool.id)}
+ *     onDeny={() => store.deny(tool.id)}
+ *     onCancel={() => store.cancel(tool.id)}
+ *   />
+ * ))}
+ * ```
+ */
+export function useToolCalls(store?: ToolCallStore): UseToolCallsResult {
+  const activeStore = useMemo(() => store ?? createToolCallStore(), [store]);
+  const tools = useSyncExternalStore(activeStore.subscribe, activeStore.getSnapshot, activeStore.getSnapshot);
+  return { tools, store: activeStore };
+}
@@ -0,0 +1,425 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { MessageProps, MessageAttachment } from './Message';
+import type { PromptAttachment } from './PromptInput';
+import {
+  ConversationTree,
+  StoredMessage,
+  createConversationTree,
+  getActiveMessages,
+  getMessageHistory,
+  appendMessage,
+  addBranch,
+  selectBranch,
+  updateMessage,
+  removeMessage,
+} from './conversation/tree';
+
+export type ChatStatus = 'idle' | 'streaming' | 'error';
+
+/**
+ * Request handed to a chat transport for every assistant turn
+ */
+export interface ChatRequest {
+  /** Conversation history up to and including the latest user turn */
+  messages: MessageProps[];
+  /** Aborted when the turn is stopped or the hook unmounts */
+  signal: AbortSignal;
+}
+
+/**
+ * Pluggable model backend for useChat
+ *
+ * A transport streams the assistant reply as text chunks. Network clients,
+ * the AI SDK stream parser or an in-memory fake model can all implement it.
+ */
+export interface ChatTransport {
+  send(request: ChatRequest): AsyncIterable<string>;
+}
+
+export interface UseChatOptions {
+  transport: ChatTransport;
+  initialMessages?: MessageProps[];
+  /** Restored conversation with its branches; takes precedence over initialMessages */
+  initialTree?: ConversationTree;
+  /** Called with every change, including each streamed chunk, e.g. to persist the tree */
+  onTreeChange?: (tree: ConversationTree) => void;
+  /** Author shown on streamed assistant messages */
+  assistantAuthor?: MessageProps['author'];
+  /** Author shown on messages sent by the local user */
+  userAuthor?: MessageProps['author'];
+  generateId?: () => string;
+  onFinish?: (message: MessageProps) => void;
+  onError?: (error: Error) => void;
+}
+
+export interface UseChatResult {
+  /** The active branch, with onRetry, onEdit, onDelete and onBranchChange already bound and regenerate enabled */
+  messages: MessageProps[];
+  /** Every branch of the conversation; serialise it to keep branches across reloads */
+  tree: ConversationTree;
+  status: ChatStatus;
+  error: Error | null;
+  /** Signature matches PromptInput's onSend */
+  send: (text: string, attachments?: PromptAttachment[]) => Promise<void>;
+  retry: (messageId: string) => Promise<void>;
+  edit: (messageId: string, content: string) => Promise<void>;
+  remove: (messageId: string) => void;
+  /** Show another version of a message by its index among its siblings */
+  switchBranch: (messageId: string, index: number) => void;
+  stop: () => void;
+  setMessages: (messages: MessageProps[]) => void;
+  setTree: (tree: ConversationTree) => void;
+  /** Signature matches Conversation's onMessageAction */
+  handleMessageAction: (messageId: string, action: string) => void;
+}
+
+const defaultGenerateId = (): string =>
+  `msg-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+const toMessageAttachment = (attachment: PromptAttachment): MessageAttachment => ({
+  id: attachment.id,
+  name: attachment.name,
+  type: attachment.type,
+  url: attachment.url ?? '',
+  size: attachment.size,
+});
+
+/**
+ * Hook that owns the message list for a chat screen
+ *
+ * Appends the user turn optimistically with `status: 'sending'`, streams the
+ * assistant turn in from the transport and flips statuses to `sent` or
+ * `error`. The returned messages can be passed straight to `Conversation`
+ * and `send` straight to `PromptInput`.
+ *
+ * Messages live in a ConversationTree: editing a user turn or regenerating
+ * a reply adds a sibling branch, and the earlier version stays reachable
+ * through the message's branch switcher.
+ *
+ * @example
+ * ```tsx
+ * const chat = useChat({ transport });
+ *
+ * <Conversation messages={chat.messages} />
+ * <PromptInput value={text} onChange={setText} onSend={chat.send} />
+ * ```
+ */
+export function useChat({
+  transport,
+  initialMessages = [],
+  initialTree,
+  onTreeChange,
+  assistantAuthor = { name: 'AI Assistant' },
+  userAuthor = { name: 'You' },
+  generateId = defaultGenerateId,
+  onFinish,
+  onError,
+}: UseChatOptions): UseChatResult {
+  const [tree, setTreeState] = useState<ConversationTree>(
+    () => initialTree ?? createConversationTree(initialMessages)
+  );
+  const [status, setStatus] = useState<ChatStatus>('idle');
+  const [error, setError] = useState<Error | null>(null);
+
+  // Mirror of state so async streaming code never reads a stale tree
+  const treeRef = useRef<ConversationTree>(tree);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const commit = useCallback((updater: (prev: ConversationTree) => ConversationTree) => {
+    treeRef.current = updater(treeRef.current);
+    setTreeState(treeRef.current);
+  }, []);
+
+  const patchMessage = useCallback(
+    (id: string, patch: Partial<StoredMessage>) => {
+      commit((prev) => updateMessage(prev, id, patch));
+    },
+    [commit]
+  );
+
+  useEffect(() => {
+    onTreeChange?.(tree);
+  }, [tree]);
+
+  const stop = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+  }, []);
+
+  // Abort any in-flight turn on unmount
+  useEffect(() => stop, [stop]);
+
+  /**
+   * Stream an assistant reply to the history ending at `parentId`. A user
+   * turn at `parentId` is marked sent or error. With `alternativeTo`, the
+   * reply becomes a new branch beside that earlier reply.
+   */
+  const streamReply = useCallback(
+    async (parentId: string | null, alternativeTo?: string) => {
+      stop();
+      const controller = new AbortController();
+      abortRef.current = controller;
+
+      const history = parentId ? getMessageHistory(treeRef.current, parentId) : [];
+      const parent = history[history.length - 1];
+      const userMessageId = parent?.role === 'user' ? parent.id : undefined;
+      const assistantId = generateId();
+      const placeholder: MessageProps = {
+        id: assistantId,
+        role: 'assistant',
+        content: '',
+        timestamp: new Date().toISOString(),
+        status: 'sending',
+        author: assistantAuthor,
+      };
+      commit((prev) =>
+        alternativeTo ? addBranch(prev, alternativeTo, placeholder) : appendMessage(prev, placeholder, parentId)
+      );
+
+      setStatus('streaming');
+      setError(null);
+
+      let content = '';
+      let userAcknowledged = false;
+      // False once a newer turn has replaced this one
+      const isCurrent = () => abortRef.current === controller || abortRef.current === null;
+
+      try {
+        for await (const chunk of transport.send({ messages: history, signal: controller.signal })) {
+          if (controller.signal.aborted) break;
+          if (!userAcknowledged && userMessageId) {
+            patchMessage(userMessageId, { status: 'sent' });
+            userAcknowledged = true;
+          }
+          content += chunk;
+          patchMessage(assistantId, { content });
+        }
+
+        if (userMessageId && !userAcknowledged) {
+          patchMessage(userMessageId, { status: 'sent' });
+        }
+        patchMessage(assistantId, { status: 'sent' });
+        if (isCurrent()) {
+          setStatus('idle');
+        }
+
+        const finished = treeRef.current.nodes[assistantId]?.message;
+        if (finished && !controller.signal.aborted) {
+          onFinish?.(finished);
+        }
+      } catch (e) {
+        if (controller.signal.aborted) {
+          // Transports may reject with an AbortError when stopped
+          patchMessage(assistantId, { status: 'sent' });
+          if (isCurrent()) {
+            setStatus('idle');
+          }
+          return;
+        }
+
+        const err = e instanceof Error ? e : new Error(String(e));
+
+        if (content.length === 0) {
+          // Nothing streamed: drop the placeholder and flag the user turn
+          commit((prev) => removeMessage(prev, assistantId));
+          if (userMessageId) {
+            patchMessage(userMessageId, { status: 'error' });
+          }
+        } else {
+          patchMessage(assistantId, { status: 'error' });
+        }
+
+        setError(err);
+        setStatus('error');
+        onError?.(err);
+      } finally {
+        if (abortRef.current === controller) {
+          abortRef.current = null;
+        }
+      }
+    },
+    [transport, generateId, assistantAuthor, commit, patchMessage, stop, onFinish, onError]
+  );
+
+  const send = useCallback(
+    async (text: string, attachments: PromptAttachment[] = []) => {
+      if (text.trim().length === 0 && attachments.length === 0) return;
+
+      const userMessageId = generateId();
+      commit((prev) =>
+        appendMessage(prev, {
+          id: userMessageId,
+          role: 'user',
+          content: text,
+          timestamp: new Date().toISOString(),
+          status: 'sending',
+          author: userAuthor,
+          attachments: attachments.length > 0 ? attachments.map(toMessageAttachment) : undefined,
+        })
+      );
+
+      await streamReply(userMessageId);
+    },
+    [generateId, userAuthor, commit, streamReply]
+  );
+
+  const retry = useCallback(
+    async (messageId: string) => {
+      const node = treeRef.current.nodes[messageId];
+      if (!node) return;
+
+      if (node.message.role === 'user') {
+        // Resend the user turn; earlier replies stay as branches
+        patchMessage(messageId, { status: 'sending' });
+        await streamReply(messageId);
+        return;
+      }
+
+      // Regenerate an assistant turn as a new branch beside it
+      await streamReply(node.parentId, messageId);
+    },
+    [patchMessage, streamReply]
+  );
+
+  const edit = useCallback(
+    async (messageId: string, content: string) => {
+      const node = treeRef.current.nodes[messageId];
+      if (!node) return;
+
+      const editedAt = new Date().toISOString();
+      if (node.message.role !== 'user') {
+        patchMessage(messageId, { content, isEdited: true, editedAt });
+        return;
+      }
+
+      // The edited turn is a new branch; the original and its answers are kept
+      const editedId = generateId();
+      commit((prev) =>
+        addBranch(prev, messageId, {
+          ...node.message,
+          id: editedId,
+          content,
+          isEdited: true,
+          editedAt,
+          timestamp: editedAt,
+          status: 'sending',
+        })
+      );
+      await streamReply(editedId);
+    },
+    [generateId, commit, patchMessage, streamReply]
+  );
+
+  const remove = useCallback(
+    (messageId: string) => {
+      commit((prev) => removeMessage(prev, messageId));
+    },
+    [commit]
+  );
+
+  const switchBranch = useCallback(
+    (messageId: string, index: number) => {
+      commit((prev) => selectBranch(prev, messageId, index));
+    },
+    [commit]
+  );
+
+  const setMessages = useCallback(
+    (next: MessageProps[]) => {
+      stop();
+      commit(() => createConversationTree(next));
+    },
+    [commit, stop]
+  );
+
+  const setTree = useCallback(
+    (next: ConversationTree) => {
+      stop();
+      commit(() => next);
+    },
+    [commit, stop]
+  );
+
+  const handleMessageAction = useCallback(
+    (messageId: string, action: string) => {
+      if (action === 'retry') {
+        retry(messageId);
+      } else if (action === 'delete') {
+        remove(messageId);
+      } else if (action.startsWith('edit:')) {
+        edit(messageId, action.slice('edit:'.length));
+      } else if (action.startsWith('branch:')) {
+        switchBranch(messageId, Number(action.slice('branch:'.length)));
+      }
+    },
+    [retry, remove, edit, switchBranch]
+  );
+
+  // Bound callbacks read the latest actions through a ref, so a message keeps
+  // its bound object (and its row stays memoised) until the message changes
+  const actionsRef = useRef({ retry, edit, remove, switchBranch });
+  actionsRef.current = { retry, edit, remove, switchBranch };
+  const boundCacheRef = useRef(new WeakMap<StoredMessage, MessageProps>());
+
+  const boundMessages = useMemo(
+    () =>
+      getActiveMessages(tree).map((message) => {
+        const stored = tree.nodes[message.id].message;
+        const cached = boundCacheRef.current.get(stored);
+        if (cached && cached.branch?.index === message.branch?.index && cached.branch?.count === message.branch?.count) {
+          return cached;
+        }
+
+        const bound: MessageProps = {
+          ...message,
+          allowRegenerate: true,
+          onRetry: () => {
+            actionsRef.current.retry(message.id);
+          },
+          onEdit: (content: string) => {
+            actionsRef.current.edit(message.id, content);
+          },
+          onDelete: () => actionsRef.current.remove(message.id),
+          onBranchChange: (index: number) => actionsRef.current.switchBranch(message.id, index),
+        };
+        boundCacheRef.current.set(stored, bound);
+        return bound;
+      }),
+    [tree]
+  );
+
+  return {
+    messages: boundMessages,
+    tree,
+    status,
+    error,
+    send,
+    retry,
+    edit,
+    remove,
+    switchBranch,
+    stop,
+    setMessages,
+    setTree,
+    handleMessageAction,
+  };
+}
+
+/**
+ * In-memory fake model that echoes the last user message word by word.
+ * Useful for demos and tests that should not hit a network.
+ */
+export function createEchoTransport(delayMs: number = 30): ChatTransport {
+  return {
+    async *send({ messages, signal }) {
+      const lastUser = [...messages].reverse().find((m) => m.role === 'user');
+      const reply = lastUser ? `You said: ${lastUser.content}` : 'Hello!';
+
+      for (const word of reply.split(/(\s+)/)) {
+        if (signal.aborted) return;
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+        yield word;
+      }
+    },
+  };
+}
@@ -0,0 +1,109 @@
+import React from 'react';
+import { View, StyleSheet, Text as RNText, TouchableOpacity } from 'react-native';
+import { useTheme } from '../../../design-system';
+import { NodeGroup } from './types';
+import { GROUP_HEADER_HEIGHT } from './groups';
+
+export interface WorkflowGroupProps {
+  group: NodeGroup;
+  selected?: boolean;
+  /** Tapping the label bar */
+  onPress?: () => void;
+  onToggleCollapsed?: () => void;
+  /** Pressing the label bar starts dragging the members */
+  onDragStart?: () => void;
+  testID?: string;
+}
+
+/**
+ * Workflow Group Component - Container drawn behind the members of a NodeGroup
+ * Position and size are in world coordinates, usually from `fitGroups`
+ *
+ * @example
+ * ```tsx
+ * <WorkflowGroup
+ *   group={group}
+ *   onToggleCollapsed={() => setGroupCollapsed(graph, group.id, !group.collapsed)}
+ * />
+ * ```
+ */
+export function WorkflowGroup({
+  group,
+  selected = false,
+  onPress,
+  onToggleCollapsed,
+  onDragStart,
+  testID,
+}: WorkflowGroupProps) {
+  const theme = useTheme();
+  const borderColor = selected ? theme.colors.primary.rgb : theme.colors.border.rgb;
+
+  return (
+    <View
+      pointerEvents="box-none"
+      style={[
+        styles.container,
+        {
+          left: group.position.x,
+          top: group.position.y,
+          width: group.size.width,
+          height: group.size.height,
+          borderColor,
+          borderWidth: selected ? 2 : 1,
+        },
+        group.style,
+      ]}
+      testID={testID}
+    >
+      <TouchableOpacity
+        onPress={onPress}
+        onPressIn={onDragStart}
+        activeOpacity={0.8}
+        style={[styles.header, { borderBottomColor: borderColor }]}
+      >
+        <TouchableOpacity
+          onPress={onToggleCollapsed}
+          hitSlop={8}
+          accessibilityRole="button"
+          accessibilityLabel={group.collapsed ? `Expand ${group.label}` : `Collapse ${group.label}`}
+        >
+          <RNText style={[styles.toggle, { color: theme.colors.mutedForeground.rgb }]}>
+            {group.collapsed ? '▸' : '▾'}
+          </RNText>
+        </TouchableOpacity>
+        <RNText style={[styles.label, { color: theme.colors.foreground.rgb }]} numberOfLines={1}>
+          {group.label}
+        </RNText>
+        <RNText style={[styles.count, { color: theme.colors.mutedForeground.rgb }]}>{group.nodeIds.length}</RNText>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    borderRadius: 12,
+    borderStyle: 'dashed',
+    backgroundColor: 'rgba(107, 114, 128, 0.06)',
+  },
+  header: {
+    height: GROUP_HEADER_HEIGHT,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  toggle: {
+    fontSize: 12,
+  },
+  label: {
+    flex: 1,
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  count: {
+    fontSize: 11,
+  },
+});
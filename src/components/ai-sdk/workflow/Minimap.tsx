@@ -0,0 +1,143 @@
+import React from 'react';
+import { View, StyleSheet, Text as RNText, TouchableOpacity, Pressable, GestureResponderEvent } from 'react-native';
+import Svg, { Rect } from 'react-native-svg';
+import { useTheme } from '../../../design-system';
+import { NodeData, Position } from './types';
+import { Viewport, getNodesBounds, screenToWorld } from './viewport';
+import { nodeTypeConfig } from './Node';
+
+export interface WorkflowMinimapProps {
+  nodes: NodeData[];
+  viewport: Viewport;
+  /** Size of the canvas the viewport is shown in */
+  canvasWidth: number;
+  canvasHeight: number;
+  width?: number;
+  height?: number;
+  collapsed?: boolean;
+  onToggle?: () => void;
+  /** Called with the tapped world position */
+  onJump?: (position: Position) => void;
+  testID?: string;
+}
+
+const PADDING = 8;
+
+/**
+ * Workflow Minimap - Overview of all nodes with the visible area outlined
+ * Tapping a spot recenters the canvas there
+ *
+ * @example
+ * ```tsx
+ * <WorkflowMinimap
+ *   nodes={nodes}
+ *   viewport={viewport}
+ *   canvasWidth={800}
+ *   canvasHeight={600}
+ *   onJump={position => setViewport(v => centerOn(v, position, 800, 600))}
+ * />
+ * ```
+ */
+export function WorkflowMinimap({
+  nodes,
+  viewport,
+  canvasWidth,
+  canvasHeight,
+  width = 160,
+  height = 110,
+  collapsed = false,
+  onToggle,
+  onJump,
+  testID,
+}: WorkflowMinimapProps) {
+  const theme = useTheme();
+
+  // World area covered: every node plus the visible region
+  const visible = {
+    ...screenToWorld({ x: 0, y: 0 }, viewport),
+    width: canvasWidth / viewport.zoom,
+    height: canvasHeight / viewport.zoom,
+  };
+  const nodeBounds = getNodesBounds(nodes) ?? visible;
+  const minX = Math.min(nodeBounds.x, visible.x);
+  const minY = Math.min(nodeBounds.y, visible.y);
+  const maxX = Math.max(nodeBounds.x + nodeBounds.width, visible.x + visible.width);
+  const maxY = Math.max(nodeBounds.y + nodeBounds.height, visible.y + visible.height);
+
+  const scale = Math.min((width - PADDING * 2) / (maxX - minX || 1), (height - PADDING * 2) / (maxY - minY || 1));
+  const offsetX = PADDING + ((width - PADDING * 2) - (maxX - minX) * scale) / 2;
+  const offsetY = PADDING + ((height - PADDING * 2) - (maxY - minY) * scale) / 2;
+  const toMap = (x: number, y: number) => ({ x: offsetX + (x - minX) * scale, y: offsetY + (y - minY) * scale });
+
+  const handlePress = (evt: GestureResponderEvent) => {
+    const { locationX, locationY } = evt.nativeEvent;
+    onJump?.({ x: minX + (locationX - offsetX) / scale, y: minY + (locationY - offsetY) / scale });
+  };
+
+  const visibleTopLeft = toMap(visible.x, visible.y);
+
+  return (
+    <View
+      style={[styles.container, { backgroundColor: theme.colors.card.rgb, borderColor: theme.colors.border.rgb }]}
+      testID={testID}
+    >
+      <TouchableOpacity onPress={onToggle} style={styles.header}>
+        <RNText style={[styles.headerText, { color: theme.colors.mutedForeground.rgb }]}>
+          {collapsed ? '▸' : '▾'} Map
+        </RNText>
+      </TouchableOpacity>
+
+      {!collapsed && (
+        <Pressable onPress={handlePress} accessibilityRole="adjustable" accessibilityLabel="Workflow minimap">
+          <Svg width={width} height={height} pointerEvents="none">
+            {nodes.map(node => {
+              const topLeft = toMap(node.position.x, node.position.y);
+              return (
+                <Rect
+                  key={node.id}
+                  x={topLeft.x}
+                  y={topLeft.y}
+                  width={Math.max(2, (node.size?.width || 180) * scale)}
+                  height={Math.max(2, (node.size?.height || 80) * scale)}
+                  rx={2}
+                  fill={nodeTypeConfig[node.type].color}
+                  opacity={0.8}
+                />
+              );
+            })}
+            <Rect
+              x={visibleTopLeft.x}
+              y={visibleTopLeft.y}
+              width={visible.width * scale}
+              height={visible.height * scale}
+              fill={theme.colors.primary.rgb}
+              fillOpacity={0.08}
+              stroke={theme.colors.primary.rgb}
+              strokeWidth={1}
+            />
+          </Svg>
+        </Pressable>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    right: 8,
+    bottom: 36,
+    borderRadius: 8,
+    borderWidth: 1,
+    overflow: 'hidden',
+    zIndex: 90,
+  },
+  header: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  headerText: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+});
@@ -16,7 +16,7 @@ export interface WorkflowNodeProps {
   testID?: string;
 }
 
-const nodeTypeConfig = {
+export const nodeTypeConfig = {
   task: { icon: '✓', label: 'Task', color: '#3B82F6', bgColor: '#3B82F615' },
   code: { icon: '</>',label: 'Code', color: '#8B5CF6', bgColor: '#8B5CF615' },
   decision: { icon: '◇', label: 'Decision', color: '#F59E0B', bgColor: '#F59E0B15' },
@@ -1,4 +1,4 @@
-import React, { useState, useRef, useCallback } from 'react';
+import React, { useState, useRef, useCallback, useEffect, useImperativeHandle, forwardRef } from 'react';
 import {
   View,
   StyleSheet,
@@ -14,64 +14,206 @@ import { Host } from '../../common/SwiftUIHost';
 import { useTheme } from '../../../design-system';
 import { WorkflowNode } from './Node';
 import { WorkflowEdge } from './Edge';
+import { WorkflowGroup } from './Group';
 import {
   WorkflowData,
   NodeData,
   EdgeData,
+  NodeGroup,
   Position,
   generateId,
   getNodeCenter,
   getHandlePosition,
   isValidConnection,
-  fitView as calculateFitView,
   findNode,
 } from './types';
+import { WorkflowHandlers, WorkflowRunResult, RunWorkflowOptions, applyRunStates } from './engine';
+import { useWorkflowRunner } from './useWorkflowRunner';
+import { LayoutDirection, LayoutOptions, computeLayout, interpolatePositions, findFreePosition } from './layout';
+import { WorkflowChange, WorkflowGraph, useWorkflowHistory } from './history';
+import { WorkflowFormat, importWorkflow as parseWorkflowSource, exportWorkflow as formatWorkflow } from './formats';
+import { WorkflowMinimap } from './Minimap';
+import {
+  createGroup,
+  removeGroup,
+  setGroupCollapsed,
+  fitGroups,
+  collapseGroups,
+  expandGroupSelection,
+  getSummaryGroupId,
+  isGroupSummaryId,
+} from './groups';
+import {
+  WorkflowSelection,
+  WorkflowClipboard,
+  emptySelection,
+  isSelectionEmpty,
+  sameSelection,
+  toggleSelection,
+  pruneSelection,
+  rectFromPoints,
+  selectInRect,
+  copySelection,
+  pasteClipboard,
+  removeSelection,
+  moveNodes,
+} from './selection';
+import {
+  Viewport,
+  clampZoom,
+  zoomAtPoint,
+  centerOn,
+  fitNodes,
+  screenToWorld,
+  getTouchCenter,
+  getTouchDistance,
+} from './viewport';
 
 export interface WorkflowPlannerProps {
   initialWorkflow?: WorkflowData;
   editable?: boolean;
-  onWorkflowChange?: (workflow: WorkflowData) => void;
+  /** Called after every edit, undo and redo with the command that caused it */
+  onWorkflowChange?: (workflow: WorkflowData, change?: WorkflowChange) => void;
+  /** Called when undo/redo availability changes */
+  onHistoryChange?: (state: { canUndo: boolean; canRedo: boolean }) => void;
+  /** Maximum number of undo steps kept */
+  historyDepth?: number;
   onNodeSelect?: (nodeId: string | null) => void;
   onEdgeSelect?: (edgeId: string | null) => void;
+  /** Called whenever the set of selected nodes and edges changes */
+  onSelectionChange?: (selection: WorkflowSelection) => void;
   containerWidth?: number;
   containerHeight?: number;
+  /** Node handlers; when provided the toolbar shows Run/Stop and a run log */
+  handlers?: WorkflowHandlers;
+  runOptions?: Pick<RunWorkflowOptions, 'nodeTimeoutMs'>;
+  onRunComplete?: (result: WorkflowRunResult) => void;
+  /** Options for the toolbar auto-layout action */
+  layoutOptions?: LayoutOptions;
+  /** Duration of the auto-layout animation in ms */
+  layoutAnimationDuration?: number;
+  minZoom?: number;
+  maxZoom?: number;
+  /** Show the minimap overlay */
+  showMinimap?: boolean;
+  /** Start with the minimap collapsed */
+  minimapCollapsed?: boolean;
   testID?: string;
 }
 
+const DOUBLE_TAP_DELAY = 300;
+const DOUBLE_TAP_SLOP = 30;
+const TAP_SLOP = 5;
+const PASTE_OFFSET = 40;
+
+/**
+ * Imperative API exposed through `ref`
+ */
+export interface WorkflowPlannerHandle {
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  clearHistory: () => void;
+  getWorkflow: () => WorkflowData;
+  autoLayout: (direction?: LayoutDirection) => void;
+  /** Replace the graph with one parsed from JSON, Mermaid or DOT (undoable) */
+  importWorkflow: (source: string, format?: WorkflowFormat) => WorkflowData;
+  exportWorkflow: (format: WorkflowFormat) => string;
+  getSelection: () => WorkflowSelection;
+  setSelection: (selection: WorkflowSelection) => void;
+  selectAll: () => void;
+  copySelection: () => void;
+  paste: () => void;
+  duplicateSelection: () => void;
+  deleteSelection: () => void;
+  /** Put the selected nodes into a new group; returns it, or null with fewer than two nodes */
+  groupSelection: (label?: string) => NodeGroup | null;
+  ungroup: (groupId: string) => void;
+  setGroupCollapsed: (groupId: string, collapsed: boolean) => void;
+  fitView: () => void;
+  zoomTo: (zoom: number) => void;
+}
+
 /**
  * WorkflowPlanner - Interactive workflow editor component
  * Full drag-drop, pan-zoom, connect nodes functionality
+ *
+ * @example
+ * ```tsx
+ * const planner = useRef<WorkflowPlannerHandle>(null);
+ *
+ * <WorkflowPlanner ref={planner} initialWorkflow={exampleWorkflow} historyDepth={50} />
+ * <Button title="Undo" onPress={() => planner.current?.undo()} />
+ * ```
  */
-export const WorkflowPlanner = React.memo(function WorkflowPlanner({
+export const WorkflowPlanner = React.memo(forwardRef<WorkflowPlannerHandle, WorkflowPlannerProps>(function WorkflowPlanner({
   initialWorkflow,
   editable = true,
   onWorkflowChange,
+  onHistoryChange,
+  historyDepth = 100,
   onNodeSelect,
   onEdgeSelect,
+  onSelectionChange,
   containerWidth = 800,
   containerHeight = 600,
+  handlers,
+  runOptions,
+  onRunComplete,
+  layoutOptions,
+  layoutAnimationDuration = 300,
+  minZoom = 0.25,
+  maxZoom = 3,
+  showMinimap = true,
+  minimapCollapsed = false,
   testID,
-}: WorkflowPlannerProps) {
+}, ref) {
   const theme = useTheme();
 
-  // Workflow state
-  const [nodes, setNodes] = useState<NodeData[]>(initialWorkflow?.nodes || []);
-  const [edges, setEdges] = useState<EdgeData[]>(initialWorkflow?.edges || []);
-  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
-  const [selectedEdgeId, setSelectedEdgeId] = useState<string | null>(null);
+  // Workflow state with undo/redo history
+  const history = useWorkflowHistory(
+    { nodes: initialWorkflow?.nodes || [], edges: initialWorkflow?.edges || [], groups: initialWorkflow?.groups || [] },
+    { maxDepth: historyDepth }
+  );
+  const { nodes, edges, groups = [] } = history;
+  // Collapsed groups show as a single summary node
+  const visible = collapseGroups({ nodes, edges, groups });
+
+  // Selection state
+  const [selection, setSelectionState] = useState<WorkflowSelection>(emptySelection);
+  const selectionRef = useRef(selection);
+  const clipboard = useRef<WorkflowClipboard | null>(null);
+  const [hasClipboard, setHasClipboard] = useState(false);
+  // In select mode dragging the canvas draws a marquee instead of panning
+  const [selectMode, setSelectMode] = useState(false);
+  const [marquee, setMarquee] = useState<{ start: Position; end: Position } | null>(null);
+  const marqueeStart = useRef<Position | null>(null);
 
   // Viewport state (pan/zoom)
-  const [viewport, setViewport] = useState({
+  const zoomLimits = { minZoom, maxZoom };
+  const [viewport, setViewport] = useState<Viewport>({
     x: initialWorkflow?.viewport?.x || 0,
     y: initialWorkflow?.viewport?.y || 0,
-    zoom: initialWorkflow?.viewport?.zoom || 1,
+    zoom: clampZoom(initialWorkflow?.viewport?.zoom || 1, zoomLimits),
   });
+  const [isMinimapCollapsed, setMinimapCollapsed] = useState(minimapCollapsed);
+
+  // Gesture state for pinch zoom and double tap, in canvas coordinates
+  const canvasRef = useRef<View>(null);
+  const canvasOrigin = useRef<Position>({ x: 0, y: 0 });
+  const pinch = useRef<{ distance: number; world: Position; zoom: number } | null>(null);
+  const lastTap = useRef<{ time: number; point: Position } | null>(null);
 
   // Drag state
   const [draggingNodeId, setDraggingNodeId] = useState<string | null>(null);
   const dragStartPos = useRef<Position>({ x: 0, y: 0 });
   const nodeDragOffset = useRef<Position>({ x: 0, y: 0 });
-  const initialNodePosition = useRef<Position>({ x: 0, y: 0 });
+  // Start positions of every node moving with the current drag
+  const dragOrigins = useRef<Record<string, Position>>({});
+  // Each drag gets its own key so its moves coalesce into one history entry
+  const dragSession = useRef<string | null>(null);
+  const dragChange = useRef<WorkflowChange | null>(null);
   const initialViewportPosition = useRef<Position>({ x: 0, y: 0 });
 
   // Connection state
@@ -81,68 +223,177 @@ export const WorkflowPlanner = React.memo(function WorkflowPlanner({
   } | null>(null);
   const [connectionEnd, setConnectionEnd] = useState<Position | null>(null);
 
-  // Pan responder for canvas
-  const panResponder = useRef(
-    PanResponder.create({
-      onStartShouldSetPanResponder: () => true,
-      onMoveShouldSetPanResponder: () => true,
-      onPanResponderGrant: (evt: GestureResponderEvent) => {
-        const { locationX, locationY } = evt.nativeEvent;
-        dragStartPos.current = { x: locationX, y: locationY };
-        initialViewportPosition.current = { x: viewport.x, y: viewport.y };
-      },
-      onPanResponderMove: (evt: GestureResponderEvent, gestureState: PanResponderGestureState) => {
-        if (!editable) return;
-
-        if (draggingNodeId) {
-          // Node dragging - use initial position plus delta
-          const newX = initialNodePosition.current.x + gestureState.dx / viewport.zoom;
-          const newY = initialNodePosition.current.y + gestureState.dy / viewport.zoom;
-          updateNodePosition(draggingNodeId, { x: newX, y: newY });
-        } else if (connecting) {
-          // Connection dragging
-          const { locationX, locationY } = evt.nativeEvent;
-          setConnectionEnd({
-            x: (locationX - viewport.x) / viewport.zoom,
-            y: (locationY - viewport.y) / viewport.zoom,
-          });
+  // Run state
+  const runner = useWorkflowRunner(handlers ?? {}, runOptions);
+  const [showRunLog, setShowRunLog] = useState(false);
+  const displayNodes = applyRunStates(visible.nodes, runner.nodeStates);
+
+  // Layout state
+  const [layoutDirection, setLayoutDirection] = useState<LayoutDirection>(layoutOptions?.direction ?? 'TB');
+  const layoutFrame = useRef<number | null>(null);
+
+  useEffect(() => () => {
+    if (layoutFrame.current !== null) cancelAnimationFrame(layoutFrame.current);
+  }, []);
+
+  // Gesture handlers are replaced every render so the responder, created
+  // once, always acts on current state
+  const gestureHandlers = useRef({
+    grant: (_evt: GestureResponderEvent) => {},
+    move: (_evt: GestureResponderEvent, _gestureState: PanResponderGestureState) => {},
+    release: (_evt: GestureResponderEvent, _gestureState: PanResponderGestureState) => {},
+  });
+
+  gestureHandlers.current = {
+    grant: (evt: GestureResponderEvent) => {
+      const { locationX, locationY, pageX, pageY, touches } = evt.nativeEvent;
+      dragStartPos.current = { x: locationX, y: locationY };
+      initialViewportPosition.current = { x: viewport.x, y: viewport.y };
+      pinch.current = null;
+
+      // Double tap zooms in around the tap; at max zoom it fits the graph instead
+      const point = toCanvasPoint(pageX, pageY);
+      const now = Date.now();
+      const previous = lastTap.current;
+      if (
+        touches.length <= 1 &&
+        previous &&
+        now - previous.time < DOUBLE_TAP_DELAY &&
+        Math.hypot(point.x - previous.point.x, point.y - previous.point.y) < DOUBLE_TAP_SLOP
+      ) {
+        lastTap.current = null;
+        if (viewport.zoom < maxZoom) {
+          setViewport(zoomAtPoint(viewport, viewport.zoom * 2, point, zoomLimits));
         } else {
-          // Canvas panning - use initial viewport position plus delta
-          setViewport(prev => ({
-            ...prev,
-            x: initialViewportPosition.current.x + gestureState.dx,
-            y: initialViewportPosition.current.y + gestureState.dy,
-          }));
+          fitView();
         }
-      },
-      onPanResponderRelease: () => {
-        if (draggingNodeId) {
-          setDraggingNodeId(null);
-          emitWorkflowChange();
+        return;
+      }
+      lastTap.current = { time: now, point };
+
+      if (selectMode && editable && !draggingNodeId && !connecting) {
+        marqueeStart.current = point;
+        setMarquee({ start: point, end: point });
+      }
+    },
+    move: (evt: GestureResponderEvent, gestureState: PanResponderGestureState) => {
+      const { touches } = evt.nativeEvent;
+
+      // Two fingers: zoom around the focal point, which also pans as it moves
+      if (touches.length >= 2) {
+        const [a, b] = touches;
+        const focal = getTouchCenter(a, b);
+        const center = toCanvasPoint(focal.x, focal.y);
+        const distance = getTouchDistance(a, b);
+        if (!pinch.current) {
+          pinch.current = { distance, world: screenToWorld(center, viewport), zoom: viewport.zoom };
+          lastTap.current = null;
+        }
+        const zoom = clampZoom((pinch.current.zoom * distance) / (pinch.current.distance || 1), zoomLimits);
+        setViewport({
+          x: center.x - pinch.current.world.x * zoom,
+          y: center.y - pinch.current.world.y * zoom,
+          zoom,
+        });
+        return;
+      }
+      // Ignore the finger left over from a pinch until it lifts
+      if (pinch.current) return;
+
+      if (!editable) return;
+
+      if (draggingNodeId) {
+        // Node dragging - selected nodes move together from their start positions
+        moveDraggedNodes({ x: gestureState.dx / viewport.zoom, y: gestureState.dy / viewport.zoom });
+      } else if (marqueeStart.current) {
+        setMarquee({ start: marqueeStart.current, end: toCanvasPoint(gestureState.moveX, gestureState.moveY) });
+      } else if (connecting) {
+        // Connection dragging
+        const { locationX, locationY } = evt.nativeEvent;
+        setConnectionEnd({
+          x: (locationX - viewport.x) / viewport.zoom,
+          y: (locationY - viewport.y) / viewport.zoom,
+        });
+      } else {
+        // Canvas panning - use initial viewport position plus delta
+        setViewport(prev => ({
+          ...prev,
+          x: initialViewportPosition.current.x + gestureState.dx,
+          y: initialViewportPosition.current.y + gestureState.dy,
+        }));
+      }
+    },
+    release: (_evt: GestureResponderEvent, gestureState: PanResponderGestureState) => {
+      const wasPinching = pinch.current !== null;
+      pinch.current = null;
+      if (marqueeStart.current) {
+        const rect = rectFromPoints(
+          screenToWorld(marqueeStart.current, viewport),
+          screenToWorld(toCanvasPoint(gestureState.moveX, gestureState.moveY), viewport)
+        );
+        marqueeStart.current = null;
+        setMarquee(null);
+        updateSelection(selectInRect(collapseGroups(history.getGraph()), rect));
+        return;
+      }
+      // A tap on empty canvas clears the selection
+      if (
+        !draggingNodeId &&
+        !connecting &&
+        !wasPinching &&
+        Math.abs(gestureState.dx) < TAP_SLOP &&
+        Math.abs(gestureState.dy) < TAP_SLOP
+      ) {
+        updateSelection(emptySelection);
+      }
+      if (draggingNodeId) {
+        setDraggingNodeId(null);
+        if (dragChange.current) {
+          emitWorkflowChange(history.getGraph(), dragChange.current);
         }
-        if (connecting && connectionEnd) {
-          // Try to complete connection by finding nearby target handle
-          const targetNode = findNearestNodeHandle(connectionEnd, nodes, connecting.sourceNodeId);
-          if (targetNode) {
-            const newEdge: EdgeData = {
-              id: generateId('edge'),
-              type: 'bezier',
-              source: connecting.sourceNodeId,
-              target: targetNode.nodeId,
-              sourceHandle: connecting.sourceHandle,
-              targetHandle: targetNode.handle,
-              markerEnd: 'arrowClosed',
-            };
-
-            if (isValidConnection(newEdge, nodes, edges)) {
-              setEdges(prev => [...prev, newEdge]);
-              emitWorkflowChange();
-            }
+        dragSession.current = null;
+        dragChange.current = null;
+      }
+      if (connecting && connectionEnd) {
+        // Try to complete connection by finding nearby target handle
+        const targetNode = findNearestNodeHandle(
+          connectionEnd,
+          visible.nodes.filter(node => !isGroupSummaryId(node.id)),
+          connecting.sourceNodeId
+        );
+        if (targetNode) {
+          const newEdge: EdgeData = {
+            id: generateId('edge'),
+            type: 'bezier',
+            source: connecting.sourceNodeId,
+            target: targetNode.nodeId,
+            sourceHandle: connecting.sourceHandle,
+            targetHandle: targetNode.handle,
+            markerEnd: 'arrowClosed',
+          };
+
+          if (isValidConnection(edges, newEdge.source, newEdge.target)) {
+            const { graph, change } = history.execute('addEdge', 'Connect nodes', current => ({
+              ...current,
+              edges: [...current.edges, newEdge],
+            }));
+            emitWorkflowChange(graph, change);
           }
-          setConnecting(null);
-          setConnectionEnd(null);
         }
-      },
+        setConnecting(null);
+        setConnectionEnd(null);
+      }
+    },
+  };
+
+  // Pan responder for canvas
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderGrant: evt => gestureHandlers.current.grant(evt),
+      onPanResponderMove: (evt, gestureState) => gestureHandlers.current.move(evt, gestureState),
+      onPanResponderRelease: (evt, gestureState) => gestureHandlers.current.release(evt, gestureState),
     })
   ).current;
 
@@ -173,81 +424,341 @@ export const WorkflowPlanner = React.memo(function WorkflowPlanner({
     return null;
   };
 
-  const updateNodePosition = (nodeId: string, position: Position) => {
-    setNodes(prev =>
-      prev.map(node =>
-        node.id === nodeId ? { ...node, position } : node
-      )
+  const moveDraggedNodes = (delta: Position) => {
+    const count = Object.keys(dragOrigins.current).length;
+    const { change } = history.execute(
+      'moveNode',
+      count > 1 ? `Move ${count} nodes` : 'Move node',
+      current => ({ ...current, nodes: moveNodes(current.nodes, dragOrigins.current, delta) }),
+      { coalesceKey: dragSession.current ?? undefined }
+    );
+    dragChange.current = change;
+  };
+
+  const startDrag = (dragId: string, nodeIds: string[]) => {
+    setDraggingNodeId(dragId);
+    dragSession.current = generateId('drag');
+    dragChange.current = null;
+    dragOrigins.current = Object.fromEntries(
+      history.getGraph().nodes.filter(node => nodeIds.includes(node.id)).map(node => [node.id, node.position])
     );
   };
 
+  const startNodeDrag = (nodeId: string) => {
+    // Dragging a selected node drags the whole selection; a summary node drags its group
+    const current = selectionRef.current;
+    const dragged = current.nodeIds.includes(nodeId) ? current : { nodeIds: [nodeId], edgeIds: [] };
+    startDrag(nodeId, getSelectedNodeIds(dragged));
+  };
+
+  /** Real node ids in a selection, with summary nodes expanded to their members */
+  const getSelectedNodeIds = (from: WorkflowSelection = selectionRef.current) =>
+    expandGroupSelection(from, history.getGraph().groups ?? []).nodeIds;
+
+  const updateSelection = (next: WorkflowSelection) => {
+    const previous = selectionRef.current;
+    if (sameSelection(previous, next)) return;
+    selectionRef.current = next;
+    setSelectionState(next);
+    onSelectionChange?.(next);
+
+    const lastNode = next.nodeIds[next.nodeIds.length - 1] ?? null;
+    const lastEdge = next.edgeIds[next.edgeIds.length - 1] ?? null;
+    if (lastNode !== (previous.nodeIds[previous.nodeIds.length - 1] ?? null)) onNodeSelect?.(lastNode);
+    if (lastEdge !== (previous.edgeIds[previous.edgeIds.length - 1] ?? null)) onEdgeSelect?.(lastEdge);
+  };
+
   const selectNode = (nodeId: string | null) => {
-    setSelectedNodeId(nodeId);
-    setSelectedEdgeId(null);
-    onNodeSelect?.(nodeId);
+    updateSelection(nodeId ? { nodeIds: [nodeId], edgeIds: [] } : emptySelection);
   };
 
   const selectEdge = (edgeId: string | null) => {
-    setSelectedEdgeId(edgeId);
-    setSelectedNodeId(null);
-    onEdgeSelect?.(edgeId);
+    updateSelection(edgeId ? { nodeIds: [], edgeIds: [edgeId] } : emptySelection);
+  };
+
+  const toggleSelected = (item: { nodeId?: string; edgeId?: string }) => {
+    updateSelection(toggleSelection(selectionRef.current, item));
+  };
+
+  const selectAll = () => {
+    const graph = collapseGroups(history.getGraph());
+    updateSelection({ nodeIds: graph.nodes.map(n => n.id), edgeIds: graph.edges.map(e => e.id) });
   };
 
   const addNode = (type: NodeData['type']) => {
     const newNode: NodeData = {
       id: generateId('node'),
       type,
-      position: {
+      position: findFreePosition(nodes, {
         x: (containerWidth / 2 - viewport.x) / viewport.zoom - 90,
         y: (containerHeight / 2 - viewport.y) / viewport.zoom - 30,
-      },
+      }),
       data: {
         label: `New ${type.charAt(0).toUpperCase() + type.slice(1)}`,
         status: 'idle',
       },
     };
-    setNodes(prev => [...prev, newNode]);
+    const { graph, change } = history.execute('addNode', `Add ${type}`, current => ({
+      ...current,
+      nodes: [...current.nodes, newNode],
+    }));
     selectNode(newNode.id);
-    emitWorkflowChange();
+    emitWorkflowChange(graph, change);
   };
 
   const deleteSelected = () => {
-    if (selectedNodeId) {
-      setNodes(prev => prev.filter(n => n.id !== selectedNodeId));
-      setEdges(prev => prev.filter(e => e.source !== selectedNodeId && e.target !== selectedNodeId));
-      setSelectedNodeId(null);
-    } else if (selectedEdgeId) {
-      setEdges(prev => prev.filter(e => e.id !== selectedEdgeId));
-      setSelectedEdgeId(null);
+    const current = expandGroupSelection(selectionRef.current, history.getGraph().groups ?? []);
+    if (isSelectionEmpty(current)) return;
+
+    const count = current.nodeIds.length + current.edgeIds.length;
+    const type =
+      count > 1 ? 'delete' : current.nodeIds.length === 1 ? 'deleteNode' : 'deleteEdge';
+    const label =
+      count > 1 ? `Delete ${count} items` : current.nodeIds.length === 1 ? 'Delete node' : 'Delete edge';
+    const { graph, change } = history.execute(type, label, graph => removeSelection(graph, current));
+    updateSelection(emptySelection);
+    emitWorkflowChange(graph, change);
+  };
+
+  const copySelected = () => {
+    const nodeIds = getSelectedNodeIds();
+    if (nodeIds.length === 0) return;
+    clipboard.current = copySelection(history.getGraph(), { nodeIds, edgeIds: [] });
+    setHasClipboard(true);
+  };
+
+  const pasteFromClipboard = (type: 'paste' | 'duplicate' = 'paste') => {
+    const copied = clipboard.current;
+    if (!copied || copied.nodes.length === 0) return;
+
+    let pasted = emptySelection;
+    const { graph, change } = history.execute(
+      type,
+      `${type === 'paste' ? 'Paste' : 'Duplicate'} ${copied.nodes.length} node${copied.nodes.length > 1 ? 's' : ''}`,
+      current => {
+        const result = pasteClipboard(current, copied, { x: PASTE_OFFSET, y: PASTE_OFFSET });
+        pasted = result.selection;
+        return result.graph;
+      }
+    );
+    // Repeated pastes cascade instead of stacking on one spot
+    clipboard.current = {
+      ...copied,
+      nodes: copied.nodes.map(node => ({
+        ...node,
+        position: { x: node.position.x + PASTE_OFFSET, y: node.position.y + PASTE_OFFSET },
+      })),
+    };
+    updateSelection(pasted);
+    emitWorkflowChange(graph, change);
+  };
+
+  const duplicateSelected = () => {
+    const nodeIds = getSelectedNodeIds();
+    if (nodeIds.length === 0) return;
+    const previous = clipboard.current;
+    clipboard.current = copySelection(history.getGraph(), { nodeIds, edgeIds: [] });
+    pasteFromClipboard('duplicate');
+    clipboard.current = previous;
+  };
+
+  const groupSelected = (label?: string): NodeGroup | null => {
+    const nodeIds = getSelectedNodeIds();
+    if (nodeIds.length < 2) return null;
+
+    let created: NodeGroup | null = null;
+    const { graph, change } = history.execute('group', 'Group nodes', current => {
+      const result = createGroup(current, nodeIds, label ?? `Group ${(current.groups?.length ?? 0) + 1}`);
+      created = result.group;
+      return result.graph;
+    });
+    updateSelection({ nodeIds, edgeIds: [] });
+    emitWorkflowChange(graph, change);
+    return created;
+  };
+
+  const ungroup = (groupId: string) => {
+    const group = history.getGraph().groups?.find(g => g.id === groupId);
+    if (!group) return;
+    const { graph, change } = history.execute('ungroup', `Ungroup ${group.label}`, current =>
+      removeGroup(current, groupId)
+    );
+    updateSelection({ nodeIds: group.nodeIds, edgeIds: [] });
+    emitWorkflowChange(graph, change);
+  };
+
+  const ungroupSelected = () => {
+    const nodeIds = getSelectedNodeIds();
+    const groupIds = new Set(
+      history.getGraph().nodes.flatMap(node => (nodeIds.includes(node.id) && node.groupId ? [node.groupId] : []))
+    );
+    groupIds.forEach(ungroup);
+  };
+
+  const toggleGroupCollapsed = (groupId: string, collapsed?: boolean) => {
+    const group = history.getGraph().groups?.find(g => g.id === groupId);
+    if (!group) return;
+    const next = collapsed ?? !group.collapsed;
+    if (next === !!group.collapsed) return;
+    const { graph, change } = history.execute(
+      'toggleGroup',
+      `${next ? 'Collapse' : 'Expand'} ${group.label}`,
+      current => setGroupCollapsed(current, groupId, next)
+    );
+    updateSelection(emptySelection);
+    emitWorkflowChange(graph, change);
+  };
+
+  const applyHistoryStep = (step: { graph: WorkflowGraph; change: WorkflowChange } | null) => {
+    if (!step) return;
+    if (layoutFrame.current !== null) {
+      cancelAnimationFrame(layoutFrame.current);
+      layoutFrame.current = null;
     }
-    emitWorkflowChange();
+    // Drop selection that no longer exists after the step
+    updateSelection(pruneSelection(selectionRef.current, collapseGroups(step.graph)));
+    emitWorkflowChange(step.graph, step.change);
+  };
+
+  const undo = () => applyHistoryStep(history.undo());
+  const redo = () => applyHistoryStep(history.redo());
+
+  const toCanvasPoint = (pageX: number, pageY: number): Position => ({
+    x: pageX - canvasOrigin.current.x,
+    y: pageY - canvasOrigin.current.y,
+  });
+
+  const measureCanvas = () => {
+    canvasRef.current?.measureInWindow((x, y) => {
+      canvasOrigin.current = { x, y };
+    });
   };
 
   const fitView = () => {
-    const fitted = calculateFitView(nodes, containerWidth, containerHeight);
-    setViewport(fitted);
+    setViewport(fitNodes(history.getGraph().nodes, containerWidth, containerHeight, zoomLimits));
+  };
+
+  const jumpTo = (position: Position) => {
+    setViewport(prev => centerOn(prev, position, containerWidth, containerHeight));
+  };
+
+  const autoLayout = (direction: LayoutDirection = layoutDirection) => {
+    if (layoutFrame.current !== null) cancelAnimationFrame(layoutFrame.current);
+
+    const current = history.getGraph();
+    const from = Object.fromEntries(current.nodes.map(node => [node.id, node.position]));
+    const to = computeLayout(current.nodes, current.edges, { ...layoutOptions, direction });
+    // Animation frames coalesce into the single layout entry
+    const coalesceKey = generateId('layout');
+    setLayoutDirection(direction);
+
+    const moveTo = (positions: Record<string, Position>) =>
+      history.execute(
+        'layout',
+        'Auto layout',
+        graph => ({
+          ...graph,
+          nodes: graph.nodes.map(node => (positions[node.id] ? { ...node, position: positions[node.id] } : node)),
+        }),
+        { coalesceKey }
+      );
+
+    const finish = () => {
+      layoutFrame.current = null;
+      const { graph, change } = moveTo(to);
+      setViewport(fitNodes(graph.nodes, containerWidth, containerHeight, zoomLimits));
+      emitWorkflowChange(graph, change);
+    };
+
+    if (layoutAnimationDuration <= 0) {
+      finish();
+      return;
+    }
+
+    const startTime = Date.now();
+    const step = () => {
+      const t = (Date.now() - startTime) / layoutAnimationDuration;
+      if (t >= 1) {
+        finish();
+        return;
+      }
+      moveTo(interpolatePositions(from, to, t));
+      layoutFrame.current = requestAnimationFrame(step);
+    };
+    layoutFrame.current = requestAnimationFrame(step);
   };
 
   const zoomIn = () => {
-    setViewport(prev => ({ ...prev, zoom: Math.min(prev.zoom * 1.2, 2) }));
+    const center = { x: containerWidth / 2, y: containerHeight / 2 };
+    setViewport(prev => zoomAtPoint(prev, prev.zoom * 1.2, center, zoomLimits));
   };
 
   const zoomOut = () => {
-    setViewport(prev => ({ ...prev, zoom: Math.max(prev.zoom / 1.2, 0.5) }));
+    const center = { x: containerWidth / 2, y: containerHeight / 2 };
+    setViewport(prev => zoomAtPoint(prev, prev.zoom / 1.2, center, zoomLimits));
   };
 
-  const emitWorkflowChange = () => {
-    if (onWorkflowChange) {
-      onWorkflowChange({
-        id: initialWorkflow?.id || generateId('workflow'),
-        name: initialWorkflow?.name || 'Untitled Workflow',
-        nodes,
-        edges,
-        viewport,
-      });
-    }
+  const runWorkflow = async () => {
+    setShowRunLog(true);
+    const result = await runner.run(getWorkflow());
+    onRunComplete?.(result);
   };
 
+  const getWorkflow = (graph: WorkflowGraph = history.getGraph()): WorkflowData => ({
+    id: initialWorkflow?.id || generateId('workflow'),
+    name: initialWorkflow?.name || 'Untitled Workflow',
+    nodes: graph.nodes,
+    edges: graph.edges,
+    groups: fitGroups(graph.groups ?? [], graph.nodes),
+    viewport,
+  });
+
+  const emitWorkflowChange = (graph: WorkflowGraph, change: WorkflowChange) => {
+    onWorkflowChange?.(getWorkflow(graph), change);
+  };
+
+  useEffect(() => {
+    onHistoryChange?.({ canUndo: history.canUndo, canRedo: history.canRedo });
+  }, [history.canUndo, history.canRedo]);
+
+  useImperativeHandle(
+    ref,
+    () => ({
+      undo,
+      redo,
+      canUndo: history.canUndo,
+      canRedo: history.canRedo,
+      clearHistory: history.clear,
+      getWorkflow: () => getWorkflow(),
+      autoLayout,
+      importWorkflow: (source, format) => {
+        const imported = parseWorkflowSource(source, format);
+        const { graph, change } = history.execute('import', `Import ${imported.name}`, () => ({
+          nodes: imported.nodes,
+          edges: imported.edges,
+          groups: imported.groups ?? [],
+        }));
+        selectNode(null);
+        setViewport(imported.viewport ?? fitNodes(graph.nodes, containerWidth, containerHeight, zoomLimits));
+        emitWorkflowChange(graph, change);
+        return imported;
+      },
+      fitView,
+      zoomTo: zoom => setViewport(prev => zoomAtPoint(prev, zoom, { x: containerWidth / 2, y: containerHeight / 2 }, zoomLimits)),
+      exportWorkflow: format => formatWorkflow(getWorkflow(), format, { direction: layoutDirection }),
+      getSelection: () => selectionRef.current,
+      setSelection: next => updateSelection(pruneSelection(next, collapseGroups(history.getGraph()))),
+      selectAll,
+      copySelection: copySelected,
+      paste: () => pasteFromClipboard(),
+      duplicateSelection: duplicateSelected,
+      deleteSelection: deleteSelected,
+      groupSelection: groupSelected,
+      ungroup,
+      setGroupCollapsed: toggleGroupCollapsed,
+    })
+  );
+
   // Render connection handle
   const renderHandle = (nodeId: string, type: 'source' | 'target', position: 'top' | 'right' | 'bottom' | 'left') => {
     const handleSize = 12;
@@ -280,6 +791,8 @@ export const WorkflowPlanner = React.memo(function WorkflowPlanner({
     );
   };
 
+  const selectionInGroup = selection.nodeIds.some(id => isGroupSummaryId(id) || !!findNode(nodes, id)?.groupId);
+
   return (
     <View style={[styles.container, { width: containerWidth, height: containerHeight }]} testID={testID}>
       {/* Controls */}
@@ -298,6 +811,22 @@ export const WorkflowPlanner = React.memo(function WorkflowPlanner({
                 <RNText style={styles.controlText}>+ Decision</RNText>
               </TouchableOpacity>
 
+              {/* History Controls */}
+              <TouchableOpacity
+                onPress={undo}
+                disabled={!history.canUndo}
+                style={[styles.controlButton, !history.canUndo && styles.disabledButton]}
+              >
+                <RNText style={styles.controlText}>↶</RNText>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={redo}
+                disabled={!history.canRedo}
+                style={[styles.controlButton, !history.canRedo && styles.disabledButton]}
+              >
+                <RNText style={styles.controlText}>↷</RNText>
+              </TouchableOpacity>
+
               {/* Zoom Controls */}
               <TouchableOpacity onPress={zoomOut} style={styles.controlButton}>
                 <RNText style={styles.controlText}>−</RNText>
@@ -309,10 +838,70 @@ export const WorkflowPlanner = React.memo(function WorkflowPlanner({
                 <RNText style={styles.controlText}>Fit</RNText>
               </TouchableOpacity>
 
+              {/* Layout Controls */}
+              <TouchableOpacity onPress={() => autoLayout()} style={styles.controlButton}>
+                <RNText style={styles.controlText}>Layout</RNText>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => autoLayout(layoutDirection === 'TB' ? 'LR' : 'TB')}
+                style={styles.controlButton}
+              >
+                <RNText style={styles.controlText}>{layoutDirection === 'TB' ? '↓' : '→'}</RNText>
+              </TouchableOpacity>
+
+              {/* Run Controls */}
+              {handlers && (
+                <TouchableOpacity
+                  onPress={runner.isRunning ? runner.cancel : runWorkflow}
+                  style={[styles.controlButton, runner.isRunning ? styles.deleteButton : styles.runButton]}
+                >
+                  <RNText style={[styles.controlText, { color: '#FFFFFF' }]}>
+                    {runner.isRunning ? 'Stop' : 'Run'}
+                  </RNText>
+                </TouchableOpacity>
+              )}
+
+              {/* Selection Controls */}
+              <TouchableOpacity
+                onPress={() => setSelectMode(prev => !prev)}
+                style={[styles.controlButton, selectMode && styles.activeButton]}
+              >
+                <RNText style={[styles.controlText, selectMode && { color: '#FFFFFF' }]}>Select</RNText>
+              </TouchableOpacity>
+              {selection.nodeIds.length > 0 && (
+                <>
+                  <TouchableOpacity onPress={copySelected} style={styles.controlButton}>
+                    <RNText style={styles.controlText}>Copy</RNText>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={duplicateSelected} style={styles.controlButton}>
+                    <RNText style={styles.controlText}>Duplicate</RNText>
+                  </TouchableOpacity>
+                </>
+              )}
+              {selection.nodeIds.filter(id => !isGroupSummaryId(id)).length > 1 && (
+                <TouchableOpacity onPress={() => groupSelected()} style={styles.controlButton}>
+                  <RNText style={styles.controlText}>Group</RNText>
+                </TouchableOpacity>
+              )}
+              {selectionInGroup && (
+                <TouchableOpacity onPress={ungroupSelected} style={styles.controlButton}>
+                  <RNText style={styles.controlText}>Ungroup</RNText>
+                </TouchableOpacity>
+              )}
+              {hasClipboard && (
+                <TouchableOpacity onPress={() => pasteFromClipboard()} style={styles.controlButton}>
+                  <RNText style={styles.controlText}>Paste</RNText>
+                </TouchableOpacity>
+              )}
+
               {/* Delete */}
-              {(selectedNodeId || selectedEdgeId) && (
+              {!isSelectionEmpty(selection) && (
                 <TouchableOpacity onPress={deleteSelected} style={[styles.controlButton, styles.deleteButton]}>
-                  <RNText style={[styles.controlText, { color: '#FFFFFF' }]}>Delete</RNText>
+                  <RNText style={[styles.controlText, { color: '#FFFFFF' }]}>
+                    Delete{selection.nodeIds.length + selection.edgeIds.length > 1
+                      ? ` (${selection.nodeIds.length + selection.edgeIds.length})`
+                      : ''}
+                  </RNText>
                 </TouchableOpacity>
               )}
             </View>
@@ -322,6 +911,8 @@ export const WorkflowPlanner = React.memo(function WorkflowPlanner({
 
       {/* Canvas */}
       <View
+        ref={canvasRef}
+        onLayout={measureCanvas}
         style={[styles.canvas, { backgroundColor: theme.colors.background.rgb }]}
         {...panResponder.panHandlers}
       >
@@ -355,17 +946,33 @@ export const WorkflowPlanner = React.memo(function WorkflowPlanner({
                 { translateY: viewport.y },
                 { scale: viewport.zoom },
               ],
+              // Scale from the top-left so screen = world * zoom + offset
+              transformOrigin: 'top left',
             },
           ]}
         >
+          {/* Groups */}
+          {fitGroups(groups, nodes)
+            .filter(group => !group.collapsed)
+            .map(group => (
+              <WorkflowGroup
+                key={group.id}
+                group={group}
+                selected={group.nodeIds.every(id => selection.nodeIds.includes(id))}
+                onPress={() => updateSelection({ nodeIds: group.nodeIds, edgeIds: [] })}
+                onToggleCollapsed={() => toggleGroupCollapsed(group.id)}
+                onDragStart={() => startDrag(group.id, group.nodeIds)}
+              />
+            ))}
+
           {/* Edges */}
-          {edges.map(edge => {
-            const sourceNode = findNode(nodes, edge.source);
-            const targetNode = findNode(nodes, edge.target);
+          {visible.edges.map(edge => {
+            const sourceNode = findNode(visible.nodes, edge.source);
+            const targetNode = findNode(visible.nodes, edge.target);
             if (!sourceNode || !targetNode) return null;
 
-            const sourcePos = getHandlePosition(sourceNode, 'bottom');
-            const targetPos = getHandlePosition(targetNode, 'top');
+            const sourcePos = getHandlePosition(sourceNode, layoutDirection === 'LR' ? 'right' : 'bottom');
+            const targetPos = getHandlePosition(targetNode, layoutDirection === 'LR' ? 'left' : 'top');
 
             return (
               <WorkflowEdge
@@ -373,15 +980,15 @@ export const WorkflowPlanner = React.memo(function WorkflowPlanner({
                 edge={edge}
                 sourcePosition={sourcePos}
                 targetPosition={targetPos}
-                selected={edge.id === selectedEdgeId}
-                onPress={() => selectEdge(edge.id)}
+                selected={selection.edgeIds.includes(edge.id)}
+                onPress={() => (selectMode ? toggleSelected({ edgeId: edge.id }) : selectEdge(edge.id))}
               />
             );
           })}
 
           {/* Active Connection Line */}
           {connecting && connectionEnd && (() => {
-            const sourceNode = findNode(nodes, connecting.sourceNodeId);
+            const sourceNode = findNode(visible.nodes, connecting.sourceNodeId);
             if (!sourceNode) return null;
 
             const sourcePos = getHandlePosition(sourceNode, connecting.sourceHandle as any);
@@ -405,22 +1012,93 @@ export const WorkflowPlanner = React.memo(function WorkflowPlanner({
           })()}
 
           {/* Nodes */}
-          {nodes.map(node => (
-            <WorkflowNode
-              key={node.id}
-              node={node}
-              selected={node.id === selectedNodeId}
-              onPress={() => selectNode(node.id)}
-              onDragStart={() => {
-                setDraggingNodeId(node.id);
-                initialNodePosition.current = { ...node.position };
-              }}
-              renderHandle={(type, position) => renderHandle(node.id, type, position)}
-            />
-          ))}
+          {displayNodes.map(node => {
+            const summaryOf = getSummaryGroupId(node.id);
+            return (
+              <WorkflowNode
+                key={node.id}
+                node={node}
+                selected={selection.nodeIds.includes(node.id)}
+                onPress={() => (selectMode ? toggleSelected({ nodeId: node.id }) : selectNode(node.id))}
+                // Long-press expands a collapsed group instead of toggling selection
+                onLongPress={() =>
+                  summaryOf ? toggleGroupCollapsed(summaryOf, false) : toggleSelected({ nodeId: node.id })
+                }
+                onDragStart={() => startNodeDrag(node.id)}
+                renderHandle={summaryOf ? undefined : (type, position) => renderHandle(node.id, type, position)}
+              />
+            );
+          })}
         </View>
+
+        {/* Marquee */}
+        {marquee && (() => {
+          const rect = rectFromPoints(marquee.start, marquee.end);
+          return (
+            <View
+              pointerEvents="none"
+              style={[
+                styles.marquee,
+                {
+                  left: rect.x,
+                  top: rect.y,
+                  width: rect.width,
+                  height: rect.height,
+                  borderColor: theme.colors.primary.rgb,
+                },
+              ]}
+            />
+          );
+        })()}
       </View>
 
+      {/* Run Log */}
+      {handlers && runner.log.length > 0 && (
+        <View style={[styles.runLog, { backgroundColor: theme.colors.card.rgb, borderColor: theme.colors.border.rgb }]}>
+          <TouchableOpacity onPress={() => setShowRunLog(prev => !prev)} style={styles.runLogHeader}>
+            <RNText style={[styles.controlText, { color: theme.colors.foreground.rgb }]}>
+              {showRunLog ? '▾' : '▸'} Run log
+              {runner.result ? ` • ${runner.result.status}` : runner.isRunning ? ' • running' : ''}
+            </RNText>
+          </TouchableOpacity>
+          {showRunLog && (
+            <ScrollView style={styles.runLogBody}>
+              {runner.log.map(entry => (
+                <RNText
+                  key={entry.id}
+                  style={[
+                    styles.runLogEntry,
+                    {
+                      color:
+                        entry.level === 'error'
+                          ? theme.colors.destructive.rgb
+                          : entry.level === 'warn'
+                          ? '#F59E0B'
+                          : theme.colors.mutedForeground.rgb,
+                    },
+                  ]}
+                >
+                  {entry.timestamp.toLocaleTimeString()} {entry.message}
+                </RNText>
+              ))}
+            </ScrollView>
+          )}
+        </View>
+      )}
+
+      {/* Minimap */}
+      {showMinimap && (
+        <WorkflowMinimap
+          nodes={displayNodes}
+          viewport={viewport}
+          canvasWidth={containerWidth}
+          canvasHeight={containerHeight}
+          collapsed={isMinimapCollapsed}
+          onToggle={() => setMinimapCollapsed(prev => !prev)}
+          onJump={jumpTo}
+        />
+      )}
+
       {/* Info */}
       <View style={styles.info}>
         <RNText style={{ fontSize: 11, color: theme.colors.mutedForeground.rgb }}>
@@ -429,7 +1107,7 @@ export const WorkflowPlanner = React.memo(function WorkflowPlanner({
       </View>
     </View>
   );
-});
+}));
 
 const styles = StyleSheet.create({
   container: {
@@ -475,6 +1153,21 @@ const styles = StyleSheet.create({
   deleteButton: {
     backgroundColor: '#EF4444',
   },
+  activeButton: {
+    backgroundColor: '#3B82F6',
+  },
+  marquee: {
+    position: 'absolute',
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    backgroundColor: 'rgba(59, 130, 246, 0.08)',
+  },
+  disabledButton: {
+    opacity: 0.4,
+  },
+  runButton: {
+    backgroundColor: '#10B981',
+  },
   controlText: {
     fontSize: 12,
     fontWeight: '600',
@@ -487,6 +1180,28 @@ const styles = StyleSheet.create({
     borderColor: '#FFFFFF',
     zIndex: 50,
   },
+  runLog: {
+    position: 'absolute',
+    bottom: 36,
+    left: 8,
+    width: 280,
+    borderRadius: 8,
+    borderWidth: 1,
+    overflow: 'hidden',
+  },
+  runLogHeader: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  runLogBody: {
+    maxHeight: 140,
+    paddingHorizontal: 10,
+    paddingBottom: 6,
+  },
+  runLogEntry: {
+    fontSize: 11,
+    lineHeight: 16,
+  },
   info: {
     position: 'absolute',
     bottom: 8,
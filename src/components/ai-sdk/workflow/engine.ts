@@ -0,0 +1,407 @@
+/**
+ * Workflow Execution Engine
+ * Headless runner that walks a WorkflowData graph from its start node,
+ * invoking pluggable handlers per node type
+ */
+
+import { WorkflowData, NodeData, EdgeData, NodeType, NodeStatus } from './types';
+
+// ============================================================================
+// Handler Types
+// ============================================================================
+
+export type NodeHandlerContext = {
+  node: NodeData;
+  workflow: WorkflowData;
+  /** Outputs of the predecessor nodes that led here, keyed by node id */
+  inputs: Record<string, unknown>;
+  /** Aborted when the run is cancelled or the node times out */
+  signal: AbortSignal;
+  reportProgress: (progress: number) => void;
+  log: (message: string, level?: RunLogLevel) => void;
+};
+
+/**
+ * Value returned by a handler. For decision nodes `output` selects the
+ * branch: it is matched against the node's condition ids, values and labels.
+ */
+export type NodeHandlerResult = {
+  output?: unknown;
+  status?: Extract<NodeStatus, 'success' | 'warning'>;
+};
+
+export type NodeHandler = (
+  context: NodeHandlerContext
+) => Promise<NodeHandlerResult | void> | NodeHandlerResult | void;
+
+export type WorkflowHandlers = Partial<Record<NodeType, NodeHandler>>;
+
+// ============================================================================
+// Run Types
+// ============================================================================
+
+export type RunLogLevel = 'info' | 'warn' | 'error';
+
+export type RunLogEntry = {
+  id: string;
+  timestamp: Date;
+  level: RunLogLevel;
+  message: string;
+  nodeId?: string;
+};
+
+export type NodeRunState = {
+  status: NodeStatus;
+  progress?: number;
+  output?: unknown;
+  error?: string;
+  startTime?: Date;
+  endTime?: Date;
+};
+
+export type WorkflowRunStatus = 'success' | 'error' | 'cancelled';
+
+export type WorkflowRunResult = {
+  status: WorkflowRunStatus;
+  nodes: Record<string, NodeRunState>;
+  /** Node ids in execution order */
+  path: string[];
+  log: RunLogEntry[];
+  error?: string;
+};
+
+export interface RunWorkflowOptions {
+  signal?: AbortSignal;
+  /** Default per-node timeout; `node.data.timeoutMs` overrides it */
+  nodeTimeoutMs?: number;
+  onNodeUpdate?: (nodeId: string, state: NodeRunState) => void;
+  onLog?: (entry: RunLogEntry) => void;
+}
+
+export class WorkflowRunError extends Error {
+  constructor(message: string, public nodeId?: string) {
+    super(message);
+    this.name = 'WorkflowRunError';
+  }
+}
+
+// ============================================================================
+// Graph Helpers
+// ============================================================================
+
+/**
+ * Order the nodes reachable from the start node so every node comes after
+ * all of its reachable predecessors. Throws on cycles.
+ */
+export const getExecutionOrder = (nodes: NodeData[], edges: EdgeData[]): NodeData[] => {
+  const starts = nodes.filter(n => n.type === 'start');
+  if (starts.length === 0) {
+    throw new WorkflowRunError('Workflow has no start node');
+  }
+
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const reachable = new Set<string>();
+  const stack = starts.map(n => n.id);
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (reachable.has(id)) continue;
+    reachable.add(id);
+    edges.filter(e => e.source === id && byId.has(e.target)).forEach(e => stack.push(e.target));
+  }
+
+  // Kahn's algorithm over the reachable subgraph
+  const inDegree = new Map<string, number>();
+  reachable.forEach(id => inDegree.set(id, 0));
+  edges.forEach(e => {
+    if (reachable.has(e.source) && reachable.has(e.target)) {
+      inDegree.set(e.target, (inDegree.get(e.target) ?? 0) + 1);
+    }
+  });
+
+  const queue = [...reachable].filter(id => inDegree.get(id) === 0);
+  const order: NodeData[] = [];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    order.push(byId.get(id)!);
+    edges.forEach(e => {
+      if (e.source !== id || !reachable.has(e.target)) return;
+      const remaining = inDegree.get(e.target)! - 1;
+      inDegree.set(e.target, remaining);
+      if (remaining === 0) queue.push(e.target);
+    });
+  }
+
+  if (order.length !== reachable.size) {
+    throw new WorkflowRunError('Workflow contains a cycle');
+  }
+  return order;
+};
+
+/**
+ * Pick the outgoing edges of a decision node for a handler output
+ *
+ * The output is matched to a condition by id, value or label; edges are then
+ * matched by `condition`, `sourceHandle` or `label`. Edges without any of
+ * those act as the default branch when nothing else matched.
+ */
+export const selectDecisionEdges = (
+  node: NodeData,
+  outgoing: EdgeData[],
+  output: unknown
+): EdgeData[] => {
+  const key = String(output).toLowerCase();
+  const condition = node.data.conditions?.find(c =>
+    [c.id, c.value, c.label].some(v => String(v).toLowerCase() === key)
+  );
+  const candidates = condition
+    ? [condition.id, condition.value, condition.label].map(v => String(v).toLowerCase())
+    : [key];
+
+  const matches = (value?: string) => value !== undefined && candidates.includes(value.toLowerCase());
+  const taken = outgoing.filter(e => matches(e.condition) || matches(e.sourceHandle) || matches(e.label));
+  if (taken.length > 0) return taken;
+
+  return outgoing.filter(e => e.condition === undefined && e.label === undefined);
+};
+
+// ============================================================================
+// Default Handlers
+// ============================================================================
+
+const passThrough: NodeHandler = ({ inputs }) => {
+  const values = Object.values(inputs);
+  return { output: values.length === 1 ? values[0] : inputs };
+};
+
+/**
+ * Without a handler a decision routes on its single upstream output
+ */
+const routeOnInput: NodeHandler = ({ inputs }) => {
+  const values = Object.values(inputs);
+  return { output: values.length === 1 ? values[0] : undefined };
+};
+
+const defaultHandlers: WorkflowHandlers = {
+  start: passThrough,
+  end: passThrough,
+  decision: routeOnInput,
+};
+
+// ============================================================================
+// Runner
+// ============================================================================
+
+let logCounter = 0;
+
+/**
+ * Settle with the handler result, or reject once the node signal aborts or
+ * the timeout elapses so handlers that ignore their signal can't stall a run
+ */
+const settleNode = <T>(
+  promise: Promise<T>,
+  signal: AbortSignal,
+  ms: number | undefined,
+  onTimeout: () => void
+): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    const timer = ms && ms > 0
+      ? setTimeout(() => {
+          reject(new WorkflowRunError(`Timed out after ${ms}ms`));
+          onTimeout();
+        }, ms)
+      : undefined;
+    const onAbort = () => reject(new WorkflowRunError('Cancelled'));
+    const cleanup = () => {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', onAbort);
+    };
+    signal.addEventListener('abort', onAbort);
+    promise.then(
+      value => {
+        cleanup();
+        resolve(value);
+      },
+      error => {
+        cleanup();
+        reject(error);
+      }
+    );
+  });
+
+/**
+ * Execute a workflow graph
+ *
+ * Nodes run in topological order from the start node. A node runs once all
+ * of its incoming edges are resolved and at least one of them was taken;
+ * branches not chosen by a decision are skipped along with everything only
+ * they lead to. The first failing node stops the run.
+ *
+ * @example
+ * ```ts
+ * const result = await runWorkflow(workflow, {
+ *   task: async ({ node, reportProgress }) => {
+ *     reportProgress(50);
+ *     return { output: await doWork(node.data) };
+ *   },
+ *   decision: ({ inputs }) => ({ output: Object.values(inputs)[0] ? 'yes' : 'no' }),
+ * }, { nodeTimeoutMs: 30000, onNodeUpdate: (id, state) => console.log(id, state.status) });
+ * ```
+ */
+export async function runWorkflow(
+  workflow: WorkflowData,
+  handlers: WorkflowHandlers = {},
+  options: RunWorkflowOptions = {}
+): Promise<WorkflowRunResult> {
+  const { signal, nodeTimeoutMs, onNodeUpdate, onLog } = options;
+  const states: Record<string, NodeRunState> = {};
+  const log: RunLogEntry[] = [];
+  const path: string[] = [];
+  const outputs: Record<string, unknown> = {};
+
+  const addLog = (message: string, level: RunLogLevel = 'info', nodeId?: string) => {
+    const entry: RunLogEntry = { id: `log-${++logCounter}`, timestamp: new Date(), level, message, nodeId };
+    log.push(entry);
+    onLog?.(entry);
+  };
+
+  const setState = (nodeId: string, patch: Partial<NodeRunState>) => {
+    states[nodeId] = { ...(states[nodeId] ?? { status: 'idle' }), ...patch };
+    onNodeUpdate?.(nodeId, states[nodeId]);
+  };
+
+  const finish = (status: WorkflowRunStatus, error?: string): WorkflowRunResult => {
+    addLog(
+      status === 'success' ? 'Workflow completed' : status === 'cancelled' ? 'Workflow cancelled' : `Workflow failed: ${error}`,
+      status === 'success' ? 'info' : status === 'cancelled' ? 'warn' : 'error'
+    );
+    return { status, nodes: states, path, log, error };
+  };
+
+  let order: NodeData[];
+  try {
+    order = getExecutionOrder(workflow.nodes, workflow.edges);
+  } catch (e) {
+    return finish('error', (e as Error).message);
+  }
+
+  addLog(`Running "${workflow.name}" (${order.length} nodes)`);
+
+  // Edge resolution: true = taken, false = skipped
+  const edgeTaken = new Map<string, boolean>();
+
+  for (const node of order) {
+    if (signal?.aborted) {
+      return finish('cancelled');
+    }
+
+    const incoming = workflow.edges.filter(e => e.target === node.id && edgeTaken.has(e.id));
+    const outgoing = workflow.edges.filter(e => e.source === node.id);
+    const active = incoming.filter(e => edgeTaken.get(e.id));
+
+    if (node.type !== 'start' && active.length === 0) {
+      // Every path into this node was skipped
+      outgoing.forEach(e => edgeTaken.set(e.id, false));
+      continue;
+    }
+
+    const handler = handlers[node.type] ?? defaultHandlers[node.type];
+    if (!handler) {
+      setState(node.id, { status: 'error', error: `No handler for "${node.type}" nodes` });
+      addLog(`No handler for "${node.type}" nodes`, 'error', node.id);
+      return finish('error', `No handler for "${node.type}" nodes`);
+    }
+
+    const inputs: Record<string, unknown> = {};
+    active.forEach(e => {
+      inputs[e.source] = outputs[e.source];
+    });
+
+    const controller = new AbortController();
+    const abortNode = () => controller.abort();
+    signal?.addEventListener('abort', abortNode);
+
+    path.push(node.id);
+    setState(node.id, { status: 'running', progress: 0, startTime: new Date() });
+    addLog(`Started ${node.data.label}`, 'info', node.id);
+
+    try {
+      const timeout = typeof node.data.timeoutMs === 'number' ? node.data.timeoutMs : nodeTimeoutMs;
+      const result = await settleNode(
+        Promise.resolve(
+          handler({
+            node,
+            workflow,
+            inputs,
+            signal: controller.signal,
+            reportProgress: progress => {
+              if (!controller.signal.aborted) {
+                setState(node.id, { progress: Math.max(0, Math.min(100, progress)) });
+              }
+            },
+            log: (message, level) => addLog(message, level, node.id),
+          })
+        ),
+        controller.signal,
+        timeout,
+        abortNode
+      );
+
+      if (signal?.aborted) {
+        setState(node.id, { status: 'warning', endTime: new Date() });
+        return finish('cancelled');
+      }
+
+      const output = result ? result.output : undefined;
+      outputs[node.id] = output;
+      setState(node.id, {
+        status: result?.status ?? 'success',
+        progress: 100,
+        output,
+        endTime: new Date(),
+      });
+      addLog(`Finished ${node.data.label}`, result?.status === 'warning' ? 'warn' : 'info', node.id);
+
+      if (node.type === 'decision') {
+        const taken = selectDecisionEdges(node, outgoing, output);
+        if (taken.length === 0 && outgoing.length > 0) {
+          throw new WorkflowRunError(`No branch matched "${String(output)}"`, node.id);
+        }
+        outgoing.forEach(e => edgeTaken.set(e.id, taken.includes(e)));
+        if (taken.length > 0) {
+          addLog(`Took branch ${taken.map(e => e.label ?? e.condition ?? e.target).join(', ')}`, 'info', node.id);
+        }
+      } else {
+        outgoing.forEach(e => edgeTaken.set(e.id, true));
+      }
+    } catch (e) {
+      if (signal?.aborted) {
+        setState(node.id, { status: 'warning', endTime: new Date() });
+        return finish('cancelled');
+      }
+      const message = e instanceof Error ? e.message : String(e);
+      setState(node.id, { status: 'error', error: message, endTime: new Date() });
+      addLog(message, 'error', node.id);
+      return finish('error', message);
+    } finally {
+      signal?.removeEventListener('abort', abortNode);
+    }
+  }
+
+  return finish('success');
+}
+
+/**
+ * Apply run states onto workflow nodes for display
+ */
+export const applyRunStates = (
+  nodes: NodeData[],
+  states: Record<string, NodeRunState>
+): NodeData[] =>
+  nodes.map(node => {
+    const state = states[node.id];
+    if (!state) return node;
+    return {
+      ...node,
+      data: { ...node.data, status: state.status, progress: state.progress },
+    };
+  });
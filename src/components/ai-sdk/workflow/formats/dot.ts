@@ -0,0 +1,385 @@
+/**
+ * Graphviz DOT import/export
+ * Node types map to DOT shapes, edge labels carry decision branches and
+ * groups map to `cluster_` subgraphs.
+ */
+
+import { NodeType, WorkflowData } from '../types';
+import { LayoutDirection } from '../layout';
+import {
+  ImportedEdge,
+  ImportedNode,
+  ImportedShape,
+  WorkflowExportOptions,
+  WorkflowFormatError,
+  WorkflowImportOptions,
+  buildImportedWorkflow,
+  getEdgeLabel,
+  getGroupLabel,
+} from './shared';
+
+// ============================================================================
+// Shapes
+// ============================================================================
+
+const exportShapes: Record<NodeType, string> = {
+  start: 'oval',
+  end: 'doublecircle',
+  task: 'box',
+  code: 'component',
+  decision: 'diamond',
+  generic: 'box, style=rounded',
+};
+
+const importShapes: Record<string, ImportedShape> = {
+  oval: 'terminal',
+  ellipse: 'terminal',
+  circle: 'terminal',
+  doublecircle: 'terminal',
+  point: 'terminal',
+  msquare: 'terminal',
+  mdiamond: 'terminal',
+  box: 'task',
+  rect: 'task',
+  rectangle: 'task',
+  square: 'task',
+  component: 'code',
+  box3d: 'code',
+  note: 'code',
+  tab: 'code',
+  diamond: 'decision',
+};
+
+// ============================================================================
+// Export
+// ============================================================================
+
+const quote = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+
+/**
+ * Export a workflow as a Graphviz `digraph`
+ *
+ * @example
+ * ```ts
+ * toDot(exampleWorkflow, { direction: 'LR' });
+ * // digraph "User Authentication Flow" {
+ * //   rankdir=LR;
+ * //   "decision-1" [label="Auth Success?", shape=diamond];
+ * ```
+ */
+export const toDot = (workflow: WorkflowData, options: WorkflowExportOptions = {}): string => {
+  const lines = [`digraph ${quote(workflow.name || workflow.id)} {`, `  rankdir=${options.direction ?? 'TB'};`];
+
+  const nodeLine = (node: WorkflowData['nodes'][number], indent: string) =>
+    `${indent}${quote(node.id)} [label=${quote(node.data.label)}, shape=${exportShapes[node.type]}];`;
+
+  workflow.nodes.filter(n => !n.groupId).forEach(node => lines.push(nodeLine(node, '  ')));
+
+  const groups = [...new Set(workflow.nodes.flatMap(n => (n.groupId ? [n.groupId] : [])))];
+  groups.forEach(groupId => {
+    lines.push(`  subgraph ${quote(`cluster_${groupId}`)} {`, `    label=${quote(getGroupLabel(workflow, groupId))};`);
+    workflow.nodes.filter(n => n.groupId === groupId).forEach(node => lines.push(nodeLine(node, '    ')));
+    lines.push('  }');
+  });
+
+  workflow.edges.forEach(edge => {
+    const attributes: string[] = [];
+    const label = getEdgeLabel(workflow, edge);
+    if (label) attributes.push(`label=${quote(label)}`);
+    // Keeps the branch on re-import; Graphviz ignores unknown attributes
+    if (edge.condition) attributes.push(`condition=${quote(edge.condition)}`);
+    if (edge.type === 'animated' || edge.animated) attributes.push('style=dashed');
+    if (edge.markerEnd === 'none') attributes.push('arrowhead=none');
+    lines.push(
+      `  ${quote(edge.source)} -> ${quote(edge.target)}${attributes.length > 0 ? ` [${attributes.join(', ')}]` : ''};`
+    );
+  });
+
+  lines.push('}');
+  return lines.join('\n');
+};
+
+// ============================================================================
+// Tokenizer
+// ============================================================================
+
+type DotToken = {
+  kind: 'id' | 'punct';
+  value: string;
+  line: number;
+};
+
+const tokenize = (source: string): DotToken[] => {
+  const tokens: DotToken[] = [];
+  let line = 1;
+  let index = 0;
+
+  const fail = (message: string): never => {
+    throw new WorkflowFormatError(message, 'dot', [], line);
+  };
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (char === '\n') {
+      line++;
+      index++;
+    } else if (/\s/.test(char)) {
+      index++;
+    } else if (source.startsWith('//', index) || (char === '#' && (index === 0 || source[index - 1] === '\n'))) {
+      while (index < source.length && source[index] !== '\n') index++;
+    } else if (source.startsWith('/*', index)) {
+      const end = source.indexOf('*/', index + 2);
+      if (end === -1) fail('Unterminated comment');
+      line += source.slice(index, end).split('\n').length - 1;
+      index = end + 2;
+    } else if (char === '"') {
+      let value = '';
+      index++;
+      while (index < source.length && source[index] !== '"') {
+        if (source[index] === '\\' && index + 1 < source.length) {
+          const next = source[index + 1];
+          value += next === 'n' || next === 'l' || next === 'r' ? '\n' : next === '\n' ? '' : next;
+          if (next === '\n') line++;
+          index += 2;
+        } else {
+          if (source[index] === '\n') line++;
+          value += source[index++];
+        }
+      }
+      if (index >= source.length) fail('Unterminated string');
+      index++;
+      tokens.push({ kind: 'id', value, line });
+    } else if (char === '<') {
+      // HTML label: keep the markup-free text
+      let depth = 0;
+      const start = index;
+      do {
+        if (source[index] === '<') depth++;
+        if (source[index] === '>') depth--;
+        if (source[index] === '\n') line++;
+        index++;
+      } while (index < source.length && depth > 0);
+      if (depth > 0) fail('Unterminated HTML string');
+      const html = source.slice(start + 1, index - 1);
+      tokens.push({ kind: 'id', value: html.replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]*>/g, ''), line });
+    } else if (source.startsWith('->', index) || source.startsWith('--', index)) {
+      tokens.push({ kind: 'punct', value: source.slice(index, index + 2), line });
+      index += 2;
+    } else if ('{}[]=;,:'.includes(char)) {
+      tokens.push({ kind: 'punct', value: char, line });
+      index++;
+    } else {
+      const match = source.slice(index).match(/^(-?(?:\.\d+|\d+(?:\.\d*)?)|[A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*)/);
+      if (!match) fail(`Unexpected "${char}"`);
+      tokens.push({ kind: 'id', value: match![0], line });
+      index += match![0].length;
+    }
+  }
+
+  return tokens;
+};
+
+// ============================================================================
+// Import
+// ============================================================================
+
+type Attributes = Record<string, string>;
+
+/**
+ * Import a Graphviz `digraph` (or `graph`)
+ *
+ * Node shapes pick the node type, `label` attributes become labels and
+ * `cluster_` subgraphs become groups. Positions come from the auto-layout
+ * in the graph's `rankdir`.
+ *
+ * @example
+ * ```ts
+ * const workflow = fromDot('digraph { a [shape=oval]; b [shape=diamond]; a -> b; }');
+ * ```
+ */
+export const fromDot = (source: string, options: WorkflowImportOptions = {}): WorkflowData => {
+  const tokens = tokenize(source);
+  let position = 0;
+
+  const peek = (offset = 0) => tokens[position + offset];
+  const fail = (message: string): never => {
+    throw new WorkflowFormatError(message, 'dot', [], peek()?.line ?? tokens[tokens.length - 1]?.line);
+  };
+  const isPunct = (value: string, offset = 0) => peek(offset)?.kind === 'punct' && peek(offset).value === value;
+  const isKeyword = (value: string, offset = 0) =>
+    peek(offset)?.kind === 'id' && peek(offset).value.toLowerCase() === value;
+  const expectPunct = (value: string) => {
+    if (!isPunct(value)) fail(`Expected "${value}"`);
+    position++;
+  };
+  const readId = (): string => {
+    const token = peek();
+    if (token?.kind !== 'id') fail('Expected an identifier');
+    position++;
+    return token.value;
+  };
+
+  const nodes = new Map<string, ImportedNode>();
+  const edges: ImportedEdge[] = [];
+  const groupLabels: Record<string, string> = {};
+  let name: string | undefined;
+  let direction: LayoutDirection | undefined;
+
+  // Header
+  if (isKeyword('strict')) position++;
+  if (!isKeyword('digraph') && !isKeyword('graph')) fail('Expected "digraph" or "graph"');
+  position++;
+  if (peek()?.kind === 'id') name = readId();
+
+  const readAttributes = (): Attributes => {
+    const attributes: Attributes = {};
+    while (isPunct('[')) {
+      position++;
+      while (!isPunct(']')) {
+        if (!peek()) fail('Unterminated attribute list');
+        const key = readId().toLowerCase();
+        expectPunct('=');
+        attributes[key] = readId();
+        if (isPunct(',') || isPunct(';')) position++;
+      }
+      position++;
+    }
+    return attributes;
+  };
+
+  const shapeOf = (attributes: Attributes): ImportedShape | undefined => {
+    if (!attributes.shape) return undefined;
+    const shape = importShapes[attributes.shape.toLowerCase()];
+    if (shape === 'task' && /rounded/.test(attributes.style ?? '')) return 'generic';
+    return shape ?? 'generic';
+  };
+
+  type Scope = { nodeDefaults: Attributes; edgeDefaults: Attributes; groupId?: string };
+
+  const touchNode = (id: string, scope: Scope, attributes: Attributes = {}) => {
+    const merged = { ...scope.nodeDefaults, ...attributes };
+    const existing = nodes.get(id);
+    nodes.set(id, {
+      id,
+      label: merged.label ?? existing?.label ?? id,
+      shape: shapeOf(merged) ?? existing?.shape ?? 'task',
+      groupId: existing?.groupId ?? scope.groupId,
+    });
+  };
+
+  // Reads `{ ... }`; returns ids of the nodes declared inside
+  const readBlock = (scope: Scope): string[] => {
+    expectPunct('{');
+    const declared: string[] = [];
+
+    while (!isPunct('}')) {
+      if (!peek()) fail('Expected "}"');
+      if (isPunct(';')) {
+        position++;
+        continue;
+      }
+
+      // Default attribute statements
+      if ((isKeyword('node') || isKeyword('edge') || isKeyword('graph')) && isPunct('[', 1)) {
+        const kind = readId().toLowerCase();
+        const attributes = readAttributes();
+        if (kind === 'node') scope = { ...scope, nodeDefaults: { ...scope.nodeDefaults, ...attributes } };
+        if (kind === 'edge') scope = { ...scope, edgeDefaults: { ...scope.edgeDefaults, ...attributes } };
+        if (kind === 'graph' && attributes.rankdir && scope.groupId === undefined) {
+          direction = /^(LR|RL)$/i.test(attributes.rankdir) ? 'LR' : 'TB';
+        }
+        if (kind === 'graph' && attributes.label !== undefined && scope.groupId !== undefined) {
+          groupLabels[scope.groupId] ??= attributes.label;
+        }
+        continue;
+      }
+
+      // Graph attribute assignment
+      if (peek()?.kind === 'id' && isPunct('=', 1)) {
+        const key = readId().toLowerCase();
+        position++;
+        const value = readId();
+        if (key === 'rankdir' && scope.groupId === undefined) {
+          direction = /^(LR|RL)$/i.test(value) ? 'LR' : 'TB';
+        }
+        if (key === 'label' && scope.groupId !== undefined) {
+          groupLabels[scope.groupId] ??= value;
+        }
+        continue;
+      }
+
+      // Node or edge statement; operands may be subgraphs
+      const readOperand = (): string[] => {
+        if (isKeyword('subgraph') || isPunct('{')) {
+          let groupId = scope.groupId;
+          if (isKeyword('subgraph')) {
+            position++;
+            if (peek()?.kind === 'id') {
+              const subgraphName = readId();
+              if (subgraphName.startsWith('cluster')) {
+                groupId = subgraphName.replace(/^cluster_?/, '') || subgraphName;
+              }
+            }
+          }
+          const ids = readBlock({ ...scope, groupId });
+          declared.push(...ids);
+          return ids;
+        }
+        const id = readId();
+        // Ports are not used by workflows
+        if (isPunct(':')) {
+          position++;
+          readId();
+          if (isPunct(':')) {
+            position++;
+            readId();
+          }
+        }
+        return [id];
+      };
+
+      const operands: string[][] = [readOperand()];
+      while (isPunct('->') || isPunct('--')) {
+        position++;
+        operands.push(readOperand());
+      }
+      const attributes = readAttributes();
+
+      if (operands.length === 1) {
+        operands[0].forEach(id => {
+          touchNode(id, scope, attributes);
+          declared.push(id);
+        });
+      } else {
+        const edgeAttributes = { ...scope.edgeDefaults, ...attributes };
+        operands.flat().forEach(id => {
+          if (!nodes.has(id)) touchNode(id, scope);
+          declared.push(id);
+        });
+        for (let i = 0; i < operands.length - 1; i++) {
+          operands[i].forEach(sourceId =>
+            operands[i + 1].forEach(targetId =>
+              edges.push({
+                source: sourceId,
+                target: targetId,
+                label: edgeAttributes.label ?? edgeAttributes.xlabel,
+                dashed: /dashed|dotted/.test(edgeAttributes.style ?? ''),
+                arrow: edgeAttributes.arrowhead !== 'none',
+                condition: edgeAttributes.condition,
+              })
+            )
+          );
+        }
+      }
+    }
+
+    position++;
+    return declared;
+  };
+
+  readBlock({ nodeDefaults: {}, edgeDefaults: {} });
+  if (position < tokens.length) fail('Unexpected content after graph');
+
+  return buildImportedWorkflow({ nodes: [...nodes.values()], edges, name, direction, groupLabels }, options);
+};
@@ -0,0 +1,81 @@
+/**
+ * Workflow Formats - Import/export for WorkflowData
+ * Versioned JSON, Mermaid flowcharts and Graphviz DOT
+ */
+
+import { WorkflowData } from '../types';
+import { WorkflowFormat, WorkflowFormatError, WorkflowImportOptions, WorkflowExportOptions } from './shared';
+import { parseWorkflowJSON, serializeWorkflow } from './json';
+import { fromMermaid, toMermaid } from './mermaid';
+import { fromDot, toDot } from './dot';
+
+export {
+  WORKFLOW_SCHEMA_ID,
+  WORKFLOW_SCHEMA_VERSION,
+  serializeWorkflow,
+  parseWorkflowJSON,
+  migrateWorkflowDocument,
+  validateWorkflow,
+} from './json';
+export type { WorkflowDocument } from './json';
+export { toMermaid, fromMermaid } from './mermaid';
+export { toDot, fromDot } from './dot';
+export { WorkflowFormatError } from './shared';
+export type { WorkflowFormat, WorkflowFormatIssue, WorkflowImportOptions, WorkflowExportOptions } from './shared';
+
+/**
+ * Guess the format of a workflow source string
+ */
+export const detectWorkflowFormat = (source: string): WorkflowFormat | null => {
+  const text = source.replace(/^﻿/, '').trimStart();
+  if (text.startsWith('{')) return 'json';
+  if (/^(---[^]*?---\s*)?(%%[^\n]*\n\s*)*(flowchart|graph)(\s+(TB|TD|BT|RL|LR))?\s*(;|\n|$)/i.test(text)) {
+    return 'mermaid';
+  }
+  if (/^((\/\/|#)[^\n]*\n\s*|\/\*[^]*?\*\/\s*)*(strict\s+)?(di)?graph\b/i.test(text)) return 'dot';
+  return null;
+};
+
+/**
+ * Import a workflow from JSON, Mermaid or DOT, detecting the format when
+ * none is given
+ *
+ * @example
+ * ```ts
+ * const workflow = importWorkflow(modelOutput); // e.g. a ```mermaid block body
+ * ```
+ */
+export const importWorkflow = (
+  source: string,
+  format: WorkflowFormat | null = detectWorkflowFormat(source),
+  options: WorkflowImportOptions = {}
+): WorkflowData => {
+  switch (format) {
+    case 'json':
+      return parseWorkflowJSON(source);
+    case 'mermaid':
+      return fromMermaid(source, options);
+    case 'dot':
+      return fromDot(source, options);
+    default:
+      throw new WorkflowFormatError('Unrecognized workflow format', 'json');
+  }
+};
+
+/**
+ * Export a workflow to JSON, Mermaid or DOT
+ */
+export const exportWorkflow = (
+  workflow: WorkflowData,
+  format: WorkflowFormat,
+  options: WorkflowExportOptions & { pretty?: boolean } = {}
+): string => {
+  switch (format) {
+    case 'json':
+      return serializeWorkflow(workflow, { pretty: options.pretty ?? true });
+    case 'mermaid':
+      return toMermaid(workflow, options);
+    case 'dot':
+      return toDot(workflow, options);
+  }
+};
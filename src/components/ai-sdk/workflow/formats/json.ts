@@ -0,0 +1,283 @@
+/**
+ * Versioned JSON format
+ * Wraps WorkflowData in a document with a schema id and version, encodes
+ * Date values so they round-trip, and migrates older documents on load.
+ */
+
+import { WorkflowData, NodeType, EdgeType } from '../types';
+import { WorkflowFormatError, WorkflowFormatIssue } from './shared';
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+export const WORKFLOW_SCHEMA_ID = 'ai-sdk/workflow';
+export const WORKFLOW_SCHEMA_VERSION = 2;
+
+/**
+ * Version history
+ * 1: bare WorkflowData passed through JSON.stringify (dates as ISO strings)
+ * 2: `{ schema, version, workflow }` with dates tagged as `{ "$date": iso }`
+ */
+export type WorkflowDocument = {
+  schema: typeof WORKFLOW_SCHEMA_ID;
+  version: number;
+  workflow: any;
+};
+
+const NODE_TYPES: NodeType[] = ['task', 'code', 'decision', 'start', 'end', 'generic'];
+const EDGE_TYPES: EdgeType[] = ['default', 'animated', 'step', 'bezier', 'straight'];
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// ============================================================================
+// Date Encoding
+// ============================================================================
+
+const encodeDates = (value: unknown): unknown => {
+  if (value instanceof Date) return { $date: value.toISOString() };
+  if (Array.isArray(value)) return value.map(encodeDates);
+  if (isObject(value)) {
+    const result: Record<string, unknown> = {};
+    Object.entries(value).forEach(([key, item]) => {
+      result[key] = encodeDates(item);
+    });
+    return result;
+  }
+  return value;
+};
+
+const decodeDates = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(decodeDates);
+  if (isObject(value)) {
+    const keys = Object.keys(value);
+    if (keys.length === 1 && keys[0] === '$date' && typeof value.$date === 'string') {
+      return new Date(value.$date);
+    }
+    const result: Record<string, unknown> = {};
+    keys.forEach(key => {
+      result[key] = decodeDates(value[key]);
+    });
+    return result;
+  }
+  return value;
+};
+
+// ============================================================================
+// Migration
+// ============================================================================
+
+const tagDate = (value: unknown) =>
+  typeof value === 'string' && !Number.isNaN(Date.parse(value)) ? { $date: value } : value;
+
+const migrations: Record<number, (workflow: any) => any> = {
+  // v1 lost Date types; restore the fields WorkflowData declares as dates
+  1: workflow => ({
+    ...workflow,
+    createdAt: tagDate(workflow.createdAt),
+    updatedAt: tagDate(workflow.updatedAt),
+    nodes: Array.isArray(workflow.nodes)
+      ? workflow.nodes.map((node: any) =>
+          isObject(node) && isObject(node.data) && node.data.dueDate !== undefined
+            ? { ...node, data: { ...node.data, dueDate: tagDate(node.data.dueDate) } }
+            : node
+        )
+      : workflow.nodes,
+  }),
+};
+
+/**
+ * Bring a parsed document of any known version up to the current one
+ */
+export const migrateWorkflowDocument = (input: unknown): WorkflowDocument => {
+  let document: WorkflowDocument;
+  if (isObject(input) && input.schema === WORKFLOW_SCHEMA_ID) {
+    if (typeof input.version !== 'number') {
+      throw new WorkflowFormatError('Workflow document has no version', 'json');
+    }
+    document = input as WorkflowDocument;
+  } else if (isObject(input) && Array.isArray(input.nodes)) {
+    document = { schema: WORKFLOW_SCHEMA_ID, version: 1, workflow: input };
+  } else {
+    throw new WorkflowFormatError('Not a workflow document', 'json');
+  }
+
+  if (document.version > WORKFLOW_SCHEMA_VERSION) {
+    throw new WorkflowFormatError(
+      `Workflow document version ${document.version} is newer than supported version ${WORKFLOW_SCHEMA_VERSION}`,
+      'json'
+    );
+  }
+
+  while (document.version < WORKFLOW_SCHEMA_VERSION) {
+    const migrate = migrations[document.version];
+    if (!migrate) {
+      throw new WorkflowFormatError(`No migration from version ${document.version}`, 'json');
+    }
+    document = { ...document, version: document.version + 1, workflow: migrate(document.workflow) };
+  }
+  return document;
+};
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Check that a value has the shape of WorkflowData
+ *
+ * @example
+ * ```ts
+ * const issues = validateWorkflow(candidate);
+ * if (issues.length > 0) console.warn(issues.map(i => `${i.path}: ${i.message}`));
+ * ```
+ */
+export const validateWorkflow = (value: unknown): WorkflowFormatIssue[] => {
+  const issues: WorkflowFormatIssue[] = [];
+  const issue = (path: string, message: string) => issues.push({ path, message });
+
+  if (!isObject(value)) {
+    issue('', 'Workflow must be an object');
+    return issues;
+  }
+  if (typeof value.id !== 'string') issue('id', 'Expected a string');
+  if (typeof value.name !== 'string') issue('name', 'Expected a string');
+  ['createdAt', 'updatedAt'].forEach(key => {
+    if (value[key] !== undefined && !(value[key] instanceof Date)) issue(key, 'Expected a date');
+  });
+
+  const nodeIds = new Set<string>();
+  if (!Array.isArray(value.nodes)) {
+    issue('nodes', 'Expected an array');
+  } else {
+    value.nodes.forEach((node: unknown, index: number) => {
+      const path = `nodes[${index}]`;
+      if (!isObject(node)) {
+        issue(path, 'Expected an object');
+        return;
+      }
+      if (typeof node.id !== 'string') {
+        issue(`${path}.id`, 'Expected a string');
+      } else if (nodeIds.has(node.id)) {
+        issue(`${path}.id`, `Duplicate node id "${node.id}"`);
+      } else {
+        nodeIds.add(node.id);
+      }
+      if (!NODE_TYPES.includes(node.type)) issue(`${path}.type`, `Unknown node type "${node.type}"`);
+      if (!isObject(node.position) || typeof node.position.x !== 'number' || typeof node.position.y !== 'number') {
+        issue(`${path}.position`, 'Expected { x, y } numbers');
+      }
+      if (!isObject(node.data) || typeof node.data.label !== 'string') {
+        issue(`${path}.data.label`, 'Expected a string');
+      }
+    });
+  }
+
+  const edgeIds = new Set<string>();
+  if (!Array.isArray(value.edges)) {
+    issue('edges', 'Expected an array');
+  } else {
+    value.edges.forEach((edge: unknown, index: number) => {
+      const path = `edges[${index}]`;
+      if (!isObject(edge)) {
+        issue(path, 'Expected an object');
+        return;
+      }
+      if (typeof edge.id !== 'string') {
+        issue(`${path}.id`, 'Expected a string');
+      } else if (edgeIds.has(edge.id)) {
+        issue(`${path}.id`, `Duplicate edge id "${edge.id}"`);
+      } else {
+        edgeIds.add(edge.id);
+      }
+      if (!EDGE_TYPES.includes(edge.type)) issue(`${path}.type`, `Unknown edge type "${edge.type}"`);
+      (['source', 'target'] as const).forEach(end => {
+        if (typeof edge[end] !== 'string') {
+          issue(`${path}.${end}`, 'Expected a string');
+        } else if (Array.isArray(value.nodes) && !nodeIds.has(edge[end])) {
+          issue(`${path}.${end}`, `Unknown node "${edge[end]}"`);
+        }
+      });
+    });
+  }
+
+  if (value.groups !== undefined) {
+    if (!Array.isArray(value.groups)) {
+      issue('groups', 'Expected an array');
+    } else {
+      const groupIds = new Set<string>();
+      value.groups.forEach((group: unknown, index: number) => {
+        const path = `groups[${index}]`;
+        if (!isObject(group)) {
+          issue(path, 'Expected an object');
+          return;
+        }
+        if (typeof group.id !== 'string') {
+          issue(`${path}.id`, 'Expected a string');
+        } else if (groupIds.has(group.id)) {
+          issue(`${path}.id`, `Duplicate group id "${group.id}"`);
+        } else {
+          groupIds.add(group.id);
+        }
+        if (typeof group.label !== 'string') issue(`${path}.label`, 'Expected a string');
+        if (!Array.isArray(group.nodeIds)) {
+          issue(`${path}.nodeIds`, 'Expected an array');
+        } else if (Array.isArray(value.nodes)) {
+          group.nodeIds.forEach((id: unknown, memberIndex: number) => {
+            if (typeof id !== 'string' || !nodeIds.has(id)) {
+              issue(`${path}.nodeIds[${memberIndex}]`, `Unknown node "${String(id)}"`);
+            }
+          });
+        }
+      });
+    }
+  }
+
+  return issues;
+};
+
+// ============================================================================
+// Serialize / Parse
+// ============================================================================
+
+/**
+ * Serialize a workflow to a versioned JSON document
+ *
+ * @example
+ * ```ts
+ * const json = serializeWorkflow(workflow, { pretty: true });
+ * const restored = parseWorkflowJSON(json); // dates are Date instances again
+ * ```
+ */
+export const serializeWorkflow = (workflow: WorkflowData, options: { pretty?: boolean } = {}): string => {
+  const document: WorkflowDocument = {
+    schema: WORKFLOW_SCHEMA_ID,
+    version: WORKFLOW_SCHEMA_VERSION,
+    workflow: encodeDates(workflow),
+  };
+  return JSON.stringify(document, null, options.pretty ? 2 : undefined);
+};
+
+/**
+ * Parse, migrate and validate a workflow JSON document
+ *
+ * Accepts current documents and older versions, including bare WorkflowData
+ * JSON. Throws WorkflowFormatError listing every validation issue.
+ */
+export const parseWorkflowJSON = (source: string): WorkflowData => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(source);
+  } catch (e) {
+    throw new WorkflowFormatError(`Invalid JSON: ${(e as Error).message}`, 'json');
+  }
+
+  const document = migrateWorkflowDocument(parsed);
+  const workflow = decodeDates(document.workflow);
+  const issues = validateWorkflow(workflow);
+  if (issues.length > 0) {
+    throw new WorkflowFormatError(`Invalid workflow: ${issues[0].path} ${issues[0].message}`, 'json', issues);
+  }
+  return workflow as WorkflowData;
+};
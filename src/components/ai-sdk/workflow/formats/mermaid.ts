@@ -0,0 +1,358 @@
+/**
+ * Mermaid flowchart import/export
+ * Node types map to flowchart shapes, edge labels carry decision branches
+ * and groups map to subgraphs.
+ */
+
+import { NodeType, WorkflowData } from '../types';
+import { LayoutDirection } from '../layout';
+import {
+  ImportedEdge,
+  ImportedNode,
+  ImportedShape,
+  WorkflowExportOptions,
+  WorkflowFormatError,
+  WorkflowImportOptions,
+  buildImportedWorkflow,
+  getEdgeLabel,
+  getGroupLabel,
+} from './shared';
+
+// ============================================================================
+// Shapes
+// ============================================================================
+
+const exportShapes: Record<NodeType, [string, string]> = {
+  start: ['([', '])'],
+  end: ['((', '))'],
+  task: ['[', ']'],
+  code: ['[[', ']]'],
+  decision: ['{', '}'],
+  generic: ['(', ')'],
+};
+
+// Longest openers first so `((` wins over `(`
+const importShapes: { open: string; close: string[]; shape: ImportedShape }[] = [
+  { open: '(((', close: [')))'], shape: 'terminal' },
+  { open: '((', close: ['))'], shape: 'terminal' },
+  { open: '([', close: ['])'], shape: 'terminal' },
+  { open: '[[', close: [']]'], shape: 'code' },
+  { open: '[(', close: [')]'], shape: 'generic' },
+  { open: '{{', close: ['}}'], shape: 'generic' },
+  { open: '[/', close: ['/]', '\\]'], shape: 'generic' },
+  { open: '[\\', close: ['\\]', '/]'], shape: 'generic' },
+  { open: '(', close: [')'], shape: 'generic' },
+  { open: '[', close: [']'], shape: 'task' },
+  { open: '{', close: ['}'], shape: 'decision' },
+  { open: '>', close: [']'], shape: 'generic' },
+];
+
+const RESERVED_IDS = new Set(['end', 'graph', 'subgraph', 'flowchart', 'style', 'class', 'classdef', 'click', 'direction']);
+
+// ============================================================================
+// Export
+// ============================================================================
+
+const escapeLabel = (label: string) => label.replace(/"/g, '#quot;').replace(/\n/g, '<br>');
+
+const unescapeLabel = (label: string) =>
+  label
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/#quot;/g, '"')
+    .replace(/#amp;/g, '&')
+    .replace(/#lt;/g, '<')
+    .replace(/#gt;/g, '>');
+
+/**
+ * Map workflow ids to ids Mermaid accepts, keeping them unique
+ */
+const createIdMap = (ids: string[]): Map<string, string> => {
+  const map = new Map<string, string>();
+  const used = new Set<string>();
+  ids.forEach(id => {
+    let safe = id.replace(/[^A-Za-z0-9_]/g, '_') || 'node';
+    if (RESERVED_IDS.has(safe.toLowerCase())) safe = `${safe}_`;
+    let candidate = safe;
+    for (let n = 2; used.has(candidate); n++) candidate = `${safe}_${n}`;
+    used.add(candidate);
+    map.set(id, candidate);
+  });
+  return map;
+};
+
+/**
+ * Export a workflow as a Mermaid flowchart
+ *
+ * @example
+ * ```ts
+ * toMermaid(exampleWorkflow);
+ * // flowchart TB
+ * //   start_1(["User Clicks Login"])
+ * //   decision_1 -->|"Yes"| code_1
+ * ```
+ */
+export const toMermaid = (workflow: WorkflowData, options: WorkflowExportOptions = {}): string => {
+  const groups = [...new Set(workflow.nodes.flatMap(n => (n.groupId ? [n.groupId] : [])))];
+  const ids = createIdMap([...workflow.nodes.map(n => n.id), ...groups]);
+  const lines: string[] = [];
+
+  if (workflow.name) {
+    lines.push('---', `title: ${workflow.name.replace(/\n/g, ' ')}`, '---');
+  }
+  lines.push(`flowchart ${options.direction ?? 'TB'}`);
+
+  const nodeLine = (node: WorkflowData['nodes'][number], indent: string) => {
+    const [open, close] = exportShapes[node.type];
+    return `${indent}${ids.get(node.id)}${open}"${escapeLabel(node.data.label)}"${close}`;
+  };
+
+  workflow.nodes.filter(n => !n.groupId).forEach(node => lines.push(nodeLine(node, '  ')));
+
+  groups.forEach(groupId => {
+    lines.push(`  subgraph ${ids.get(groupId)}["${escapeLabel(getGroupLabel(workflow, groupId))}"]`);
+    workflow.nodes.filter(n => n.groupId === groupId).forEach(node => lines.push(nodeLine(node, '    ')));
+    lines.push('  end');
+  });
+
+  workflow.edges.forEach(edge => {
+    const source = ids.get(edge.source);
+    const target = ids.get(edge.target);
+    if (!source || !target) return;
+    const dashed = edge.type === 'animated' || edge.animated;
+    const arrow = edge.markerEnd === 'none' ? (dashed ? '-.-' : '---') : dashed ? '-.->' : '-->';
+    const label = getEdgeLabel(workflow, edge);
+    // Mermaid has no edge attributes and comments need their own line
+    if (edge.condition) lines.push(`  %% condition: ${edge.condition}`);
+    lines.push(`  ${source} ${arrow}${label ? `|"${escapeLabel(label)}"|` : ''} ${target}`);
+  });
+
+  return lines.join('\n');
+};
+
+// ============================================================================
+// Import
+// ============================================================================
+
+const ID_PATTERN = /^[A-Za-z0-9_][A-Za-z0-9_.]*(?:-(?![-.>])[A-Za-z0-9_.]+)*/;
+const LINK_PATTERN =
+  /^\s*(?:(--|==|-\.)\s*([^-=.>\s|][^]*?)\s*)?<?(-{2,}>|-{3,}|={2,}>|={3,}|-\.+->|-\.+-|\.-+>|\.-+|~~~|--[ox]|==[ox])(?:\|\s*([^|]*?)\s*\|)?/;
+const SKIPPED_STATEMENTS = /^(style|classDef|class|click|linkStyle|direction|accTitle|accDescr)\b/;
+
+const parseDirection = (value: string): LayoutDirection => (/^(LR|RL)$/i.test(value) ? 'LR' : 'TB');
+
+const stripQuotes = (value: string) => {
+  const trimmed = value.trim();
+  const unquoted = /^"[^]*"$/.test(trimmed) ? trimmed.slice(1, -1) : trimmed;
+  return unescapeLabel(unquoted.replace(/^`([^]*)`$/, '$1'));
+};
+
+/**
+ * Split a line into statements on `;` outside quotes
+ */
+const splitStatements = (line: string): string[] => {
+  const statements: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (const char of line) {
+    if (char === '"') quoted = !quoted;
+    if (char === ';' && !quoted) {
+      statements.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  statements.push(current);
+  return statements.map(s => s.trim()).filter(Boolean);
+};
+
+/**
+ * Import a Mermaid `flowchart` (or `graph`) definition
+ *
+ * Positions are computed with the auto-layout in the chart's direction.
+ * Throws WorkflowFormatError with the offending line number.
+ *
+ * @example
+ * ```ts
+ * const workflow = fromMermaid(`flowchart LR
+ *   A([Start]) --> B{Valid?}
+ *   B -->|Yes| C[Save]
+ *   B -->|No| D((Done))
+ *   C --> D`);
+ * ```
+ */
+export const fromMermaid = (source: string, options: WorkflowImportOptions = {}): WorkflowData => {
+  const nodes = new Map<string, ImportedNode & { defined: boolean }>();
+  const edges: ImportedEdge[] = [];
+  const groups: string[] = [];
+  const groupLabels: Record<string, string> = {};
+  let direction: LayoutDirection | undefined;
+  let name: string | undefined;
+  let headerSeen = false;
+
+  let lines = source.replace(/\r\n?/g, '\n').split('\n');
+  let lineOffset = 0;
+
+  // Front matter
+  if (lines[0]?.trim() === '---') {
+    const close = lines.findIndex((line, index) => index > 0 && line.trim() === '---');
+    if (close > 0) {
+      lines.slice(1, close).forEach(line => {
+        const match = line.match(/^\s*title:\s*(.*)$/);
+        if (match) name = match[1].trim();
+      });
+      lineOffset = close + 1;
+      lines = lines.slice(close + 1);
+    }
+  }
+
+  const fail = (message: string, index: number): never => {
+    throw new WorkflowFormatError(message, 'mermaid', [], lineOffset + index + 1);
+  };
+
+  const useNode = (id: string, label?: string, shape?: ImportedShape) => {
+    const existing = nodes.get(id);
+    const groupId = groups[groups.length - 1];
+    if (!existing) {
+      nodes.set(id, { id, label: label ?? id, shape: shape ?? 'task', groupId, defined: label !== undefined });
+      return;
+    }
+    // Like Mermaid, a node belongs to the last subgraph that mentions it,
+    // so edges can come first and the subgraphs list their members after
+    const defining = label !== undefined && !existing.defined;
+    nodes.set(id, {
+      ...existing,
+      ...(defining ? { label, shape: shape ?? existing.shape, defined: true } : {}),
+      groupId: groupId ?? existing.groupId,
+    });
+  };
+
+  /**
+   * Read one node reference at the start of `text`; returns its id and the rest
+   */
+  const readNode = (text: string, index: number): { id: string; rest: string } => {
+    const idMatch = text.match(ID_PATTERN);
+    if (!idMatch) fail(`Expected a node id near "${text.slice(0, 20)}"`, index);
+    const id = idMatch![0];
+    let rest = text.slice(id.length);
+
+    const shape = importShapes.find(s => rest.startsWith(s.open));
+    if (shape) {
+      let body = rest.slice(shape.open.length);
+      let label: string;
+      if (body.trimStart().startsWith('"')) {
+        const start = body.indexOf('"');
+        const end = body.indexOf('"', start + 1);
+        if (end === -1) fail('Unterminated label', index);
+        label = body.slice(start + 1, end);
+        body = body.slice(end + 1).trimStart();
+        const close = shape.close.find(c => body.startsWith(c));
+        if (!close) fail(`Expected "${shape.close[0]}" after label`, index);
+        rest = body.slice(close!.length);
+      } else {
+        const positions = shape.close.map(c => body.indexOf(c)).filter(p => p !== -1);
+        if (positions.length === 0) fail(`Expected "${shape.close[0]}" to close "${shape.open}"`, index);
+        const end = Math.min(...positions);
+        const close = shape.close.find(c => body.startsWith(c, end))!;
+        label = body.slice(0, end);
+        rest = body.slice(end + close.length);
+      }
+      useNode(id, unescapeLabel(label.trim()), shape.shape);
+    } else {
+      useNode(id);
+    }
+
+    // Inline class assignment
+    rest = rest.replace(/^:::[\w-]+/, '');
+    return { id, rest };
+  };
+
+  const readGroup = (text: string, index: number): { ids: string[]; rest: string } => {
+    const ids: string[] = [];
+    let rest = text.trimStart();
+    for (;;) {
+      const node = readNode(rest, index);
+      ids.push(node.id);
+      rest = node.rest.trimStart();
+      if (!rest.startsWith('&')) return { ids, rest };
+      rest = rest.slice(1).trimStart();
+    }
+  };
+
+  // Condition id from a `%% condition:` comment, for the edges on the next line
+  let condition: string | undefined;
+
+  lines.forEach((rawLine, index) => {
+    const directive = rawLine.match(/^\s*%%\s*condition:\s*(\S+)\s*$/);
+    if (directive) {
+      condition = directive[1];
+      return;
+    }
+    const line = rawLine.replace(/%%.*$/, '').trim();
+    if (!line) return;
+    const lineCondition = condition;
+    condition = undefined;
+
+    splitStatements(line).forEach(statement => {
+      if (!headerSeen) {
+        const header = statement.match(/^(flowchart|graph)(?:\s+(TB|TD|BT|RL|LR))?\s*$/i);
+        if (!header) fail('Expected "flowchart" or "graph" header', index);
+        direction = parseDirection(header![2] ?? 'TB');
+        headerSeen = true;
+        return;
+      }
+
+      if (SKIPPED_STATEMENTS.test(statement)) return;
+
+      const subgraph = statement.match(/^subgraph\s+(.+)$/);
+      if (subgraph) {
+        const idMatch = subgraph[1].match(ID_PATTERN);
+        const groupId = idMatch && idMatch[0].length > 0 ? idMatch[0] : stripQuotes(subgraph[1]);
+        // `subgraph id[title]` carries a title separate from the id
+        const title = idMatch ? subgraph[1].slice(idMatch[0].length).trim().match(/^\[(.*)\]$/) : null;
+        if (title) groupLabels[groupId] = stripQuotes(title[1].trim());
+        groups.push(groupId);
+        return;
+      }
+      if (/^end$/i.test(statement)) {
+        if (groups.length === 0) fail('"end" without "subgraph"', index);
+        groups.pop();
+        return;
+      }
+
+      let { ids: sources, rest } = readGroup(statement, index);
+      while (rest.length > 0) {
+        const link = rest.match(LINK_PATTERN);
+        if (!link) fail(`Unexpected "${rest.slice(0, 20)}"`, index);
+        const arrow = link![3];
+        const label = link![2] ?? link![4];
+        rest = rest.slice(link![0].length);
+
+        const next = readGroup(rest, index);
+        sources.forEach(sourceId =>
+          next.ids.forEach(targetId =>
+            edges.push({
+              source: sourceId,
+              target: targetId,
+              label: label ? stripQuotes(label) : undefined,
+              dashed: arrow.includes('.'),
+              arrow: /[>ox]$/.test(arrow),
+              condition: lineCondition,
+            })
+          )
+        );
+        sources = next.ids;
+        rest = next.rest;
+      }
+    });
+  });
+
+  if (!headerSeen) {
+    throw new WorkflowFormatError('Empty Mermaid definition', 'mermaid');
+  }
+
+  return buildImportedWorkflow(
+    { nodes: [...nodes.values()].map(({ defined, ...node }) => node), edges, name, direction, groupLabels },
+    options
+  );
+};
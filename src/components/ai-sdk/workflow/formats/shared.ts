@@ -0,0 +1,167 @@
+/**
+ * Shared pieces of the workflow importers and exporters
+ */
+
+import { NodeData, EdgeData, NodeType, WorkflowData, generateId } from '../types';
+import { LayoutDirection, LayoutOptions, layoutWorkflow } from '../layout';
+import { groupsFromNodes } from '../groups';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type WorkflowFormat = 'json' | 'mermaid' | 'dot';
+
+export interface WorkflowImportOptions {
+  id?: string;
+  /** Name used when the source does not carry one */
+  name?: string;
+  /** Layout applied to imported nodes; the source direction wins if present */
+  layout?: LayoutOptions;
+}
+
+export interface WorkflowExportOptions {
+  direction?: LayoutDirection;
+}
+
+export type WorkflowFormatIssue = {
+  path: string;
+  message: string;
+};
+
+export class WorkflowFormatError extends Error {
+  constructor(
+    message: string,
+    public format: WorkflowFormat,
+    public issues: WorkflowFormatIssue[] = [],
+    public line?: number
+  ) {
+    super(line !== undefined ? `${message} (line ${line})` : message);
+    this.name = 'WorkflowFormatError';
+  }
+}
+
+/**
+ * Node shape as written in a text format, before it is mapped to a NodeType
+ *
+ * `terminal` shapes (stadium, ellipse) become start or end nodes depending
+ * on where they sit in the graph.
+ */
+export type ImportedShape = NodeType | 'terminal';
+
+export type ImportedNode = {
+  id: string;
+  label: string;
+  shape: ImportedShape;
+  groupId?: string;
+};
+
+export type ImportedEdge = {
+  source: string;
+  target: string;
+  label?: string;
+  dashed?: boolean;
+  arrow?: boolean;
+  /** Decision condition id written by our exporters */
+  condition?: string;
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Text of an edge label: its `label`, else the label of its `condition` on
+ * the source decision node, else the condition id
+ */
+export const getEdgeLabel = (workflow: WorkflowData, edge: EdgeData): string | undefined => {
+  if (edge.label !== undefined || edge.condition === undefined) return edge.label;
+  const source = workflow.nodes.find(node => node.id === edge.source);
+  return source?.data.conditions?.find(c => c.id === edge.condition)?.label ?? edge.condition;
+};
+
+const slugify = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'branch';
+
+/**
+ * Title of a group as written by the exporters: its label, else its id
+ */
+export const getGroupLabel = (workflow: WorkflowData, groupId: string): string =>
+  workflow.groups?.find(group => group.id === groupId)?.label ?? groupId;
+
+/**
+ * Build a laid out WorkflowData from parsed nodes and edges
+ *
+ * Terminal shapes without incoming edges become `start`, the rest `end`.
+ * Outgoing edge labels of decision nodes become its `conditions`, keeping
+ * condition ids the exporters wrote, and node `groupId`s become groups
+ * titled from `groupLabels`.
+ */
+export const buildImportedWorkflow = (
+  parsed: {
+    nodes: ImportedNode[];
+    edges: ImportedEdge[];
+    name?: string;
+    direction?: LayoutDirection;
+    groupLabels?: Record<string, string>;
+  },
+  options: WorkflowImportOptions = {}
+): WorkflowData => {
+  const hasIncoming = new Set(parsed.edges.map(e => e.target));
+
+  const edges: EdgeData[] = parsed.edges.map((edge, index) => ({
+    id: `edge-${index + 1}`,
+    type: edge.dashed ? 'animated' : 'bezier',
+    source: edge.source,
+    target: edge.target,
+    label: edge.label || undefined,
+    ...(edge.condition ? { condition: edge.condition } : {}),
+    animated: edge.dashed || undefined,
+    markerEnd: edge.arrow === false ? 'none' : 'arrowClosed',
+  }));
+
+  const nodes: NodeData[] = parsed.nodes.map(node => {
+    const type: NodeType =
+      node.shape === 'terminal' ? (hasIncoming.has(node.id) ? 'end' : 'start') : node.shape;
+    const data: NodeData['data'] = { label: node.label };
+
+    if (type === 'decision') {
+      const seen = new Set<string>();
+      const conditions: { id: string; label: string; value: string }[] = [];
+      edges.forEach(edge => {
+        if (edge.source !== node.id || !(edge.label || edge.condition)) return;
+        const id = edge.condition ?? slugify(edge.label!);
+        const label = edge.label ?? id;
+        edge.condition = id;
+        if (!seen.has(id)) {
+          seen.add(id);
+          conditions.push({ id, label, value: label });
+        }
+      });
+      if (conditions.length > 0) data.conditions = conditions;
+    }
+
+    return {
+      id: node.id,
+      type,
+      position: { x: 0, y: 0 },
+      data,
+      ...(node.groupId ? { groupId: node.groupId } : {}),
+    };
+  });
+
+  const layout: LayoutOptions = { ...options.layout, ...(parsed.direction ? { direction: parsed.direction } : {}) };
+  const laidOut = layoutWorkflow(nodes, edges, layout);
+  const groups = groupsFromNodes(laidOut, [], parsed.groupLabels);
+  const now = new Date();
+
+  return {
+    id: options.id ?? generateId('workflow'),
+    name: parsed.name || options.name || 'Imported Workflow',
+    nodes: laidOut,
+    edges,
+    ...(groups.length > 0 ? { groups } : {}),
+    createdAt: now,
+    updatedAt: now,
+  };
+};
@@ -0,0 +1,215 @@
+/**
+ * Workflow Groups
+ * Helpers for NodeGroup containers: membership edits, bounds fitting and the
+ * collapsed view, where a group's members are replaced by one summary node
+ * and edges crossing the group boundary are rerouted to it.
+ */
+
+import { NodeData, EdgeData, NodeGroup, generateId } from './types';
+import { WorkflowGraph } from './history';
+import { WorkflowSelection } from './selection';
+import { getNodesBounds } from './viewport';
+
+/** Space between a group's border and its members */
+export const GROUP_PADDING = 24;
+/** Height of the label bar above the members */
+export const GROUP_HEADER_HEIGHT = 28;
+
+const SUMMARY_SUFFIX = '::summary';
+
+// ============================================================================
+// Summary Nodes
+// ============================================================================
+
+/**
+ * Id of the node standing in for a collapsed group
+ */
+export const getGroupSummaryId = (groupId: string): string => `${groupId}${SUMMARY_SUFFIX}`;
+
+/**
+ * Group id a summary node stands in for, or null for regular nodes
+ */
+export const getSummaryGroupId = (nodeId: string): string | null =>
+  nodeId.endsWith(SUMMARY_SUFFIX) ? nodeId.slice(0, -SUMMARY_SUFFIX.length) : null;
+
+export const isGroupSummaryId = (nodeId: string): boolean => getSummaryGroupId(nodeId) !== null;
+
+// ============================================================================
+// Membership
+// ============================================================================
+
+/**
+ * Drop members that no longer exist and groups left empty
+ */
+export const pruneGroups = (groups: NodeGroup[], nodes: NodeData[]): NodeGroup[] => {
+  const ids = new Set(nodes.map(n => n.id));
+  return groups
+    .map(group => {
+      const nodeIds = group.nodeIds.filter(id => ids.has(id));
+      return nodeIds.length === group.nodeIds.length ? group : { ...group, nodeIds };
+    })
+    .filter(group => group.nodeIds.length > 0);
+};
+
+/**
+ * Build groups from the `groupId` of each node, keeping the label, collapsed
+ * state and style of matching entries in `existing`
+ */
+export const groupsFromNodes = (
+  nodes: NodeData[],
+  existing: NodeGroup[] = [],
+  labels: Record<string, string> = {}
+): NodeGroup[] => {
+  const members = new Map<string, string[]>();
+  nodes.forEach(node => {
+    if (!node.groupId) return;
+    members.set(node.groupId, [...(members.get(node.groupId) ?? []), node.id]);
+  });
+
+  return fitGroups(
+    [...members.entries()].map(([id, nodeIds]) => {
+      const previous = existing.find(group => group.id === id);
+      return {
+        ...previous,
+        id,
+        label: previous?.label ?? labels[id] ?? id,
+        nodeIds,
+        position: previous?.position ?? { x: 0, y: 0 },
+        size: previous?.size ?? { width: 0, height: 0 },
+      };
+    }),
+    nodes
+  );
+};
+
+/**
+ * Put nodes into a new group, taking them out of any group they were in
+ *
+ * @example
+ * ```ts
+ * const { graph: next, group } = createGroup(graph, selection.nodeIds, 'Auth');
+ * ```
+ */
+export const createGroup = (
+  graph: WorkflowGraph,
+  nodeIds: string[],
+  label: string,
+  id: string = generateId('group')
+): { graph: WorkflowGraph; group: NodeGroup } => {
+  const members = graph.nodes.filter(n => nodeIds.includes(n.id)).map(n => n.id);
+  const nodes = graph.nodes.map(node => (members.includes(node.id) ? { ...node, groupId: id } : node));
+  const [group] = fitGroups([{ id, label, nodeIds: members, position: { x: 0, y: 0 }, size: { width: 0, height: 0 } }], nodes);
+  const others = (graph.groups ?? []).map(other => ({
+    ...other,
+    nodeIds: other.nodeIds.filter(nodeId => !members.includes(nodeId)),
+  }));
+
+  return {
+    graph: { ...graph, nodes, groups: [...others.filter(other => other.nodeIds.length > 0), group] },
+    group,
+  };
+};
+
+/**
+ * Dissolve a group, leaving its members in place
+ */
+export const removeGroup = (graph: WorkflowGraph, groupId: string): WorkflowGraph => ({
+  ...graph,
+  nodes: graph.nodes.map(node => {
+    if (node.groupId !== groupId) return node;
+    const { groupId: _removed, ...rest } = node;
+    return rest;
+  }),
+  groups: (graph.groups ?? []).filter(group => group.id !== groupId),
+});
+
+export const setGroupCollapsed = (graph: WorkflowGraph, groupId: string, collapsed: boolean): WorkflowGraph => ({
+  ...graph,
+  groups: (graph.groups ?? []).map(group => (group.id === groupId ? { ...group, collapsed } : group)),
+});
+
+// ============================================================================
+// Bounds
+// ============================================================================
+
+/**
+ * Resize each group to wrap its members, with room for the label bar
+ */
+export const fitGroups = (groups: NodeGroup[], nodes: NodeData[]): NodeGroup[] =>
+  groups.map(group => {
+    const bounds = getNodesBounds(nodes.filter(n => group.nodeIds.includes(n.id)));
+    if (!bounds) return group;
+    return {
+      ...group,
+      position: { x: bounds.x - GROUP_PADDING, y: bounds.y - GROUP_PADDING - GROUP_HEADER_HEIGHT },
+      size: {
+        width: bounds.width + GROUP_PADDING * 2,
+        height: bounds.height + GROUP_PADDING * 2 + GROUP_HEADER_HEIGHT,
+      },
+    };
+  });
+
+// ============================================================================
+// Collapsed View
+// ============================================================================
+
+/**
+ * Graph as displayed: members of collapsed groups are hidden behind a
+ * summary node, edges into or out of the group attach to that node, and
+ * edges inside the group are hidden. Parallel rerouted edges are merged.
+ *
+ * Rerouted edges keep their ids, so selecting one selects the real edge.
+ */
+export const collapseGroups = (graph: WorkflowGraph): WorkflowGraph => {
+  const collapsed = fitGroups((graph.groups ?? []).filter(g => g.collapsed && g.nodeIds.length > 0), graph.nodes);
+  if (collapsed.length === 0) return graph;
+
+  const owner = new Map<string, string>();
+  collapsed.forEach(group => group.nodeIds.forEach(id => owner.set(id, getGroupSummaryId(group.id))));
+
+  const summaries: NodeData[] = collapsed.map(group => ({
+    id: getGroupSummaryId(group.id),
+    type: 'generic',
+    position: { x: group.position.x, y: group.position.y + GROUP_HEADER_HEIGHT },
+    data: {
+      label: group.label,
+      description: `${group.nodeIds.length} node${group.nodeIds.length === 1 ? '' : 's'}`,
+      icon: '▣',
+      groupSummary: group.id,
+    },
+  }));
+
+  const seen = new Set<string>();
+  const edges: EdgeData[] = [];
+  graph.edges.forEach(edge => {
+    const source = owner.get(edge.source) ?? edge.source;
+    const target = owner.get(edge.target) ?? edge.target;
+    if (source === target && source !== edge.source) return;
+    if (source === edge.source && target === edge.target) {
+      edges.push(edge);
+      return;
+    }
+    const key = `${source}->${target}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    edges.push({ ...edge, source, target });
+  });
+
+  return {
+    ...graph,
+    nodes: [...graph.nodes.filter(node => !owner.has(node.id)), ...summaries],
+    edges,
+  };
+};
+
+/**
+ * Replace summary node ids in a selection with the members they stand for
+ */
+export const expandGroupSelection = (selection: WorkflowSelection, groups: NodeGroup[]): WorkflowSelection => {
+  const nodeIds = selection.nodeIds.flatMap(id => {
+    const groupId = getSummaryGroupId(id);
+    if (groupId === null) return [id];
+    return groups.find(group => group.id === groupId)?.nodeIds ?? [];
+  });
+  return { ...selection, nodeIds: [...new Set(nodeIds)] };
+};
@@ -0,0 +1,232 @@
+/**
+ * Workflow Edit History
+ * Command-based undo/redo for the workflow editor. Every edit is recorded as
+ * a command with the graph before and after it; continuous edits that share
+ * a coalesce key (a drag, an animated layout) collapse into one entry.
+ */
+
+import { useCallback, useRef, useState } from 'react';
+import { NodeData, EdgeData, NodeGroup, generateId } from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type WorkflowCommandType =
+  | 'addNode'
+  | 'addEdge'
+  | 'moveNode'
+  | 'deleteNode'
+  | 'deleteEdge'
+  | 'delete'
+  | 'paste'
+  | 'duplicate'
+  | 'group'
+  | 'ungroup'
+  | 'toggleGroup'
+  | 'layout'
+  | 'import'
+  | 'update';
+
+export type WorkflowGraph = {
+  nodes: NodeData[];
+  edges: EdgeData[];
+  groups?: NodeGroup[];
+};
+
+export type WorkflowCommand = {
+  id: string;
+  type: WorkflowCommandType;
+  label: string;
+  timestamp: Date;
+  /** Consecutive commands with the same key merge into one history entry */
+  coalesceKey?: string;
+};
+
+export type HistoryEntry = {
+  command: WorkflowCommand;
+  before: WorkflowGraph;
+  after: WorkflowGraph;
+};
+
+export type WorkflowHistoryState = {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+};
+
+export type WorkflowChangeSource = 'execute' | 'undo' | 'redo';
+
+/** Passed to `onWorkflowChange` alongside the workflow */
+export type WorkflowChange = {
+  command: WorkflowCommand;
+  source: WorkflowChangeSource;
+};
+
+// ============================================================================
+// History Reducers
+// ============================================================================
+
+export const createHistoryState = (): WorkflowHistoryState => ({ past: [], future: [] });
+
+/**
+ * Record an entry, merging it into the previous one when both carry the same
+ * coalesce key. Clears the redo stack and drops the oldest entries beyond
+ * `maxDepth`.
+ */
+export const pushHistoryEntry = (
+  history: WorkflowHistoryState,
+  entry: HistoryEntry,
+  maxDepth: number
+): WorkflowHistoryState => {
+  const last = history.past[history.past.length - 1];
+  const key = entry.command.coalesceKey;
+
+  if (last && key !== undefined && last.command.coalesceKey === key && history.future.length === 0) {
+    const merged: HistoryEntry = {
+      command: { ...entry.command, id: last.command.id },
+      before: last.before,
+      after: entry.after,
+    };
+    return { past: [...history.past.slice(0, -1), merged], future: [] };
+  }
+
+  const past = [...history.past, entry];
+  return { past: past.slice(Math.max(0, past.length - Math.max(1, maxDepth))), future: [] };
+};
+
+/**
+ * Move the latest entry onto the redo stack
+ */
+export const undoHistory = (
+  history: WorkflowHistoryState
+): { history: WorkflowHistoryState; entry: HistoryEntry } | null => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [entry, ...history.future] },
+    entry,
+  };
+};
+
+/**
+ * Move the next redo entry back onto the undo stack
+ */
+export const redoHistory = (
+  history: WorkflowHistoryState
+): { history: WorkflowHistoryState; entry: HistoryEntry } | null => {
+  const [entry, ...future] = history.future;
+  if (!entry) return null;
+  return { history: { past: [...history.past, entry], future }, entry };
+};
+
+// ============================================================================
+// Hook
+// ============================================================================
+
+export interface UseWorkflowHistoryOptions {
+  /** Maximum number of undo steps kept */
+  maxDepth?: number;
+}
+
+export interface ExecuteOptions {
+  coalesceKey?: string;
+}
+
+export interface UseWorkflowHistoryResult extends WorkflowGraph {
+  /** Apply an edit and record it; returns the new graph and the change */
+  execute: (
+    type: WorkflowCommandType,
+    label: string,
+    update: (graph: WorkflowGraph) => WorkflowGraph,
+    options?: ExecuteOptions
+  ) => { graph: WorkflowGraph; change: WorkflowChange };
+  undo: () => { graph: WorkflowGraph; change: WorkflowChange } | null;
+  redo: () => { graph: WorkflowGraph; change: WorkflowChange } | null;
+  clear: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  history: WorkflowHistoryState;
+  /** Latest graph, readable from callbacks created in earlier renders */
+  getGraph: () => WorkflowGraph;
+}
+
+/**
+ * Workflow graph state with undo/redo
+ *
+ * @example
+ * ```tsx
+ * const { nodes, edges, execute, undo, redo } = useWorkflowHistory(workflow, { maxDepth: 50 });
+ *
+ * execute('addNode', 'Add task', graph => ({ ...graph, nodes: [...graph.nodes, node] }));
+ * ```
+ */
+export function useWorkflowHistory(
+  initial: WorkflowGraph,
+  { maxDepth = 100 }: UseWorkflowHistoryOptions = {}
+): UseWorkflowHistoryResult {
+  const [graph, setGraph] = useState<WorkflowGraph>(initial);
+  const [history, setHistory] = useState<WorkflowHistoryState>(createHistoryState);
+
+  // Mirrors so consecutive calls within one render see each other's results
+  const graphRef = useRef(graph);
+  const historyRef = useRef(history);
+
+  const commit = (nextGraph: WorkflowGraph, nextHistory: WorkflowHistoryState) => {
+    graphRef.current = nextGraph;
+    historyRef.current = nextHistory;
+    setGraph(nextGraph);
+    setHistory(nextHistory);
+  };
+
+  const execute = useCallback<UseWorkflowHistoryResult['execute']>(
+    (type, label, update, options = {}) => {
+      const before = graphRef.current;
+      const after = update(before);
+      const command: WorkflowCommand = {
+        id: generateId('cmd'),
+        type,
+        label,
+        timestamp: new Date(),
+        coalesceKey: options.coalesceKey,
+      };
+      const nextHistory = pushHistoryEntry(historyRef.current, { command, before, after }, maxDepth);
+      commit(after, nextHistory);
+      return { graph: after, change: { command: nextHistory.past[nextHistory.past.length - 1].command, source: 'execute' } };
+    },
+    [maxDepth]
+  );
+
+  const undo = useCallback(() => {
+    const result = undoHistory(historyRef.current);
+    if (!result) return null;
+    commit(result.entry.before, result.history);
+    return { graph: result.entry.before, change: { command: result.entry.command, source: 'undo' as const } };
+  }, []);
+
+  const redo = useCallback(() => {
+    const result = redoHistory(historyRef.current);
+    if (!result) return null;
+    commit(result.entry.after, result.history);
+    return { graph: result.entry.after, change: { command: result.entry.command, source: 'redo' as const } };
+  }, []);
+
+  const clear = useCallback(() => {
+    commit(graphRef.current, createHistoryState());
+  }, []);
+
+  const getGraph = useCallback(() => graphRef.current, []);
+
+  return {
+    nodes: graph.nodes,
+    edges: graph.edges,
+    groups: graph.groups ?? [],
+    execute,
+    undo,
+    redo,
+    clear,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    history,
+    getGraph,
+  };
+}
@@ -7,10 +7,88 @@
 export { WorkflowNode } from './Node';
 export { WorkflowEdge } from './Edge';
 export { WorkflowPlanner, exampleWorkflow } from './WorkflowPlanner';
+export type { WorkflowPlannerProps, WorkflowPlannerHandle } from './WorkflowPlanner';
+export { WorkflowMinimap } from './Minimap';
+export type { WorkflowMinimapProps } from './Minimap';
 
 // Types and utilities
 export * from './types';
 
+// Execution
+export * from './engine';
+export { useWorkflowRunner } from './useWorkflowRunner';
+export type { UseWorkflowRunnerResult } from './useWorkflowRunner';
+
+// Layout
+export { computeLayout, layoutWorkflow, interpolatePositions, findFreePosition } from './layout';
+export type { LayoutDirection, LayoutOptions } from './layout';
+
+// History
+export { useWorkflowHistory, createHistoryState, pushHistoryEntry, undoHistory, redoHistory } from './history';
+export type {
+  WorkflowCommand,
+  WorkflowCommandType,
+  WorkflowChange,
+  WorkflowChangeSource,
+  WorkflowGraph,
+  WorkflowHistoryState,
+  HistoryEntry,
+  UseWorkflowHistoryResult,
+} from './history';
+
+// Import/Export
+export * from './formats';
+
+// Viewport
+export {
+  clampZoom,
+  zoomAtPoint,
+  centerOn,
+  fitNodes,
+  screenToWorld,
+  worldToScreen,
+  getNodesBounds,
+  DEFAULT_ZOOM_LIMITS,
+} from './viewport';
+export type { Viewport, ZoomLimits, Bounds } from './viewport';
+
+// Selection
+export {
+  emptySelection,
+  isSelectionEmpty,
+  toggleSelection,
+  mergeSelections,
+  pruneSelection,
+  sameSelection,
+  rectFromPoints,
+  selectInRect,
+  applySelectionFlags,
+  copySelection,
+  pasteClipboard,
+  removeSelection,
+  moveNodes,
+} from './selection';
+export type { WorkflowSelection, WorkflowClipboard } from './selection';
+
+// Groups
+export { WorkflowGroup } from './Group';
+export type { WorkflowGroupProps } from './Group';
+export {
+  createGroup,
+  removeGroup,
+  setGroupCollapsed,
+  fitGroups,
+  pruneGroups,
+  groupsFromNodes,
+  collapseGroups,
+  expandGroupSelection,
+  getGroupSummaryId,
+  getSummaryGroupId,
+  isGroupSummaryId,
+  GROUP_PADDING,
+  GROUP_HEADER_HEIGHT,
+} from './groups';
+
 // Re-export example data
 export { exampleNodes } from './Node';
 export { exampleEdges } from './Edge';
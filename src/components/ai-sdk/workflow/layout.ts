@@ -0,0 +1,431 @@
+/**
+ * Workflow Auto Layout
+ * Layered (Sugiyama-style) layout for workflow graphs: break cycles, assign
+ * layers along edge direction, order nodes to reduce crossings, then assign
+ * coordinates. Pure functions over NodeData/EdgeData.
+ */
+
+import { NodeData, EdgeData, Position, Size } from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** TB: layers run top to bottom; LR: layers run left to right */
+export type LayoutDirection = 'TB' | 'LR';
+
+export interface LayoutOptions {
+  direction?: LayoutDirection;
+  /** Gap between neighbouring nodes in the same layer */
+  nodeSpacing?: number;
+  /** Gap between layers */
+  layerSpacing?: number;
+  /** Extra gap between neighbouring nodes of different groups */
+  groupSpacing?: number;
+  /** Size used for nodes without an explicit `size` */
+  defaultNodeSize?: Size;
+  /** Top-left corner of the laid out graph */
+  origin?: Position;
+}
+
+type LayoutItem = {
+  id: string;
+  /** Dummy items route edges that span more than one layer */
+  dummy: boolean;
+  groupId?: string;
+  size: Size;
+  layer: number;
+  /** Seed order used to break ties while ordering */
+  seed: number;
+};
+
+const DEFAULT_OPTIONS = {
+  direction: 'TB' as LayoutDirection,
+  nodeSpacing: 40,
+  layerSpacing: 80,
+  groupSpacing: 40,
+  defaultNodeSize: { width: 180, height: 80 },
+  origin: { x: 0, y: 0 },
+};
+
+const DUMMY_SIZE = 20;
+const ORDERING_SWEEPS = 4;
+
+// ============================================================================
+// Phases
+// ============================================================================
+
+/**
+ * Drop self loops and dangling edges, and reverse DFS back edges so the
+ * graph is acyclic. Loops are laid out as if they pointed forward.
+ */
+const makeAcyclic = (nodes: NodeData[], edges: EdgeData[]): [string, string][] => {
+  const ids = new Set(nodes.map(n => n.id));
+  const valid = edges.filter(e => e.source !== e.target && ids.has(e.source) && ids.has(e.target));
+
+  const outgoing = new Map<string, EdgeData[]>();
+  valid.forEach(e => outgoing.set(e.source, [...(outgoing.get(e.source) ?? []), e]));
+
+  const state = new Map<string, 'visiting' | 'done'>();
+  const reversed = new Set<string>();
+
+  const visit = (id: string) => {
+    state.set(id, 'visiting');
+    for (const edge of outgoing.get(id) ?? []) {
+      const targetState = state.get(edge.target);
+      if (targetState === 'visiting') {
+        reversed.add(edge.id);
+      } else if (!targetState) {
+        visit(edge.target);
+      }
+    }
+    state.set(id, 'done');
+  };
+
+  // Start nodes first so their edges define the forward direction
+  const roots = [...nodes].sort((a, b) => Number(b.type === 'start') - Number(a.type === 'start'));
+  roots.forEach(node => {
+    if (!state.has(node.id)) visit(node.id);
+  });
+
+  const seen = new Set<string>();
+  const pairs: [string, string][] = [];
+  valid.forEach(e => {
+    const pair: [string, string] = reversed.has(e.id) ? [e.target, e.source] : [e.source, e.target];
+    const key = pair.join('\u0000');
+    if (!seen.has(key)) {
+      seen.add(key);
+      pairs.push(pair);
+    }
+  });
+  return pairs;
+};
+
+/**
+ * Longest-path layering; end nodes sink to the last layer
+ */
+const assignLayers = (nodes: NodeData[], pairs: [string, string][]): Map<string, number> => {
+  const layers = new Map<string, number>();
+  const inDegree = new Map(nodes.map(n => [n.id, 0]));
+  pairs.forEach(([, target]) => inDegree.set(target, inDegree.get(target)! + 1));
+
+  const queue = nodes.filter(n => inDegree.get(n.id) === 0).map(n => n.id);
+  queue.forEach(id => layers.set(id, 0));
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    pairs.forEach(([source, target]) => {
+      if (source !== id) return;
+      layers.set(target, Math.max(layers.get(target) ?? 0, layers.get(id)! + 1));
+      const remaining = inDegree.get(target)! - 1;
+      inDegree.set(target, remaining);
+      if (remaining === 0) queue.push(target);
+    });
+  }
+
+  const last = Math.max(0, ...layers.values());
+  nodes.forEach(node => {
+    const hasOutgoing = pairs.some(([source]) => source === node.id);
+    if (node.type === 'end' && !hasOutgoing) layers.set(node.id, last);
+  });
+  return layers;
+};
+
+/**
+ * Index of the decision branch an edge belongs to, so "Yes" lays out before
+ * "No" in the order the conditions are declared
+ */
+const branchIndex = (node: NodeData, edge: EdgeData): number => {
+  const conditions = node.data.conditions ?? [];
+  const keys = [edge.condition, edge.sourceHandle, edge.label]
+    .filter((v): v is string => v !== undefined)
+    .map(v => v.toLowerCase());
+  const index = conditions.findIndex(c =>
+    [c.id, c.value, c.label].some(v => keys.includes(String(v).toLowerCase()))
+  );
+  return index === -1 ? conditions.length : index;
+};
+
+/**
+ * Seed order: breadth-first from the start nodes, visiting decision
+ * branches in condition order
+ */
+const seedOrder = (nodes: NodeData[], edges: EdgeData[]): Map<string, number> => {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const order = new Map<string, number>();
+  const queue = [
+    ...nodes.filter(n => n.type === 'start'),
+    ...nodes.filter(n => n.type !== 'start' && !edges.some(e => e.target === n.id)),
+  ].map(n => n.id);
+
+  const visit = (id: string) => {
+    if (order.has(id)) return;
+    order.set(id, order.size);
+    const node = byId.get(id)!;
+    edges
+      .filter(e => e.source === id && byId.has(e.target))
+      .sort((a, b) => (node.type === 'decision' ? branchIndex(node, a) - branchIndex(node, b) : 0))
+      .forEach(e => queue.push(e.target));
+  };
+
+  while (queue.length > 0) visit(queue.shift()!);
+  nodes.forEach(n => visit(n.id));
+  return order;
+};
+
+/**
+ * Sort a layer by barycenter while keeping members of a group contiguous
+ */
+const sortLayer = (layer: LayoutItem[], barycenter: (item: LayoutItem) => number | undefined) => {
+  const positions = new Map(layer.map((item, index) => [item.id, index]));
+  const keyOf = (item: LayoutItem) => barycenter(item) ?? positions.get(item.id)!;
+
+  // A group sorts as one block keyed by its members' average
+  const blocks = new Map<string, { key: number; seed: number }>();
+  layer.forEach(item => {
+    if (!item.groupId || blocks.has(item.groupId)) return;
+    const members = layer.filter(other => other.groupId === item.groupId);
+    blocks.set(item.groupId, {
+      key: members.reduce((sum, m) => sum + keyOf(m), 0) / members.length,
+      seed: Math.min(...members.map(m => m.seed)),
+    });
+  });
+
+  const blockOf = (item: LayoutItem) =>
+    (item.groupId && blocks.get(item.groupId)) || { key: keyOf(item), seed: item.seed };
+  layer.sort(
+    (a, b) =>
+      blockOf(a).key - blockOf(b).key ||
+      blockOf(a).seed - blockOf(b).seed ||
+      keyOf(a) - keyOf(b) ||
+      a.seed - b.seed
+  );
+};
+
+// ============================================================================
+// Layout
+// ============================================================================
+
+/**
+ * Compute layered positions for workflow nodes
+ *
+ * Edge direction decides the layers, decision branches are ordered as their
+ * conditions are declared, and nodes sharing a `groupId` stay next to each
+ * other within a layer.
+ *
+ * @example
+ * ```ts
+ * const positions = computeLayout(workflow.nodes, workflow.edges, { direction: 'LR' });
+ * positions['task-1']; // { x: 260, y: 0 }
+ * ```
+ */
+export const computeLayout = (
+  nodes: NodeData[],
+  edges: EdgeData[],
+  options: LayoutOptions = {}
+): Record<string, Position> => {
+  const config = { ...DEFAULT_OPTIONS, ...options };
+  const horizontal = config.direction === 'LR';
+  if (nodes.length === 0) return {};
+
+  const pairs = makeAcyclic(nodes, edges);
+  const layerOf = assignLayers(nodes, pairs);
+  const seeds = seedOrder(nodes, edges);
+
+  const items = new Map<string, LayoutItem>();
+  nodes.forEach(node => {
+    items.set(node.id, {
+      id: node.id,
+      dummy: false,
+      groupId: node.groupId,
+      size: node.size ?? config.defaultNodeSize,
+      layer: layerOf.get(node.id) ?? 0,
+      seed: seeds.get(node.id) ?? 0,
+    });
+  });
+
+  // Split long edges into chains of dummy items, one per layer crossed
+  const links: [string, string][] = [];
+  pairs.forEach(([source, target]) => {
+    let previous = source;
+    const from = items.get(source)!;
+    const to = items.get(target)!;
+    for (let layer = from.layer + 1; layer < to.layer; layer++) {
+      const id = `dummy:${source}:${target}:${layer}`;
+      items.set(id, {
+        id,
+        dummy: true,
+        size: { width: DUMMY_SIZE, height: DUMMY_SIZE },
+        layer,
+        seed: from.seed + (layer - from.layer) / (to.layer - from.layer),
+      });
+      links.push([previous, id]);
+      previous = id;
+    }
+    links.push([previous, target]);
+  });
+
+  const layerCount = Math.max(...[...items.values()].map(item => item.layer)) + 1;
+  const layers: LayoutItem[][] = Array.from({ length: layerCount }, () => []);
+  items.forEach(item => layers[item.layer].push(item));
+  layers.forEach(layer => layer.sort((a, b) => a.seed - b.seed));
+
+  const upstream = new Map<string, string[]>();
+  const downstream = new Map<string, string[]>();
+  links.forEach(([source, target]) => {
+    downstream.set(source, [...(downstream.get(source) ?? []), target]);
+    upstream.set(target, [...(upstream.get(target) ?? []), source]);
+  });
+
+  // Crossing reduction: alternate downward and upward barycenter sweeps
+  const indexOf = new Map<string, number>();
+  const reindex = () => layers.forEach(layer => layer.forEach((item, index) => indexOf.set(item.id, index)));
+  const barycenterFrom = (neighbours: Map<string, string[]>) => (item: LayoutItem) => {
+    const adjacent = neighbours.get(item.id) ?? [];
+    if (adjacent.length === 0) return undefined;
+    return adjacent.reduce((sum, id) => sum + indexOf.get(id)!, 0) / adjacent.length;
+  };
+
+  reindex();
+  layers.forEach(layer => sortLayer(layer, () => undefined));
+  reindex();
+  for (let sweep = 0; sweep < ORDERING_SWEEPS; sweep++) {
+    const down = sweep % 2 === 0;
+    const sequence = down ? layers.slice(1) : layers.slice(0, -1).reverse();
+    sequence.forEach(layer => {
+      sortLayer(layer, barycenterFrom(down ? upstream : downstream));
+      layer.forEach((item, index) => indexOf.set(item.id, index));
+    });
+  }
+
+  // Coordinates: main axis follows layers, cross axis spreads each layer
+  const crossSize = (item: LayoutItem) => (horizontal ? item.size.height : item.size.width);
+  const mainSize = (item: LayoutItem) => (horizontal ? item.size.width : item.size.height);
+  const gapBetween = (a: LayoutItem, b: LayoutItem) =>
+    config.nodeSpacing + (a.groupId !== b.groupId && (a.groupId || b.groupId) ? config.groupSpacing : 0);
+
+  const cross = new Map<string, number>();
+  layers.forEach((layer, layerIndex) => {
+    // Desired center: average center of upstream neighbours
+    const desired = layer.map(item => {
+      const parents = (upstream.get(item.id) ?? []).filter(id => cross.has(id));
+      if (layerIndex === 0 || parents.length === 0) return undefined;
+      return (
+        parents.reduce((sum, id) => sum + cross.get(id)! + crossSize(items.get(id)!) / 2, 0) / parents.length
+      );
+    });
+
+    let cursor: number | undefined;
+    const placed = layer.map((item, index) => {
+      const wanted = desired[index] !== undefined ? desired[index]! - crossSize(item) / 2 : undefined;
+      const min = cursor === undefined ? undefined : cursor + gapBetween(layer[index - 1], item);
+      const start = min === undefined ? wanted ?? 0 : Math.max(wanted ?? min, min);
+      cursor = start + crossSize(item);
+      return start;
+    });
+
+    // Pushing right drifts the layer; shift it back toward its parents
+    const offsets = placed
+      .map((start, index) => (desired[index] !== undefined ? start + crossSize(layer[index]) / 2 - desired[index]! : undefined))
+      .filter((v): v is number => v !== undefined);
+    const shift = offsets.length > 0 ? offsets.reduce((a, b) => a + b, 0) / offsets.length : 0;
+    layer.forEach((item, index) => cross.set(item.id, placed[index] - shift));
+  });
+
+  // Center each layer's items within the layer band
+  const main = new Map<string, number>();
+  let offset = 0;
+  layers.forEach(layer => {
+    const depth = Math.max(...layer.map(mainSize));
+    layer.forEach(item => main.set(item.id, offset + (depth - mainSize(item)) / 2));
+    offset += depth + config.layerSpacing;
+  });
+
+  const minCross = Math.min(...nodes.map(n => cross.get(n.id)!));
+  const positions: Record<string, Position> = {};
+  nodes.forEach(node => {
+    const c = cross.get(node.id)! - minCross;
+    const m = main.get(node.id)!;
+    positions[node.id] = horizontal
+      ? { x: config.origin.x + m, y: config.origin.y + c }
+      : { x: config.origin.x + c, y: config.origin.y + m };
+  });
+  return positions;
+};
+
+/**
+ * Return nodes moved to their computed layout positions
+ *
+ * @example
+ * ```ts
+ * const laidOut = layoutWorkflow(nodes, edges, { direction: 'TB' });
+ * ```
+ */
+export const layoutWorkflow = (
+  nodes: NodeData[],
+  edges: EdgeData[],
+  options: LayoutOptions = {}
+): NodeData[] => {
+  const positions = computeLayout(nodes, edges, options);
+  return nodes.map(node => ({ ...node, position: positions[node.id] ?? node.position }));
+};
+
+// ============================================================================
+// Animation & Placement Helpers
+// ============================================================================
+
+const easeOutCubic = (t: number) => 1 - Math.pow(1 - t, 3);
+
+/**
+ * Positions part way between two layouts, eased; `t` runs from 0 to 1
+ */
+export const interpolatePositions = (
+  from: Record<string, Position>,
+  to: Record<string, Position>,
+  t: number
+): Record<string, Position> => {
+  const eased = easeOutCubic(Math.max(0, Math.min(1, t)));
+  const result: Record<string, Position> = {};
+  Object.keys(to).forEach(id => {
+    const start = from[id] ?? to[id];
+    result[id] = {
+      x: start.x + (to[id].x - start.x) * eased,
+      y: start.y + (to[id].y - start.y) * eased,
+    };
+  });
+  return result;
+};
+
+/**
+ * Nearest spot to `preferred` where a node of `size` overlaps no other node,
+ * searching downward then sideways
+ */
+export const findFreePosition = (
+  nodes: NodeData[],
+  preferred: Position,
+  size: Size = DEFAULT_OPTIONS.defaultNodeSize,
+  spacing: number = 20
+): Position => {
+  const overlaps = (position: Position) =>
+    nodes.some(node => {
+      const other = node.size ?? DEFAULT_OPTIONS.defaultNodeSize;
+      return (
+        position.x < node.position.x + other.width + spacing &&
+        position.x + size.width + spacing > node.position.x &&
+        position.y < node.position.y + other.height + spacing &&
+        position.y + size.height + spacing > node.position.y
+      );
+    });
+
+  const stepX = size.width + spacing;
+  const stepY = size.height + spacing;
+  for (let ring = 0; ring < 20; ring++) {
+    for (let column = 0; column <= ring; column++) {
+      for (const sign of column === 0 ? [1] : [1, -1]) {
+        const candidate = { x: preferred.x + sign * column * stepX, y: preferred.y + ring * stepY };
+        if (!overlaps(candidate)) return candidate;
+      }
+    }
+  }
+  return preferred;
+};
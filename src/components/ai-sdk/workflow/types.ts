@@ -86,6 +86,7 @@ export type WorkflowData = {
   description?: string;
   nodes: NodeData[];
   edges: EdgeData[];
+  groups?: NodeGroup[];
   viewport?: {
     x: number;
     y: number;
@@ -0,0 +1,98 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { WorkflowData } from './types';
+import {
+  runWorkflow,
+  NodeRunState,
+  RunLogEntry,
+  RunWorkflowOptions,
+  WorkflowHandlers,
+  WorkflowRunResult,
+} from './engine';
+
+export interface UseWorkflowRunnerResult {
+  run: (workflow: WorkflowData) => Promise<WorkflowRunResult>;
+  cancel: () => void;
+  reset: () => void;
+  isRunning: boolean;
+  nodeStates: Record<string, NodeRunState>;
+  log: RunLogEntry[];
+  result: WorkflowRunResult | null;
+}
+
+/**
+ * Hook that runs workflows and streams node status into React state.
+ * WorkflowPlanner uses it when given `handlers` and shows `log` in its run log.
+ *
+ * @example
+ * ```tsx
+ * const runner = useWorkflowRunner(handlers, { nodeTimeoutMs: 10000 });
+ *
+ * <Button onPress={() => runner.run(workflow)} title="Run" />
+ * {runner.log.map(entry => <Text key={entry.id}>{entry.message}</Text>)}
+ * ```
+ */
+export function useWorkflowRunner(
+  handlers: WorkflowHandlers,
+  options: Omit<RunWorkflowOptions, 'signal' | 'onNodeUpdate' | 'onLog'> = {}
+): UseWorkflowRunnerResult {
+  const [nodeStates, setNodeStates] = useState<Record<string, NodeRunState>>({});
+  const [log, setLog] = useState<RunLogEntry[]>([]);
+  const [result, setResult] = useState<WorkflowRunResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  // Cancel any run still in flight on unmount
+  useEffect(() => cancel, [cancel]);
+
+  const run = useCallback(
+    async (workflow: WorkflowData) => {
+      controllerRef.current?.abort();
+      const controller = new AbortController();
+      controllerRef.current = controller;
+
+      setNodeStates({});
+      setLog([]);
+      setResult(null);
+      setIsRunning(true);
+
+      const runResult = await runWorkflow(workflow, handlers, {
+        ...options,
+        signal: controller.signal,
+        onNodeUpdate: (nodeId, state) => {
+          if (controllerRef.current === controller) {
+            setNodeStates(prev => ({ ...prev, [nodeId]: state }));
+          }
+        },
+        onLog: entry => {
+          if (controllerRef.current === controller) {
+            setLog(prev => [...prev, entry]);
+          }
+        },
+      });
+
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setResult(runResult);
+        setIsRunning(false);
+      }
+      return runResult;
+    },
+    [handlers, options.nodeTimeoutMs]
+  );
+
+  const reset = useCallback(() => {
+    cancel();
+    // Detach the aborted run so its final updates don't refill the cleared state
+    controllerRef.current = null;
+    setNodeStates({});
+    setLog([]);
+    setResult(null);
+    setIsRunning(false);
+  }, [cancel]);
+
+  return { run, cancel, reset, isRunning, nodeStates, log, result };
+}
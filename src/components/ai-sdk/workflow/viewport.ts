@@ -0,0 +1,127 @@
+/**
+ * Viewport Math
+ * Zoom and pan helpers for the workflow canvas. A viewport maps world
+ * coordinates to screen coordinates as `screen = world * zoom + (x, y)`.
+ */
+
+import { NodeData, Position } from './types';
+
+export type Viewport = {
+  x: number;
+  y: number;
+  zoom: number;
+};
+
+export type ZoomLimits = {
+  minZoom: number;
+  maxZoom: number;
+};
+
+export type Bounds = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export const DEFAULT_ZOOM_LIMITS: ZoomLimits = { minZoom: 0.25, maxZoom: 3 };
+
+export const clampZoom = (zoom: number, limits: ZoomLimits = DEFAULT_ZOOM_LIMITS): number =>
+  Math.min(limits.maxZoom, Math.max(limits.minZoom, zoom));
+
+export const screenToWorld = (point: Position, viewport: Viewport): Position => ({
+  x: (point.x - viewport.x) / viewport.zoom,
+  y: (point.y - viewport.y) / viewport.zoom,
+});
+
+export const worldToScreen = (point: Position, viewport: Viewport): Position => ({
+  x: point.x * viewport.zoom + viewport.x,
+  y: point.y * viewport.zoom + viewport.y,
+});
+
+/**
+ * Zoom to `zoom` keeping the world point under `focal` (screen coordinates)
+ * in place
+ *
+ * @example
+ * ```ts
+ * // Double the zoom around the tap location
+ * setViewport(v => zoomAtPoint(v, v.zoom * 2, tap));
+ * ```
+ */
+export const zoomAtPoint = (
+  viewport: Viewport,
+  zoom: number,
+  focal: Position,
+  limits: ZoomLimits = DEFAULT_ZOOM_LIMITS
+): Viewport => {
+  const nextZoom = clampZoom(zoom, limits);
+  const world = screenToWorld(focal, viewport);
+  return {
+    x: focal.x - world.x * nextZoom,
+    y: focal.y - world.y * nextZoom,
+    zoom: nextZoom,
+  };
+};
+
+/**
+ * Viewport that places world point `center` in the middle of the screen
+ */
+export const centerOn = (viewport: Viewport, center: Position, width: number, height: number): Viewport => ({
+  ...viewport,
+  x: width / 2 - center.x * viewport.zoom,
+  y: height / 2 - center.y * viewport.zoom,
+});
+
+/**
+ * Bounding box of all nodes in world coordinates
+ */
+export const getNodesBounds = (nodes: NodeData[]): Bounds | null => {
+  if (nodes.length === 0) return null;
+
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  nodes.forEach(node => {
+    minX = Math.min(minX, node.position.x);
+    minY = Math.min(minY, node.position.y);
+    maxX = Math.max(maxX, node.position.x + (node.size?.width || 180));
+    maxY = Math.max(maxY, node.position.y + (node.size?.height || 80));
+  });
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+/**
+ * Viewport fitting all nodes, with the zoom kept inside `limits`
+ */
+export const fitNodes = (
+  nodes: NodeData[],
+  width: number,
+  height: number,
+  limits: ZoomLimits = DEFAULT_ZOOM_LIMITS,
+  padding: number = 50
+): Viewport => {
+  const bounds = getNodesBounds(nodes);
+  if (!bounds) return { x: 0, y: 0, zoom: clampZoom(1, limits) };
+
+  const zoom = clampZoom(
+    Math.min((width - padding * 2) / (bounds.width || 1), (height - padding * 2) / (bounds.height || 1), 1.5),
+    limits
+  );
+  return centerOn({ x: 0, y: 0, zoom }, { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 }, width, height);
+};
+
+// ============================================================================
+// Touch Helpers
+// ============================================================================
+
+type TouchPoint = { pageX: number; pageY: number };
+
+export const getTouchDistance = (a: TouchPoint, b: TouchPoint): number =>
+  Math.hypot(b.pageX - a.pageX, b.pageY - a.pageY);
+
+export const getTouchCenter = (a: TouchPoint, b: TouchPoint): Position => ({
+  x: (a.pageX + b.pageX) / 2,
+  y: (a.pageY + b.pageY) / 2,
+});
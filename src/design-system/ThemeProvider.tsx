@@ -0,0 +1,233 @@
+/**
+ * Theme Provider
+ * Chooses light or dark (forced or following the system) and applies brand
+ * token overrides for everything below it. Providers nest: an inner one
+ * inherits the outer mode and overrides and changes only what it sets, so
+ * an embedded surface can be dark inside a light screen.
+ */
+
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { useColorScheme } from 'react-native';
+import { tokens, lightColors, darkColors, colorToken, DesignTokens } from './tokens';
+import { auditContrast, WCAG_AA_MINIMUM } from './contrast';
+import type { Theme, ColorScheme } from '../hooks/useTheme';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ThemeMode = 'light' | 'dark' | 'system';
+
+export type ColorName = keyof typeof lightColors;
+
+/** OKLCH strings per color, e.g. `{ primary: 'oklch(0.55 0.2 260)' }` */
+export type ColorOverrides = Partial<Record<ColorName, string>>;
+
+export interface ThemeOverrides {
+  /** Applied in both schemes */
+  colors?: ColorOverrides;
+  /** Applied in light mode, over `colors` */
+  light?: ColorOverrides;
+  /** Applied in dark mode, over `colors` */
+  dark?: ColorOverrides;
+  radius?: Partial<DesignTokens['radius']>;
+  spacing?: Partial<DesignTokens['spacing']>;
+}
+
+export interface ThemeProviderProps {
+  /** Forced mode; omit to inherit from an outer provider, else follow the system */
+  mode?: ThemeMode;
+  /** Starting mode when this provider owns the mode and `mode` is not set */
+  defaultMode?: ThemeMode;
+  /** Called by `setMode` from useThemeMode */
+  onModeChange?: (mode: ThemeMode) => void;
+  /** Merged over the overrides of outer providers */
+  overrides?: ThemeOverrides;
+  children: React.ReactNode;
+}
+
+type ThemeContextValue = {
+  theme: Theme;
+  mode: ThemeMode;
+  overrides: ThemeOverrides;
+  setMode: (mode: ThemeMode) => void;
+};
+
+/** Read by useTheme; null outside any provider */
+export const ThemeContext = createContext<ThemeContextValue | null>(null);
+
+// ============================================================================
+// Building themes
+// ============================================================================
+
+/**
+ * Combine overrides, with `inner` winning per color and per value
+ */
+export const mergeThemeOverrides = (outer: ThemeOverrides = {}, inner: ThemeOverrides = {}): ThemeOverrides => ({
+  colors: { ...outer.colors, ...inner.colors },
+  light: { ...outer.light, ...inner.light },
+  dark: { ...outer.dark, ...inner.dark },
+  radius: { ...outer.radius, ...inner.radius },
+  spacing: { ...outer.spacing, ...inner.spacing },
+});
+
+/**
+ * Build a theme for one scheme; override colors are converted from OKLCH
+ * like the base tokens
+ *
+ * @example
+ * ```ts
+ * const theme = createTheme('dark', { colors: { primary: 'oklch(0.62 0.19 260)' } });
+ * theme.colors.primary.rgb; // '#3A81F6'
+ * ```
+ */
+export const createTheme = (
+  colorScheme: ColorScheme,
+  overrides: ThemeOverrides = {},
+  mode: ThemeMode = colorScheme
+): Theme => {
+  const base = colorScheme === 'dark' ? darkColors : lightColors;
+  const colorOverrides: ColorOverrides = { ...overrides.colors, ...overrides[colorScheme] };
+
+  const colors = { ...base };
+  (Object.keys(colorOverrides) as ColorName[]).forEach(name => {
+    const oklch = colorOverrides[name];
+    if (oklch) colors[name] = colorToken(oklch, base[name]?.description ?? name);
+  });
+
+  return {
+    colors,
+    radius: { ...tokens.radius, ...overrides.radius },
+    spacing: { ...tokens.spacing, ...overrides.spacing },
+    isDark: colorScheme === 'dark',
+    colorScheme,
+    mode,
+  };
+};
+
+// Messages already logged, so re-renders with new override objects stay quiet
+const warnedContrast = new Set<string>();
+
+/**
+ * Warn about semantic pairs that miss WCAG AA because of colors these
+ * overrides change; glass and the base palette are left to the full report
+ */
+const warnContrastFailures = (theme: Theme, overrides: ThemeOverrides | undefined) => {
+  const changed = new Set(Object.keys({ ...overrides?.colors, ...overrides?.[theme.colorScheme] }));
+  if (changed.size === 0) return;
+
+  const failures = auditContrast(theme, { glassText: [] }).failures.filter(
+    result => changed.has(result.foreground) || changed.has(result.background)
+  );
+  if (failures.length === 0) return;
+
+  const message = [
+    `ThemeProvider: custom ${theme.colorScheme} colors fail WCAG AA contrast`,
+    ...failures.map(
+      result =>
+        `  ${result.foreground} on ${result.background}: ${result.ratio}:1 (needs ${WCAG_AA_MINIMUM[result.usage]}:1)`
+    ),
+    'See formatContrastReport(auditContrast(theme)) for the full report.',
+  ].join('\n');
+  if (warnedContrast.has(message)) return;
+  warnedContrast.add(message);
+  console.warn(message);
+};
+
+// ============================================================================
+// Provider
+// ============================================================================
+
+/**
+ * Provide a theme to every component below
+ *
+ * @example
+ * ```tsx
+ * <ThemeProvider mode={settings.appearance} overrides={brandTheme}>
+ *   <App />
+ *   <ThemeProvider mode="dark">
+ *     <Terminal recording={recording} />
+ *   </ThemeProvider>
+ * </ThemeProvider>
+ * ```
+ */
+export function ThemeProvider({ mode, defaultMode, onModeChange, overrides, children }: ThemeProviderProps) {
+  const parent = useContext(ThemeContext);
+  const systemScheme = useColorScheme();
+  const [ownMode, setOwnMode] = useState<ThemeMode | undefined>(defaultMode);
+
+  const resolvedMode = mode ?? ownMode ?? parent?.mode ?? 'system';
+  const colorScheme: ColorScheme =
+    resolvedMode === 'system' ? (systemScheme === 'dark' ? 'dark' : 'light') : resolvedMode;
+
+  const merged = useMemo(
+    () => (parent ? mergeThemeOverrides(parent.overrides, overrides) : overrides ?? {}),
+    [parent?.overrides, overrides]
+  );
+
+  const value = useMemo<ThemeContextValue>(
+    () => ({
+      theme: createTheme(colorScheme, merged, resolvedMode),
+      mode: resolvedMode,
+      overrides: merged,
+      setMode: next => {
+        onModeChange?.(next);
+        if (mode !== undefined) return;
+        // The outermost provider that owns a mode keeps it
+        if (ownMode !== undefined || !parent) setOwnMode(next);
+        else parent.setMode(next);
+      },
+    }),
+    [colorScheme, merged, resolvedMode, mode, ownMode, parent, onModeChange]
+  );
+
+  useEffect(() => {
+    if (__DEV__) warnContrastFailures(value.theme, overrides);
+  }, [value.theme, overrides]);
+
+  return <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>;
+}
+
+/**
+ * The active mode and a setter, e.g. for an appearance setting
+ *
+ * @example
+ * ```tsx
+ * const { mode, setMode } = useThemeMode();
+ * <Picker selectedValue={mode} onValueChange={setMode} />
+ * ```
+ */
+export function useThemeMode(): { mode: ThemeMode; colorScheme: ColorScheme; setMode: (mode: ThemeMode) => void } {
+  const context = useContext(ThemeContext);
+  const systemScheme = useColorScheme();
+  if (!context) {
+    return {
+      mode: 'system',
+      colorScheme: systemScheme === 'dark' ? 'dark' : 'light',
+      setMode: () => {},
+    };
+  }
+  return { mode: context.mode, colorScheme: context.theme.colorScheme, setMode: context.setMode };
+}
+
+// ============================================================================
+// Brand themes
+// ============================================================================
+
+/**
+ * Example white-label palette; pass as `overrides`
+ */
+export const exampleBrandTheme: ThemeOverrides = {
+  light: {
+    primary: 'oklch(0.546 0.245 262.881)',
+    primaryForeground: 'oklch(0.985 0 0)',
+    ring: 'oklch(0.623 0.214 259.815)',
+  },
+  dark: {
+    primary: 'oklch(0.623 0.214 259.815)',
+    // White on this blue is 3.6:1, below AA
+    primaryForeground: 'oklch(0.205 0 0)',
+    ring: 'oklch(0.546 0.245 262.881)',
+  },
+  radius: { sm: 4, md: 6, lg: 8, xl: 12 },
+};
@@ -0,0 +1,130 @@
+/**
+ * Color Conversion tests
+ * Reference values are the CSS Color 4 results (as computed by colorjs.io)
+ * for the sRGB primaries, translucent tokens and out-of-gamut colors.
+ */
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  ColorParseError,
+  RgbColor,
+  convertOklch,
+  isInGamut,
+  oklabToOklch,
+  oklchToRgb,
+  parseOklch,
+  rgbToOklab,
+} from '../color';
+
+const assertChannels = (actual: RgbColor, expected: [number, number, number], tolerance = 0.0005) => {
+  [actual.r, actual.g, actual.b].forEach((value, index) => {
+    assert.ok(
+      Math.abs(value - expected[index]) <= tolerance,
+      `channel ${index}: expected ${expected[index]}, got ${value}`
+    );
+  });
+};
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+describe('parseOklch', () => {
+  test('reads numbers, percentages and alpha', () => {
+    assert.deepEqual(parseOklch('oklch(0.577 0.245 27.325)'), { l: 0.577, c: 0.245, h: 27.325, alpha: 1 });
+    assert.deepEqual(parseOklch('oklch(100% 0 0 / 10%)'), { l: 1, c: 0, h: 0, alpha: 0.1 });
+    assert.deepEqual(parseOklch('oklch(0.5 0.1 none / 0.5)'), { l: 0.5, c: 0.1, h: 0, alpha: 0.5 });
+  });
+
+  test('rejects anything else', () => {
+    assert.throws(() => parseOklch('#ff0000'), ColorParseError);
+    assert.throws(() => parseOklch('oklch(0.5 0.1)'), ColorParseError);
+  });
+});
+
+// ============================================================================
+// Reference conversions
+// ============================================================================
+
+describe('convertOklch', () => {
+  const primaries: [string, string, string][] = [
+    ['oklch(0.62796 0.25768 29.2339)', '#FF0000', 'color(display-p3 0.9175 0.2003 0.1386)'],
+    ['oklch(0.86644 0.29483 142.4953)', '#00FF00', 'color(display-p3 0.4584 0.9853 0.2983)'],
+    ['oklch(0.45201 0.31321 264.052)', '#0000FF', 'color(display-p3 0 0 0.9596)'],
+  ];
+
+  primaries.forEach(([input, hex, displayP3]) => {
+    test(`${input} is ${hex}`, () => {
+      const color = convertOklch(input);
+      assert.equal(color.hex, hex);
+      assert.equal(color.displayP3, displayP3);
+    });
+  });
+
+  test('keeps alpha on translucent colors', () => {
+    const color = convertOklch('oklch(1 0 0 / 10%)');
+    assert.equal(color.hex, '#FFFFFF1A');
+    assert.equal(color.rgb, 'rgba(255, 255, 255, 0.1)');
+    assert.equal(color.displayP3, 'color(display-p3 1 1 1 / 0.1)');
+  });
+
+  test('leaves in-gamut colors alone', () => {
+    const color = convertOklch('oklch(0.577 0.245 27.325)');
+    assert.equal(color.hex, '#E7000B');
+    assert.equal(color.rgb, 'rgb(231, 0, 11)');
+  });
+});
+
+// ============================================================================
+// Gamut mapping
+// ============================================================================
+
+describe('oklchToRgb', () => {
+  test('maps Display P3 red into sRGB', () => {
+    const p3Red = parseOklch('oklch(0.64856 0.29954 28.9562)');
+    assertChannels(oklchToRgb(p3Red, 'display-p3'), [1, 0, 0]);
+    assertChannels(oklchToRgb(p3Red, 'srgb'), [1, 0.0438, 0.0456]);
+    assert.equal(convertOklch('oklch(0.64856 0.29954 28.9562)').hex, '#FF0B0C');
+  });
+
+  test('lowers chroma until colors outside both gamuts fit', () => {
+    const green = convertOklch('oklch(0.7 0.4 150)');
+    assert.equal(green.hex, '#00C248');
+    assertChannels(green.p3, [0, 0.7825, 0.1944]);
+
+    const violet = convertOklch('oklch(0.5 0.35 300)');
+    assert.equal(violet.hex, '#8300EA');
+    assertChannels(violet.p3, [0.4702, 0, 0.8995]);
+
+    const cyan = convertOklch('oklch(0.9 0.3 200)');
+    assert.equal(cyan.hex, '#00FEFF');
+    assertChannels(cyan.p3, [0.2514, 0.9927, 1]);
+  });
+
+  test('always returns channels inside the gamut', () => {
+    ['oklch(0.7 0.4 150)', 'oklch(0.5 0.35 300)', 'oklch(0.9 0.3 200)', 'oklch(0.3 0.4 30)'].forEach(input => {
+      assert.ok(isInGamut(oklchToRgb(parseOklch(input), 'srgb'), 0), input);
+      assert.ok(isInGamut(oklchToRgb(parseOklch(input), 'display-p3'), 0), input);
+    });
+  });
+
+  test('keeps lightness while lowering chroma', () => {
+    const source = parseOklch('oklch(0.7 0.4 150)');
+    const mapped = oklabToOklch(rgbToOklab(oklchToRgb(source, 'srgb'), 'srgb'));
+    // The final clip may move lightness by up to the JND (0.02)
+    assert.ok(Math.abs(mapped.l - source.l) < 0.02, `lightness ${mapped.l}`);
+    assert.ok(mapped.c < source.c, `chroma ${mapped.c}`);
+  });
+
+  test('clamps lightness at black and white', () => {
+    assertChannels(oklchToRgb(parseOklch('oklch(1 0.2 120)')), [1, 1, 1], 0);
+    assertChannels(oklchToRgb(parseOklch('oklch(0 0.2 120)')), [0, 0, 0], 0);
+  });
+
+  test('round-trips in-gamut colors through OKLab', () => {
+    const source = { r: 0.2, g: 0.6, b: 0.4, alpha: 1 };
+    const back = oklchToRgb(oklabToOklch(rgbToOklab(source)));
+    assertChannels(back, [0.2, 0.6, 0.4], 0.000001);
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * Color Conversion
+ * OKLCH → OKLab → linear sRGB / Display P3 → gamma-encoded, with CSS Color 4
+ * gamut mapping that lowers chroma until a color fits the target gamut
+ *
+ * Matrices are the ones from CSS Color Module Level 4, so results match
+ * browsers rendering the same `oklch()` values.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface OklchColor {
+  /** Lightness, 0–1 */
+  l: number;
+  /** Chroma, 0 to about 0.4 */
+  c: number;
+  /** Hue in degrees */
+  h: number;
+  /** Opacity, 0–1 */
+  alpha: number;
+}
+
+export interface OklabColor {
+  l: number;
+  a: number;
+  b: number;
+  alpha: number;
+}
+
+/** Gamma-encoded channels, 0–1 */
+export interface RgbColor {
+  r: number;
+  g: number;
+  b: number;
+  alpha: number;
+}
+
+export type ColorGamut = 'srgb' | 'display-p3';
+
+type Vector = [number, number, number];
+type Matrix = [Vector, Vector, Vector];
+
+export class ColorParseError extends Error {
+  constructor(input: string) {
+    super(`Not an oklch() color: ${input}`);
+    this.name = 'ColorParseError';
+  }
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+const OKLCH_PATTERN = /^oklch\(\s*([^\s/]+)\s+([^\s/]+)\s+([^\s/]+)\s*(?:\/\s*([^\s)]+)\s*)?\)$/i;
+
+// `none` counts as zero, as in CSS
+const parseComponent = (text: string, percentScale: number): number => {
+  if (text === 'none') return 0;
+  const value = text.endsWith('%') ? (parseFloat(text) / 100) * percentScale : parseFloat(text);
+  return value;
+};
+
+/**
+ * Parse a CSS `oklch()` string
+ *
+ * @example
+ * ```ts
+ * parseOklch('oklch(0.577 0.245 27.325)'); // { l: 0.577, c: 0.245, h: 27.325, alpha: 1 }
+ * parseOklch('oklch(100% 0 0 / 10%)'); // { l: 1, c: 0, h: 0, alpha: 0.1 }
+ * ```
+ */
+export const parseOklch = (input: string): OklchColor => {
+  const match = OKLCH_PATTERN.exec(input.trim());
+  if (!match) throw new ColorParseError(input);
+
+  const [, l, c, h, alpha] = match;
+  const color = {
+    l: parseComponent(l, 1),
+    // 100% chroma is 0.4 in CSS Color 4
+    c: parseComponent(c, 0.4),
+    h: parseComponent(h.replace(/deg$/, ''), 1),
+    alpha: alpha === undefined ? 1 : parseComponent(alpha, 1),
+  };
+  if (Object.values(color).some(Number.isNaN)) throw new ColorParseError(input);
+  return color;
+};
+
+// ============================================================================
+// Conversion
+// ============================================================================
+
+const multiply = (m: Matrix, [x, y, z]: Vector): Vector => [
+  m[0][0] * x + m[0][1] * y + m[0][2] * z,
+  m[1][0] * x + m[1][1] * y + m[1][2] * z,
+  m[2][0] * x + m[2][1] * y + m[2][2] * z,
+];
+
+const OKLAB_TO_LMS: Matrix = [
+  [1.0, 0.3963377773761749, 0.2158037573099136],
+  [1.0, -0.1055613458156586, -0.0638541728258133],
+  [1.0, -0.0894841775298119, -1.2914855480194092],
+];
+
+const LMS_TO_XYZ: Matrix = [
+  [1.2268798758459243, -0.5578149944602171, 0.2813910456659647],
+  [-0.0405757452148008, 1.112286803280317, -0.0717110580655164],
+  [-0.0763729366746601, -0.4214933324022432, 1.5869240198367816],
+];
+
+const XYZ_TO_LMS: Matrix = [
+  [0.819022437996703, 0.3619062600528904, -0.1288737815209879],
+  [0.0329836539323885, 0.9292868615863434, 0.0361446663506424],
+  [0.0481771893596242, 0.2642395317527308, 0.6335478284694309],
+];
+
+const LMS_TO_OKLAB: Matrix = [
+  [0.210454268309314, 0.7936177747023054, -0.0040720430116193],
+  [1.9779985324311684, -2.42859224204858, 0.450593709617411],
+  [0.0259040424655478, 0.7827717124575296, -0.8086757549230774],
+];
+
+// XYZ (D65) to and from each gamut's linear RGB
+const GAMUTS: Record<ColorGamut, { fromXyz: Matrix; toXyz: Matrix }> = {
+  srgb: {
+    fromXyz: [
+      [3.2409699419045226, -1.537383177570094, -0.4986107602930034],
+      [-0.9692436362808796, 1.8759675015077202, 0.04155505740717559],
+      [0.05563007969699366, -0.20397695888897652, 1.0569715142428786],
+    ],
+    toXyz: [
+      [0.41239079926595934, 0.357584339383878, 0.1804807884018343],
+      [0.21263900587151027, 0.715168678767756, 0.07219231536073371],
+      [0.01933081871559182, 0.11919477979462598, 0.9505321522496607],
+    ],
+  },
+  'display-p3': {
+    fromXyz: [
+      [2.4934969119414263, -0.9313836179191242, -0.40271078445071684],
+      [-0.8294889695615749, 1.7626640603183465, 0.023624685841943587],
+      [0.03584583024378447, -0.07617238926804182, 0.9568845240076872],
+    ],
+    toXyz: [
+      [0.4865709486482162, 0.26566769316909306, 0.1982172852343625],
+      [0.22897456406974884, 0.6917385218365064, 0.079286914093745],
+      [0, 0.04511338185890264, 1.043944368900976],
+    ],
+  },
+};
+
+export const oklchToOklab = ({ l, c, h, alpha }: OklchColor): OklabColor => {
+  const hue = (h * Math.PI) / 180;
+  return { l, a: c * Math.cos(hue), b: c * Math.sin(hue), alpha };
+};
+
+export const oklabToOklch = ({ l, a, b, alpha }: OklabColor): OklchColor => {
+  const c = Math.sqrt(a * a + b * b);
+  const h = c < 1e-8 ? 0 : ((Math.atan2(b, a) * 180) / Math.PI + 360) % 360;
+  return { l, c, h, alpha };
+};
+
+const oklabToLinear = ({ l, a, b }: OklabColor, gamut: ColorGamut): Vector => {
+  const lms = multiply(OKLAB_TO_LMS, [l, a, b]).map(v => v ** 3) as Vector;
+  return multiply(GAMUTS[gamut].fromXyz, multiply(LMS_TO_XYZ, lms));
+};
+
+const linearToOklab = (rgb: Vector, gamut: ColorGamut, alpha: number): OklabColor => {
+  const lms = multiply(XYZ_TO_LMS, multiply(GAMUTS[gamut].toXyz, rgb)).map(Math.cbrt) as Vector;
+  const [l, a, b] = multiply(LMS_TO_OKLAB, lms);
+  return { l, a, b, alpha };
+};
+
+// sRGB transfer function; Display P3 uses the same curve
+const encode = (v: number) => {
+  const abs = Math.abs(v);
+  const encoded = abs <= 0.0031308 ? 12.92 * abs : 1.055 * abs ** (1 / 2.4) - 0.055;
+  return Math.sign(v) * encoded;
+};
+
+const decode = (v: number) => {
+  const abs = Math.abs(v);
+  const decoded = abs <= 0.04045 ? abs / 12.92 : ((abs + 0.055) / 1.055) ** 2.4;
+  return Math.sign(v) * decoded;
+};
+
+/**
+ * Gamma-encoded RGB without gamut mapping; channels may fall outside 0–1
+ */
+export const oklabToRgb = (color: OklabColor, gamut: ColorGamut = 'srgb'): RgbColor => {
+  const [r, g, b] = oklabToLinear(color, gamut).map(encode);
+  return { r, g, b, alpha: color.alpha };
+};
+
+export const rgbToOklab = ({ r, g, b, alpha }: RgbColor, gamut: ColorGamut = 'srgb'): OklabColor =>
+  linearToOklab([decode(r), decode(g), decode(b)], gamut, alpha);
+
+// ============================================================================
+// Gamut mapping
+// ============================================================================
+
+// Differences below this are not noticeable (CSS Color 4)
+const JND = 0.02;
+const EPSILON = 0.0001;
+
+export const isInGamut = ({ r, g, b }: RgbColor, tolerance = 0.000001): boolean =>
+  [r, g, b].every(v => v >= -tolerance && v <= 1 + tolerance);
+
+const clip = (color: RgbColor): RgbColor => ({
+  r: Math.min(1, Math.max(0, color.r)),
+  g: Math.min(1, Math.max(0, color.g)),
+  b: Math.min(1, Math.max(0, color.b)),
+  alpha: color.alpha,
+});
+
+/**
+ * Euclidean distance in OKLab
+ */
+export const deltaEOK = (x: OklabColor, y: OklabColor): number =>
+  Math.sqrt((x.l - y.l) ** 2 + (x.a - y.a) ** 2 + (x.b - y.b) ** 2);
+
+/**
+ * Convert to RGB in the target gamut, lowering chroma at constant
+ * lightness and hue until the color fits (the CSS Color 4 algorithm)
+ *
+ * @example
+ * ```ts
+ * oklchToRgb(parseOklch('oklch(0.7 0.4 150)')); // vivid green, chroma reduced to fit sRGB
+ * ```
+ */
+export const oklchToRgb = (color: OklchColor, gamut: ColorGamut = 'srgb'): RgbColor => {
+  if (color.l >= 1) return { r: 1, g: 1, b: 1, alpha: color.alpha };
+  if (color.l <= 0) return { r: 0, g: 0, b: 0, alpha: color.alpha };
+
+  const toRgb = (c: number) => oklabToRgb(oklchToOklab({ ...color, c }), gamut);
+  const origin = toRgb(color.c);
+  if (isInGamut(origin)) return clip(origin);
+
+  const distance = (rgb: RgbColor, c: number) =>
+    deltaEOK(rgbToOklab(rgb, gamut), oklchToOklab({ ...color, c }));
+
+  let clipped = clip(origin);
+  if (distance(clipped, color.c) < JND) return clipped;
+
+  let min = 0;
+  let max = color.c;
+  let minInGamut = true;
+  while (max - min > EPSILON) {
+    const chroma = (min + max) / 2;
+    const current = toRgb(chroma);
+    if (minInGamut && isInGamut(current)) {
+      min = chroma;
+      continue;
+    }
+    clipped = clip(current);
+    const error = distance(clipped, chroma);
+    if (error < JND) {
+      if (JND - error < EPSILON) return clipped;
+      minInGamut = false;
+      min = chroma;
+    } else {
+      max = chroma;
+    }
+  }
+  return clipped;
+};
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+const to255 = (v: number) => Math.round(Math.min(1, Math.max(0, v)) * 255);
+
+const hexPair = (v: number) => to255(v).toString(16).padStart(2, '0').toUpperCase();
+
+const round = (v: number, digits: number) => Number(v.toFixed(digits));
+
+/**
+ * `#RRGGBB`, or `#RRGGBBAA` when translucent
+ */
+export const toHex = ({ r, g, b, alpha }: RgbColor): string =>
+  `#${hexPair(r)}${hexPair(g)}${hexPair(b)}${alpha < 1 ? hexPair(alpha) : ''}`;
+
+/**
+ * `rgb(r, g, b)`, or `rgba(r, g, b, a)` when translucent
+ */
+export const toRgbString = ({ r, g, b, alpha }: RgbColor): string =>
+  alpha < 1
+    ? `rgba(${to255(r)}, ${to255(g)}, ${to255(b)}, ${round(alpha, 3)})`
+    : `rgb(${to255(r)}, ${to255(g)}, ${to255(b)})`;
+
+/**
+ * CSS `color(display-p3 …)`; pass a color mapped to the P3 gamut
+ */
+export const toDisplayP3String = ({ r, g, b, alpha }: RgbColor): string => {
+  const channels = [r, g, b].map(v => round(Math.min(1, Math.max(0, v)), 4)).join(' ');
+  return alpha < 1 ? `color(display-p3 ${channels} / ${round(alpha, 3)})` : `color(display-p3 ${channels})`;
+};
+
+/**
+ * Convert an `oklch()` string in one step
+ *
+ * @example
+ * ```ts
+ * convertOklch('oklch(0.577 0.245 27.325)').hex; // '#E7000B'
+ * convertOklch('oklch(1 0 0 / 10%)').rgb; // 'rgba(255, 255, 255, 0.1)'
+ * ```
+ */
+export const convertOklch = (input: string) => {
+  const color = parseOklch(input);
+  const srgb = oklchToRgb(color, 'srgb');
+  const p3 = oklchToRgb(color, 'display-p3');
+  return {
+    srgb,
+    p3,
+    hex: toHex(srgb),
+    rgb: toRgbString(srgb),
+    displayP3: toDisplayP3String(p3),
+  };
+};
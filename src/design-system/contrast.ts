@@ -0,0 +1,316 @@
+/**
+ * Contrast Audit
+ * WCAG 2.x contrast ratios and APCA lightness contrast (Lc) for the semantic
+ * color pairs of a theme, including text on translucent glass composited
+ * over a worst-case backdrop
+ *
+ * Colors are measured as displayed: gamut-mapped to sRGB, quantized to
+ * 8 bits and, when translucent, blended over what is behind them.
+ */
+
+import { parseOklch, oklchToRgb, toHex, RgbColor } from './color';
+import { getOpacityForMaterial, MaterialVariant } from './glass-tokens';
+import type { ColorToken } from './tokens';
+import type { ColorName } from './ThemeProvider';
+import type { ColorScheme } from '../hooks/useTheme';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** What the foreground is: body text, large text (24px, or 18.66px bold) or a UI element */
+export type ContrastUsage = 'text' | 'large-text' | 'ui';
+
+export interface ContrastPair {
+  foreground: ColorName;
+  background: ColorName;
+  usage: ContrastUsage;
+}
+
+/** APCA readability bands, from body text down to non-text spot elements */
+export type ApcaLevel = 'body' | 'content' | 'large' | 'spot' | 'fail';
+
+export interface ContrastResult extends ContrastPair {
+  /** WCAG 2.x ratio, 1–21 */
+  ratio: number;
+  /** APCA Lc; negative for light text on dark */
+  apca: number;
+  apcaLevel: ApcaLevel;
+  /** Meets WCAG AA for its usage */
+  aa: boolean;
+  /** Meets WCAG AAA for its usage; always false for UI elements */
+  aaa: boolean;
+}
+
+export interface GlassContrastResult extends ContrastResult {
+  material: MaterialVariant;
+  /** Opacity of the `background` tint */
+  opacity: number;
+  /** The backdrop that gave the lowest ratio, as `#RRGGBB` */
+  backdrop: string;
+  /** Lowest tint opacity that meets AA over every backdrop; null if none does */
+  requiredOpacity: number | null;
+}
+
+export interface ContrastReport {
+  colorScheme: ColorScheme;
+  pairs: ContrastResult[];
+  glass: GlassContrastResult[];
+  /** Pairs and glass results that miss AA */
+  failures: ContrastResult[];
+  passes: boolean;
+}
+
+export interface ContrastAuditOptions {
+  pairs?: ContrastPair[];
+  /** Text colors checked on glass (default foreground and mutedForeground) */
+  glassText?: ColorName[];
+  materials?: MaterialVariant[];
+  /** OKLCH colors a glass surface may sit over (default black and white) */
+  backdrops?: string[];
+}
+
+/** The colors a report needs; a `Theme` qualifies */
+export interface ContrastTheme {
+  colors: Record<string, ColorToken>;
+  colorScheme: ColorScheme;
+}
+
+// ============================================================================
+// Thresholds
+// ============================================================================
+
+/** WCAG 2.x success criteria 1.4.3 and 1.4.11 */
+export const WCAG_AA_MINIMUM: Record<ContrastUsage, number> = { text: 4.5, 'large-text': 3, ui: 3 };
+
+/** WCAG 2.x success criterion 1.4.6; UI elements have no AAA level */
+export const WCAG_AAA_MINIMUM: Record<Exclude<ContrastUsage, 'ui'>, number> = { text: 7, 'large-text': 4.5 };
+
+const APCA_LEVELS: [ApcaLevel, number][] = [
+  ['body', 75],
+  ['content', 60],
+  ['large', 45],
+  ['spot', 30],
+];
+
+/** Foreground on background pairs the components draw */
+export const SEMANTIC_CONTRAST_PAIRS: ContrastPair[] = [
+  { foreground: 'foreground', background: 'background', usage: 'text' },
+  { foreground: 'mutedForeground', background: 'background', usage: 'text' },
+  { foreground: 'cardForeground', background: 'card', usage: 'text' },
+  { foreground: 'mutedForeground', background: 'card', usage: 'text' },
+  { foreground: 'popoverForeground', background: 'popover', usage: 'text' },
+  { foreground: 'primaryForeground', background: 'primary', usage: 'text' },
+  { foreground: 'secondaryForeground', background: 'secondary', usage: 'text' },
+  { foreground: 'mutedForeground', background: 'muted', usage: 'text' },
+  { foreground: 'accentForeground', background: 'accent', usage: 'text' },
+  { foreground: 'destructiveForeground', background: 'destructive', usage: 'text' },
+  { foreground: 'destructive', background: 'background', usage: 'text' },
+  { foreground: 'primary', background: 'background', usage: 'ui' },
+  { foreground: 'ring', background: 'background', usage: 'ui' },
+];
+
+const DEFAULT_BACKDROPS = ['oklch(0 0 0)', 'oklch(1 0 0)'];
+
+const GLASS_MATERIALS: MaterialVariant[] = ['ultraThin', 'thin', 'regular', 'thick', 'ultraThick', 'bar'];
+
+// ============================================================================
+// Measuring
+// ============================================================================
+
+const quantize = (v: number) => Math.round(Math.min(1, Math.max(0, v)) * 255) / 255;
+
+/** A color as an sRGB display shows it */
+const displayed = (oklch: string): RgbColor => {
+  const { r, g, b, alpha } = oklchToRgb(parseOklch(oklch), 'srgb');
+  return { r: quantize(r), g: quantize(g), b: quantize(b), alpha };
+};
+
+/**
+ * Blend a translucent color over an opaque one, in gamma-encoded sRGB like
+ * the platform compositors
+ */
+export const composite = (top: RgbColor, bottom: RgbColor): RgbColor => {
+  const mix = (a: number, b: number) => a * top.alpha + b * (1 - top.alpha);
+  return { r: mix(top.r, bottom.r), g: mix(top.g, bottom.g), b: mix(top.b, bottom.b), alpha: 1 };
+};
+
+const linearize = (v: number) => (v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4));
+
+/** WCAG 2.x relative luminance of an opaque color */
+export const relativeLuminance = ({ r, g, b }: RgbColor): number =>
+  0.2126 * linearize(r) + 0.7152 * linearize(g) + 0.0722 * linearize(b);
+
+/**
+ * WCAG 2.x contrast ratio; a translucent foreground is blended over the
+ * background first
+ *
+ * @example
+ * ```ts
+ * contrastRatio(black, white); // 21
+ * ```
+ */
+export const contrastRatio = (foreground: RgbColor, background: RgbColor): number => {
+  const a = relativeLuminance(composite(foreground, background));
+  const b = relativeLuminance(background);
+  return (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05);
+};
+
+/**
+ * APCA lightness contrast (SAPC 0.0.98G-4g), text on background; positive
+ * for dark text on light, negative for light text on dark
+ *
+ * @example
+ * ```ts
+ * apcaContrast(black, white); // 106.04
+ * apcaContrast(white, black); // -107.88
+ * ```
+ */
+export const apcaContrast = (text: RgbColor, background: RgbColor): number => {
+  const screenLuminance = ({ r, g, b }: RgbColor) => {
+    const y = 0.2126729 * Math.pow(r, 2.4) + 0.7151522 * Math.pow(g, 2.4) + 0.072175 * Math.pow(b, 2.4);
+    // Soft clamp near black
+    return y > 0.022 ? y : y + Math.pow(0.022 - y, 1.414);
+  };
+  const yText = screenLuminance(composite(text, background));
+  const yBackground = screenLuminance(background);
+  if (Math.abs(yBackground - yText) < 0.0005) return 0;
+
+  if (yBackground > yText) {
+    const sapc = (Math.pow(yBackground, 0.56) - Math.pow(yText, 0.57)) * 1.14;
+    return sapc < 0.1 ? 0 : (sapc - 0.027) * 100;
+  }
+  const sapc = (Math.pow(yBackground, 0.65) - Math.pow(yText, 0.62)) * 1.14;
+  return sapc > -0.1 ? 0 : (sapc + 0.027) * 100;
+};
+
+/** The APCA band an Lc value reaches */
+export const getApcaLevel = (lc: number): ApcaLevel =>
+  APCA_LEVELS.find(([, minimum]) => Math.abs(lc) >= minimum)?.[0] ?? 'fail';
+
+const round = (v: number, digits: number) => Number(v.toFixed(digits));
+
+const measure = (pair: ContrastPair, foreground: RgbColor, background: RgbColor): ContrastResult => {
+  const ratio = contrastRatio(foreground, background);
+  const apca = apcaContrast(foreground, background);
+  return {
+    ...pair,
+    ratio: round(ratio, 2),
+    apca: round(apca, 1),
+    apcaLevel: getApcaLevel(apca),
+    // Compare unrounded, so 4.499 does not pass as 4.5
+    aa: ratio >= WCAG_AA_MINIMUM[pair.usage],
+    aaa: pair.usage !== 'ui' && ratio >= WCAG_AAA_MINIMUM[pair.usage],
+  };
+};
+
+// ============================================================================
+// Glass
+// ============================================================================
+
+/**
+ * Text on a glass surface: the `background` tint at `opacity` over each
+ * backdrop, keeping the worst. Blur only averages the backdrop, so solid
+ * black and white bound what any content behind the glass can do.
+ */
+const measureGlass = (
+  text: ColorName,
+  material: MaterialVariant,
+  colors: Record<string, ColorToken>,
+  backdrops: RgbColor[]
+): GlassContrastResult => {
+  const foreground = displayed(colors[text].oklch);
+  const tint = displayed(colors.background.oklch);
+  const pair: ContrastPair = { foreground: text, background: 'background', usage: 'text' };
+
+  const worstAt = (opacity: number) =>
+    backdrops
+      .map(backdrop => ({ backdrop, result: measure(pair, foreground, composite({ ...tint, alpha: opacity }, backdrop)) }))
+      .reduce((worst, current) => (current.result.ratio < worst.result.ratio ? current : worst));
+
+  const opacity = getOpacityForMaterial(material);
+  const { backdrop, result } = worstAt(opacity);
+
+  // Contrast grows with the tint's opacity, so bisect for the AA threshold
+  let requiredOpacity: number | null = null;
+  if (worstAt(1).result.aa) {
+    let low = 0;
+    let high = 1;
+    while (high - low > 0.005) {
+      const mid = (low + high) / 2;
+      if (worstAt(mid).result.aa) high = mid;
+      else low = mid;
+    }
+    requiredOpacity = round(high, 2);
+  }
+
+  return { ...result, material, opacity, backdrop: toHex({ ...backdrop, alpha: 1 }), requiredOpacity };
+};
+
+// ============================================================================
+// Reports
+// ============================================================================
+
+/**
+ * Audit a theme's semantic pairs and its glass surfaces
+ *
+ * @example
+ * ```ts
+ * const report = auditContrast(createTheme('dark', brandTheme));
+ * if (!report.passes) console.log(formatContrastReport(report));
+ * ```
+ */
+export const auditContrast = (
+  { colors, colorScheme }: ContrastTheme,
+  {
+    pairs = SEMANTIC_CONTRAST_PAIRS,
+    glassText = ['foreground', 'mutedForeground'],
+    materials = GLASS_MATERIALS,
+    backdrops = DEFAULT_BACKDROPS,
+  }: ContrastAuditOptions = {}
+): ContrastReport => {
+  const pairResults = pairs
+    .filter(pair => colors[pair.foreground] && colors[pair.background])
+    .map(pair => measure(pair, displayed(colors[pair.foreground].oklch), displayed(colors[pair.background].oklch)));
+
+  const backdropColors = backdrops.map(displayed);
+  const glass = colors.background
+    ? glassText
+        .filter(text => colors[text])
+        .flatMap(text => materials.map(material => measureGlass(text, material, colors, backdropColors)))
+    : [];
+
+  const failures = [...pairResults, ...glass].filter(result => !result.aa);
+  return { colorScheme, pairs: pairResults, glass, failures, passes: failures.length === 0 };
+};
+
+const describe = (result: ContrastResult) =>
+  `${result.foreground} on ${result.background}: ${result.ratio}:1, Lc ${result.apca}`;
+
+/**
+ * Plain-text report, one line per result, failures marked
+ *
+ * @example
+ * ```ts
+ * formatContrastReport(auditContrast(createTheme('light')));
+ * // Contrast (light): 2 of 25 fail WCAG AA
+ * //   ✓ foreground on background: 19.8:1, Lc 105.3 [AAA, APCA body]
+ * //   ...
+ * ```
+ */
+export const formatContrastReport = (report: ContrastReport): string => {
+  const total = report.pairs.length + report.glass.length;
+  const mark = (result: ContrastResult) =>
+    `${result.aa ? '✓' : '✗'} ${describe(result)} [${result.aaa ? 'AAA' : result.aa ? 'AA' : `needs ${WCAG_AA_MINIMUM[result.usage]}:1`}, APCA ${result.apcaLevel}]`;
+
+  return [
+    `Contrast (${report.colorScheme}): ${report.failures.length} of ${total} fail WCAG AA`,
+    ...report.pairs.map(result => `  ${mark(result)}`),
+    ...(report.glass.length > 0 ? ['  Glass (background tint over worst-case backdrop):'] : []),
+    ...report.glass.map(
+      result =>
+        `    ${mark(result)} — ${result.material} at ${result.opacity} over ${result.backdrop}` +
+        (result.aa ? '' : result.requiredOpacity === null ? ', no opacity passes' : `, needs opacity ${result.requiredOpacity}`)
+    ),
+  ].join('\n');
+};
@@ -0,0 +1,81 @@
+/**
+ * CSS Export
+ * Custom properties in the web app's naming (`--background`,
+ * `--card-foreground`, `--chart-1`, …) with light values on `:root` and dark
+ * values on `.dark`. Colors are sRGB, switched to their OKLCH source where
+ * the browser supports it.
+ */
+
+import type { ColorToken } from '../tokens';
+import { TOKEN_BUILD_COMMAND, TokenSources } from './types';
+
+type Declarations = [name: string, value: string][];
+
+/** `cardForeground` → `card-foreground`, `chart1` → `chart-1` */
+export const toCssName = (name: string) =>
+  name.replace(/([a-z])([A-Z0-9])/g, '$1-$2').toLowerCase();
+
+const rule = (selector: string, declarations: Declarations, depth = 0) => {
+  const pad = '  '.repeat(depth);
+  return [
+    `${pad}${selector} {`,
+    ...declarations.map(([name, value]) => `${pad}  --${name}: ${value};`),
+    `${pad}}`,
+  ].join('\n');
+};
+
+const colorDeclarations = (colors: Record<string, ColorToken>, value: (token: ColorToken) => string): Declarations =>
+  Object.entries(colors).map(([name, token]) => [toCssName(name), value(token)]);
+
+const scaleDeclarations = (prefix: string, values: object, unit = 'px'): Declarations =>
+  (Object.entries(values) as [string, number][]).map(([name, value]) => [`${prefix}-${toCssName(name)}`, `${value}${unit}`]);
+
+/**
+ * Build the stylesheet
+ *
+ * @example
+ * ```ts
+ * toCssVariables(sources);
+ * // :root {
+ * //   --background: #FFFFFF;
+ * //   --card-foreground: #0A0A0A;
+ * // ...
+ * ```
+ */
+export const toCssVariables = ({ tokens, typography, glass }: TokenSources): string => {
+  const { light, dark } = tokens.colors;
+
+  const shared: Declarations = [
+    ['radius', `${tokens.radius.base}px`],
+    ...scaleDeclarations('radius', tokens.radius).filter(([name]) => name !== 'radius-base'),
+    ...scaleDeclarations('spacing', tokens.spacing),
+    ...Object.entries(tokens.shadow).map(([name, { opacity, radius, offsetX, offsetY }]): [string, string] => [
+      `shadow-${name}`,
+      `${offsetX}px ${offsetY}px ${radius}px rgb(0 0 0 / ${opacity})`,
+    ]),
+    ...Object.entries(typography).flatMap(([name, style]): Declarations => [
+      [`font-size-${toCssName(name)}`, `${style.fontSize}px`],
+      [`line-height-${toCssName(name)}`, `${style.lineHeight}px`],
+      [`font-weight-${toCssName(name)}`, style.fontWeight ?? '400'],
+      ...(style.letterSpacing ? [[`letter-spacing-${toCssName(name)}`, `${style.letterSpacing}px`] as [string, string]] : []),
+    ]),
+    ...scaleDeclarations('glass-blur', glass.blur),
+    ...scaleDeclarations('glass-opacity', glass.opacity, ''),
+    ['glass-animation-duration', `${glass.performance.animationDuration}ms`],
+  ];
+
+  return [
+    `/* Generated by \`${TOKEN_BUILD_COMMAND}\` from src/design-system. Do not edit by hand. */`,
+    '',
+    rule(':root', [...colorDeclarations(light, token => token.rgb), ...shared]),
+    '',
+    rule('.dark', colorDeclarations(dark, token => token.rgb)),
+    '',
+    '@supports (color: oklch(0 0 0)) {',
+    rule(':root', colorDeclarations(light, token => token.oklch), 1),
+    '',
+    rule('.dark', colorDeclarations(dark, token => token.oklch), 1),
+    '}',
+    '',
+  ].join('\n');
+};
@@ -0,0 +1,50 @@
+/**
+ * Token Export
+ * Generates the native and web copies of the design tokens from the
+ * TypeScript sources, so SwiftUI, CSS and design tools never hold values of
+ * their own. `scripts/tokens.js` writes the files (`yarn tokens:build`) or
+ * fails when the committed ones are stale (`yarn tokens:check`).
+ */
+
+import { tokens } from '../tokens';
+import { typography } from '../typography';
+import { glassTokens } from '../glass-tokens';
+import { toSwiftColors, toSwiftTypography, toSwiftGlass } from './swift';
+import { toDesignTokensJson } from './w3c';
+import { toCssVariables } from './css';
+import { TOKEN_FILE_PATHS, TokenFile, TokenSources } from './types';
+
+export * from './types';
+export { toSwiftColors, toSwiftTypography, toSwiftGlass } from './swift';
+export { toDesignTokens, toDesignTokensJson } from './w3c';
+export { toCssVariables, toCssName } from './css';
+
+export const defaultTokenSources: TokenSources = {
+  tokens,
+  typography,
+  glass: glassTokens,
+};
+
+/**
+ * Every generated file with its contents
+ *
+ * @example
+ * ```ts
+ * buildTokenFiles().map(file => file.path);
+ * // ['modules/expo-ai-sdk/ios/DesignSystem/Colors.swift', ...]
+ * ```
+ */
+export const buildTokenFiles = (sources: TokenSources = defaultTokenSources): TokenFile[] => [
+  { path: TOKEN_FILE_PATHS.swiftColors, contents: toSwiftColors(sources) },
+  { path: TOKEN_FILE_PATHS.swiftTypography, contents: toSwiftTypography(sources) },
+  { path: TOKEN_FILE_PATHS.swiftGlass, contents: toSwiftGlass(sources) },
+  { path: TOKEN_FILE_PATHS.json, contents: toDesignTokensJson(sources) },
+  { path: TOKEN_FILE_PATHS.css, contents: toCssVariables(sources) },
+];
+
+/**
+ * Paths whose committed contents differ from the generated ones; `read`
+ * returns null for a missing file
+ */
+export const findStaleTokenFiles = (files: TokenFile[], read: (path: string) => string | null): string[] =>
+  files.filter(file => read(file.path) !== file.contents).map(file => file.path);
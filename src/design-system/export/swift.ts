@@ -0,0 +1,319 @@
+/**
+ * Swift Export
+ * SwiftUI sources for the native glass components: `Color.Light`/`Color.Dark`
+ * with adaptive accessors, `Font` styles and `DesignSystem` constants. Colors
+ * are the same gamut-mapped sRGB values the React Native components use.
+ */
+
+import { parseOklch, oklchToRgb, toHex } from '../color';
+import type { ColorToken, ShadowToken } from '../tokens';
+import type { MaterialVariant } from '../glass-tokens';
+import { TOKEN_BUILD_COMMAND, TokenSources, TypographyStyle } from './types';
+
+const INDENT = '    ';
+
+const header = (source: string) =>
+  [
+    `// Generated by \`${TOKEN_BUILD_COMMAND}\` from ${source}.`,
+    '// Do not edit by hand: change the tokens and rebuild.',
+    '',
+    'import SwiftUI',
+    '',
+  ].join('\n');
+
+const indent = (lines: string[], depth: number) =>
+  lines.map(line => (line ? INDENT.repeat(depth) + line : line));
+
+/** `2xl` is not a valid Swift identifier */
+const swiftName = (name: string) => name.replace(/^2xl$/, 'xxl');
+
+const swiftNumber = (value: number) => String(Number(value.toFixed(4)));
+
+/** `RRGGBB`, or `RRGGBBAA` when translucent, as read by `Color(hex:)` */
+const swiftHex = (token: ColorToken) => toHex(oklchToRgb(parseOklch(token.oklch), 'srgb')).slice(1);
+
+// ============================================================================
+// Colors
+// ============================================================================
+
+const colorStruct = (name: string, colors: Record<string, ColorToken>) => [
+  `struct ${name} {`,
+  ...Object.entries(colors).map(
+    ([key, token]) => `${INDENT}static let ${key} = Color(hex: "${swiftHex(token)}") // ${token.oklch}`
+  ),
+  '}',
+];
+
+const adaptiveAccessor = (name: string) => [
+  `static func ${name}(_ colorScheme: ColorScheme) -> Color {`,
+  `${INDENT}adaptive(light: Light.${name}, dark: Dark.${name}, colorScheme: colorScheme)`,
+  '}',
+];
+
+const constantStruct = (name: string, doc: string, values: object) => [
+  `/// ${doc}`,
+  `struct ${name} {`,
+  ...(Object.entries(values) as [string, number][]).map(
+    ([key, value]) => `${INDENT}static let ${swiftName(key)}: CGFloat = ${swiftNumber(value)}`
+  ),
+  '}',
+];
+
+const shadowLine = (name: string, { opacity, radius, offsetX, offsetY }: ShadowToken) =>
+  `static let ${name} = (color: Color.black.opacity(${swiftNumber(opacity)}), ` +
+  `radius: CGFloat(${swiftNumber(radius)}), x: CGFloat(${swiftNumber(offsetX)}), y: CGFloat(${swiftNumber(offsetY)}))`;
+
+/**
+ * `Colors.swift`: semantic colors per scheme, adaptive accessors, the hex
+ * initializer and the radius, spacing and shadow constants
+ */
+export const toSwiftColors = ({ tokens }: TokenSources): string => {
+  const { light, dark } = tokens.colors;
+  const names = Object.keys(light).filter(name => name in dark);
+
+  const colorExtension = [
+    '/// Design System Colors for AI SDK UI',
+    "/// Matches the web app's design tokens from Tailwind configuration",
+    'extension Color {',
+    ...indent(
+      [
+        '// MARK: - Semantic Colors (Light Mode)',
+        '',
+        ...colorStruct('Light', light),
+        '',
+        '// MARK: - Semantic Colors (Dark Mode)',
+        '',
+        ...colorStruct('Dark', dark),
+        '',
+        '// MARK: - Adaptive Colors (Auto Light/Dark)',
+        '',
+        '/// Returns the appropriate color based on the current color scheme',
+        'static func adaptive(',
+        `${INDENT}light: Color,`,
+        `${INDENT}dark: Color,`,
+        `${INDENT}colorScheme: ColorScheme`,
+        ') -> Color {',
+        `${INDENT}colorScheme == .dark ? dark : light`,
+        '}',
+        '',
+        '// Semantic color accessors that adapt to color scheme',
+        ...names.flatMap((name, i) => [...(i > 0 ? [''] : []), ...adaptiveAccessor(name)]),
+        '',
+        '// MARK: - Hex Color Initializer',
+        '',
+        '/// Initialize a Color from a hex string',
+        '/// - Parameter hex: Hex string (e.g., "FFFFFF", "#FFFFFF" or "FFFFFF80" with alpha)',
+        'init(hex: String) {',
+        ...indent(
+          [
+            'let hex = hex.trimmingCharacters(in: CharacterSet.alphanumerics.inverted)',
+            'var int: UInt64 = 0',
+            'Scanner(string: hex).scanHexInt64(&int)',
+            '',
+            'let r, g, b, a: UInt64',
+            'switch hex.count {',
+            'case 3: // RGB (12-bit)',
+            `${INDENT}(r, g, b, a) = ((int >> 8) * 17, (int >> 4 & 0xF) * 17, (int & 0xF) * 17, 255)`,
+            'case 6: // RGB (24-bit)',
+            `${INDENT}(r, g, b, a) = (int >> 16, int >> 8 & 0xFF, int & 0xFF, 255)`,
+            'case 8: // RGBA (32-bit)',
+            `${INDENT}(r, g, b, a) = (int >> 24, int >> 16 & 0xFF, int >> 8 & 0xFF, int & 0xFF)`,
+            'default:',
+            `${INDENT}(r, g, b, a) = (0, 0, 0, 255)`,
+            '}',
+            '',
+            'self.init(',
+            `${INDENT}.sRGB,`,
+            `${INDENT}red: Double(r) / 255,`,
+            `${INDENT}green: Double(g) / 255,`,
+            `${INDENT}blue: Double(b) / 255,`,
+            `${INDENT}opacity: Double(a) / 255`,
+            ')',
+          ],
+          1
+        ),
+        '}',
+      ],
+      1
+    ),
+    '}',
+  ];
+
+  const constants = [
+    '// MARK: - Design System Constants',
+    '',
+    'struct DesignSystem {',
+    ...indent(
+      [
+        ...constantStruct('Radius', 'Border radius values', tokens.radius),
+        '',
+        ...constantStruct('Spacing', 'Spacing values', tokens.spacing),
+        '',
+        '/// Shadow values',
+        'struct Shadow {',
+        ...indent(
+          Object.entries(tokens.shadow).map(([name, shadow]) => shadowLine(name, shadow)),
+          1
+        ),
+        '}',
+      ],
+      1
+    ),
+    '}',
+  ];
+
+  return [header('src/design-system/tokens.ts'), ...colorExtension, '', ...constants, ''].join('\n');
+};
+
+// ============================================================================
+// Typography
+// ============================================================================
+
+const FONT_WEIGHTS: Record<NonNullable<TypographyStyle['fontWeight']>, string> = {
+  '400': '.regular',
+  '500': '.medium',
+  '600': '.semibold',
+  '700': '.bold',
+};
+
+/** `Text` has a `body` property of its own */
+const TEXT_MODIFIER_NAMES: Record<string, string> = { body: 'bodyText' };
+
+/**
+ * SwiftUI only offers three leadings; anything at or below Tailwind's
+ * `leading-snug` (1.375) reads as tight
+ */
+const swiftLeading = ({ fontSize, lineHeight }: TypographyStyle) =>
+  lineHeight / fontSize < 1.375 ? '.tight' : lineHeight / fontSize >= 1.75 ? '.loose' : null;
+
+const fontLine = (name: string, style: TypographyStyle) => {
+  const args = [`size: ${swiftNumber(style.fontSize)}`, `weight: ${FONT_WEIGHTS[style.fontWeight ?? '400']}`];
+  if (style.fontFamily) args.push('design: .monospaced');
+  const leading = swiftLeading(style);
+  return [
+    `static let ${name} = Font.system(${args.join(', ')})`,
+    ...(leading ? [`${INDENT}.leading(${leading})`] : []),
+  ];
+};
+
+const textModifier = (name: string, style: TypographyStyle) => [
+  `func ${TEXT_MODIFIER_NAMES[name] ?? name}() -> Text {`,
+  `${INDENT}self.font(.${name})${style.letterSpacing ? `.tracking(${swiftNumber(style.letterSpacing)})` : ''}`,
+  '}',
+];
+
+/**
+ * `Typography.swift`: a `Font` per style, `Text` modifiers that add the
+ * letter spacing, and the line heights for `lineSpacing`
+ */
+export const toSwiftTypography = ({ typography }: TokenSources): string => {
+  const styles = Object.entries(typography);
+  const separated = (build: (entry: [string, TypographyStyle]) => string[]) =>
+    styles.flatMap((entry, i) => [...(i > 0 ? [''] : []), ...build(entry)]);
+
+  return [
+    header('src/design-system/typography.ts'),
+    "/// Typography system matching the web app's design",
+    'extension Font {',
+    ...indent(separated(([name, style]) => fontLine(name, style)), 1),
+    '}',
+    '',
+    '/// Text style modifiers',
+    'extension Text {',
+    ...indent(separated(([name, style]) => textModifier(name, style)), 1),
+    '}',
+    '',
+    'extension DesignSystem {',
+    ...indent(
+      [
+        '/// Line height per text style, in points',
+        'struct LineHeight {',
+        ...indent(
+          styles.map(([name, style]) => `static let ${name}: CGFloat = ${swiftNumber(style.lineHeight)}`),
+          1
+        ),
+        '}',
+      ],
+      1
+    ),
+    '}',
+    '',
+  ].join('\n');
+};
+
+// ============================================================================
+// Glass
+// ============================================================================
+
+const SWIFT_MATERIALS: Record<MaterialVariant, string> = {
+  ultraThin: '.ultraThinMaterial',
+  thin: '.thinMaterial',
+  regular: '.regularMaterial',
+  thick: '.thickMaterial',
+  ultraThick: '.ultraThickMaterial',
+  bar: '.bar',
+};
+
+/**
+ * `Glass.swift`: blur, opacity, the material per component and the
+ * performance limits; milliseconds become `TimeInterval` seconds
+ */
+export const toSwiftGlass = ({ glass }: TokenSources): string => {
+  const { blur, opacity, materials, performance } = glass;
+  const seconds = (ms: number) => swiftNumber(ms / 1000);
+
+  return [
+    header('src/design-system/glass-tokens.ts'),
+    'extension DesignSystem {',
+    ...indent(
+      [
+        '/// Glass effect values for frosted surfaces',
+        'struct Glass {',
+        ...indent(
+          [
+            ...constantStruct('Blur', 'Blur radius, in points', blur),
+            '',
+            '/// Background opacity',
+            'struct Opacity {',
+            ...indent(
+              (Object.entries(opacity) as [string, number][]).map(([name, value]) => `static let ${name}: Double = ${swiftNumber(value)}`),
+              1
+            ),
+            '}',
+            '',
+            '/// Material per component',
+            'struct Materials {',
+            ...indent(
+              (Object.entries(materials) as [string, MaterialVariant][]).map(
+                ([name, variant]) => `static let ${name}: Material = ${SWIFT_MATERIALS[variant]}`
+              ),
+              1
+            ),
+            '}',
+            '',
+            '/// Limits and animation timing',
+            'struct Performance {',
+            ...indent(
+              [
+                `static let maxBlurRadius: CGFloat = ${swiftNumber(performance.maxBlurRadius)}`,
+                `static let maxBlurRadiusModal: CGFloat = ${swiftNumber(performance.maxBlurRadiusModal)}`,
+                `static let maxOverlappingLayers = ${performance.maxOverlappingLayers}`,
+                `static let lazyLoadDelay: TimeInterval = ${seconds(performance.lazyLoadDelay)}`,
+                `static let animationDuration: TimeInterval = ${seconds(performance.animationDuration)}`,
+                `static let springResponse: Double = ${swiftNumber(performance.springResponse)}`,
+                `static let springDampingFraction: Double = ${swiftNumber(performance.springDampingFraction)}`,
+              ],
+              1
+            ),
+            '}',
+          ],
+          1
+        ),
+        '}',
+      ],
+      1
+    ),
+    '}',
+    '',
+  ].join('\n');
+};
@@ -0,0 +1,42 @@
+import type { DesignTokens } from '../tokens';
+import type { GlassTokens } from '../glass-tokens';
+
+// ============================================================================
+// Sources
+// ============================================================================
+
+export interface TypographyStyle {
+  fontSize: number;
+  lineHeight: number;
+  fontWeight?: '400' | '500' | '600' | '700';
+  letterSpacing?: number;
+  fontFamily?: string;
+}
+
+/** Everything the exporters read; defaults to the app's own tokens */
+export interface TokenSources {
+  tokens: DesignTokens;
+  typography: Record<string, TypographyStyle>;
+  glass: GlassTokens;
+}
+
+// ============================================================================
+// Output
+// ============================================================================
+
+export interface TokenFile {
+  /** Relative to the project root */
+  path: string;
+  contents: string;
+}
+
+/** Command that regenerates the files, quoted in their headers */
+export const TOKEN_BUILD_COMMAND = 'yarn tokens:build';
+
+export const TOKEN_FILE_PATHS = {
+  swiftColors: 'modules/expo-ai-sdk/ios/DesignSystem/Colors.swift',
+  swiftTypography: 'modules/expo-ai-sdk/ios/DesignSystem/Typography.swift',
+  swiftGlass: 'modules/expo-ai-sdk/ios/DesignSystem/Glass.swift',
+  json: 'src/design-system/generated/tokens.json',
+  css: 'src/design-system/generated/tokens.css',
+} as const;
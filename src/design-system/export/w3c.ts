@@ -0,0 +1,120 @@
+/**
+ * W3C Design Tokens Export
+ * The tokens in the Design Tokens Community Group format (`$type`, `$value`,
+ * `$description`) for design tools and other platforms. Colors keep their
+ * OKLCH source with an sRGB `hex` fallback.
+ */
+
+import { parseOklch, oklchToRgb, toHex } from '../color';
+import type { ColorToken, ShadowToken } from '../tokens';
+import type { TokenSources, TypographyStyle } from './types';
+
+type TokenValue = string | number | number[] | string[] | { [key: string]: TokenValue | undefined };
+
+interface DesignToken {
+  $type?: string;
+  $value: TokenValue;
+  $description?: string;
+}
+
+interface TokenGroup {
+  $type?: string;
+  $description?: string;
+  [name: string]: DesignToken | TokenGroup | string | undefined;
+}
+
+const round = (value: number) => Number(value.toFixed(4));
+
+const px = (value: number) => ({ value, unit: 'px' });
+
+const ms = (value: number) => ({ value, unit: 'ms' });
+
+/** A group whose members share one `$type` */
+const group = (type: string, values: object, toValue: (value: any) => TokenValue = v => v): TokenGroup => ({
+  $type: type,
+  ...Object.fromEntries(Object.entries(values).map(([name, value]) => [name, { $value: toValue(value) }])),
+});
+
+// ============================================================================
+// Values
+// ============================================================================
+
+const colorValue = (token: ColorToken): TokenValue => {
+  const color = parseOklch(token.oklch);
+  const srgb = oklchToRgb(color, 'srgb');
+  return {
+    colorSpace: 'oklch',
+    components: [round(color.l), round(color.c), round(color.h)],
+    alpha: round(color.alpha),
+    hex: toHex({ ...srgb, alpha: 1 }),
+  };
+};
+
+const colorGroup = (colors: Record<string, ColorToken>): TokenGroup => ({
+  $type: 'color',
+  ...Object.fromEntries(
+    Object.entries(colors).map(([name, token]) => [
+      name,
+      { $value: colorValue(token), $description: token.description },
+    ])
+  ),
+});
+
+const shadowValue = ({ opacity, radius, offsetX, offsetY }: ShadowToken): TokenValue => ({
+  color: { colorSpace: 'srgb', components: [0, 0, 0], alpha: opacity, hex: '#000000' },
+  offsetX: px(offsetX),
+  offsetY: px(offsetY),
+  blur: px(radius),
+  spread: px(0),
+});
+
+const FONT_FAMILIES = {
+  sans: ['system-ui', '-apple-system', 'sans-serif'],
+  mono: ['ui-monospace', 'Menlo', 'monospace'],
+};
+
+const typographyValue = ({ fontSize, lineHeight, fontWeight, letterSpacing, fontFamily }: TypographyStyle): TokenValue => ({
+  fontFamily: fontFamily ? FONT_FAMILIES.mono : FONT_FAMILIES.sans,
+  fontSize: px(fontSize),
+  fontWeight: Number(fontWeight ?? '400'),
+  letterSpacing: px(letterSpacing ?? 0),
+  // A multiple of the font size, as the format requires
+  lineHeight: round(lineHeight / fontSize),
+});
+
+// ============================================================================
+// Document
+// ============================================================================
+
+/**
+ * Build the Design Tokens document
+ *
+ * @example
+ * ```ts
+ * const document = toDesignTokens(sources);
+ * document.color.light.primary.$value.hex; // '#171717'
+ * ```
+ */
+export const toDesignTokens = ({ tokens, typography, glass }: TokenSources) => ({
+  color: {
+    light: colorGroup(tokens.colors.light),
+    dark: colorGroup(tokens.colors.dark),
+  },
+  radius: group('dimension', tokens.radius, px),
+  spacing: group('dimension', tokens.spacing, px),
+  shadow: group('shadow', tokens.shadow, shadowValue),
+  typography: group('typography', typography, typographyValue),
+  glass: {
+    blur: group('dimension', glass.blur, px),
+    opacity: group('number', glass.opacity),
+    animation: {
+      duration: { $type: 'duration', $value: ms(glass.performance.animationDuration) },
+      springResponse: { $type: 'number', $value: glass.performance.springResponse },
+      springDampingFraction: { $type: 'number', $value: glass.performance.springDampingFraction },
+    },
+  },
+});
+
+/** The document as formatted JSON */
+export const toDesignTokensJson = (sources: TokenSources): string =>
+  `${JSON.stringify(toDesignTokens(sources), null, 2)}\n`;
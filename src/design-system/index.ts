@@ -4,7 +4,19 @@
  */
 
 export * from './tokens';
+export * from './color';
+export * from './contrast';
 export * from './glass-tokens';
 export * from './typography';
 export * from './icons';
+export {
+  ThemeProvider,
+  ThemeContext,
+  useThemeMode,
+  createTheme,
+  mergeThemeOverrides,
+  exampleBrandTheme,
+} from './ThemeProvider';
+export type { ThemeMode, ThemeOverrides, ThemeProviderProps, ColorName, ColorOverrides } from './ThemeProvider';
 export { useTheme, getColors, type Theme, type ColorScheme } from '../hooks/useTheme';
+export { useTypography } from '../hooks/useTypography';
@@ -89,3 +89,201 @@ export const typography = {
 } as const;
 
 export type TypographyVariant = keyof typeof typography;
+
+// ============================================================================
+// Dynamic Type
+// ============================================================================
+
+/** iOS content size categories, smallest first; the default is `large` */
+export type ContentSizeCategory =
+  | 'xSmall'
+  | 'small'
+  | 'medium'
+  | 'large'
+  | 'xLarge'
+  | 'xxLarge'
+  | 'xxxLarge'
+  | 'accessibilityMedium'
+  | 'accessibilityLarge'
+  | 'accessibilityXLarge'
+  | 'accessibilityXxLarge'
+  | 'accessibilityXxxLarge';
+
+export const CONTENT_SIZE_CATEGORIES: ContentSizeCategory[] = [
+  'xSmall',
+  'small',
+  'medium',
+  'large',
+  'xLarge',
+  'xxLarge',
+  'xxxLarge',
+  'accessibilityMedium',
+  'accessibilityLarge',
+  'accessibilityXLarge',
+  'accessibilityXxLarge',
+  'accessibilityXxxLarge',
+];
+
+export type IOSTextStyle =
+  | 'largeTitle'
+  | 'title1'
+  | 'title2'
+  | 'title3'
+  | 'headline'
+  | 'body'
+  | 'callout'
+  | 'subheadline'
+  | 'footnote'
+  | 'caption1'
+  | 'caption2';
+
+/**
+ * Point size of each text style per content size category, in the order of
+ * CONTENT_SIZE_CATEGORIES (Apple Human Interface Guidelines)
+ */
+export const DYNAMIC_TYPE_SIZES: Record<IOSTextStyle, number[]> = {
+  largeTitle: [31, 32, 33, 34, 36, 38, 40, 44, 48, 52, 56, 60],
+  title1: [25, 26, 27, 28, 30, 32, 34, 38, 43, 48, 53, 58],
+  title2: [19, 20, 21, 22, 24, 26, 28, 34, 39, 44, 50, 56],
+  title3: [17, 18, 19, 20, 22, 24, 26, 31, 37, 43, 49, 55],
+  headline: [14, 15, 16, 17, 19, 21, 23, 28, 33, 40, 47, 53],
+  body: [14, 15, 16, 17, 19, 21, 23, 28, 33, 40, 47, 53],
+  callout: [13, 14, 15, 16, 18, 20, 22, 26, 32, 38, 44, 51],
+  subheadline: [12, 13, 14, 15, 17, 19, 21, 25, 30, 36, 42, 49],
+  footnote: [12, 12, 12, 13, 15, 17, 19, 23, 27, 33, 38, 44],
+  caption1: [11, 11, 11, 12, 14, 16, 18, 22, 26, 32, 37, 43],
+  caption2: [11, 11, 11, 11, 13, 15, 17, 20, 24, 29, 34, 40],
+};
+
+/** React Native's `fontScale` on iOS for each category */
+const CATEGORY_FONT_SCALES = [0.823, 0.882, 0.941, 1, 1.118, 1.235, 1.353, 1.786, 2.143, 2.643, 3.143, 3.571];
+
+const DEFAULT_CATEGORY_INDEX = CONTENT_SIZE_CATEGORIES.indexOf('large');
+
+/** The iOS text style whose growth curve each variant follows */
+export const variantTextStyles: Record<TypographyVariant, IOSTextStyle> = {
+  display: 'largeTitle',
+  h1: 'title1',
+  h2: 'title2',
+  h3: 'title3',
+  h4: 'headline',
+  body: 'body',
+  bodySmall: 'subheadline',
+  label: 'subheadline',
+  caption: 'caption1',
+  overline: 'caption2',
+  code: 'callout',
+  codeSmall: 'footnote',
+};
+
+/**
+ * Largest multiple of its default size a variant grows to; headings are
+ * already large, labels and badges sit inside fixed controls
+ */
+export const variantMaxScale: Record<TypographyVariant, number> = {
+  display: 1.5,
+  h1: 1.6,
+  h2: 1.8,
+  h3: 2,
+  h4: 2.2,
+  body: 3.1,
+  bodySmall: 3.1,
+  label: 2.5,
+  caption: 3,
+  overline: 2,
+  code: 2.5,
+  codeSmall: 2.5,
+};
+
+export interface ScaledTypographyToken {
+  fontSize: number;
+  lineHeight: number;
+  fontWeight: '400' | '500' | '600' | '700';
+  letterSpacing?: number;
+  fontFamily?: string;
+}
+
+export interface ScaledTypography {
+  category: ContentSizeCategory;
+  /** One of the five accessibility sizes; switch side-by-side layouts to stacked ones */
+  isAccessibilitySize: boolean;
+  /** Each variant at the category's size, ready for a `style` prop */
+  styles: Record<TypographyVariant, ScaledTypographyToken>;
+  /** Scale a one-off size along a variant's curve, e.g. `scale(13, 'label')` */
+  scale: (size: number, variant?: TypographyVariant) => number;
+}
+
+export interface ScaleTypographyOptions {
+  /** Per-variant caps over `variantMaxScale` */
+  maxScale?: Partial<Record<TypographyVariant, number>>;
+}
+
+/**
+ * The category closest to a `fontScale`; Android reports any scale, iOS one
+ * of CATEGORY_FONT_SCALES
+ */
+export const getContentSizeCategory = (fontScale: number): ContentSizeCategory => {
+  let closest = DEFAULT_CATEGORY_INDEX;
+  CATEGORY_FONT_SCALES.forEach((scale, index) => {
+    if (Math.abs(scale - fontScale) < Math.abs(CATEGORY_FONT_SCALES[closest] - fontScale)) closest = index;
+  });
+  return CONTENT_SIZE_CATEGORIES[closest];
+};
+
+export const isAccessibilityCategory = (category: ContentSizeCategory): boolean =>
+  category.startsWith('accessibility');
+
+/**
+ * Multiple of its default size a variant has in a category, capped
+ *
+ * @example
+ * ```ts
+ * getTypeScale('body', 'accessibilityMedium'); // 1.647 (28 / 17)
+ * getTypeScale('display', 'accessibilityXxxLarge'); // 1.5, capped
+ * ```
+ */
+export const getTypeScale = (
+  variant: TypographyVariant,
+  category: ContentSizeCategory,
+  maxScale: number = variantMaxScale[variant]
+): number => {
+  const sizes = DYNAMIC_TYPE_SIZES[variantTextStyles[variant]];
+  const scale = sizes[CONTENT_SIZE_CATEGORIES.indexOf(category)] / sizes[DEFAULT_CATEGORY_INDEX];
+  return Math.min(scale, maxScale);
+};
+
+/**
+ * Every variant scaled for a content size category; size and line height
+ * grow together, letter spacing stays
+ *
+ * @example
+ * ```ts
+ * const type = scaleTypography('accessibilityLarge');
+ * type.styles.body; // { fontSize: 31, lineHeight: 47, fontWeight: '400' }
+ * ```
+ */
+export const scaleTypography = (
+  category: ContentSizeCategory,
+  { maxScale = {} }: ScaleTypographyOptions = {}
+): ScaledTypography => {
+  const scaleOf = (variant: TypographyVariant) => getTypeScale(variant, category, maxScale[variant]);
+
+  const styles = {} as Record<TypographyVariant, ScaledTypographyToken>;
+  (Object.keys(typography) as TypographyVariant[]).forEach(variant => {
+    const token: TypographyToken & { fontFamily?: string } = typography[variant];
+    const scale = scaleOf(variant);
+    styles[variant] = {
+      ...token,
+      fontWeight: token.fontWeight ?? '400',
+      fontSize: Math.round(token.fontSize * scale),
+      lineHeight: Math.round(token.lineHeight * scale),
+    };
+  });
+
+  return {
+    category,
+    isAccessibilitySize: isAccessibilityCategory(category),
+    styles,
+    scale: (size, variant = 'body') => Math.round(size * scaleOf(variant)),
+  };
+};
@@ -2,6 +2,8 @@
 export { useTheme, getColors } from './useTheme';
 export type { Theme, ColorScheme } from './useTheme';
 
+export { useTypography } from './useTypography';
+
 export { useGlassOptimization } from './useGlassOptimization';
 
 export {
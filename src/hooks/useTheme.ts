@@ -1,6 +1,7 @@
-import { useMemo } from 'react';
+import { useContext, useMemo } from 'react';
 import { useColorScheme } from 'react-native';
 import { tokens, lightColors, darkColors } from '../design-system/tokens';
+import { ThemeContext, type ThemeMode } from '../design-system/ThemeProvider';
 
 export type ColorScheme = 'light' | 'dark';
 
@@ -9,23 +10,32 @@ export interface Theme {
   radius: typeof tokens.radius;
   spacing: typeof tokens.spacing;
   isDark: boolean;
+  colorScheme: ColorScheme;
+  /** The mode that produced `colorScheme` */
+  mode: ThemeMode;
 }
 
 /**
- * Hook to access the current theme based on device color scheme
- * Automatically switches between light and dark mode
+ * Hook to access the current theme
+ * Uses the nearest ThemeProvider; without one, switches between light and
+ * dark with the device color scheme
  * Memoized for performance - prevents unnecessary re-renders
  */
 export function useTheme(): Theme {
+  const context = useContext(ThemeContext);
   const colorScheme = useColorScheme();
   const isDark = colorScheme === 'dark';
 
-  return useMemo(() => ({
+  const fallback = useMemo<Theme>(() => ({
     colors: isDark ? darkColors : lightColors,
     radius: tokens.radius,
     spacing: tokens.spacing,
     isDark,
+    colorScheme: isDark ? 'dark' : 'light',
+    mode: 'system',
   }), [isDark]);
+
+  return context?.theme ?? fallback;
 }
 
 /**
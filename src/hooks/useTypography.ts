@@ -0,0 +1,34 @@
+import { useMemo } from 'react';
+import { useWindowDimensions } from 'react-native';
+import {
+  getContentSizeCategory,
+  scaleTypography,
+  type ScaledTypography,
+  type ScaleTypographyOptions,
+} from '../design-system/typography';
+
+/**
+ * Hook to access typography scaled for the system text size (Dynamic Type
+ * on iOS, font size on Android), including the accessibility sizes
+ *
+ * The sizes already include the user's setting, so render them with
+ * `allowFontScaling={false}` or React Native scales them a second time.
+ *
+ * @example
+ * ```tsx
+ * const type = useTypography();
+ *
+ * <View style={{ flexDirection: type.isAccessibilitySize ? 'column' : 'row' }}>
+ *   <Text allowFontScaling={false} style={type.styles.label}>{name}</Text>
+ *   <Text allowFontScaling={false} style={{ fontSize: type.scale(11, 'caption') }}>{time}</Text>
+ * </View>
+ * ```
+ */
+export function useTypography({ maxScale }: ScaleTypographyOptions = {}): ScaledTypography {
+  const { fontScale } = useWindowDimensions();
+  const category = getContentSizeCategory(fontScale);
+  // Callers pass caps inline; compare them by value
+  const capsKey = maxScale ? JSON.stringify(maxScale) : '';
+
+  return useMemo(() => scaleTypography(category, { maxScale }), [category, capsKey]);
+}
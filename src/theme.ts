@@ -1,57 +1,73 @@
 /**
  * Theme Helper
  *
- * Provides a static theme object for components that don't use hooks.
- * For hook-based components, use `useTheme()` from design-system instead.
+ * The flat theme shape (text.primary, surface.default, borderRadius, ...)
+ * used by the ai-sdk components, built from a design-system Theme.
+ * Components call `useAppTheme()` so ThemeProvider mode and overrides
+ * apply; the static `theme` is the light default for code outside React.
  */
 
-import { tokens } from './design-system/tokens';
+import { useMemo } from 'react';
+import { useTheme, type Theme } from './hooks/useTheme';
+import { createTheme } from './design-system/ThemeProvider';
+import { oklchToRgb, parseOklch, toHex } from './design-system/color';
+import { composite } from './design-system/contrast';
 import type { ColorToken } from './design-system/tokens';
 
-// Helper to get RGB value from color token
-const getRgb = (token: ColorToken): string => token.rgb;
-
 // Helper for opacity to hex
 export const opacityToHex = (opacity: number): string => {
   const hex = Math.round(opacity * 255).toString(16).padStart(2, '0');
   return hex.toUpperCase();
 };
 
-// Static theme object (uses light theme by default)
-// For dynamic light/dark mode, use useTheme() hook instead
-export const theme = {
+/**
+ * A token as `#RRGGBB`, with translucent tokens (the dark border) blended
+ * over `backdrop`. Components append `opacityToHex` to app theme colors,
+ * which only gives a valid color on six-digit hex.
+ */
+const opaqueHex = (token: ColorToken, backdrop: ColorToken): string => {
+  const color = oklchToRgb(parseOklch(token.oklch));
+  return toHex(color.alpha < 1 ? composite(color, oklchToRgb(parseOklch(backdrop.oklch))) : color);
+};
+
+/**
+ * Flatten a design-system theme into the app theme shape
+ */
+export const createAppTheme = ({ colors, spacing, radius, isDark }: Theme) => ({
+  isDark,
+
   colors: {
     // Background colors
     background: {
-      default: getRgb(tokens.colors.light.background),
-      elevated: getRgb(tokens.colors.light.card),
+      default: opaqueHex(colors.background, colors.background),
+      elevated: opaqueHex(colors.card, colors.background),
     },
 
     // Surface colors
     surface: {
-      default: getRgb(tokens.colors.light.card),
-      elevated: getRgb(tokens.colors.light.popover),
+      default: opaqueHex(colors.card, colors.background),
+      elevated: opaqueHex(colors.popover, colors.background),
     },
 
     // Text colors
     text: {
-      primary: getRgb(tokens.colors.light.foreground),
-      secondary: getRgb(tokens.colors.light.mutedForeground),
+      primary: opaqueHex(colors.foreground, colors.background),
+      secondary: opaqueHex(colors.mutedForeground, colors.background),
       tertiary: '#999999',
     },
 
     // Brand colors
-    primary: getRgb(tokens.colors.light.primary),
-    secondary: getRgb(tokens.colors.light.secondary),
+    primary: opaqueHex(colors.primary, colors.background),
+    secondary: opaqueHex(colors.secondary, colors.background),
 
     // Status colors
     success: '#22C55E',
-    destructive: getRgb(tokens.colors.light.destructive),
+    destructive: opaqueHex(colors.destructive, colors.background),
     warning: '#F59E0B',
 
     // Border colors
     border: {
-      default: getRgb(tokens.colors.light.border),
+      default: opaqueHex(colors.border, colors.background),
     },
 
     // Shadow
@@ -62,20 +78,20 @@ export const theme = {
 
   // Spacing scale
   spacing: {
-    xs: tokens.spacing.xs,
-    sm: tokens.spacing.sm,
-    md: tokens.spacing.md,
-    lg: tokens.spacing.lg,
-    xl: tokens.spacing.xl,
-    '2xl': tokens.spacing['2xl'],
+    xs: spacing.xs,
+    sm: spacing.sm,
+    md: spacing.md,
+    lg: spacing.lg,
+    xl: spacing.xl,
+    '2xl': spacing['2xl'],
   },
 
   // Border radius
   borderRadius: {
-    sm: tokens.radius.sm,
-    md: tokens.radius.md,
-    lg: tokens.radius.lg,
-    xl: tokens.radius.xl,
+    sm: radius.sm,
+    md: radius.md,
+    lg: radius.lg,
+    xl: radius.xl,
   },
 
   // Typography
@@ -98,4 +114,24 @@ export const theme = {
       // In @expo/ui, this is handled automatically
     },
   },
-} as const;
+});
+
+export type AppTheme = ReturnType<typeof createAppTheme>;
+
+// Static theme object (uses light theme by default)
+// For dynamic light/dark mode and ThemeProvider overrides, use useAppTheme()
+export const theme = createAppTheme(createTheme('light'));
+
+/**
+ * Hook returning the app theme for the nearest ThemeProvider
+ *
+ * @example
+ * ```tsx
+ * const theme = useAppTheme();
+ * <View style={{ backgroundColor: theme.colors.surface.default }} />
+ * ```
+ */
+export function useAppTheme(): AppTheme {
+  const base = useTheme();
+  return useMemo(() => createAppTheme(base), [base]);
+}